@@ -13,6 +13,9 @@ import MediaUpload from "./pages/MediaUpload";
 import ImageEditor from "./pages/ImageEditor";
 import VideoEditor from "./pages/VideoEditor";
 import ContentGenerator from "./pages/ContentGenerator";
+import GenerationLogs from "./pages/GenerationLogs";
+import ReviewQueue from "./pages/ReviewQueue";
+import ContentCalendar from "./pages/ContentCalendar";
 import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 
@@ -34,6 +37,9 @@ const App = () => (
                 <Route path="/persona" element={<ProtectedRoute><PersonaForm /></ProtectedRoute>} />
                 <Route path="/media" element={<ProtectedRoute><MediaUpload /></ProtectedRoute>} />
                 <Route path="/content-generator" element={<ProtectedRoute><ContentGenerator /></ProtectedRoute>} />
+                <Route path="/ai-logs" element={<ProtectedRoute><GenerationLogs /></ProtectedRoute>} />
+                <Route path="/review" element={<ProtectedRoute><ReviewQueue /></ProtectedRoute>} />
+                <Route path="/calendar" element={<ProtectedRoute><ContentCalendar /></ProtectedRoute>} />
                 <Route path="/image-editor" element={<ProtectedRoute><ImageEditor /></ProtectedRoute>} />
                 <Route path="/video-editor" element={<ProtectedRoute><VideoEditor /></ProtectedRoute>} />
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { apiClient, EngagementMetric, PlatformProfile, PublicationMetrics } from '@/lib/api';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ExternalLink } from 'lucide-react';
+
+const METRIC_LABELS: Record<EngagementMetric, string> = {
+  likes: 'Likes',
+  shares: 'Shares',
+  comments: 'Comments',
+  views: 'Views',
+  saves: 'Saves',
+};
+
+const METRICS = Object.keys(METRIC_LABELS) as EngagementMetric[];
+
+interface ContentMetricsProps {
+  contentId: string;
+  platforms: PlatformProfile[];
+}
+
+// Engagement over time for each post a published item went out as
+const ContentMetrics = ({ contentId, platforms }: ContentMetricsProps) => {
+  const [publications, setPublications] = useState<PublicationMetrics[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiClient.getContentMetrics(contentId)
+      .then((response) => setPublications(response.publications))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load metrics'));
+  }, [contentId]);
+
+  if (error) return <p className="text-sm text-destructive">{error}</p>;
+  if (!publications) return <p className="text-sm text-muted-foreground">Loading metrics...</p>;
+  if (publications.length === 0) return <p className="text-sm text-muted-foreground">Not published yet</p>;
+
+  return (
+    <div className="space-y-4">
+      {publications.map((publication) => (
+        <div key={publication.publication_id} className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">
+              {platforms.find((profile) => profile.name === publication.platform)?.label ?? publication.platform}
+            </span>
+            {publication.engagement_rate !== null && (
+              <span className="text-muted-foreground">
+                {(publication.engagement_rate * 100).toFixed(1)}% engagement
+              </span>
+            )}
+            {publication.post_url && (
+              <a
+                href={publication.post_url}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center gap-1 text-primary hover:underline"
+              >
+                <ExternalLink className="h-3 w-3" />
+                View post
+              </a>
+            )}
+          </div>
+          {publication.points.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No metrics recorded yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Recorded</TableHead>
+                  {METRICS.map((metric) => <TableHead key={metric} className="text-right">{METRIC_LABELS[metric]}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {publication.points.map((point) => (
+                  <TableRow key={point.recorded_at}>
+                    <TableCell>{new Date(point.recorded_at).toLocaleString()}</TableCell>
+                    {METRICS.map((metric) => (
+                      <TableCell key={metric} className="text-right">{point[metric]?.toLocaleString() ?? '–'}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ContentMetrics;
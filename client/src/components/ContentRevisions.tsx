@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { apiClient, ContentPart, ContentRevision, ReviewItem, RevisionDiff, RevisionSource } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { History, Pencil, Wand2 } from 'lucide-react';
+
+// One-click refinements; anything else can be typed as a custom instruction
+const QUICK_INSTRUCTIONS = ['Shorter', 'More hype', 'Add a question for fans'];
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  generated: 'Generated',
+  manual: 'Edited',
+  refine: 'Refined',
+};
+
+// Parts are edited without their "2/5" numbering; the server numbers them again on save
+const stripNumbering = (part: ContentPart) => part.text.replace(/^\d+\/\d+\s+/, '');
+
+const describeRevision = (revision: ContentRevision) =>
+  `#${revision.revision_number} ${SOURCE_LABELS[revision.source]}${revision.instruction ? `: "${revision.instruction}"` : ''}`;
+
+interface ContentRevisionsProps {
+  contentId: string;
+  content: string;
+  // Provider chosen in the generator form; 'auto' uses the fallback chain
+  provider?: string;
+  // Threads and carousels are edited part by part and can't be refined
+  parts?: ContentPart[];
+  onRevised: (revision: ContentRevision, content: ReviewItem) => void;
+}
+
+// Edit, refine and compare revisions of one saved variation
+const ContentRevisions = ({ contentId, content, provider, parts, onRevised }: ContentRevisionsProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+  const [partDrafts, setPartDrafts] = useState<string[]>(parts?.map(stripNumbering) ?? []);
+  const [instruction, setInstruction] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [revisions, setRevisions] = useState<ContentRevision[] | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+
+  const loadDiff = async (from?: number, to?: number) => {
+    try {
+      setDiff(await apiClient.getRevisionDiff(contentId, from, to));
+    } catch (error) {
+      toast.error('Could not compare revisions', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    }
+  };
+
+  const loadRevisions = async () => {
+    try {
+      const response = await apiClient.getContentRevisions(contentId);
+      setRevisions(response.revisions);
+      await loadDiff();
+    } catch (error) {
+      toast.error('Could not load revisions', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    }
+  };
+
+  const toggleHistory = () => {
+    if (revisions) {
+      setRevisions(null);
+      setDiff(null);
+    } else {
+      loadRevisions();
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(content);
+    setPartDrafts(parts?.map(stripNumbering) ?? []);
+    setIsEditing(true);
+  };
+
+  const applyRevision = async (revision: ContentRevision, updated: ReviewItem, message: string) => {
+    onRevised(revision, updated);
+    setDraft(revision.content_text);
+    toast.success(message);
+    if (revisions) await loadRevisions();
+  };
+
+  const saveEdit = async () => {
+    setIsBusy(true);
+    try {
+      const response = await apiClient.editContent(contentId, parts ? partDrafts.map((part) => part.trim()) : draft.trim());
+      setIsEditing(false);
+      await applyRevision(response.revision, response.content, 'Edit saved as a new revision');
+    } catch (error) {
+      toast.error('Could not save edit', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const refine = async (text: string) => {
+    if (!text.trim()) return;
+    setIsBusy(true);
+    try {
+      const response = await apiClient.refineContent(contentId, text.trim(), provider);
+      setInstruction('');
+      await applyRevision(response.revision, response.content, `Refined: ${text.trim()}`);
+    } catch (error) {
+      toast.error('Could not refine content', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3 border-t border-border/50 pt-4">
+      {isEditing ? (
+        <div className="space-y-2">
+          {parts ? (
+            partDrafts.map((part, index) => (
+              <div key={index} className="space-y-1">
+                <p className="text-xs text-muted-foreground">Part {index + 1} of {partDrafts.length}</p>
+                <Textarea
+                  value={part}
+                  onChange={(event) => setPartDrafts((current) => current.map((item, position) => (position === index ? event.target.value : item)))}
+                  rows={3}
+                />
+              </div>
+            ))
+          ) : (
+            <Textarea value={draft} onChange={(event) => setDraft(event.target.value)} rows={5} />
+          )}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={saveEdit}
+              disabled={isBusy || (parts ? partDrafts.some((part) => !part.trim()) : !draft.trim() || draft.trim() === content)}
+            >
+              Save edit
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={startEditing} disabled={isBusy}>
+            <Pencil className="h-4 w-4 mr-2" />
+            {parts ? 'Edit parts' : 'Edit'}
+          </Button>
+          {!parts && QUICK_INSTRUCTIONS.map((quick) => (
+            <Button key={quick} size="sm" variant="outline" onClick={() => refine(quick.toLowerCase())} disabled={isBusy}>
+              <Wand2 className="h-4 w-4 mr-2" />
+              {quick}
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" onClick={toggleHistory}>
+            <History className="h-4 w-4 mr-2" />
+            {revisions ? 'Hide revisions' : 'Revisions'}
+          </Button>
+        </div>
+      )}
+
+      {!isEditing && !parts && (
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            refine(instruction);
+          }}
+        >
+          <Input
+            value={instruction}
+            onChange={(event) => setInstruction(event.target.value)}
+            placeholder="Or describe a change, e.g. mention the tour dates"
+            maxLength={300}
+            disabled={isBusy}
+          />
+          <Button type="submit" size="sm" variant="secondary" disabled={isBusy || instruction.trim().length < 2}>
+            Refine
+          </Button>
+        </form>
+      )}
+
+      {revisions && (
+        <div className="rounded-md border border-border/50 p-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-muted-foreground">Compare</span>
+            <Select
+              value={diff ? String(diff.from.revision_number) : undefined}
+              onValueChange={(value) => loadDiff(Number(value), diff?.to.revision_number)}
+            >
+              <SelectTrigger className="h-8 w-[200px]">
+                <SelectValue placeholder="From" />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map((revision) => (
+                  <SelectItem key={revision.id} value={String(revision.revision_number)}>
+                    {describeRevision(revision)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">with</span>
+            <Select
+              value={diff ? String(diff.to.revision_number) : undefined}
+              onValueChange={(value) => loadDiff(diff?.from.revision_number, Number(value))}
+            >
+              <SelectTrigger className="h-8 w-[200px]">
+                <SelectValue placeholder="To" />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map((revision) => (
+                  <SelectItem key={revision.id} value={String(revision.revision_number)}>
+                    {describeRevision(revision)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {revisions.length === 1 && (
+            <p className="text-xs text-muted-foreground">Only the generated text so far. Edit or refine it to create a revision.</p>
+          )}
+
+          {diff && revisions.length > 1 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+              {[diff.from, diff.to].map((revision, column) => (
+                <div key={column} className="rounded-md bg-muted/30 p-3 space-y-2">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{describeRevision(revision)}</span>
+                    {revision.quality_score !== null && (
+                      <Badge variant="outline">Score: {(revision.quality_score * 100).toFixed(0)}%</Badge>
+                    )}
+                  </div>
+                  <p className="leading-relaxed whitespace-pre-line">
+                    {diff.segments
+                      .filter((segment) => segment.op !== (column === 0 ? 'insert' : 'delete'))
+                      .map((segment, index) => (
+                        <span
+                          key={index}
+                          className={
+                            segment.op === 'delete'
+                              ? 'bg-destructive/20 line-through'
+                              : segment.op === 'insert'
+                                ? 'bg-green-500/20'
+                                : undefined
+                          }
+                        >
+                          {segment.text}
+                        </span>
+                      ))}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContentRevisions;
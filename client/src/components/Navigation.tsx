@@ -1,5 +1,5 @@
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Music, User, Upload, Sparkles, Image, Video, LogOut, LogIn } from 'lucide-react';
+import { Music, User, Upload, Sparkles, Image, Video, LogOut, LogIn, Activity, ClipboardCheck, CalendarDays } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -22,6 +22,18 @@ const Navigation = () => {
     path: '/content-generator',
     label: 'AI Content',
     icon: Sparkles
+  }, {
+    path: '/review',
+    label: 'Review',
+    icon: ClipboardCheck
+  }, {
+    path: '/calendar',
+    label: 'Calendar',
+    icon: CalendarDays
+  }, {
+    path: '/ai-logs',
+    label: 'AI Logs',
+    icon: Activity
   }, {
     path: '/media',
     label: 'Media',
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { apiClient, PlatformName, QualitySpan, ScorerBreakdown } from '@/lib/api';
+import { Badge } from '@/components/ui/badge';
+
+interface QualityHighlightsProps {
+  text: string;
+  platform?: PlatformName;
+}
+
+interface Segment {
+  text: string;
+  spans: QualitySpan[];
+}
+
+// Cut the text at every span boundary so overlapping spans still underline each character once
+const segmentText = (text: string, spans: QualitySpan[]): Segment[] => {
+  const cuts = [...new Set([0, text.length, ...spans.flatMap((span) => [span.start, span.end])])]
+    .filter((cut) => cut >= 0 && cut <= text.length)
+    .sort((a, b) => a - b);
+
+  return cuts.slice(0, -1).map((start, index) => {
+    const end = cuts[index + 1];
+    return { text: text.slice(start, end), spans: spans.filter((span) => span.start < end && span.end > start) };
+  });
+};
+
+const scoreVariant = (score: number) => (score >= 0.8 ? 'secondary' : score >= 0.5 ? 'outline' : 'destructive');
+
+// A post with the quality scorers' problem spans underlined (hover for the reason) and one badge per sub-score
+const QualityHighlights = ({ text, platform }: QualityHighlightsProps) => {
+  const [spans, setSpans] = useState<QualitySpan[]>([]);
+  const [breakdown, setBreakdown] = useState<ScorerBreakdown[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    apiClient.scoreContentQuality(text, platform)
+      .then((response) => {
+        if (cancelled) return;
+        setSpans(response.highlights);
+        setBreakdown(response.breakdown);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setSpans([]);
+        setBreakdown([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [text, platform]);
+
+  return (
+    <div className="mb-4 space-y-3">
+      <p className="text-sm leading-relaxed whitespace-pre-line">
+        {segmentText(text, spans).map((segment, index) => (
+          segment.spans.length === 0 ? (
+            <span key={index}>{segment.text}</span>
+          ) : (
+            <span
+              key={index}
+              title={[...new Set(segment.spans.map((span) => span.message))].join('\n')}
+              className={`underline decoration-wavy underline-offset-4 ${
+                segment.spans.some((span) => span.severity === 'error') ? 'decoration-destructive' : 'decoration-amber-500'
+              }`}
+            >
+              {segment.text}
+            </span>
+          )
+        ))}
+      </p>
+
+      {breakdown.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {breakdown.map((result) => (
+            <Badge
+              key={result.name}
+              variant={scoreVariant(result.score)}
+              className="text-xs font-normal"
+              title={result.issues.join('\n') || undefined}
+            >
+              {result.label} {Math.round(result.score * 100)}%
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QualityHighlights;
@@ -2,7 +2,8 @@ import { useEffect, useState } from 'react';
 import { useRealtime } from '@/contexts/RealtimeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
-import { Bell, Sparkles } from 'lucide-react';
+import { apiClient } from '@/lib/api';
+import { Bell, CalendarClock, Sparkles } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
@@ -20,14 +21,35 @@ interface Notification {
   message: string;
   timestamp: Date;
   read: boolean;
+  // Stored server-side (notifications table); reading it is saved too
+  stored?: boolean;
 }
 
 const RealtimeNotifications = () => {
   const { subscribeToChannel, unsubscribeFromChannel, isConnected } = useRealtime();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
 
+  // Stored notifications that arrived while the user was away
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    apiClient.getNotifications(true)
+      .then((response) => {
+        setNotifications(response.notifications.slice(0, 10).map((notification) => ({
+          id: notification.id,
+          type: notification.type,
+          message: notification.message,
+          timestamp: new Date(notification.created_at),
+          read: false,
+          stored: true,
+        })));
+        setUnreadCount(response.unread);
+      })
+      .catch(() => undefined);
+  }, [isAuthenticated]);
+
   useEffect(() => {
     if (!isAuthenticated || !isConnected) return;
 
@@ -37,6 +59,8 @@ const RealtimeNotifications = () => {
 
       let message = '';
       let notificationType = '';
+      let id: string = crypto.randomUUID();
+      let stored = false;
 
       if (eventType === 'INSERT' && newRecord.table === 'generated_content') {
         message = `New AI content generated: ${newRecord.content_type}`;
@@ -51,6 +75,18 @@ const RealtimeNotifications = () => {
           message = `Content ${newRecord.approval_status}: ${newRecord.content_type}`;
           notificationType = 'content_status_change';
         }
+      } else if (eventType === 'INSERT' && payload.table === 'notifications') {
+        if (newRecord.user_id === user?.id) {
+          message = newRecord.message;
+          notificationType = newRecord.type;
+          id = newRecord.id;
+          stored = true;
+
+          toast.info('Ready to publish', {
+            description: newRecord.message,
+            icon: <CalendarClock className="h-4 w-4" />,
+          });
+        }
       } else if (eventType === 'INSERT' && newRecord.table === 'ai_generation_logs') {
         if (!newRecord.success) {
           message = `AI generation failed: ${newRecord.error_message || 'Unknown error'}`;
@@ -64,11 +100,12 @@ const RealtimeNotifications = () => {
 
       if (message) {
         const notification: Notification = {
-          id: crypto.randomUUID(),
+          id,
           type: notificationType,
           message,
           timestamp: new Date(),
           read: false,
+          stored,
         };
 
         setNotifications((prev) => [notification, ...prev].slice(0, 10)); // Keep last 10
@@ -79,9 +116,12 @@ const RealtimeNotifications = () => {
     return () => {
       unsubscribeFromChannel(contentChannel);
     };
-  }, [isAuthenticated, isConnected, subscribeToChannel, unsubscribeFromChannel]);
+  }, [isAuthenticated, isConnected, subscribeToChannel, unsubscribeFromChannel, user?.id]);
 
   const markAsRead = (id: string) => {
+    if (notifications.find((n) => n.id === id)?.stored) {
+      apiClient.markNotificationsRead([id]).catch(() => undefined);
+    }
     setNotifications((prev) =>
       prev.map((n) => (n.id === id ? { ...n, read: true } : n))
     );
@@ -89,6 +129,7 @@ const RealtimeNotifications = () => {
   };
 
   const markAllAsRead = () => {
+    apiClient.markNotificationsRead().catch(() => undefined);
     setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
     setUnreadCount(0);
   };
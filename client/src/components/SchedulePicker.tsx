@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { addHours, format, startOfHour } from 'date-fns';
+import { PlatformName, PlatformProfile, ReviewItem } from '@/lib/api';
+import { useScheduleContent } from '@/hooks/use-schedule-content';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock } from 'lucide-react';
+
+interface SchedulePickerProps {
+  item: ReviewItem;
+  platforms: PlatformProfile[];
+  onScheduled: (content: ReviewItem) => void;
+}
+
+// datetime-local inputs work in local time without seconds
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+// Pick a platform and time for approved content, or move scheduled content to another slot
+const SchedulePicker = ({ item, platforms, onScheduled }: SchedulePickerProps) => {
+  const [platform, setPlatform] = useState<PlatformName | ''>(
+    item.scheduled_platform ?? item.content_metadata?.platform ?? platforms[0]?.name ?? ''
+  );
+  const [when, setWhen] = useState(() =>
+    toInputValue(item.scheduled_at ? new Date(item.scheduled_at) : startOfHour(addHours(new Date(), 2)))
+  );
+  const { schedule, busyId } = useScheduleContent(onScheduled);
+
+  const handleSchedule = () => {
+    if (!platform || !when) return;
+    void schedule(item.id, { platform, scheduled_at: new Date(when).toISOString() });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={platform} onValueChange={(value) => setPlatform(value as PlatformName)}>
+        <SelectTrigger className="w-36"><SelectValue placeholder="Platform" /></SelectTrigger>
+        <SelectContent>
+          {platforms.map((profile) => (
+            <SelectItem key={profile.name} value={profile.name}>{profile.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="datetime-local"
+        value={when}
+        min={toInputValue(new Date())}
+        onChange={(event) => setWhen(event.target.value)}
+        className="w-56"
+      />
+      <Button size="sm" onClick={handleSchedule} disabled={!platform || !when || busyId === item.id}>
+        <CalendarClock className="h-4 w-4 mr-1" />
+        {item.approval_status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+      </Button>
+    </div>
+  );
+};
+
+export default SchedulePicker;
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiClient, CalibrationReport, QualityFeature } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Target } from 'lucide-react';
+
+const FEATURE_LABELS: Record<QualityFeature, string> = {
+  readability: 'Readability',
+  punctuation: '! and ?',
+  direct_address: 'Talking to "you"',
+  emotional_words: 'Emotional words',
+  novelty: 'New / soon',
+  mentions: '@mentions',
+  hashtags: 'Hashtags',
+  length_fit: 'Length fit',
+  brand_consistency: 'Brand consistency',
+};
+
+const WEIGHT_LABELS = {
+  readability: 'Readability',
+  engagement_potential: 'Engagement',
+  brand_consistency: 'Brand',
+} as const;
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${(rate * 100).toFixed(1)}%`);
+
+// How well quality scores predict engagement, and the artist's calibrated weights once there is enough data;
+// only the artist's owner sees this card
+const ScoringCalibration = () => {
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+
+  const loadReport = useCallback(() => {
+    apiClient.getScoringReport()
+      .then(setReport)
+      .catch(() => setReport(null));
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleCalibrate = async () => {
+    setIsCalibrating(true);
+    try {
+      const response = await apiClient.calibrateScoring();
+      toast.success(response.message);
+      loadReport();
+    } catch (error) {
+      toast.error('Could not calibrate scoring', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  if (!report) return null;
+
+  const { model, summary } = report;
+  const importance = model
+    ? (Object.entries(model.feature_importance) as Array<[QualityFeature, number]>).sort(([, a], [, b]) => b - a)
+    : [];
+
+  return (
+    <Card className="bg-gradient-card shadow-creative border-border/50 mb-8">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Target className="h-5 w-5" />
+              <span>Quality scoring</span>
+            </CardTitle>
+            <CardDescription>
+              {model
+                ? `Calibrated on ${model.sample_count} posts ${new Date(model.trained_at).toLocaleString()} · R² ${model.r_squared.toFixed(2)}`
+                : `Fixed weights until ${report.min_posts} published posts have engagement data (${summary.sample_count} so far)`}
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleCalibrate} disabled={isCalibrating || summary.sample_count < report.min_posts}>
+            Calibrate now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Weights</p>
+            {(Object.keys(WEIGHT_LABELS) as Array<keyof typeof WEIGHT_LABELS>).map((key) => {
+              const weight = model ? model.weights[key] : { readability: 0.3, engagement_potential: 0.4, brand_consistency: 0.3 }[key];
+              return (
+                <div key={key} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>{WEIGHT_LABELS[key]}</span>
+                    <span className="text-muted-foreground">{Math.round(weight * 100)}%</span>
+                  </div>
+                  <Progress value={weight * 100} />
+                </div>
+              );
+            })}
+          </div>
+          <div className="space-y-2 text-sm">
+            <p className="font-medium">How well scores track engagement</p>
+            <p>
+              Fixed weights: <span className="font-medium">{summary.default_correlation?.toFixed(2) ?? '—'}</span> correlation
+            </p>
+            <p>
+              Calibrated: <span className="font-medium">{summary.calibrated_correlation?.toFixed(2) ?? '—'}</span> correlation
+              {summary.mean_absolute_error !== null && `, off by ${formatRate(summary.mean_absolute_error)} on average`}
+            </p>
+            {importance.length > 0 && (
+              <p className="text-muted-foreground">
+                Strongest signals: {importance.slice(0, 3).map(([feature]) => FEATURE_LABELS[feature]).join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {report.posts.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Post</TableHead>
+                <TableHead className="text-right">Fixed score</TableHead>
+                <TableHead className="text-right">Predicted</TableHead>
+                <TableHead className="text-right">Actual</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.posts.map((post) => (
+                <TableRow key={post.publication_id}>
+                  <TableCell className="max-w-md truncate">{post.content_text}</TableCell>
+                  <TableCell className="text-right">{post.default_score.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{formatRate(post.predicted_engagement_rate)}</TableCell>
+                  <TableCell className="text-right">{formatRate(post.actual_engagement_rate)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScoringCalibration;
@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient, PlatformName, PlatformProfile, SocialAccount } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Link2, Unlink } from 'lucide-react';
+
+interface SocialAccountsProps {
+  platforms: PlatformProfile[];
+}
+
+// Link the artist's accounts that scheduled content is published through; only the artist's owner sees this card
+const SocialAccounts = ({ platforms }: SocialAccountsProps) => {
+  const [accounts, setAccounts] = useState<SocialAccount[] | null>(null);
+  const [mode, setMode] = useState<'fake' | 'live'>('live');
+  const [platform, setPlatform] = useState<PlatformName | ''>('');
+  const [username, setUsername] = useState('');
+  const [accessToken, setAccessToken] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadAccounts = useCallback(() => {
+    apiClient.getSocialAccounts()
+      .then((response) => {
+        setAccounts(response.accounts);
+        setMode(response.publisher_mode);
+      })
+      .catch(() => setAccounts(null));
+  }, []);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const labelFor = (name: PlatformName) => platforms.find((profile) => profile.name === name)?.label ?? name;
+
+  const handleLink = async () => {
+    if (!platform || !accessToken.trim()) return;
+    setIsSaving(true);
+    try {
+      await apiClient.linkSocialAccount(platform, {
+        access_token: accessToken.trim(),
+        ...(username.trim() ? { platform_username: username.trim() } : {}),
+      });
+      toast.success(`${labelFor(platform)} account linked`);
+      setAccessToken('');
+      setUsername('');
+      loadAccounts();
+    } catch (error) {
+      toast.error('Could not link account', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnlink = async (name: PlatformName) => {
+    try {
+      await apiClient.unlinkSocialAccount(name);
+      toast.success(`${labelFor(name)} account unlinked`);
+      loadAccounts();
+    } catch (error) {
+      toast.error('Could not unlink account', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    }
+  };
+
+  if (!accounts) return null;
+
+  return (
+    <Card className="bg-gradient-card shadow-creative border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Social accounts
+          {mode === 'fake' && <Badge variant="outline">Fake platform (offline)</Badge>}
+        </CardTitle>
+        <CardDescription>Scheduled posts are published through these accounts</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No accounts linked yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {accounts.map((account) => (
+              <li key={account.id} className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span>{labelFor(account.platform)}</span>
+                  {account.platform_username && <span className="text-muted-foreground">@{account.platform_username}</span>}
+                  <Badge variant={account.connection_status === 'active' ? 'default' : 'secondary'}>
+                    {account.connection_status}
+                  </Badge>
+                </div>
+                {account.connection_status !== 'revoked' && (
+                  <Button variant="ghost" size="icon" onClick={() => handleUnlink(account.platform)}>
+                    <Unlink className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Select value={platform} onValueChange={(value) => setPlatform(value as PlatformName)}>
+            <SelectTrigger className="w-36"><SelectValue placeholder="Platform" /></SelectTrigger>
+            <SelectContent>
+              {platforms.map((profile) => (
+                <SelectItem key={profile.name} value={profile.name}>{profile.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Username"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+            className="max-w-[10rem]"
+          />
+          <Input
+            type="password"
+            placeholder="Access token"
+            value={accessToken}
+            onChange={(event) => setAccessToken(event.target.value)}
+            className="max-w-xs"
+          />
+          <Button onClick={handleLink} disabled={!platform || !accessToken.trim() || isSaving}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Link
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SocialAccounts;
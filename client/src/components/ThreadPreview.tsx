@@ -0,0 +1,57 @@
+import { ContentFormat, ContentPart } from '@/lib/api';
+import { Badge } from '@/components/ui/badge';
+
+const ROLE_LABELS: Record<ContentPart['role'], string> = {
+  hook: 'Hook',
+  body: 'Post',
+  cta: 'Call to action',
+};
+
+interface ThreadPreviewProps {
+  format: Exclude<ContentFormat, 'single'>;
+  parts: ContentPart[];
+}
+
+// A thread as connected posts, a carousel as numbered slides
+const ThreadPreview = ({ format, parts }: ThreadPreviewProps) => {
+  if (format === 'carousel') {
+    return (
+      <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {parts.map((part) => (
+          <div key={part.index} className="rounded-md border border-border/50 bg-muted/30 p-3 space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Slide {part.index} of {parts.length}</span>
+              <Badge variant="outline">{ROLE_LABELS[part.role]}</Badge>
+            </div>
+            <p className="text-sm leading-relaxed whitespace-pre-line">{part.text}</p>
+            <p className="text-xs text-muted-foreground text-right">{part.characters} characters</p>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <ol className="mb-4">
+      {parts.map((part, position) => (
+        <li key={part.index} className="relative flex gap-3 pb-4 last:pb-0">
+          {position < parts.length - 1 && (
+            <span className="absolute left-4 top-8 bottom-0 w-px bg-border" aria-hidden="true" />
+          )}
+          <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary/10 text-xs font-medium text-primary">
+            {part.index}
+          </span>
+          <div className="flex-1 rounded-md border border-border/50 p-3 space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <Badge variant="outline">{ROLE_LABELS[part.role]}</Badge>
+              <span>{part.characters} characters</span>
+            </div>
+            <p className="text-sm leading-relaxed whitespace-pre-line">{part.text}</p>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ThreadPreview;
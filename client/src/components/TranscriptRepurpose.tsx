@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { apiClient, RepurposeKind, RepurposeResponse } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, Quote, Sparkles } from 'lucide-react';
+
+const KIND_LABELS: Record<RepurposeKind, string> = {
+  quote_card: 'Quote card',
+  story: 'Story',
+  social_post: 'Social post',
+};
+
+const KINDS = Object.keys(KIND_LABELS) as RepurposeKind[];
+
+// Turn a transcript's most quotable lines into draft posts
+const TranscriptRepurpose = ({ transcriptId }: { transcriptId: string }) => {
+  const [count, setCount] = useState('3');
+  const [kinds, setKinds] = useState<RepurposeKind[]>(KINDS);
+  const [isBusy, setIsBusy] = useState(false);
+  const [result, setResult] = useState<RepurposeResponse | null>(null);
+
+  const toggleKind = (kind: RepurposeKind) => {
+    setKinds((current) => (current.includes(kind) ? current.filter((item) => item !== kind) : [...current, kind]));
+  };
+
+  const repurpose = async () => {
+    setIsBusy(true);
+    try {
+      const response = await apiClient.repurposeTranscript(transcriptId, { count: Number(count), kinds });
+      setResult(response);
+      toast.success(response.message, {
+        description: response.failures.length > 0 ? `${response.failures.length} posts could not be written` : 'Find them in your drafts',
+      });
+    } catch (error) {
+      toast.error('Could not repurpose transcript', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t border-border/50 pt-2 text-sm">
+      <div className="flex flex-wrap gap-1">
+        {KINDS.map((kind) => (
+          <Button
+            key={kind}
+            type="button"
+            size="sm"
+            variant={kinds.includes(kind) ? 'secondary' : 'ghost'}
+            onClick={() => toggleKind(kind)}
+            disabled={isBusy}
+          >
+            {KIND_LABELS[kind]}
+          </Button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Select value={count} onValueChange={setCount}>
+          <SelectTrigger className="h-9 w-[110px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {['1', '3', '5', '10'].map((value) => (
+              <SelectItem key={value} value={value}>
+                {value} {value === '1' ? 'moment' : 'moments'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" className="flex-1" onClick={repurpose} disabled={isBusy || kinds.length === 0}>
+          {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+          Turn into posts
+        </Button>
+      </div>
+
+      {result && result.moments.map((moment) => (
+        <div key={moment.index} className="rounded-md bg-muted/30 p-2 space-y-2">
+          <p className="italic text-muted-foreground">
+            <Quote className="inline h-3 w-3 mr-1" />
+            {moment.text}
+          </p>
+          <p className="text-xs text-muted-foreground">Characters {moment.start}–{moment.end} of the transcript</p>
+          {result.generated_content
+            .filter((post) => post.repurposed_from?.start === moment.start)
+            .map((post) => (
+              <div key={post.id || `${moment.index}-${post.repurposed_from?.kind}`} className="rounded-md border border-border/50 p-2 space-y-1">
+                {post.repurposed_from && <Badge variant="outline">{KIND_LABELS[post.repurposed_from.kind]}</Badge>}
+                <p className="whitespace-pre-line">{post.content}</p>
+              </div>
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptRepurpose;
@@ -0,0 +1,33 @@
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+import { apiClient, ReviewItem, ScheduleRequest } from '@/lib/api';
+
+// Schedule (or move) content; when the slot is too close to another post on the platform the error toast
+// offers to schedule it anyway
+export function useScheduleContent(onScheduled: (content: ReviewItem) => void) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const schedule = useCallback(async (contentId: string, request: ScheduleRequest): Promise<void> => {
+    setBusyId(contentId);
+    try {
+      const response = await apiClient.scheduleContent(contentId, request);
+      toast.success(response.message, {
+        description: response.conflicts.length > 0 ? `${response.conflicts.length} other posts are close by on this platform` : undefined,
+      });
+      onScheduled(response.content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Please try again';
+      const isConflict = message.startsWith('Another post is scheduled') && !request.allow_conflicts;
+      toast.error('Could not schedule content', {
+        description: message,
+        action: isConflict
+          ? { label: 'Schedule anyway', onClick: () => { void schedule(contentId, { ...request, allow_conflicts: true }); } }
+          : undefined,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  }, [onScheduled]);
+
+  return { schedule, busyId };
+}
@@ -52,10 +52,110 @@ export interface Persona {
   key_themes?: string[];
   voice_characteristics?: any;
   is_active: boolean;
+  archived_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type Capitalization = 'as_written' | 'lowercase' | 'uppercase' | 'sentence';
+
+// Kept in voice_characteristics.style_guide; the server fills in the defaults when a persona is saved
+export interface StyleGuide {
+  artist_name?: string;
+  name_misspellings?: string[];
+  preferred_words?: Array<{ use: string; instead_of: string[] }>;
+  banned_words?: string[];
+  capitalization?: Capitalization;
+  sign_offs?: string[];
+  always_sign_off?: boolean;
+  max_emoji?: number | null;
+  required_hashtags?: string[];
+}
+
+export interface PersonaVersion {
+  id: string;
+  persona_id: string;
+  version_number: number;
+  persona_name: string | null;
+  description: string | null;
+  tone: string | null;
+  target_audience: string | null;
+  key_themes: string[] | null;
+  voice_characteristics: Record<string, unknown> | null;
+  change_source: string;
+  change_note: string | null;
+  changed_by: string | null;
+  changed_by_email?: string | null;
+  created_at: string;
+}
+
+export interface PersonaFieldDiff {
+  field: string;
+  from: unknown;
+  to: unknown;
+  added?: string[];
+  removed?: string[];
+  changed_keys?: string[];
+}
+
+export interface TranscriptAnalysis {
+  analyzed_at: string;
+  word_count: number;
+  sentence_count: number;
+  frequent_phrases: Array<{ phrase: string; count: number }>;
+  signature_vocabulary: Array<{ word: string; count: number }>;
+  sentence_length_profile: {
+    average: number;
+    median: number;
+    shortest: number;
+    longest: number;
+    distribution: { short: number; medium: number; long: number };
+  };
+  emoji_usage: { total: number; per_100_words: number; top: Array<{ emoji: string; count: number }> };
+  slang_usage: { total: number; per_100_words: number; terms: Array<{ term: string; count: number }> };
+  recurring_topics: Array<{ topic: string; mentions: number }>;
+  sample_quotes: string[];
+  proposed_updates: {
+    key_themes: string[];
+    voice_characteristics: {
+      signature_phrases: string[];
+      signature_vocabulary: string[];
+      sentence_style: string;
+      avg_sentence_length: number;
+      emoji_frequency: 'none' | 'light' | 'heavy';
+      slang_level: 'none' | 'light' | 'heavy';
+    };
+  };
+  proposal_status: 'pending' | 'accepted' | 'rejected';
+}
+
+export type RepurposeKind = 'quote_card' | 'story' | 'social_post';
+
+// A line the artist said, with character offsets into the transcript text
+export interface QuotableMoment {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  score: number;
+}
+
+export interface RepurposeRequest {
+  count?: number;
+  kinds?: RepurposeKind[];
+  context?: string;
+  platform?: PlatformName;
+  provider?: string;
+}
+
+export interface RepurposeResponse {
+  message: string;
+  transcript_id: string;
+  moments: QuotableMoment[];
+  generated_content: GeneratedContent[];
+  failures: Array<{ moment: number; kind: RepurposeKind; error: string }>;
+}
+
 export interface CreatePersonaData {
   persona_name: string;
   description?: string;
@@ -65,13 +165,46 @@ export interface CreatePersonaData {
   voice_characteristics?: any;
 }
 
+export type PlatformName = 'x' | 'instagram' | 'tiktok' | 'reddit' | 'youtube';
+
+export interface PlatformProfile {
+  name: PlatformName;
+  label: string;
+  max_chars: number;
+  ideal_chars: number;
+  hashtags: { min: number; max: number; placement: 'inline' | 'end' };
+  links: 'allowed' | 'not_clickable';
+  link_text?: string;
+  line_breaks: 'none' | 'single' | 'paragraphs';
+  max_emoji: number;
+  style: string;
+}
+
+export type ContentFormat = 'single' | 'thread' | 'carousel';
+
+export interface ContentPart {
+  index: number;
+  role: 'hook' | 'body' | 'cta';
+  // Numbered as posted, e.g. "2/5 ..."
+  text: string;
+  characters: number;
+}
+
 export interface GenerateContentRequest {
   content_type: 'announcement' | 'release' | 'news' | 'social_post' | 'story';
   context?: string;
   max_length?: number;
   variations?: number;
   template_id?: string;
-  provider?: 'groq' | 'cohere' | 'openai' | 'huggingface' | 'auto';
+  persona_id?: string;
+  max_voice_examples?: number;
+  max_post_examples?: number;
+  // 'auto' or any name returned by getProviders()
+  provider?: string;
+  platform?: PlatformName;
+  format?: ContentFormat;
+  // Number of parts for threads and carousels (2-10)
+  parts?: number;
 }
 
 export interface GeneratedContent {
@@ -81,6 +214,470 @@ export interface GeneratedContent {
   variation_id: number;
   model_used: string;
   saved_at: string;
+  template_variables?: Record<string, string | number | boolean>;
+  template_warnings?: string[];
+  // What the server changed to fit the platform profile
+  platform_adjustments?: string[];
+  // Threads and carousels: content is every part joined, parts are the posts/slides in order
+  format?: ContentFormat;
+  parts?: ContentPart[];
+  format_warnings?: string[];
+  // What the artist's style guide rewrote, and the rules the post still breaks
+  style_adjustments?: string[];
+  style_violations?: string[];
+  // Posts repurposed from a transcript point back to the line they were written around
+  repurposed_from?: { transcript_id: string; start: number; end: number; quote: string; kind: RepurposeKind };
+  // The artist's moderation verdict; blocked variations come back without their text
+  moderation?: ModerationResult;
+  blocked?: boolean;
+}
+
+export type ModerationSeverity = 'low' | 'medium' | 'high';
+export type ModerationCategory = 'profanity' | 'slur' | 'competitor' | 'unreleased' | 'legal' | 'custom';
+
+export interface ModerationMatch {
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+  reason: string;
+  text: string;
+  start: number;
+  end: number;
+  source: 'default' | 'blocklist' | 'pattern';
+}
+
+export interface ModerationResult {
+  action: 'allow' | 'flag' | 'block';
+  matches: ModerationMatch[];
+  reason: string | null;
+  checked_at: string;
+}
+
+export interface ModerationSettings {
+  artist_id: string;
+  blocklist: Array<{ term: string; category: ModerationCategory; severity: ModerationSeverity; reason?: string }>;
+  allowlist: string[];
+  patterns: Array<{ pattern: string; flags?: string; category: ModerationCategory; severity: ModerationSeverity; reason?: string }>;
+  block_severity: ModerationSeverity;
+  use_default_lexicon: boolean;
+  updated_at: string | null;
+}
+
+// Blocklist terms without a severity get their category's
+export type UpdateModerationSettings = Partial<Omit<ModerationSettings, 'artist_id' | 'updated_at' | 'blocklist'>> & {
+  blocklist?: Array<{ term: string; category?: ModerationCategory; severity?: ModerationSeverity; reason?: string }>;
+};
+
+export type ApprovalStatus = 'draft' | 'in_review' | 'approved' | 'rejected' | 'scheduled' | 'ready_to_publish' | 'published';
+export type ReviewRole = 'owner' | 'editor' | 'reviewer';
+
+export interface ReviewItem {
+  id: string;
+  artist_id: string;
+  artist_name?: string;
+  persona_id: string | null;
+  content_type: string | null;
+  content_text: string | null;
+  content_metadata?: {
+    platform?: PlatformName;
+    format?: ContentFormat;
+    parts?: ContentPart[];
+    format_warnings?: string[];
+    style_violations?: string[];
+    moderation?: ModerationResult | null;
+  } | null;
+  approval_status: ApprovalStatus;
+  assigned_reviewer_id: string | null;
+  assigned_reviewer_email?: string | null;
+  // Set while the item is scheduled, ready to publish or published
+  scheduled_at: string | null;
+  scheduled_platform: PlatformName | null;
+  // Set while the post is pinned as a golden example for generation
+  example_pinned_at: string | null;
+  created_at: string;
+  updated_at: string;
+  role: ReviewRole;
+  allowed_transitions: ApprovalStatus[];
+}
+
+export interface ReviewEvent {
+  id: string;
+  event_type: 'created' | 'transition' | 'assignment' | 'schedule';
+  from_status: ApprovalStatus | null;
+  to_status: ApprovalStatus | null;
+  reviewer_id: string | null;
+  reviewer_email: string | null;
+  actor_email: string | null;
+  comment: string | null;
+  created_at: string;
+}
+
+// Calendar entries list the ids of posts on the same platform that are too close to them
+export interface CalendarItem extends ReviewItem {
+  scheduled_at: string;
+  scheduled_platform: PlatformName;
+  conflicts_with: string[];
+}
+
+export interface CalendarResponse {
+  from: string;
+  to: string;
+  conflict_window_minutes: number;
+  items: CalendarItem[];
+}
+
+export interface ScheduleRequest {
+  scheduled_at: string;
+  // Defaults to the platform the content was written for
+  platform?: PlatformName;
+  allow_conflicts?: boolean;
+}
+
+export interface ScheduleConflict {
+  id: string;
+  content_text: string | null;
+  approval_status: ApprovalStatus;
+  scheduled_platform: PlatformName;
+  scheduled_at: string;
+  minutes_apart: number;
+}
+
+export interface AppNotification {
+  id: string;
+  artist_id: string | null;
+  content_id: string | null;
+  type: 'content_ready_to_publish';
+  message: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export type RevisionSource = 'generated' | 'manual' | 'refine';
+
+export interface ContentRevision {
+  id: string;
+  content_id: string;
+  revision_number: number;
+  content_text: string;
+  source: RevisionSource;
+  instruction: string | null;
+  provider: string | null;
+  ai_model: string | null;
+  quality_score: number | null;
+  created_by: string | null;
+  created_by_email?: string | null;
+  created_at: string;
+}
+
+export interface TextDiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface RevisionDiff {
+  content_id: string;
+  from: ContentRevision;
+  to: ContentRevision;
+  segments: TextDiffSegment[];
+}
+
+export interface Collaborator {
+  user_id: string;
+  email: string;
+  role: ReviewRole;
+  created_at: string | null;
+}
+
+export interface SocialAccount {
+  id: string;
+  platform: PlatformName;
+  platform_user_id: string | null;
+  platform_username: string | null;
+  token_expires_at: string | null;
+  connection_status: 'active' | 'expired' | 'revoked';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LinkSocialAccountRequest {
+  access_token: string;
+  refresh_token?: string;
+  token_expires_at?: string;
+  platform_user_id?: string;
+  platform_username?: string;
+}
+
+// One publish attempt; failed attempts keep the platform's error message, pending ones are still posting
+export interface Publication {
+  id: string;
+  generated_content_id: string;
+  platform: PlatformName;
+  platform_post_id: string | null;
+  post_url: string | null;
+  post_status: 'pending' | 'published' | 'failed';
+  error_message: string | null;
+  attempts: number;
+  published_at: string | null;
+  created_at: string;
+}
+
+export type EngagementMetric = 'likes' | 'shares' | 'comments' | 'views' | 'saves';
+
+export type MetricValues = Partial<Record<EngagementMetric, number>>;
+
+// A post is named by its publication id, or by the platform and the id the platform gave it
+export interface MetricsSnapshot extends MetricValues {
+  publication_id?: string;
+  platform?: PlatformName;
+  platform_post_id?: string;
+  recorded_at?: string;
+}
+
+export interface PublicationMetrics {
+  publication_id: string;
+  platform: PlatformName;
+  platform_post_id: string | null;
+  post_url: string | null;
+  published_at: string | null;
+  points: Array<MetricValues & { recorded_at: string }>;
+  latest: MetricValues;
+  engagement_rate: number | null;
+}
+
+export interface MetricsImportResult {
+  message: string;
+  recorded: number;
+  rejected: Array<{ row: number; error: string }>;
+}
+
+export type QualityFeature =
+  | 'readability'
+  | 'punctuation'
+  | 'direct_address'
+  | 'emotional_words'
+  | 'novelty'
+  | 'mentions'
+  | 'hashtags'
+  | 'length_fit'
+  | 'brand_consistency';
+
+// An artist's quality scoring fitted to how their published posts performed
+export interface ScoringModel {
+  artist_id: string;
+  feature_importance: Record<QualityFeature, number>;
+  weights: { readability: number; engagement_potential: number; brand_consistency: number };
+  score_range: { low: number; high: number };
+  sample_count: number;
+  r_squared: number;
+  mean_absolute_error: number;
+  trained_at: string;
+}
+
+export interface CalibrationReport {
+  model: ScoringModel | null;
+  min_posts: number;
+  posts: Array<{
+    content_id: string;
+    publication_id: string;
+    platform: PlatformName | null;
+    content_text: string;
+    actual_engagement_rate: number;
+    predicted_engagement_rate: number | null;
+    default_score: number;
+    calibrated_score: number | null;
+  }>;
+  summary: {
+    sample_count: number;
+    mean_absolute_error: number | null;
+    default_correlation: number | null;
+    calibrated_correlation: number | null;
+  };
+}
+
+// A stretch of a post a quality scorer flagged; start/end are character offsets, end exclusive
+export interface QualitySpan {
+  start: number;
+  end: number;
+  text: string;
+  message: string;
+  severity: 'warning' | 'error';
+}
+
+export interface ScorerBreakdown {
+  name: string;
+  label: string;
+  weight: number;
+  score: number;
+  issues: string[];
+  suggestion?: string;
+  spans: QualitySpan[];
+}
+
+export interface ContentQualityMetrics {
+  score: number;
+  readability: number;
+  engagement_potential: number;
+  brand_consistency: number;
+  issues: string[];
+  suggestions: string[];
+  scoring_model?: 'fixed' | 'calibrated';
+  predicted_engagement_rate?: number;
+  breakdown?: ScorerBreakdown[];
+  spans?: QualitySpan[];
+}
+
+export interface QualityScoreResponse {
+  message: string;
+  content_preview: string;
+  quality_metrics: ContentQualityMetrics;
+  breakdown: ScorerBreakdown[];
+  highlights: QualitySpan[];
+  recommendations: {
+    overall_rating: string;
+    primary_strengths: string[];
+    improvement_areas: string[];
+    suggested_actions: string[];
+  };
+}
+
+export interface VoiceExample {
+  transcript_id: string;
+  chunk_index: number;
+  text: string;
+  start: number;
+  end: number;
+  source_type: string | null;
+  source_url: string | null;
+  score: number;
+}
+
+// An approved, hand-edited or pinned post shown to the model as an example
+export interface PostExample {
+  content_id: string;
+  content_type: string;
+  platform: PlatformName | null;
+  text: string;
+  source: 'approved' | 'edited' | 'pinned';
+  pinned: boolean;
+  score: number;
+}
+
+export interface PinnedExample {
+  id: string;
+  content_type: string;
+  content_text: string;
+  platform: PlatformName | null;
+  example_pinned_at: string;
+}
+
+export interface AIProviderStatus {
+  name: string;
+  label: string;
+  model: string;
+  configured: boolean;
+  healthy: boolean;
+  supports_streaming: boolean;
+  fallback_position: number | null;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+  last_error: string | null;
+  consecutive_failures: number;
+  circuit_state: 'closed' | 'open' | 'half_open';
+  circuit_opened_at: string | null;
+  circuit_next_attempt_at: string | null;
+  recent_requests: number;
+  error_rate: number | null;
+}
+
+export type GenerationRequestType = 'content_generation' | 'content_refinement' | 'content_repurpose' | 'quality_scoring' | 'template_processing';
+
+export interface GenerationLog {
+  id: string;
+  request_type: GenerationRequestType;
+  provider: string | null;
+  ai_model: string | null;
+  persona_id: string | null;
+  artist_id: string | null;
+  processing_time_ms: number;
+  success: boolean;
+  error_message: string | null;
+  error_code: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  attempts: number | null;
+  input_params: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface ProviderLogStats {
+  provider: string;
+  calls: number;
+  failures: number;
+  failure_rate: number;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface GenerationLogSummary {
+  calls: number;
+  failures: number;
+  failure_rate: number;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  by_provider: ProviderLogStats[];
+}
+
+export interface GenerationLogFilters {
+  provider?: string;
+  request_type?: GenerationRequestType;
+  success?: boolean;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AIQuotaUsage {
+  scope: 'user' | 'artist';
+  id: string;
+  requests_today: number;
+  requests_per_day: number | null;
+  requests_remaining: number | null;
+  tokens_this_month: number;
+  tokens_per_month: number | null;
+  tokens_remaining: number | null;
+  estimated_cost_usd_this_month: number;
+}
+
+export interface AIUsageReport {
+  user: AIQuotaUsage;
+  artist: AIQuotaUsage | null;
+  requests_reset_at: string;
+  tokens_reset_at: string;
+  by_provider: Array<{
+    provider: string;
+    requests: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    estimated_cost_usd: number;
+  }>;
+}
+
+export interface AICacheStats {
+  since: string;
+  memory: { keys: number; hits: number; misses: number };
+  database: {
+    enabled: boolean;
+    entries: number | null;
+    active_entries: number | null;
+    expired_entries: number | null;
+    oldest_entry_at: string | null;
+    hits: number;
+  };
+  hit_rate: number | null;
+  writes: number;
+  invalidations: number;
 }
 
 export interface ContentGenerationResponse {
@@ -92,6 +689,9 @@ export interface ContentGenerationResponse {
     tone: string;
     themes: string[];
   };
+  voice_examples_used: VoiceExample[];
+  post_examples_used: PostExample[];
+  template_used: { id: string; name: string } | null;
   generation_metadata: {
     model_used: string;
     variations_generated: number;
@@ -99,6 +699,15 @@ export interface ContentGenerationResponse {
   };
 }
 
+export type GenerationStreamEvent =
+  | { event: 'start'; data: Pick<ContentGenerationResponse, 'persona_used' | 'voice_examples_used' | 'post_examples_used' | 'template_used'> & { variations: number; platform: PlatformName | null; format: ContentFormat } }
+  | { event: 'token'; data: { variation_id: number; token: string } }
+  | { event: 'score'; data: Omit<GeneratedContent, 'id' | 'saved_at'> }
+  | { event: 'blocked'; data: { variation_id: number; moderation: ModerationResult } }
+  | { event: 'saved'; data: { variation_id: number; id: string | null; saved_at: string | null; save_error?: boolean } }
+  | { event: 'done'; data: { variations_generated: number; variations_blocked: number; content_ids: string[]; average_quality_score: number | null } }
+  | { event: 'error'; data: { error: string; errorId?: string; details?: string } };
+
 export interface Template {
   id: string;
   template_name: string;
@@ -207,6 +816,22 @@ export class ApiClient {
     return this.request('/users/me');
   }
 
+  async getUsage(): Promise<{ usage: AIUsageReport }> {
+    return this.request('/users/me/usage');
+  }
+
+  async getNotifications(unreadOnly = false): Promise<{ notifications: AppNotification[]; unread: number }> {
+    return this.request(`/users/me/notifications${unreadOnly ? '?unread_only=true' : ''}`);
+  }
+
+  // Without ids every notification is marked read
+  async markNotificationsRead(ids?: string[]): Promise<{ message: string; updated: number }> {
+    return this.request('/users/me/notifications/read', {
+      method: 'POST',
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+  }
+
   // ==================== Artists ====================
 
   async getArtistProfile(): Promise<Artist> {
@@ -227,6 +852,64 @@ export class ApiClient {
     });
   }
 
+  async getCollaborators(): Promise<{ collaborators: Collaborator[] }> {
+    return this.request('/artists/collaborators');
+  }
+
+  async addCollaborator(email: string, role: Exclude<ReviewRole, 'owner'>): Promise<{ message: string; collaborator: Collaborator }> {
+    return this.request('/artists/collaborators', {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async removeCollaborator(userId: string): Promise<{ message: string }> {
+    return this.request(`/artists/collaborators/${userId}`, { method: 'DELETE' });
+  }
+
+  async getScoringReport(): Promise<CalibrationReport> {
+    return this.request('/artists/scoring-model/report');
+  }
+
+  async calibrateScoring(): Promise<{ message: string; model: ScoringModel }> {
+    return this.request('/artists/scoring-model/calibrate', { method: 'POST' });
+  }
+
+  async getModerationSettings(): Promise<{ settings: ModerationSettings; categories: ModerationCategory[]; severities: ModerationSeverity[] }> {
+    return this.request('/artists/moderation');
+  }
+
+  // Replaces the artist's whole rule set
+  async updateModerationSettings(settings: UpdateModerationSettings): Promise<{ message: string; settings: ModerationSettings }> {
+    return this.request('/artists/moderation', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async checkModeration(text: string): Promise<ModerationResult> {
+    return this.request('/artists/moderation/check', {
+      method: 'POST',
+      body: JSON.stringify({ text }),
+    });
+  }
+
+  // publisher_mode 'fake' means posts go to the offline fake platform instead of the real one
+  async getSocialAccounts(): Promise<{ accounts: SocialAccount[]; publisher_mode: 'fake' | 'live' }> {
+    return this.request('/artists/social-accounts');
+  }
+
+  async linkSocialAccount(platform: PlatformName, data: LinkSocialAccountRequest): Promise<{ message: string; account: SocialAccount }> {
+    return this.request(`/artists/social-accounts/${platform}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async unlinkSocialAccount(platform: PlatformName): Promise<{ message: string }> {
+    return this.request(`/artists/social-accounts/${platform}`, { method: 'DELETE' });
+  }
+
   // ==================== Personas ====================
 
   async getActivePersona(): Promise<Persona | null> {
@@ -306,12 +989,55 @@ export class ApiClient {
     });
   }
 
-  async setActivePersona(personaId: string): Promise<{ message: string }> {
+  async setActivePersona(personaId: string): Promise<{ message: string; persona: Persona }> {
     return this.request(`/personas/${personaId}/activate`, {
       method: 'PUT',
     });
   }
 
+  async listPersonas(includeArchived = false): Promise<{ personas: Persona[]; active_persona_id: string | null; total: number }> {
+    return this.request(`/personas${includeArchived ? '?include_archived=true' : ''}`);
+  }
+
+  async createPersona(data: CreatePersonaData & { activate?: boolean }): Promise<{ message: string; persona: Persona }> {
+    return this.request('/personas', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async clonePersona(personaId: string, personaName?: string): Promise<{ message: string; persona: Persona }> {
+    return this.request(`/personas/${personaId}/clone`, {
+      method: 'POST',
+      body: JSON.stringify(personaName ? { persona_name: personaName } : {}),
+    });
+  }
+
+  async archivePersona(personaId: string): Promise<{ message: string; persona: Persona }> {
+    return this.request(`/personas/${personaId}/archive`, {
+      method: 'POST',
+    });
+  }
+
+  async getPersonaVersions(personaId: string): Promise<{ persona_id: string; current_version: number | null; versions: PersonaVersion[]; total: number }> {
+    return this.request(`/personas/${personaId}/versions`);
+  }
+
+  async diffPersonaVersions(personaId: string, from?: number, to?: number): Promise<{ persona_id: string; changes: PersonaFieldDiff[]; from: number; to: number }> {
+    const queryParams = new URLSearchParams();
+    if (from) queryParams.append('from', from.toString());
+    if (to) queryParams.append('to', to.toString());
+
+    const query = queryParams.toString();
+    return this.request(`/personas/${personaId}/versions/diff${query ? `?${query}` : ''}`);
+  }
+
+  async rollbackPersona(personaId: string, versionNumber: number): Promise<{ message: string; persona: Persona; version_number: number | null }> {
+    return this.request(`/personas/${personaId}/versions/${versionNumber}/rollback`, {
+      method: 'POST',
+    });
+  }
+
   // ==================== Uploads ====================
 
   async uploadQuestionnaireFile(file: File): Promise<any> {
@@ -342,8 +1068,42 @@ export class ApiClient {
     return this.request('/uploads/persona/files');
   }
 
+  async getTranscriptAnalysis(transcriptId: string): Promise<{ transcript_id: string; persona_id: string; analysis: TranscriptAnalysis | null }> {
+    return this.request(`/uploads/persona/transcript/${transcriptId}/analysis`);
+  }
+
+  async analyzeTranscript(transcriptId: string): Promise<{ message: string; analysis: TranscriptAnalysis }> {
+    return this.request(`/uploads/persona/transcript/${transcriptId}/analyze`, {
+      method: 'POST',
+    });
+  }
+
+  async acceptTranscriptProposal(
+    transcriptId: string,
+    fields?: Array<'key_themes' | 'voice_characteristics'>
+  ): Promise<{ message: string; persona: Persona; analysis: TranscriptAnalysis }> {
+    return this.request(`/uploads/persona/transcript/${transcriptId}/proposal/accept`, {
+      method: 'POST',
+      body: JSON.stringify(fields ? { fields } : {}),
+    });
+  }
+
+  async rejectTranscriptProposal(transcriptId: string): Promise<{ message: string; analysis: TranscriptAnalysis }> {
+    return this.request(`/uploads/persona/transcript/${transcriptId}/proposal/reject`, {
+      method: 'POST',
+    });
+  }
+
   // ==================== Content Generation ====================
 
+  // Turns the transcript's most quotable lines into drafts (one per line and kind)
+  async repurposeTranscript(transcriptId: string, params: RepurposeRequest = {}): Promise<RepurposeResponse> {
+    return this.request(`/content/repurpose/${transcriptId}`, {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
   async generateContent(params: GenerateContentRequest): Promise<ContentGenerationResponse> {
     return this.request('/content/generate', {
       method: 'POST',
@@ -351,10 +1111,181 @@ export class ApiClient {
     });
   }
 
-  async scoreContentQuality(content: string): Promise<any> {
+  // Streams generation as Server-Sent Events; abort the signal to cancel the upstream provider call
+  async generateContentStream(
+    params: GenerateContentRequest,
+    onEvent: (event: GenerationStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' };
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(`${this.baseURL}/content/generate/stream`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(params),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({
+        error: `HTTP error! status: ${response.status}`
+      }));
+      throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        const event = block.match(/^event: (.+)$/m)?.[1];
+        const data = block.match(/^data: (.+)$/m)?.[1];
+        if (event && data) {
+          onEvent({ event, data: JSON.parse(data) } as GenerationStreamEvent);
+        }
+      }
+    }
+  }
+
+  async scoreContentQuality(content: string, platform?: PlatformName): Promise<QualityScoreResponse> {
     return this.request('/content/quality-score', {
       method: 'POST',
-      body: JSON.stringify({ content }),
+      body: JSON.stringify({ content, ...(platform ? { platform } : {}) }),
+    });
+  }
+
+  async getReviewQueue(params: { status?: ApprovalStatus; assigned_to_me?: boolean; limit?: number; offset?: number } = {}): Promise<{
+    items: ReviewItem[];
+    pagination: { limit: number; offset: number; total: number };
+  }> {
+    const queryParams = new URLSearchParams();
+    if (params.status) queryParams.append('status', params.status);
+    if (params.assigned_to_me) queryParams.append('assigned_to_me', 'true');
+    if (params.limit) queryParams.append('limit', params.limit.toString());
+    if (params.offset) queryParams.append('offset', params.offset.toString());
+
+    const query = queryParams.toString();
+    return this.request(`/content/review-queue${query ? `?${query}` : ''}`);
+  }
+
+  async transitionContent(contentId: string, toStatus: ApprovalStatus, comment?: string): Promise<{ message: string; content: ReviewItem }> {
+    return this.request(`/content/${contentId}/transition`, {
+      method: 'POST',
+      body: JSON.stringify({ to_status: toStatus, ...(comment ? { comment } : {}) }),
+    });
+  }
+
+  async assignReviewer(contentId: string, reviewerId: string | null): Promise<{ message: string; content: ReviewItem }> {
+    return this.request(`/content/${contentId}/reviewer`, {
+      method: 'PUT',
+      body: JSON.stringify({ reviewer_id: reviewerId }),
+    });
+  }
+
+  async getCalendar(params: { from: string; to: string; platform?: PlatformName }): Promise<CalendarResponse> {
+    const queryParams = new URLSearchParams({ from: params.from, to: params.to });
+    if (params.platform) queryParams.append('platform', params.platform);
+
+    return this.request(`/content/calendar?${queryParams.toString()}`);
+  }
+
+  async scheduleContent(contentId: string, schedule: ScheduleRequest): Promise<{ message: string; content: ReviewItem; conflicts: ScheduleConflict[] }> {
+    return this.request(`/content/${contentId}/schedule`, {
+      method: 'PUT',
+      body: JSON.stringify(schedule),
+    });
+  }
+
+  async unscheduleContent(contentId: string): Promise<{ message: string; content: ReviewItem }> {
+    return this.request(`/content/${contentId}/schedule`, { method: 'DELETE' });
+  }
+
+  async pinExample(contentId: string): Promise<{ message: string; content: ReviewItem }> {
+    return this.request(`/content/${contentId}/example`, { method: 'PUT' });
+  }
+
+  async unpinExample(contentId: string): Promise<{ message: string; content: ReviewItem }> {
+    return this.request(`/content/${contentId}/example`, { method: 'DELETE' });
+  }
+
+  async getExamples(params: { content_type: string; platform?: PlatformName; context?: string }): Promise<{ examples: PostExample[]; pinned: PinnedExample[] }> {
+    const queryParams = new URLSearchParams({ content_type: params.content_type });
+    if (params.platform) queryParams.append('platform', params.platform);
+    if (params.context) queryParams.append('context', params.context);
+
+    return this.request(`/content/examples?${queryParams.toString()}`);
+  }
+
+  async publishContent(contentId: string): Promise<{ message: string; publication: Publication; content: ReviewItem }> {
+    return this.request(`/content/${contentId}/publish`, { method: 'POST' });
+  }
+
+  async recordMetrics(snapshots: MetricsSnapshot[]): Promise<{ message: string; recorded: number; unmatched: number[] }> {
+    return this.request('/content/metrics', {
+      method: 'POST',
+      body: JSON.stringify({ snapshots }),
+    });
+  }
+
+  // CSV exports go up as text/csv, anything ending in .json as a JSON array of snapshots
+  async importMetrics(file: File): Promise<MetricsImportResult> {
+    const type = file.name.toLowerCase().endsWith('.json') ? 'application/json' : 'text/csv';
+    return this.request('/content/metrics/import', {
+      method: 'POST',
+      body: new Blob([await file.text()], { type }),
+    });
+  }
+
+  async getContentMetrics(contentId: string): Promise<{ content_id: string; metrics: EngagementMetric[]; publications: PublicationMetrics[] }> {
+    return this.request(`/content/${contentId}/metrics`);
+  }
+
+  async getPublications(contentId: string): Promise<{ publications: Publication[] }> {
+    return this.request(`/content/${contentId}/publications`);
+  }
+
+  async getContentTimeline(contentId: string): Promise<{ content: ReviewItem; timeline: ReviewEvent[] }> {
+    return this.request(`/content/${contentId}/timeline`);
+  }
+
+  async getContentRevisions(contentId: string): Promise<{ content: ReviewItem & { editable: boolean }; revisions: ContentRevision[] }> {
+    return this.request(`/content/${contentId}/revisions`);
+  }
+
+  async getRevisionDiff(contentId: string, from?: number, to?: number): Promise<RevisionDiff> {
+    const queryParams = new URLSearchParams();
+    if (from) queryParams.append('from', from.toString());
+    if (to) queryParams.append('to', to.toString());
+
+    const query = queryParams.toString();
+    return this.request(`/content/${contentId}/revisions/diff${query ? `?${query}` : ''}`);
+  }
+
+  // Threads and carousels are edited as their parts (without numbering); the server renumbers them
+  async editContent(contentId: string, edit: string | string[]): Promise<{ message: string; content: ReviewItem; revision: ContentRevision }> {
+    return this.request(`/content/${contentId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(Array.isArray(edit) ? { parts: edit } : { content_text: edit }),
+    });
+  }
+
+  async refineContent(contentId: string, instruction: string, provider?: string): Promise<{ message: string; content: ReviewItem; revision: ContentRevision }> {
+    return this.request(`/content/${contentId}/refine`, {
+      method: 'POST',
+      body: JSON.stringify({ instruction, ...(provider ? { provider } : {}) }),
     });
   }
 
@@ -374,6 +1305,46 @@ export class ApiClient {
     return this.request(`/content/history${query ? `?${query}` : ''}`);
   }
 
+  async getPlatforms(): Promise<{ platforms: PlatformProfile[] }> {
+    return this.request('/content/platforms');
+  }
+
+  async getProviders(): Promise<{ providers: AIProviderStatus[]; fallback_chain: string[]; default: string }> {
+    return this.request('/content/providers');
+  }
+
+  async getGenerationLogs(filters: GenerationLogFilters = {}): Promise<{
+    logs: GenerationLog[];
+    summary: GenerationLogSummary;
+    pagination: { limit: number; offset: number; total: number };
+  }> {
+    const queryParams = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') queryParams.append(key, String(value));
+    });
+
+    const query = queryParams.toString();
+    return this.request(`/content/logs${query ? `?${query}` : ''}`);
+  }
+
+  async getCacheStats(): Promise<{ cache: AICacheStats }> {
+    return this.request('/content/cache/stats');
+  }
+
+  async clearCache(options: { persona_id?: string; expired?: boolean } = {}): Promise<{
+    message: string;
+    personas_cleared: string[];
+    entries_removed: number;
+    expired_entries_removed: number;
+  }> {
+    const queryParams = new URLSearchParams();
+    if (options.persona_id) queryParams.append('persona_id', options.persona_id);
+    if (options.expired) queryParams.append('expired', 'true');
+
+    const query = queryParams.toString();
+    return this.request(`/content/cache${query ? `?${query}` : ''}`, { method: 'DELETE' });
+  }
+
   // ==================== Templates ====================
 
   async getTemplates(type?: string): Promise<{ templates: Template[]; total: number }> {
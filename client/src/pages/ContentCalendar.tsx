@@ -0,0 +1,360 @@
+import { DragEvent, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  setHours,
+  setMinutes,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { apiClient, ApprovalStatus, CalendarItem, PlatformName, PlatformProfile, ReviewItem } from '@/lib/api';
+import { useScheduleContent } from '@/hooks/use-schedule-content';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight, RefreshCw, X } from 'lucide-react';
+
+type CalendarView = 'month' | 'week';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Approved posts dropped on a day in the month view land at noon
+const DEFAULT_HOUR = 12;
+
+const STATUS_LABELS: Partial<Record<ApprovalStatus, string>> = {
+  ready_to_publish: 'Ready',
+  published: 'Published',
+};
+
+const ContentCalendar = () => {
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [platformFilter, setPlatformFilter] = useState<PlatformName | 'all'>('all');
+  const [items, setItems] = useState<CalendarItem[]>([]);
+  const [unscheduled, setUnscheduled] = useState<ReviewItem[]>([]);
+  const [platforms, setPlatforms] = useState<PlatformProfile[]>([]);
+  const [platformFor, setPlatformFor] = useState<Record<string, PlatformName>>({});
+  const [windowMinutes, setWindowMinutes] = useState(60);
+  const [isLoading, setIsLoading] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const range = useMemo(() => (view === 'month'
+    ? { start: startOfWeek(startOfMonth(anchor)), end: endOfWeek(endOfMonth(anchor)) }
+    : { start: startOfWeek(anchor), end: endOfWeek(anchor) }), [view, anchor]);
+
+  const days = useMemo(() => eachDayOfInterval(range), [range]);
+
+  const loadCalendar = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [calendar, queue] = await Promise.all([
+        apiClient.getCalendar({
+          from: range.start.toISOString(),
+          to: range.end.toISOString(),
+          ...(platformFilter !== 'all' ? { platform: platformFilter } : {}),
+        }),
+        apiClient.getReviewQueue({ status: 'approved', limit: 100 }),
+      ]);
+      setItems(calendar.items);
+      setWindowMinutes(calendar.conflict_window_minutes);
+      setUnscheduled(queue.items.filter((item) => item.role !== 'reviewer'));
+    } catch (error) {
+      toast.error('Failed to load calendar', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range, platformFilter]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  useEffect(() => {
+    apiClient.getPlatforms()
+      .then((response) => setPlatforms(response.platforms))
+      .catch(() => setPlatforms([]));
+  }, []);
+
+  // Conflicts depend on every post around the new slot, so reload rather than patching one item
+  const handleScheduled = useCallback(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const { schedule, busyId } = useScheduleContent(handleScheduled);
+
+  const platformLabel = (name: string | null | undefined) =>
+    platforms.find((profile) => profile.name === name)?.label ?? name ?? 'No platform';
+
+  const move = (direction: 1 | -1) => {
+    setAnchor((current) => (view === 'month' ? addMonths(current, direction) : addWeeks(current, direction)));
+  };
+
+  const handleDragStart = (event: DragEvent<HTMLDivElement>, contentId: string) => {
+    event.dataTransfer.setData('text/plain', contentId);
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, target: string) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    if (dropTarget !== target) setDropTarget(target);
+  };
+
+  // Month cells keep the post's time of day; week cells set the hour and keep the minutes
+  const handleDrop = (event: DragEvent<HTMLDivElement>, day: Date, hour?: number) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const contentId = event.dataTransfer.getData('text/plain');
+    const item: ReviewItem | undefined = items.find((entry) => entry.id === contentId)
+      ?? unscheduled.find((entry) => entry.id === contentId);
+    if (!item) return;
+
+    const previous = item.scheduled_at ? new Date(item.scheduled_at) : null;
+    const when = setMinutes(
+      setHours(day, hour ?? previous?.getHours() ?? DEFAULT_HOUR),
+      previous?.getMinutes() ?? 0
+    );
+    if (previous && when.getTime() === previous.getTime()) return;
+
+    const platform = item.scheduled_platform ?? platformFor[item.id] ?? item.content_metadata?.platform;
+    schedule(item.id, { scheduled_at: when.toISOString(), ...(platform ? { platform } : {}) });
+  };
+
+  const handleUnschedule = async (item: CalendarItem) => {
+    try {
+      const response = await apiClient.unscheduleContent(item.id);
+      toast.success(response.message);
+      loadCalendar();
+    } catch (error) {
+      toast.error('Could not unschedule content', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    }
+  };
+
+  const dropProps = (target: string, day: Date, hour?: number) => ({
+    onDragOver: (event: DragEvent<HTMLDivElement>) => handleDragOver(event, target),
+    onDragLeave: () => setDropTarget((current) => (current === target ? null : current)),
+    onDrop: (event: DragEvent<HTMLDivElement>) => handleDrop(event, day, hour),
+  });
+
+  const renderItem = (item: CalendarItem) => {
+    const conflicted = item.conflicts_with.length > 0;
+    const movable = item.approval_status === 'scheduled' && item.role !== 'reviewer';
+
+    return (
+      <div
+        key={item.id}
+        draggable={movable}
+        onDragStart={(event) => handleDragStart(event, item.id)}
+        title={conflicted
+          ? `Less than ${windowMinutes} minutes from ${item.conflicts_with.length} other post(s) on ${platformLabel(item.scheduled_platform)}`
+          : item.content_text ?? ''}
+        className={cn(
+          'rounded border bg-background px-1.5 py-1 text-xs space-y-0.5',
+          conflicted ? 'border-destructive' : 'border-border/50',
+          movable && 'cursor-grab',
+          busyId === item.id && 'opacity-50'
+        )}
+      >
+        <div className="flex items-center gap-1">
+          {conflicted && <AlertTriangle className="h-3 w-3 shrink-0 text-destructive" />}
+          <span className="font-medium">{format(new Date(item.scheduled_at), 'HH:mm')}</span>
+          <span className="truncate">{platformLabel(item.scheduled_platform)}</span>
+          {STATUS_LABELS[item.approval_status] && (
+            <Badge variant="secondary" className="px-1 py-0 text-[10px]">{STATUS_LABELS[item.approval_status]}</Badge>
+          )}
+          {movable && (
+            <button
+              type="button"
+              className="ml-auto text-muted-foreground hover:text-foreground"
+              onClick={() => handleUnschedule(item)}
+              aria-label="Unschedule"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+        <p className="truncate text-muted-foreground">{item.content_text}</p>
+      </div>
+    );
+  };
+
+  const itemsAt = (day: Date, hour?: number) => items.filter((item) => {
+    const at = new Date(item.scheduled_at);
+    return isSameDay(at, day) && (hour === undefined || at.getHours() === hour);
+  });
+
+  const title = view === 'month'
+    ? format(anchor, 'MMMM yyyy')
+    : `${format(range.start, 'MMM d')} – ${format(range.end, 'MMM d, yyyy')}`;
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <div className="bg-gradient-primary p-3 rounded-full w-16 h-16 mx-auto mb-4 shadow-glow">
+            <CalendarDays className="h-10 w-10 text-primary-foreground" />
+          </div>
+          <h1 className="text-3xl font-bold mb-2">Content Calendar</h1>
+          <p className="text-muted-foreground">
+            Drag approved posts onto a day to schedule them, or drag scheduled posts to move them
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[1fr_280px] gap-6">
+          <Card className="bg-gradient-card shadow-creative border-border/50">
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <CardTitle>{title}</CardTitle>
+                  <CardDescription>
+                    Red posts are less than {windowMinutes} minutes from another post on the same platform
+                  </CardDescription>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select value={platformFilter} onValueChange={(value) => setPlatformFilter(value as PlatformName | 'all')}>
+                    <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All platforms</SelectItem>
+                      {platforms.map((profile) => (
+                        <SelectItem key={profile.name} value={profile.name}>{profile.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={view} onValueChange={(value) => setView(value as CalendarView)}>
+                    <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="month">Month</SelectItem>
+                      <SelectItem value="week">Week</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="icon" onClick={() => move(-1)} aria-label="Previous">
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>Today</Button>
+                  <Button variant="outline" size="icon" onClick={() => move(1)} aria-label="Next">
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={loadCalendar} disabled={isLoading} aria-label="Refresh">
+                    <RefreshCw className={isLoading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {view === 'month' ? (
+                <div className="grid grid-cols-7 gap-px rounded-md border border-border/50 bg-border/50 overflow-hidden">
+                  {days.slice(0, 7).map((day) => (
+                    <div key={day.toISOString()} className="bg-muted/50 px-2 py-1 text-xs font-medium text-muted-foreground">
+                      {format(day, 'EEE')}
+                    </div>
+                  ))}
+                  {days.map((day) => {
+                    const target = day.toISOString();
+                    return (
+                      <div
+                        key={target}
+                        {...dropProps(target, day)}
+                        className={cn(
+                          'min-h-28 bg-background p-1 space-y-1',
+                          !isSameMonth(day, anchor) && 'bg-muted/30 text-muted-foreground',
+                          dropTarget === target && 'bg-primary/10'
+                        )}
+                      >
+                        <div className={cn('text-xs', isToday(day) && 'font-bold text-primary')}>{format(day, 'd')}</div>
+                        {itemsAt(day).map(renderItem)}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="rounded-md border border-border/50 overflow-hidden">
+                  <div className="grid grid-cols-[3rem_repeat(7,1fr)] bg-muted/50 text-xs font-medium text-muted-foreground">
+                    <div />
+                    {days.map((day) => (
+                      <div key={day.toISOString()} className={cn('px-2 py-1', isToday(day) && 'text-primary')}>
+                        {format(day, 'EEE d')}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="max-h-[640px] overflow-y-auto">
+                    {HOURS.map((hour) => (
+                      <div key={hour} className="grid grid-cols-[3rem_repeat(7,1fr)] border-t border-border/50">
+                        <div className="px-1 py-1 text-xs text-muted-foreground">{String(hour).padStart(2, '0')}:00</div>
+                        {days.map((day) => {
+                          const target = `${day.toISOString()}:${hour}`;
+                          return (
+                            <div
+                              key={target}
+                              {...dropProps(target, day, hour)}
+                              className={cn('min-h-12 border-l border-border/50 p-0.5 space-y-0.5', dropTarget === target && 'bg-primary/10')}
+                            >
+                              {itemsAt(day, hour).map(renderItem)}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-card shadow-creative border-border/50">
+            <CardHeader>
+              <CardTitle>Approved</CardTitle>
+              <CardDescription>{unscheduled.length} posts waiting for a slot</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {unscheduled.length === 0 && (
+                <p className="text-sm text-muted-foreground">Approved posts show up here until they are scheduled.</p>
+              )}
+              {unscheduled.map((item) => (
+                <div
+                  key={item.id}
+                  draggable
+                  onDragStart={(event) => handleDragStart(event, item.id)}
+                  className={cn('rounded-md border border-border/50 bg-background p-2 text-sm space-y-2 cursor-grab', busyId === item.id && 'opacity-50')}
+                >
+                  <p className="line-clamp-3">{item.content_text}</p>
+                  {item.content_metadata?.platform ? (
+                    <Badge variant="outline">{platformLabel(item.content_metadata.platform)}</Badge>
+                  ) : (
+                    <Select
+                      value={platformFor[item.id] ?? ''}
+                      onValueChange={(value) => setPlatformFor((current) => ({ ...current, [item.id]: value as PlatformName }))}
+                    >
+                      <SelectTrigger className="h-8"><SelectValue placeholder="Pick a platform" /></SelectTrigger>
+                      <SelectContent>
+                        {platforms.map((profile) => (
+                          <SelectItem key={profile.name} value={profile.name}>{profile.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContentCalendar;
@@ -1,8 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { apiClient, GeneratedContent } from '@/lib/api';
+import { AIProviderStatus, AIUsageReport, apiClient, GeneratedContent, Persona, PlatformName, PlatformProfile, PostExample, Template, VoiceExample } from '@/lib/api';
 import { useRealtime } from '@/contexts/RealtimeContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,8 +11,11 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import ContentRevisions from '@/components/ContentRevisions';
+import ThreadPreview from '@/components/ThreadPreview';
+import QualityHighlights from '@/components/QualityHighlights';
 import { toast } from 'sonner';
-import { Sparkles, Copy, Check, Twitter, Youtube } from 'lucide-react';
+import { Sparkles, Copy, Check, Twitter, Youtube, Quote, Square, Gauge, Pin } from 'lucide-react';
 
 const RedditIcon = ({ className }: { className?: string }) => (
   <svg 
@@ -30,12 +33,24 @@ const formSchema = z.object({
   context: z.string().min(5, 'Context must be at least 5 characters').max(500),
   max_length: z.number().min(50).max(500).optional(),
   variations: z.number().min(1).max(5).optional(),
-  provider: z.enum(['groq', 'openai', 'huggingface', 'auto']).optional(),
+  provider: z.string().optional(),
+  platform: z.string().optional(),
+  format: z.enum(['single', 'thread', 'carousel']),
+  parts: z.number().min(2).max(10).optional(),
+  persona_id: z.string().optional(),
+  template_id: z.string().optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
 
 const MAX_CONTEXT_LENGTH = 500;
+
+// The tighter of the user's and the artist's budgets; null when neither is limited
+const remainingBudget = (usage: AIUsageReport, key: 'requests_remaining' | 'tokens_remaining') => {
+  const limits = [usage.user[key], usage.artist?.[key] ?? null].filter((value): value is number => value !== null);
+  return limits.length > 0 ? Math.min(...limits) : null;
+};
+
 const clampNumber = (value: number | undefined, min: number, max: number) => {
   if (!Number.isFinite(value)) return min;
   return Math.min(Math.max(value!, min), max);
@@ -65,10 +80,27 @@ const enforceSentenceFriendlyLimit = (text: string, charLimit: number) => {
   return trimmed.slice(0, charLimit).trim();
 };
 
+// A variation still receiving tokens has no score or saved id yet
+type VariationView = GeneratedContent & { streaming?: boolean };
+
+// What the server changed: the style guide's rewrites first, then the platform fit
+const adjustmentsOf = (content: GeneratedContent) => [...(content.style_adjustments ?? []), ...(content.platform_adjustments ?? [])];
+
 const ContentGenerator = () => {
-  const [generatedContent, setGeneratedContent] = useState<GeneratedContent[]>([]);
+  const [generatedContent, setGeneratedContent] = useState<VariationView[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [voiceExamples, setVoiceExamples] = useState<VoiceExample[]>([]);
+  const [postExamples, setPostExamples] = useState<PostExample[]>([]);
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [providers, setProviders] = useState<AIProviderStatus[]>([]);
+  const [platforms, setPlatforms] = useState<PlatformProfile[]>([]);
+  // The platform the shown variations were written for; quality checks score against it
+  const [generatedPlatform, setGeneratedPlatform] = useState<PlatformName | undefined>(undefined);
+  const [fallbackChain, setFallbackChain] = useState<string[]>([]);
+  const [usage, setUsage] = useState<AIUsageReport | null>(null);
   const { subscribeToChannel, unsubscribeFromChannel, isConnected } = useRealtime();
 
   const form = useForm<FormData>({
@@ -79,9 +111,57 @@ const ContentGenerator = () => {
       max_length: 150,
       variations: 3,
       provider: 'auto',
+      platform: 'any',
+      format: 'single',
+      parts: 5,
+      persona_id: 'active',
+      template_id: 'none',
     },
   });
 
+  const contentType = form.watch('content_type');
+  const selectedPlatform = platforms.find((platform) => platform.name === form.watch('platform'));
+  const selectedFormat = form.watch('format');
+
+  useEffect(() => {
+    form.setValue('template_id', 'none');
+    apiClient.getTemplates(contentType)
+      .then((response) => setTemplates(response.templates))
+      .catch(() => setTemplates([]));
+  }, [contentType, form]);
+
+  // Stop any in-flight stream when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    apiClient.getPlatforms()
+      .then((response) => setPlatforms(response.platforms))
+      .catch(() => setPlatforms([]));
+  }, []);
+
+  useEffect(() => {
+    apiClient.getProviders()
+      .then((response) => {
+        setProviders(response.providers);
+        setFallbackChain(response.fallback_chain);
+      })
+      .catch(() => setProviders([]));
+  }, []);
+
+  const loadUsage = () => {
+    apiClient.getUsage()
+      .then((response) => setUsage(response.usage))
+      .catch(() => setUsage(null));
+  };
+
+  useEffect(loadUsage, []);
+
+  useEffect(() => {
+    apiClient.listPersonas()
+      .then((response) => setPersonas(response.personas))
+      .catch(() => setPersonas([]));
+  }, []);
+
   useEffect(() => {
     const channel = subscribeToChannel('content-generator-updates', (payload) => {
       const { eventType, new: newRecord } = payload;
@@ -95,42 +175,136 @@ const ContentGenerator = () => {
     };
   }, [subscribeToChannel, unsubscribeFromChannel]);
 
+  const updateVariation = (variationId: number, update: (current: VariationView) => VariationView) => {
+    setGeneratedContent((current) => {
+      const existing = current.find((item) => item.variation_id === variationId);
+      const base: VariationView = existing ?? {
+        id: '',
+        content: '',
+        quality_score: 0,
+        variation_id: variationId,
+        model_used: form.getValues('provider') || 'auto',
+        saved_at: '',
+        streaming: true,
+      };
+      const next = update(base);
+      return existing
+        ? current.map((item) => (item.variation_id === variationId ? next : item))
+        : [...current, next];
+    });
+  };
+
   const onSubmit = async (values: FormData) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     setIsGenerating(true);
     setGeneratedContent([]);
+    setVoiceExamples([]);
+    setPostExamples([]);
 
     try {
       const trimmedContext = values.context.trim().slice(0, MAX_CONTEXT_LENGTH);
       const safeCharLimit = clampNumber(values.max_length, 50, 500);
       const safeVariations = clampNumber(values.variations, 1, 5);
-
-      const response = await apiClient.generateContent({
+      // A platform profile sets the length and the server fits the text to it
+      const platform = values.platform && values.platform !== 'any' ? values.platform as PlatformName : undefined;
+      setGeneratedPlatform(platform);
+      // Threads and carousels come back as numbered parts sized by the server
+      const multipart = values.format !== 'single';
+      let usesTemplate = false;
+      let failure: string | null = null;
+      let generatedCount = 0;
+      let blockedCount = 0;
+
+      await apiClient.generateContentStream({
         content_type: values.content_type,
         context: trimmedContext,
-        max_length: safeCharLimit,
+        max_length: platform || multipart ? undefined : safeCharLimit,
         variations: safeVariations,
         provider: values.provider,
-      });
-
-      setGeneratedContent(
-        response.generated_content.map((item) => ({
-          ...item,
-          content: enforceSentenceFriendlyLimit(item.content, safeCharLimit),
-        }))
-      );
+        platform,
+        format: values.format,
+        parts: multipart ? clampNumber(values.parts, 2, 10) : undefined,
+        persona_id: values.persona_id && values.persona_id !== 'active' ? values.persona_id : undefined,
+        template_id: !multipart && values.template_id && values.template_id !== 'none' ? values.template_id : undefined,
+      }, (message) => {
+        switch (message.event) {
+          case 'start':
+            usesTemplate = Boolean(message.data.template_used);
+            setVoiceExamples(message.data.voice_examples_used || []);
+            setPostExamples(message.data.post_examples_used || []);
+            break;
+          case 'token':
+            updateVariation(message.data.variation_id, (current) => ({
+              ...current,
+              format: values.format,
+              content: current.content + message.data.token,
+            }));
+            break;
+          case 'score':
+            updateVariation(message.data.variation_id, (current) => ({
+              ...current,
+              ...message.data,
+              // Template posts are shaped by the template itself, platform and multi-part posts by the server, so only other free-form text is trimmed
+              content: usesTemplate || platform || multipart ? message.data.content : enforceSentenceFriendlyLimit(message.data.content, safeCharLimit),
+              streaming: false,
+            }));
+            break;
+          case 'blocked':
+            // Text streamed before moderation caught the block is dropped; the reason stays with the variation
+            updateVariation(message.data.variation_id, (current) => ({
+              ...current,
+              content: '',
+              parts: undefined,
+              moderation: message.data.moderation,
+              blocked: true,
+              streaming: false,
+            }));
+            break;
+          case 'saved':
+            updateVariation(message.data.variation_id, (current) => ({
+              ...current,
+              id: message.data.id ?? '',
+              saved_at: message.data.saved_at ?? '',
+            }));
+            break;
+          case 'done':
+            generatedCount = message.data.variations_generated;
+            blockedCount = message.data.variations_blocked ?? 0;
+            break;
+          case 'error':
+            failure = message.data.error;
+            break;
+        }
+      }, abortController.signal);
+
+      if (failure) {
+        throw new Error(failure);
+      }
 
       toast.success('Content generated successfully!', {
-        description: `Generated ${response.generation_metadata.variations_generated} variations`,
+        description: `Generated ${generatedCount} variations${blockedCount > 0 ? `, ${blockedCount} blocked by moderation` : ''}`,
       });
     } catch (error: any) {
-      toast.error('Content generation failed', {
-        description: error.message || 'Please try again. Make sure you have an active persona.',
-      });
+      if (abortController.signal.aborted) {
+        setGeneratedContent((current) => current.filter((item) => !item.streaming));
+        toast.info('Generation cancelled');
+      } else {
+        toast.error('Content generation failed', {
+          description: error.message || 'Please try again. Make sure you have an active persona.',
+        });
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsGenerating(false);
+      loadUsage();
     }
   };
 
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const copyToClipboard = (content: string, id: string) => {
     navigator.clipboard.writeText(content);
     setCopiedId(id);
@@ -258,6 +432,154 @@ const ContentGenerator = () => {
                     )}
                   />
 
+                  {templates.length > 0 && selectedFormat === 'single' && (
+                    <FormField
+                      control={form.control}
+                      name="template_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Template</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select template" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">No template (free-form)</SelectItem>
+                              {templates.map((template) => (
+                                <SelectItem key={template.id} value={template.id}>
+                                  {template.template_name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            The AI fills in the template's variables from your context and persona
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {personas.length > 1 && (
+                    <FormField
+                      control={form.control}
+                      name="persona_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Persona</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select persona" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="active">Active persona</SelectItem>
+                              {personas.map((persona) => (
+                                <SelectItem key={persona.id} value={persona.id}>
+                                  {persona.persona_name}{persona.is_active ? ' (active)' : ''}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            Write as a different persona for this request only
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name="platform"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Platform</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select platform" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="any">Any platform</SelectItem>
+                            {platforms.map((platform) => (
+                              <SelectItem key={platform.name} value={platform.name}>
+                                {platform.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {selectedPlatform && (
+                          <FormDescription>
+                            Up to {selectedPlatform.max_chars.toLocaleString()} characters
+                            {selectedPlatform.hashtags.max === 0
+                              ? ', no hashtags'
+                              : `, ${selectedPlatform.hashtags.min > 0 ? `${selectedPlatform.hashtags.min}-` : 'up to '}${selectedPlatform.hashtags.max} hashtags`}
+                            {selectedPlatform.links === 'not_clickable' ? `, links become "${selectedPlatform.link_text}"` : ''}
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="format"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Format</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select format" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="single">Single post</SelectItem>
+                              <SelectItem value="thread">Thread</SelectItem>
+                              <SelectItem value="carousel">Carousel</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {selectedFormat !== 'single' && !selectedPlatform && (
+                            <FormDescription>
+                              Written for {selectedFormat === 'thread' ? 'X' : 'Instagram'} unless you pick a platform
+                            </FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="parts"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Parts</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={2}
+                              max={10}
+                              disabled={selectedFormat === 'single'}
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
                   <FormField
                     control={form.control}
                     name="provider"
@@ -272,11 +594,19 @@ const ContentGenerator = () => {
                           </FormControl>
                           <SelectContent>
                             <SelectItem value="auto">Auto (Recommended)</SelectItem>
-                            <SelectItem value="groq">Groq (Fast)</SelectItem>
-                            <SelectItem value="openai">OpenAI (Premium)</SelectItem>
-                            <SelectItem value="huggingface">HuggingFace</SelectItem>
+                            {providers.map((provider) => (
+                              <SelectItem key={provider.name} value={provider.name} disabled={!provider.configured}>
+                                {provider.label}
+                                {!provider.configured ? ' (not configured)' : !provider.healthy ? ' (temporarily unavailable)' : ''}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
+                        {fallbackChain.length > 0 && (
+                          <FormDescription>
+                            Auto tries {fallbackChain.join(' → ')}
+                          </FormDescription>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -314,6 +644,7 @@ const ContentGenerator = () => {
                               type="number"
                               min={50}
                               max={500}
+                              disabled={Boolean(selectedPlatform) || selectedFormat !== 'single'}
                               {...field}
                               onChange={(e) => field.onChange(parseInt(e.target.value))}
                             />
@@ -341,6 +672,40 @@ const ContentGenerator = () => {
                       </>
                     )}
                   </Button>
+
+                  {isGenerating && (
+                    <Button type="button" variant="outline" className="w-full" onClick={cancelGeneration}>
+                      <Square className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+
+                  {usage && (() => {
+                    const requestsLeft = remainingBudget(usage, 'requests_remaining');
+                    const tokensLeft = remainingBudget(usage, 'tokens_remaining');
+                    const exhausted = requestsLeft === 0 || tokensLeft === 0;
+                    return (
+                      <div className="rounded-md border border-border/50 p-3 text-sm space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="flex items-center font-medium">
+                            <Gauge className="h-4 w-4 mr-2" />
+                            AI budget
+                          </span>
+                          <span className="text-muted-foreground">
+                            ~${usage.user.estimated_cost_usd_this_month.toFixed(2)} this month
+                          </span>
+                        </div>
+                        <p className={exhausted ? 'text-destructive' : 'text-muted-foreground'}>
+                          {requestsLeft === null ? 'Unlimited' : requestsLeft.toLocaleString()} requests left today ·{' '}
+                          {tokensLeft === null ? 'unlimited' : tokensLeft.toLocaleString()} tokens left this month
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Requests reset {new Date(usage.requests_reset_at).toLocaleString()}, tokens reset{' '}
+                          {new Date(usage.tokens_reset_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                    );
+                  })()}
                 </form>
               </Form>
             </CardContent>
@@ -360,7 +725,7 @@ const ContentGenerator = () => {
               </Card>
             )}
 
-            {isGenerating && (
+            {isGenerating && generatedContent.length === 0 && (
               <Card className="bg-gradient-card shadow-card border-border/50">
                 <CardContent className="py-12 text-center">
                   <Sparkles className="h-12 w-12 text-primary mx-auto mb-4 animate-spin" />
@@ -369,9 +734,53 @@ const ContentGenerator = () => {
               </Card>
             )}
 
+            {voiceExamples.length > 0 && (
+              <Card className="bg-gradient-card shadow-card border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center">
+                    <Quote className="h-4 w-4 mr-2 text-primary" />
+                    Voice examples from your transcripts
+                  </CardTitle>
+                  <CardDescription>These passages were used as style references for this generation.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {voiceExamples.map((example) => (
+                    <div key={`${example.transcript_id}-${example.chunk_index}`} className="text-sm">
+                      <p className="italic text-muted-foreground">"{example.text}"</p>
+                      <p className="text-xs text-muted-foreground mt-1 capitalize">
+                        {example.source_type || 'transcript'}
+                      </p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {postExamples.length > 0 && (
+              <Card className="bg-gradient-card shadow-card border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center">
+                    <Pin className="h-4 w-4 mr-2 text-primary" />
+                    Example posts
+                  </CardTitle>
+                  <CardDescription>Your approved posts of this kind, shown to the AI as examples of your voice.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {postExamples.map((example) => (
+                    <div key={example.content_id} className="text-sm">
+                      <p className="whitespace-pre-line text-muted-foreground">{example.text}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {example.pinned ? 'Pinned' : example.source === 'edited' ? 'Edited by hand' : 'Approved'}
+                      </p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {generatedContent.map((content, index) => (
               <Card
-                key={content.id || index}
+                key={content.variation_id || index}
                 className="bg-gradient-card shadow-creative border-border/50 hover:shadow-glow transition-all duration-300"
               >
                 <CardHeader>
@@ -380,9 +789,15 @@ const ContentGenerator = () => {
                       Variation {content.variation_id}
                     </CardTitle>
                     <div className="flex items-center space-x-2">
-                      <Badge variant="outline">
-                        Score: {(content.quality_score * 100).toFixed(0)}%
-                      </Badge>
+                      {content.streaming ? (
+                        <Badge variant="outline" className="animate-pulse">Writing...</Badge>
+                      ) : content.blocked ? (
+                        <Badge variant="destructive">Blocked</Badge>
+                      ) : (
+                        <Badge variant="outline">
+                          Score: {(content.quality_score * 100).toFixed(0)}%
+                        </Badge>
+                      )}
                       <Badge variant="secondary" className="capitalize">
                         {content.model_used}
                       </Badge>
@@ -390,58 +805,138 @@ const ContentGenerator = () => {
                   </div>
                 </CardHeader>
                 <CardContent>
-                  <p className="text-sm leading-relaxed mb-4">{content.content}</p>
+                  {content.blocked ? (
+                    <p className="text-sm text-destructive mb-4">
+                      Blocked by moderation{content.moderation?.reason ? `: ${content.moderation.reason}` : ''}
+                    </p>
+                  ) : content.format && content.format !== 'single' ? (
+                    content.parts && !content.streaming ? (
+                      <ThreadPreview format={content.format} parts={content.parts} />
+                    ) : (
+                      // The raw answer is a JSON array until the server splits it into parts
+                      <p className="text-sm text-muted-foreground mb-4 animate-pulse">Writing the {content.format}...</p>
+                    )
+                  ) : content.streaming ? (
+                    <p className="text-sm leading-relaxed mb-4 whitespace-pre-line">{content.content}</p>
+                  ) : (
+                    <QualityHighlights text={content.content} platform={generatedPlatform} />
+                  )}
+
+                  {content.moderation?.action === 'flag' && (
+                    <p className="mb-4 text-xs text-amber-600">Flagged for review: {content.moderation.reason}</p>
+                  )}
+
+                  {content.format_warnings && content.format_warnings.length > 0 && (
+                    <ul className="mb-4 list-disc pl-5 text-xs text-destructive space-y-0.5">
+                      {content.format_warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {content.style_violations && content.style_violations.length > 0 && (
+                    <ul className="mb-4 list-disc pl-5 text-xs text-amber-600 space-y-0.5">
+                      {content.style_violations.map((violation) => (
+                        <li key={violation}>Style guide: {violation}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {adjustmentsOf(content).length > 0 && (
+                    <ul className="mb-4 list-disc pl-5 text-xs text-muted-foreground space-y-0.5">
+                      {adjustmentsOf(content).map((adjustment) => (
+                        <li key={adjustment}>{adjustment}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {content.template_variables && Object.keys(content.template_variables).length > 0 && (
+                    <div className="mb-4 rounded-md border border-border/50 p-3 text-xs space-y-1">
+                      <p className="font-medium text-muted-foreground">Template variables</p>
+                      {Object.entries(content.template_variables).map(([name, value]) => (
+                        <p key={name}>
+                          <span className="font-mono text-muted-foreground">{name}</span>: {String(value)}
+                        </p>
+                      ))}
+                      {content.template_warnings?.map((warning) => (
+                        <p key={warning} className="text-destructive">{warning}</p>
+                      ))}
+                    </div>
+                  )}
                   
-                  <div className="flex flex-wrap gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => copyToClipboard(content.content, content.id)}
-                      className="flex-1 min-w-[120px]"
-                    >
-                      {copiedId === content.id ? (
-                        <>
-                          <Check className="h-4 w-4 mr-2" />
-                          Copied!
-                        </>
-                      ) : (
-                        <>
-                          <Copy className="h-4 w-4 mr-2" />
-                          Copy
-                        </>
-                      )}
-                    </Button>
-
-                    <Button
-                      variant="default"
-                      size="sm"
-                      onClick={() => postToX(content.content)}
-                      className="flex-1 min-w-[120px] bg-black text-white hover:bg-black/90"
-                    >
-                      <Twitter className="h-4 w-4 mr-2" />
-                      Post to X
-                    </Button>
-
-                    <Button
-                      variant="default"
-                      size="sm"
-                      onClick={() => postToReddit(content.content)}
-                      className="flex-1 min-w-[120px] bg-[#FF4500] text-white hover:bg-[#FF4500]/90"
-                    >
-                      <RedditIcon className="h-4 w-4 mr-2" />
-                      Post to Reddit
-                    </Button>
-
-                    <Button
-                      variant="default"
-                      size="sm"
-                      onClick={() => openYouTubeUpload(content.content, content.id)}
-                      className="flex-1 min-w-[150px] bg-[#FF0000] text-white hover:bg-[#e60000]"
-                    >
-                      <Youtube className="h-4 w-4 mr-2" />
-                      YouTube Upload
-                    </Button>
-                  </div>
+                  {!content.blocked && (
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => copyToClipboard(content.content, content.id)}
+                        className="flex-1 min-w-[120px]"
+                      >
+                        {copiedId === content.id ? (
+                          <>
+                            <Check className="h-4 w-4 mr-2" />
+                            Copied!
+                          </>
+                        ) : (
+                          <>
+                            <Copy className="h-4 w-4 mr-2" />
+                            Copy
+                          </>
+                        )}
+                      </Button>
+
+                      <Button
+                        variant="default"
+                        size="sm"
+                        onClick={() => postToX(content.content)}
+                        className="flex-1 min-w-[120px] bg-black text-white hover:bg-black/90"
+                      >
+                        <Twitter className="h-4 w-4 mr-2" />
+                        Post to X
+                      </Button>
+
+                      <Button
+                        variant="default"
+                        size="sm"
+                        onClick={() => postToReddit(content.content)}
+                        className="flex-1 min-w-[120px] bg-[#FF4500] text-white hover:bg-[#FF4500]/90"
+                      >
+                        <RedditIcon className="h-4 w-4 mr-2" />
+                        Post to Reddit
+                      </Button>
+
+                      <Button
+                        variant="default"
+                        size="sm"
+                        onClick={() => openYouTubeUpload(content.content, content.id)}
+                        className="flex-1 min-w-[150px] bg-[#FF0000] text-white hover:bg-[#e60000]"
+                      >
+                        <Youtube className="h-4 w-4 mr-2" />
+                        YouTube Upload
+                      </Button>
+                    </div>
+                  )}
+
+                  {content.id && !content.streaming && !content.blocked && (
+                    <ContentRevisions
+                      contentId={content.id}
+                      content={content.content}
+                      provider={form.getValues('provider')}
+                      parts={content.parts}
+                      onRevised={(revision, updated) => setGeneratedContent((current) => current.map((item) => (
+                        item.id === content.id
+                          ? {
+                              ...item,
+                              content: revision.content_text,
+                              quality_score: revision.quality_score ?? item.quality_score,
+                              ...(updated.content_metadata?.parts
+                                ? { parts: updated.content_metadata.parts, format_warnings: updated.content_metadata.format_warnings ?? [] }
+                                : {}),
+                            }
+                          : item
+                      )))}
+                    />
+                  )}
 
                 </CardContent>
               </Card>
@@ -1,14 +1,18 @@
 import { useEffect, useState } from 'react';
 import { useArtistStore } from '@/stores/artistStore';
-import { apiClient } from '@/lib/api';
+import { apiClient, TranscriptAnalysis } from '@/lib/api';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import TranscriptRepurpose from '@/components/TranscriptRepurpose';
+import { toast } from 'sonner';
 import { User, Music, Image, Video, FileText, Loader2 } from 'lucide-react';
 import heroImage from '@/assets/musician-hero.jpg';
 
 const Dashboard = () => {
   const { artistData, mediaFiles, uploadedFiles, updateArtistData, setUploadedFiles } = useArtistStore();
   const [isLoading, setIsLoading] = useState(true);
+  const [proposals, setProposals] = useState<Record<string, TranscriptAnalysis>>({});
 
   useEffect(() => {
     // Fetch artist profile and uploaded files on mount
@@ -44,6 +48,37 @@ const Dashboard = () => {
     loadData();
   }, [updateArtistData, setUploadedFiles]);
 
+  const loadProposal = async (transcriptId: string) => {
+    try {
+      const { analysis } = await apiClient.getTranscriptAnalysis(transcriptId);
+      if (analysis) {
+        setProposals((current) => ({ ...current, [transcriptId]: analysis }));
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load transcript analysis');
+    }
+  };
+
+  const reviewProposal = async (transcriptId: string, accept: boolean) => {
+    try {
+      const { analysis } = accept
+        ? await apiClient.acceptTranscriptProposal(transcriptId)
+        : await apiClient.rejectTranscriptProposal(transcriptId);
+
+      setUploadedFiles(uploadedFiles.map((file) =>
+        file.id === transcriptId ? { ...file, proposal_status: analysis.proposal_status } : file
+      ));
+      setProposals((current) => {
+        const next = { ...current };
+        delete next[transcriptId];
+        return next;
+      });
+      toast.success(accept ? 'Persona updated from transcript' : 'Suggestions dismissed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review suggestions');
+    }
+  };
+
   const getMediaTypeIcon = (type: string) => {
     switch (type) {
       case 'image': return Image;
@@ -201,6 +236,32 @@ const Dashboard = () => {
                       <p className="text-xs text-muted-foreground">
                         Uploaded {new Date(file.created_at).toLocaleDateString()}
                       </p>
+                      {file.proposal_status === 'pending' && !proposals[file.id] && (
+                        <Button variant="outline" size="sm" className="w-full" onClick={() => loadProposal(file.id)}>
+                          Review persona suggestions
+                        </Button>
+                      )}
+                      {proposals[file.id] && (
+                        <div className="space-y-2 border-t border-border/50 pt-2 text-sm">
+                          {proposals[file.id].proposed_updates.key_themes.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {proposals[file.id].proposed_updates.key_themes.map((theme) => (
+                                <Badge key={theme} variant="secondary">{theme}</Badge>
+                              ))}
+                            </div>
+                          )}
+                          <p className="text-muted-foreground">
+                            Style: {proposals[file.id].proposed_updates.voice_characteristics.sentence_style}
+                            {proposals[file.id].frequent_phrases.length > 0 &&
+                              ` · often says "${proposals[file.id].frequent_phrases[0].phrase}"`}
+                          </p>
+                          <div className="flex gap-2">
+                            <Button size="sm" onClick={() => reviewProposal(file.id, true)}>Accept</Button>
+                            <Button size="sm" variant="ghost" onClick={() => reviewProposal(file.id, false)}>Dismiss</Button>
+                          </div>
+                        </div>
+                      )}
+                      <TranscriptRepurpose transcriptId={file.id} />
                     </div>
                   </CardContent>
                 </Card>
@@ -0,0 +1,324 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AICacheStats, apiClient, GenerationLog, GenerationLogFilters, GenerationLogSummary, GenerationRequestType } from '@/lib/api';
+import ScoringCalibration from '@/components/ScoringCalibration';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Activity, Database, RefreshCw, Trash2 } from 'lucide-react';
+
+const PAGE_SIZE = 50;
+
+const REQUEST_TYPE_LABELS: Record<GenerationRequestType, string> = {
+  content_generation: 'Generation',
+  content_refinement: 'Refinement',
+  content_repurpose: 'Repurpose',
+  quality_scoring: 'Quality score',
+  template_processing: 'Template',
+};
+
+const formatMs = (value: number | null) => (value === null ? '—' : value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${value}ms`);
+const formatRate = (value: number) => `${Math.round(value * 100)}%`;
+
+const GenerationLogs = () => {
+  const [logs, setLogs] = useState<GenerationLog[]>([]);
+  const [summary, setSummary] = useState<GenerationLogSummary | null>(null);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [provider, setProvider] = useState('all');
+  const [requestType, setRequestType] = useState('all');
+  const [outcome, setOutcome] = useState('all');
+  const [isLoading, setIsLoading] = useState(false);
+  const [cacheStats, setCacheStats] = useState<AICacheStats | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+
+  const loadCacheStats = useCallback(() => {
+    apiClient.getCacheStats()
+      .then((response) => setCacheStats(response.cache))
+      .catch(() => setCacheStats(null));
+  }, []);
+
+  useEffect(() => {
+    loadCacheStats();
+  }, [loadCacheStats]);
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
+    try {
+      const result = await apiClient.clearCache({ expired: true });
+      toast.success('AI cache cleared', {
+        description: `${result.entries_removed} cached results and ${result.expired_entries_removed} expired entries removed`,
+      });
+      loadCacheStats();
+    } catch (error) {
+      toast.error('Failed to clear cache', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
+
+  const loadLogs = useCallback(async () => {
+    setIsLoading(true);
+    const filters: GenerationLogFilters = { limit: PAGE_SIZE, offset };
+    if (provider !== 'all') filters.provider = provider;
+    if (requestType !== 'all') filters.request_type = requestType as GenerationRequestType;
+    if (outcome !== 'all') filters.success = outcome === 'success';
+
+    try {
+      const response = await apiClient.getGenerationLogs(filters);
+      setLogs(response.logs);
+      setSummary(response.summary);
+      setTotal(response.pagination.total);
+    } catch (error) {
+      toast.error('Failed to load AI logs', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [provider, requestType, outcome, offset]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
+
+  const providerOptions = summary?.by_provider.map((stats) => stats.provider) ?? [];
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <div className="bg-gradient-primary p-3 rounded-full w-16 h-16 mx-auto mb-4 shadow-glow">
+            <Activity className="h-10 w-10 text-primary-foreground" />
+          </div>
+          <h1 className="text-3xl font-bold mb-2">AI Logs</h1>
+          <p className="text-muted-foreground">
+            Every AI call made for your artists, with latency, tokens and errors
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          {[
+            { label: 'Calls', value: summary ? String(summary.calls) : '—' },
+            { label: 'Failure rate', value: summary ? formatRate(summary.failure_rate) : '—' },
+            { label: 'p50 latency', value: formatMs(summary?.p50_ms ?? null) },
+            { label: 'p95 latency', value: formatMs(summary?.p95_ms ?? null) },
+          ].map(({ label, value }) => (
+            <Card key={label} className="bg-gradient-card shadow-card border-border/50">
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">{label}</p>
+                <p className="text-2xl font-bold">{value}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {summary && summary.by_provider.length > 0 && (
+          <Card className="bg-gradient-card shadow-creative border-border/50 mb-8">
+            <CardHeader>
+              <CardTitle>By provider</CardTitle>
+              <CardDescription>Latency percentiles and failure rate for the current filters</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Provider</TableHead>
+                    <TableHead className="text-right">Calls</TableHead>
+                    <TableHead className="text-right">Failure rate</TableHead>
+                    <TableHead className="text-right">p50</TableHead>
+                    <TableHead className="text-right">p95</TableHead>
+                    <TableHead className="text-right">Tokens (in / out)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.by_provider.map((stats) => (
+                    <TableRow key={stats.provider}>
+                      <TableCell className="font-medium">{stats.provider}</TableCell>
+                      <TableCell className="text-right">{stats.calls}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={stats.failure_rate > 0.2 ? 'destructive' : 'secondary'}>
+                          {formatRate(stats.failure_rate)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatMs(stats.p50_ms)}</TableCell>
+                      <TableCell className="text-right">{formatMs(stats.p95_ms)}</TableCell>
+                      <TableCell className="text-right">{stats.prompt_tokens} / {stats.completion_tokens}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-gradient-card shadow-creative border-border/50 mb-8">
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center space-x-2">
+                  <Database className="h-5 w-5 text-primary" />
+                  <span>Cache</span>
+                </CardTitle>
+                <CardDescription>
+                  Repeated requests are answered from memory, then from the shared database cache
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={handleClearCache} disabled={isClearingCache}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Clear my cached results
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {cacheStats ? (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Hit rate</p>
+                  <p className="text-xl font-bold">{cacheStats.hit_rate === null ? '—' : formatRate(cacheStats.hit_rate)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Memory entries</p>
+                  <p className="text-xl font-bold">{cacheStats.memory.keys}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Database entries</p>
+                  <p className="text-xl font-bold">
+                    {cacheStats.database.enabled ? cacheStats.database.active_entries ?? 0 : 'off'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Hits (memory / database)</p>
+                  <p className="text-xl font-bold">{cacheStats.memory.hits} / {cacheStats.database.hits}</p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-muted-foreground">Cache statistics are unavailable.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <ScoringCalibration />
+
+        <Card className="bg-gradient-card shadow-creative border-border/50">
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <CardTitle>Calls</CardTitle>
+                <CardDescription>{total} matching calls, newest first</CardDescription>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={provider} onValueChange={(value) => { setOffset(0); setProvider(value); }}>
+                  <SelectTrigger className="w-36"><SelectValue placeholder="Provider" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All providers</SelectItem>
+                    {providerOptions.map((name) => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={requestType} onValueChange={(value) => { setOffset(0); setRequestType(value); }}>
+                  <SelectTrigger className="w-40"><SelectValue placeholder="Type" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All types</SelectItem>
+                    {Object.entries(REQUEST_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={outcome} onValueChange={(value) => { setOffset(0); setOutcome(value); }}>
+                  <SelectTrigger className="w-32"><SelectValue placeholder="Outcome" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All outcomes</SelectItem>
+                    <SelectItem value="success">Succeeded</SelectItem>
+                    <SelectItem value="failure">Failed</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" onClick={loadLogs} disabled={isLoading}>
+                  <RefreshCw className={isLoading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {logs.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                {isLoading ? 'Loading...' : 'No AI calls match these filters yet.'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Provider / model</TableHead>
+                    <TableHead className="text-right">Latency</TableHead>
+                    <TableHead className="text-right">Tokens</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.map((log) => (
+                    <TableRow key={log.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(log.created_at).toLocaleString()}</TableCell>
+                      <TableCell>{REQUEST_TYPE_LABELS[log.request_type] ?? log.request_type}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{log.provider ?? 'unknown'}</div>
+                        <div className="text-xs text-muted-foreground">{log.ai_model}</div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMs(log.processing_time_ms)}
+                        {log.attempts && log.attempts > 1 && (
+                          <div className="text-xs text-muted-foreground">{log.attempts} attempts</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {log.prompt_tokens === null && log.completion_tokens === null
+                          ? '—'
+                          : `${log.prompt_tokens ?? 0} / ${log.completion_tokens ?? 0}`}
+                      </TableCell>
+                      <TableCell>
+                        {log.success ? (
+                          <Badge variant="secondary">OK</Badge>
+                        ) : (
+                          <div className="space-y-1">
+                            <Badge variant="destructive">{log.error_code ?? 'Failed'}</Badge>
+                            {log.error_message && (
+                              <p className="text-xs text-muted-foreground max-w-xs truncate" title={log.error_message}>
+                                {log.error_message}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {total > PAGE_SIZE && (
+              <div className="flex items-center justify-between mt-4">
+                <Button variant="outline" disabled={offset === 0 || isLoading} onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}>
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+                </span>
+                <Button variant="outline" disabled={offset + PAGE_SIZE >= total || isLoading} onClick={() => setOffset(offset + PAGE_SIZE)}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationLogs;
@@ -0,0 +1,526 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { apiClient, ApprovalStatus, Collaborator, PlatformProfile, ReviewEvent, ReviewItem } from '@/lib/api';
+import SchedulePicker from '@/components/SchedulePicker';
+import SocialAccounts from '@/components/SocialAccounts';
+import ContentMetrics from '@/components/ContentMetrics';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { BarChart3, ClipboardCheck, Check, History, Pin, PinOff, RefreshCw, Send, Trash2, Upload, UserPlus, X } from 'lucide-react';
+
+const STATUS_LABELS: Record<ApprovalStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  scheduled: 'Scheduled',
+  ready_to_publish: 'Ready to publish',
+  published: 'Published',
+};
+
+// Button label for moving an item to each status
+const TRANSITION_LABELS: Record<ApprovalStatus, string> = {
+  draft: 'Back to draft',
+  in_review: 'Submit for review',
+  approved: 'Approve',
+  rejected: 'Reject',
+  scheduled: 'Schedule',
+  ready_to_publish: 'Mark ready',
+  published: 'Mark published',
+};
+
+// Scheduling needs a platform and a time, and publishing posts to the platform, so both get their own
+// controls instead of a transition button
+const isOnCalendar = (status: ApprovalStatus) => status === 'scheduled' || status === 'ready_to_publish';
+const hasButton = (toStatus: ApprovalStatus) => toStatus !== 'scheduled' && toStatus !== 'published';
+
+const transitionLabel = (item: ReviewItem, toStatus: ApprovalStatus) =>
+  toStatus === 'approved' && isOnCalendar(item.approval_status) ? 'Unschedule' : TRANSITION_LABELS[toStatus];
+
+const statusVariant = (status: ApprovalStatus) =>
+  status === 'approved' || status === 'ready_to_publish' || status === 'published' ? 'default' : status === 'rejected' ? 'destructive' : 'secondary';
+
+const describeEvent = (event: ReviewEvent) => {
+  if (event.event_type === 'created') return 'Created as draft';
+  if (event.event_type === 'assignment') {
+    return event.reviewer_email ? `Assigned to ${event.reviewer_email}` : 'Reviewer unassigned';
+  }
+  if (event.event_type === 'schedule') return 'Rescheduled';
+  return `${STATUS_LABELS[event.from_status ?? 'draft']} → ${STATUS_LABELS[event.to_status ?? 'draft']}`;
+};
+
+const ReviewQueue = () => {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [status, setStatus] = useState<ApprovalStatus>('in_review');
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [timelines, setTimelines] = useState<Record<string, ReviewEvent[]>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [collaborators, setCollaborators] = useState<Collaborator[] | null>(null);
+  const [newEmail, setNewEmail] = useState('');
+  const [newRole, setNewRole] = useState<'editor' | 'reviewer'>('reviewer');
+  const [platforms, setPlatforms] = useState<PlatformProfile[]>([]);
+  const [metricsOpen, setMetricsOpen] = useState<Record<string, boolean>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await apiClient.getReviewQueue({ status, assigned_to_me: assignedToMe });
+      setItems(response.items);
+    } catch (error) {
+      toast.error('Failed to load review queue', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, assignedToMe]);
+
+  const loadCollaborators = useCallback(() => {
+    apiClient.getCollaborators()
+      .then((response) => setCollaborators(response.collaborators))
+      .catch(() => setCollaborators(null));
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  useEffect(() => {
+    loadCollaborators();
+  }, [loadCollaborators]);
+
+  useEffect(() => {
+    apiClient.getPlatforms()
+      .then((response) => setPlatforms(response.platforms))
+      .catch(() => setPlatforms([]));
+  }, []);
+
+  const reviewers = (collaborators ?? []).filter((person) => person.role !== 'editor');
+
+  const replaceItem = (updated: ReviewItem) => {
+    // Items that left the filtered status drop out of the queue
+    setItems((current) => current
+      .map((item) => (item.id === updated.id ? { ...item, ...updated } : item))
+      .filter((item) => item.approval_status === status));
+  };
+
+  const refreshTimeline = async (contentId: string) => {
+    const response = await apiClient.getContentTimeline(contentId);
+    setTimelines((current) => ({ ...current, [contentId]: response.timeline }));
+  };
+
+  const handleTransition = async (item: ReviewItem, toStatus: ApprovalStatus) => {
+    setBusyId(item.id);
+    try {
+      const response = await apiClient.transitionContent(item.id, toStatus, comments[item.id]?.trim());
+      toast.success(`${transitionLabel(item, toStatus)}: done`);
+      setComments((current) => ({ ...current, [item.id]: '' }));
+      if (timelines[item.id]) await refreshTimeline(item.id);
+      replaceItem(response.content);
+    } catch (error) {
+      toast.error('Could not update content', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePublish = async (item: ReviewItem) => {
+    setBusyId(item.id);
+    try {
+      const response = await apiClient.publishContent(item.id);
+      toast.success(response.message, {
+        ...(response.publication.post_url
+          ? { action: { label: 'View post', onClick: () => window.open(response.publication.post_url ?? '', '_blank') } }
+          : {}),
+      });
+      if (timelines[item.id]) await refreshTimeline(item.id);
+      replaceItem(response.content);
+    } catch (error) {
+      toast.error('Could not publish content', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleTogglePin = async (item: ReviewItem) => {
+    setBusyId(item.id);
+    try {
+      const response = item.example_pinned_at ? await apiClient.unpinExample(item.id) : await apiClient.pinExample(item.id);
+      toast.success(response.message);
+      replaceItem(response.content);
+    } catch (error) {
+      toast.error(item.example_pinned_at ? 'Could not unpin example' : 'Could not pin example', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleImportMetrics = async (file: File | undefined) => {
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const result = await apiClient.importMetrics(file);
+      const firstRejected = result.rejected[0];
+      if (firstRejected) {
+        toast.warning(result.message, {
+          description: `Row ${firstRejected.row}: ${firstRejected.error}${result.rejected.length > 1 ? ` (and ${result.rejected.length - 1} more)` : ''}`,
+        });
+      } else {
+        toast.success(result.message);
+      }
+      // Close the open metrics panels; reopening one loads the new numbers
+      setMetricsOpen({});
+    } catch (error) {
+      toast.error('Could not import metrics', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsImporting(false);
+      if (importInput.current) importInput.current.value = '';
+    }
+  };
+
+  const handleScheduled = async (updated: ReviewItem) => {
+    if (timelines[updated.id]) await refreshTimeline(updated.id);
+    replaceItem(updated);
+  };
+
+  const handleAssign = async (item: ReviewItem, reviewerId: string) => {
+    setBusyId(item.id);
+    try {
+      const response = await apiClient.assignReviewer(item.id, reviewerId === 'none' ? null : reviewerId);
+      toast.success(response.message);
+      if (timelines[item.id]) await refreshTimeline(item.id);
+      replaceItem(response.content);
+    } catch (error) {
+      toast.error('Could not assign reviewer', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleTimeline = async (contentId: string) => {
+    if (timelines[contentId]) {
+      setTimelines(({ [contentId]: _removed, ...rest }) => rest);
+      return;
+    }
+    try {
+      await refreshTimeline(contentId);
+    } catch (error) {
+      toast.error('Could not load timeline', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    }
+  };
+
+  const handleAddCollaborator = async () => {
+    if (!newEmail.trim()) return;
+    try {
+      await apiClient.addCollaborator(newEmail.trim(), newRole);
+      toast.success('Collaborator saved');
+      setNewEmail('');
+      loadCollaborators();
+    } catch (error) {
+      toast.error('Could not add collaborator', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    }
+  };
+
+  const handleRemoveCollaborator = async (userId: string) => {
+    try {
+      await apiClient.removeCollaborator(userId);
+      toast.success('Collaborator removed');
+      loadCollaborators();
+    } catch (error) {
+      toast.error('Could not remove collaborator', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <div className="bg-gradient-primary p-3 rounded-full w-16 h-16 mx-auto mb-4 shadow-glow">
+            <ClipboardCheck className="h-10 w-10 text-primary-foreground" />
+          </div>
+          <h1 className="text-3xl font-bold mb-2">Review Queue</h1>
+          <p className="text-muted-foreground">
+            Move content from draft through review to approval, scheduling and publishing
+          </p>
+        </div>
+
+        <Card className="bg-gradient-card shadow-creative border-border/50 mb-8">
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <CardTitle>Content</CardTitle>
+                <CardDescription>{items.length} items {STATUS_LABELS[status].toLowerCase()}</CardDescription>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <Select value={status} onValueChange={(value) => setStatus(value as ApprovalStatus)}>
+                  <SelectTrigger className="w-36"><SelectValue placeholder="Status" /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center space-x-2">
+                  <Switch id="assigned-to-me" checked={assignedToMe} onCheckedChange={setAssignedToMe} />
+                  <Label htmlFor="assigned-to-me">Assigned to me</Label>
+                </div>
+                {status === 'published' && (
+                  <>
+                    <input
+                      ref={importInput}
+                      type="file"
+                      accept=".csv,.json,text/csv,application/json"
+                      className="hidden"
+                      onChange={(event) => handleImportMetrics(event.target.files?.[0])}
+                    />
+                    <Button variant="outline" onClick={() => importInput.current?.click()} disabled={isImporting}>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Import metrics
+                    </Button>
+                  </>
+                )}
+                <Button variant="outline" size="icon" onClick={loadQueue} disabled={isLoading}>
+                  <RefreshCw className={isLoading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {items.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">
+                {isLoading ? 'Loading...' : 'Nothing waiting here.'}
+              </p>
+            )}
+
+            {items.map((item) => (
+              <Card key={item.id} className="border-border/50">
+                <CardHeader className="pb-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={statusVariant(item.approval_status)}>{STATUS_LABELS[item.approval_status]}</Badge>
+                      {item.content_type && <Badge variant="outline">{item.content_type.replace('_', ' ')}</Badge>}
+                      {item.content_metadata?.moderation && item.content_metadata.moderation.action !== 'allow' && (
+                        <Badge variant="destructive">
+                          {item.content_metadata.moderation.action === 'block' ? 'Blocked by moderation' : 'Flagged'}
+                        </Badge>
+                      )}
+                      {item.example_pinned_at && (
+                        <Badge variant="secondary">
+                          <Pin className="h-3 w-3 mr-1" />
+                          Example
+                        </Badge>
+                      )}
+                      <span className="text-sm text-muted-foreground">{item.artist_name}</span>
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      You are {item.role} · updated {new Date(item.updated_at).toLocaleString()}
+                    </span>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="whitespace-pre-wrap">{item.content_text}</p>
+
+                  {item.content_metadata?.moderation?.reason && (
+                    <p className="text-sm text-destructive">{item.content_metadata.moderation.reason}</p>
+                  )}
+
+                  {item.content_metadata?.style_violations && item.content_metadata.style_violations.length > 0 && (
+                    <p className="text-sm text-amber-600">Style guide: {item.content_metadata.style_violations.join('; ')}</p>
+                  )}
+
+                  {item.scheduled_at && (
+                    <p className="text-sm text-muted-foreground">
+                      {platforms.find((profile) => profile.name === item.scheduled_platform)?.label ?? item.scheduled_platform}
+                      {' · '}
+                      {new Date(item.scheduled_at).toLocaleString()}
+                    </p>
+                  )}
+
+                  {(item.approval_status === 'approved' || item.approval_status === 'scheduled') && item.role !== 'reviewer' && platforms.length > 0 && (
+                    <SchedulePicker item={item} platforms={platforms} onScheduled={handleScheduled} />
+                  )}
+
+                  {isOnCalendar(item.approval_status) && item.role !== 'reviewer' && (
+                    <Button size="sm" disabled={busyId === item.id} onClick={() => handlePublish(item)}>
+                      <Send className="h-4 w-4 mr-1" />
+                      Publish now
+                    </Button>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">Reviewer:</span>
+                    {item.role === 'owner' && reviewers.length > 0 ? (
+                      <Select
+                        value={item.assigned_reviewer_id ?? 'none'}
+                        onValueChange={(value) => handleAssign(item, value)}
+                        disabled={busyId === item.id}
+                      >
+                        <SelectTrigger className="w-56"><SelectValue placeholder="Unassigned" /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Unassigned</SelectItem>
+                          {reviewers.map((person) => (
+                            <SelectItem key={person.user_id} value={person.user_id}>{person.email}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span>{item.assigned_reviewer_email ?? 'Unassigned'}</span>
+                    )}
+                  </div>
+
+                  {item.allowed_transitions.some(hasButton) && (
+                    <>
+                      <Textarea
+                        placeholder="Optional comment for the timeline"
+                        value={comments[item.id] ?? ''}
+                        onChange={(event) => setComments((current) => ({ ...current, [item.id]: event.target.value }))}
+                        rows={2}
+                      />
+                      <div className="flex flex-wrap gap-2">
+                        {item.allowed_transitions.filter(hasButton).map((toStatus) => (
+                          <Button
+                            key={toStatus}
+                            size="sm"
+                            variant={toStatus === 'rejected' ? 'destructive' : toStatus === 'approved' ? 'default' : 'outline'}
+                            disabled={busyId === item.id}
+                            onClick={() => handleTransition(item, toStatus)}
+                          >
+                            {toStatus === 'approved' && <Check className="h-4 w-4 mr-1" />}
+                            {toStatus === 'rejected' && <X className="h-4 w-4 mr-1" />}
+                            {transitionLabel(item, toStatus)}
+                          </Button>
+                        ))}
+                      </div>
+                    </>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => toggleTimeline(item.id)}>
+                      <History className="h-4 w-4 mr-1" />
+                      {timelines[item.id] ? 'Hide timeline' : 'Show timeline'}
+                    </Button>
+                    {item.role !== 'reviewer' && item.approval_status !== 'rejected' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={busyId === item.id}
+                        title="Pinned posts are shown to the AI as examples whenever it writes this kind of post"
+                        onClick={() => handleTogglePin(item)}
+                      >
+                        {item.example_pinned_at ? <PinOff className="h-4 w-4 mr-1" /> : <Pin className="h-4 w-4 mr-1" />}
+                        {item.example_pinned_at ? 'Unpin example' : 'Pin as example'}
+                      </Button>
+                    )}
+                    {item.approval_status === 'published' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setMetricsOpen((current) => ({ ...current, [item.id]: !current[item.id] }))}
+                      >
+                        <BarChart3 className="h-4 w-4 mr-1" />
+                        {metricsOpen[item.id] ? 'Hide metrics' : 'Show metrics'}
+                      </Button>
+                    )}
+                  </div>
+
+                  {metricsOpen[item.id] && <ContentMetrics contentId={item.id} platforms={platforms} />}
+
+                  {timelines[item.id] && (
+                    <ol className="border-l border-border/50 pl-4 space-y-2 text-sm">
+                      {timelines[item.id]!.map((event) => (
+                        <li key={event.id}>
+                          <div className="font-medium">{describeEvent(event)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {new Date(event.created_at).toLocaleString()}
+                            {event.actor_email && ` · ${event.actor_email}`}
+                          </div>
+                          {event.comment && <p className="text-muted-foreground italic">“{event.comment}”</p>}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </CardContent>
+        </Card>
+
+        {collaborators && (
+          <Card className="bg-gradient-card shadow-creative border-border/50">
+            <CardHeader>
+              <CardTitle>Team</CardTitle>
+              <CardDescription>Editors submit content for review; reviewers approve or reject it</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="space-y-2">
+                {collaborators.map((person) => (
+                  <li key={person.user_id} className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span>{person.email}</span>
+                      <Badge variant="outline">{person.role}</Badge>
+                    </div>
+                    {person.role !== 'owner' && (
+                      <Button variant="ghost" size="icon" onClick={() => handleRemoveCollaborator(person.user_id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap gap-2">
+                <Input
+                  type="email"
+                  placeholder="teammate@example.com"
+                  value={newEmail}
+                  onChange={(event) => setNewEmail(event.target.value)}
+                  className="max-w-xs"
+                />
+                <Select value={newRole} onValueChange={(value) => setNewRole(value as 'editor' | 'reviewer')}>
+                  <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="reviewer">Reviewer</SelectItem>
+                    <SelectItem value="editor">Editor</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleAddCollaborator} disabled={!newEmail.trim()}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <SocialAccounts platforms={platforms} />
+      </div>
+    </div>
+  );
+};
+
+export default ReviewQueue;
@@ -22,6 +22,7 @@ export interface UploadedFile {
   processed_at: string;
   created_at: string;
   transcript_length: number;
+  proposal_status?: 'pending' | 'accepted' | 'rejected' | null;
   persona_name?: string;
   artist_name?: string;
 }
@@ -16,6 +16,9 @@ ALTER PUBLICATION supabase_realtime ADD TABLE artist_personas;
 -- Enable Realtime for artists table
 ALTER PUBLICATION supabase_realtime ADD TABLE artists;
 
+-- Enable Realtime for notifications table
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
 -- Verify enabled tables
 SELECT schemaname, tablename
 FROM pg_publication_tables
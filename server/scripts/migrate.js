@@ -110,7 +110,19 @@ async function main() {
 
   const migrations = [
     '001_initial_schema.sql',
-    '002_ai_content_enhancements.sql'
+    '002_ai_content_enhancements.sql',
+    '003_multiple_personas.sql',
+    '004_persona_versions.sql',
+    '005_ai_generation_log_details.sql',
+    '006_ai_usage_quotas.sql',
+    '007_content_approval_workflow.sql',
+    '008_content_revisions.sql',
+    '009_content_scheduling.sql',
+    '010_publishing.sql',
+    '011_engagement_metrics.sql',
+    '012_scoring_models.sql',
+    '013_moderation.sql',
+    '014_post_examples.sql'
   ];
 
   let successCount = 0;
@@ -145,7 +145,13 @@ const options = {
             },
             voice_characteristics: {
               type: 'object',
-              description: 'Voice and style characteristics'
+              description: 'Voice and style characteristics',
+              properties: {
+                style_guide: {
+                  $ref: '#/components/schemas/StyleGuide'
+                }
+              },
+              additionalProperties: true
             },
             is_active: {
               type: 'boolean',
@@ -153,6 +159,62 @@ const options = {
             }
           }
         },
+        StyleGuide: {
+          type: 'object',
+          description: 'Rules applied to every generated post: described in the prompt, then rewritten or flagged',
+          properties: {
+            artist_name: {
+              type: 'string',
+              description: 'Exact spelling of the artist\'s name, casing included'
+            },
+            name_misspellings: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Spellings corrected to artist_name'
+            },
+            preferred_words: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['use', 'instead_of'],
+                properties: {
+                  use: { type: 'string' },
+                  instead_of: { type: 'array', items: { type: 'string' }, minItems: 1 }
+                }
+              }
+            },
+            banned_words: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Flagged as violations; also highlighted by quality scoring'
+            },
+            capitalization: {
+              type: 'string',
+              enum: ['as_written', 'lowercase', 'uppercase', 'sentence'],
+              default: 'as_written'
+            },
+            sign_offs: {
+              type: 'array',
+              items: { type: 'string' }
+            },
+            always_sign_off: {
+              type: 'boolean',
+              default: false,
+              description: 'Append the first sign-off to posts without one'
+            },
+            max_emoji: {
+              type: 'integer',
+              minimum: 0,
+              nullable: true
+            },
+            required_hashtags: {
+              type: 'array',
+              items: { type: 'string' },
+              maxItems: 10
+            }
+          },
+          additionalProperties: false
+        },
         QuestionnaireResponse: {
           type: 'object',
           properties: {
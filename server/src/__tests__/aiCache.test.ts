@@ -0,0 +1,76 @@
+// src/__tests__/aiCache.test.ts
+import { mockDatabase } from './setup';
+import { aiCacheService } from '../services/aiCacheService';
+
+describe('AI Cache', () => {
+  const pool = require('../Config/connection');
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  test('keys are scoped by persona and stable for the same input', () => {
+    const key = aiCacheService.buildKey('persona-1', 'groq_content_gen', { context: 'tour' });
+
+    expect(key).toMatch(/^persona:persona-1:groq_content_gen:[a-f0-9]{32}$/);
+    expect(aiCacheService.buildKey('persona-1', 'groq_content_gen', { context: 'tour' })).toBe(key);
+    expect(aiCacheService.buildKey('persona-2', 'groq_content_gen', { context: 'tour' })).not.toBe(key);
+  });
+
+  test('falls back to ai_cache and keeps the hit in memory', async () => {
+    const key = aiCacheService.buildKey('persona-db', 'groq_content_gen', { context: 'album' });
+    mockDatabase.mockQuery([{ cache_data: [{ content: 'From Postgres' }], ttl_seconds: '120.5' }]);
+
+    expect(await aiCacheService.get(key)).toEqual([{ content: 'From Postgres' }]);
+    expect(await aiCacheService.get(key)).toEqual([{ content: 'From Postgres' }]);
+
+    expect(pool.query).toHaveBeenCalledTimes(1);
+    expect(pool.query.mock.calls[0][1]).toEqual([key]);
+  });
+
+  test('writes through to ai_cache unless the entry is memory-only', async () => {
+    const key = aiCacheService.buildKey('persona-write', 'quality_score', { content: 'hi' });
+
+    await aiCacheService.set(key, { score: 0.7 }, { persist: false });
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(await aiCacheService.get(key, { persist: false })).toEqual({ score: 0.7 });
+
+    mockDatabase.mockQuery([]);
+    await aiCacheService.set(`${key}-shared`, { score: 0.8 }, { ttlSeconds: 60 });
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain('ON CONFLICT (cache_key) DO UPDATE');
+    expect(params).toEqual([`${key}-shared`, JSON.stringify({ score: 0.8 }), 60]);
+  });
+
+  test('treats database errors as a miss', async () => {
+    mockDatabase.mockQueryError(new Error('relation "ai_cache" does not exist'));
+
+    await expect(aiCacheService.get('persona:x:groq_content_gen:missing')).resolves.toBeUndefined();
+  });
+
+  test('invalidating a persona clears both tiers', async () => {
+    const key = aiCacheService.buildKey('persona-stale', 'quality_score', { content: 'old voice' });
+    const other = aiCacheService.buildKey('persona-fresh', 'quality_score', { content: 'old voice' });
+    await aiCacheService.set(key, { score: 0.5 }, { persist: false });
+    await aiCacheService.set(other, { score: 0.5 }, { persist: false });
+
+    pool.query.mockResolvedValueOnce({ rows: [], rowCount: 3 });
+    const removed = await aiCacheService.invalidatePersona('persona-stale');
+
+    expect(removed).toBe(3);
+    expect(pool.query).toHaveBeenCalledWith('DELETE FROM ai_cache WHERE cache_key LIKE $1', ['persona:persona-stale:%']);
+    expect(await aiCacheService.get(key, { persist: false })).toBeUndefined();
+    expect(await aiCacheService.get(other, { persist: false })).toEqual({ score: 0.5 });
+  });
+
+  test('reports tier sizes and hit counters', async () => {
+    mockDatabase.mockQuery([{ entries: 5, active_entries: 4, expired_entries: 1, oldest_entry_at: '2026-01-01T00:00:00.000Z' }]);
+
+    const stats = await aiCacheService.getStats();
+
+    expect(stats.database).toMatchObject({ enabled: true, entries: 5, active_entries: 4, expired_entries: 1 });
+    expect(stats.memory.keys).toBeGreaterThan(0);
+    expect(stats.hit_rate).toBeGreaterThan(0);
+    expect(stats.invalidations).toBe(1);
+  });
+});
@@ -0,0 +1,137 @@
+// src/__tests__/aiUsage.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import userRoutes from '../routes/users';
+import contentRoutes from '../routes/content';
+import { aiUsageService } from '../services/aiUsageService';
+
+describe('AI Usage Quotas', () => {
+  const pool = require('../Config/connection');
+  const quotaEnv = ['AI_PRICE_TABLE', 'AI_QUOTA_USER_REQUESTS_PER_DAY', 'AI_QUOTA_USER_TOKENS_PER_MONTH', 'AI_QUOTA_ARTIST_TOKENS_PER_MONTH'];
+  const now = new Date('2026-03-14T18:30:00.000Z');
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  afterEach(() => {
+    quotaEnv.forEach(key => delete process.env[key]);
+  });
+
+  test('estimates cost from the price table, preferring provider:model entries', () => {
+    expect(aiUsageService.estimateCost('openai', 'gpt-3.5-turbo', 1000, 500)).toBeCloseTo(0.00125, 6);
+    expect(aiUsageService.estimateCost('mock', 'mock-deterministic-v1', 1000, 1000)).toBe(0);
+    expect(aiUsageService.estimateCost('unpriced', null, 1000, 1000)).toBeNull();
+
+    process.env.AI_PRICE_TABLE = JSON.stringify({ 'openai:gpt-4o': { prompt: 2.5, completion: 10 } });
+    expect(aiUsageService.estimateCost('openai', 'gpt-4o', 1000, 1000)).toBeCloseTo(0.0125, 6);
+    expect(aiUsageService.estimateCost('openai', 'gpt-3.5-turbo', 1000, 500)).toBeCloseTo(0.00125, 6);
+  });
+
+  test('refuses a generation that needs more calls than the daily budget has left', async () => {
+    process.env.AI_QUOTA_USER_REQUESTS_PER_DAY = '10';
+    mockDatabase.mockQuery([{ user_requests: 8, user_tokens: '1200', artist_requests: 8, artist_tokens: '1200' }]);
+
+    const check = await aiUsageService.checkQuota('user-1', 'artist-1', 3, now);
+
+    expect(check).toEqual({
+      allowed: false,
+      exceeded: {
+        scope: 'user',
+        quota: 'requests_per_day',
+        limit: 10,
+        used: 8,
+        requested: 3,
+        reset_at: '2026-03-15T00:00:00.000Z',
+        retry_after_seconds: 19800
+      }
+    });
+    expect(pool.query.mock.calls[0][1]).toEqual([
+      'user-1',
+      'artist-1',
+      new Date('2026-03-14T00:00:00.000Z'),
+      new Date('2026-03-01T00:00:00.000Z')
+    ]);
+  });
+
+  test('applies per-artist overrides and monthly token budgets', async () => {
+    mockDatabase.mockQuery([{
+      user_requests: 1, user_tokens: '100',
+      artist_requests: 1, artist_tokens: '5000',
+      artist_quota: { requests_per_day: null, tokens_per_month: 5000 }
+    }]);
+
+    const check = await aiUsageService.checkQuota('user-1', 'artist-1', 1, now);
+
+    expect(check).toMatchObject({
+      allowed: false,
+      exceeded: { scope: 'artist', quota: 'tokens_per_month', limit: 5000, reset_at: '2026-04-01T00:00:00.000Z' }
+    });
+  });
+
+  test('a zero limit is unlimited and a failed lookup lets the call through', async () => {
+    process.env.AI_QUOTA_USER_REQUESTS_PER_DAY = '0';
+    process.env.AI_QUOTA_USER_TOKENS_PER_MONTH = '0';
+    mockDatabase.mockQuery([{ user_requests: 100000, user_tokens: '99999999' }]);
+    await expect(aiUsageService.checkQuota('user-1', null, 5, now)).resolves.toEqual({ allowed: true });
+
+    mockDatabase.mockQueryError(new Error('relation "ai_usage_quotas" does not exist'));
+    await expect(aiUsageService.checkQuota('user-1', 'artist-1', 1, now)).resolves.toEqual({ allowed: true });
+  });
+
+  describe('GET /api/users/me/usage', () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/users', userRoutes);
+
+    test('reports remaining budgets, reset times and spend per provider', async () => {
+      mockDatabase.mockQuery([{ id: testData.artist.id }]);
+      mockDatabase.mockQuery([{ user_requests: 12, user_tokens: '4200', user_cost: '0.0031', artist_requests: 12, artist_tokens: '4200', artist_cost: '0.0031' }]);
+      mockDatabase.mockQuery([{ provider: 'groq', requests: 12, prompt_tokens: '3000', completion_tokens: '1200', estimated_cost_usd: '0.0031' }]);
+
+      const response = await request(app)
+        .get('/api/users/me/usage')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.usage.user).toMatchObject({
+        scope: 'user',
+        requests_today: 12,
+        requests_per_day: 200,
+        requests_remaining: 188,
+        tokens_this_month: 4200,
+        tokens_remaining: 495800,
+        estimated_cost_usd_this_month: 0.0031
+      });
+      expect(response.body.usage.artist).toMatchObject({ scope: 'artist', id: testData.artist.id, requests_remaining: 488 });
+      expect(response.body.usage.by_provider).toEqual([
+        { provider: 'groq', requests: 12, prompt_tokens: 3000, completion_tokens: 1200, estimated_cost_usd: 0.0031 }
+      ]);
+      expect(response.body.usage.requests_reset_at).toEqual(expect.any(String));
+    });
+  });
+
+  describe('POST /api/content/generate over quota', () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/content', contentRoutes);
+
+    test('answers 429 with the reset time and does not call a provider', async () => {
+      process.env.AI_QUOTA_USER_TOKENS_PER_MONTH = '1000';
+      mockDatabase.mockQuery([{ ...testData.persona, artist_id: testData.artist.id, questionnaire_responses: [] }]);
+      mockDatabase.mockQuery([{ user_requests: 4, user_tokens: '1000', artist_requests: 4, artist_tokens: '1000' }]);
+
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'social_post', provider: 'mock' });
+
+      expect(response.status).toBe(429);
+      expect(response.body.error).toMatch(/Monthly AI token quota exceeded for your account/);
+      expect(response.body.quota).toMatchObject({ scope: 'user', quota: 'tokens_per_month', limit: 1000, used: 1000 });
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+      expect(pool.query).toHaveBeenCalledTimes(2);
+    });
+  });
+});
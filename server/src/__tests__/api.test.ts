@@ -391,6 +391,181 @@ describe('Persona Management', () => {
       expect(response.body.error).toBe('Validation error');
     });
   });
+
+  describe('GET /api/personas', () => {
+    test('should list personas with the active one flagged', async () => {
+      const tourPersona = { ...testData.persona, id: 'persona-456', persona_name: 'Tour voice', is_active: false };
+      mockDatabase.mockQuery([{ id: testData.artist.id }]);
+      mockDatabase.mockQuery([testData.persona, tourPersona]);
+
+      const response = await request(app)
+        .get('/api/personas')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.personas).toHaveLength(2);
+      expect(response.body.active_persona_id).toBe(testData.persona.id);
+    });
+  });
+
+  describe('POST /api/personas', () => {
+    test('should create an inactive persona when one is already active', async () => {
+      const created = { ...testData.persona, id: 'persona-456', persona_name: 'Tour voice', is_active: false };
+      mockDatabase.mockQuery([{ id: testData.artist.id }]);
+      const client = mockDatabase.mockTransaction([[], [{ id: created.id }], [], [created], [{ id: 'version-1', version_number: 1 }]]);
+      mockDatabase.mockQuery([testData.persona]);
+      mockDatabase.mockQuery([created]);
+
+      const response = await request(app)
+        .post('/api/personas')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ persona_name: 'Tour voice', tone: 'edgy' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.persona.persona_name).toBe('Tour voice');
+      expect(response.body.persona.is_active).toBe(false);
+      expect(client.query.mock.calls[1][0]).toContain('INSERT INTO artist_personas');
+      expect(client.query.mock.calls[4][0]).toContain('INSERT INTO persona_versions');
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    test('should require a persona name', async () => {
+      const response = await request(app)
+        .post('/api/personas')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ tone: 'edgy' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Validation error');
+    });
+  });
+
+  describe('PUT /api/personas/:id/activate', () => {
+    test('should deactivate the other personas and activate the requested one', async () => {
+      const tourPersona = { ...testData.persona, id: 'persona-456', is_active: false, archived_at: null };
+      mockDatabase.mockQuery([tourPersona]);
+      const client = mockDatabase.mockTransaction([[], [], [{ ...tourPersona, is_active: true }], []]);
+
+      const response = await request(app)
+        .put('/api/personas/persona-456/activate')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.persona.is_active).toBe(true);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    test('should refuse to activate an archived persona', async () => {
+      mockDatabase.mockQuery([{ ...testData.persona, is_active: false, archived_at: new Date() }]);
+
+      const response = await request(app)
+        .put('/api/personas/persona-123/activate')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('POST /api/personas/:id/archive', () => {
+    test('should not archive the active persona', async () => {
+      mockDatabase.mockQuery([{ ...testData.persona, archived_at: null }]);
+
+      const response = await request(app)
+        .post('/api/personas/persona-123/archive')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toContain('active persona');
+    });
+  });
+});
+
+describe('Persona Version History', () => {
+  const app = createTestApp();
+  const versionOne = {
+    id: 'version-1', persona_id: testData.persona.id, version_number: 1,
+    persona_name: 'Main Persona', description: 'Test persona', tone: 'casual',
+    target_audience: 'Young adults', key_themes: ['music', 'life'],
+    voice_characteristics: { emoji: 'light' }, change_source: 'create', changed_by: 'test-user-id'
+  };
+  const versionTwo = {
+    ...versionOne, id: 'version-2', version_number: 2, tone: 'edgy',
+    key_themes: ['music', 'touring'], voice_characteristics: { emoji: 'heavy' }, change_source: 'manual'
+  };
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  test('GET /api/personas/:id/versions should list versions newest first', async () => {
+    mockDatabase.mockQuery([testData.persona]);
+    mockDatabase.mockQuery([versionTwo, versionOne]);
+
+    const response = await request(app)
+      .get('/api/personas/persona-123/versions')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(response.body.current_version).toBe(2);
+    expect(response.body.versions).toHaveLength(2);
+  });
+
+  test('GET /api/personas/:id/versions/diff should return field-level changes', async () => {
+    mockDatabase.mockQuery([testData.persona]);
+    mockDatabase.mockQuery([versionOne]);
+    mockDatabase.mockQuery([versionTwo]);
+
+    const response = await request(app)
+      .get('/api/personas/persona-123/versions/diff?from=1&to=2')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    const fields = response.body.changes.map((change: any) => change.field);
+    expect(fields).toEqual(['tone', 'key_themes', 'voice_characteristics']);
+
+    const themes = response.body.changes.find((change: any) => change.field === 'key_themes');
+    expect(themes.added).toEqual(['touring']);
+    expect(themes.removed).toEqual(['life']);
+
+    const traits = response.body.changes.find((change: any) => change.field === 'voice_characteristics');
+    expect(traits.changed_keys).toEqual(['emoji']);
+  });
+
+  test('POST /api/personas/:id/versions/:version/rollback should record a new version', async () => {
+    const rolledBack = { ...testData.persona, tone: versionOne.tone };
+    mockDatabase.mockQuery([testData.persona]);
+    mockDatabase.mockQuery([versionOne]);
+    const client = mockDatabase.mockTransaction([
+      [],
+      [{ id: testData.persona.id }],
+      [rolledBack],
+      [versionTwo],
+      [rolledBack],
+      [{ ...versionOne, id: 'version-3', version_number: 3, change_source: 'rollback' }]
+    ]);
+
+    const response = await request(app)
+      .post('/api/personas/persona-123/versions/1/rollback')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(response.body.version_number).toBe(3);
+    expect(response.body.persona.tone).toBe('casual');
+
+    // The persona row is held while the next version number is worked out
+    expect(client.query.mock.calls[1][0]).toContain('FOR UPDATE');
+    expect(client.query.mock.calls[5][1][1]).toBe(3);
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+  });
+
+  test('should reject a non-numeric version', async () => {
+    const response = await request(app)
+      .post('/api/personas/persona-123/versions/latest/rollback')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(400);
+  });
 });
 
 describe('Input Validation', () => {
@@ -5,14 +5,21 @@ import { mockDatabase, testData } from './setup';
 import contentRoutes from '../routes/content';
 import aiContentService from '../services/aiService';
 import templateService from '../services/templateService';
+import transcriptRetrievalService from '../services/transcriptRetrievalService';
+import postExampleService from '../services/postExampleService';
+import moderationService, { defaultModerationSettings } from '../services/moderationService';
 import { ContentTemplate } from '../services/aiService';
 
 // Mock AI services
 jest.mock('../services/aiService');
 jest.mock('../services/templateService');
+jest.mock('../services/transcriptRetrievalService');
+jest.mock('../services/postExampleService');
 
 const mockAiService = aiContentService as jest.Mocked<typeof aiContentService>;
 const mockTemplateService = templateService as jest.Mocked<typeof templateService>;
+const mockRetrievalService = transcriptRetrievalService as jest.Mocked<typeof transcriptRetrievalService>;
+const mockPostExampleService = postExampleService as jest.Mocked<typeof postExampleService>;
 
 // Create test app
 const createTestApp = () => {
@@ -28,6 +35,10 @@ describe('AI Content Generation API', () => {
   beforeEach(() => {
     mockDatabase.clearMocks();
     jest.clearAllMocks();
+    mockRetrievalService.retrieveVoiceExamples.mockResolvedValue([]);
+    mockPostExampleService.retrieveExamples.mockResolvedValue([]);
+    // Every artist has the default rules; moderation itself is covered in moderation.test.ts
+    jest.spyOn(moderationService, 'getSettings').mockImplementation(async artistId => defaultModerationSettings(artistId));
   });
 
   describe('POST /api/content/generate', () => {
@@ -57,6 +68,7 @@ describe('AI Content Generation API', () => {
         artist_id: testData.artist.id,
         questionnaire_responses: [testData.questionnaireResponse]
       }]);
+      mockDatabase.mockQuery([]); // AI usage for the quota check
       mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
       mockDatabase.mockQuery([{ id: 'content-2', created_at: new Date() }]);
 
@@ -87,7 +99,8 @@ describe('AI Content Generation API', () => {
         content_type: 'social_post',
         context: 'new single release',
         max_length: 280,
-        variations: 2
+        variations: 2,
+        user_id: 'test-user-id'
       });
     });
 
@@ -100,11 +113,11 @@ describe('AI Content Generation API', () => {
       }]);
       mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
 
-      mockAiService.generateContentWithOpenAI.mockResolvedValue([mockGeneratedContent[0]]);
+      mockAiService.generateWithProvider.mockResolvedValue([mockGeneratedContent[0]]);
 
       const requestBody = {
         content_type: 'announcement',
-        use_openai: true,
+        provider: 'openai',
         variations: 1
       };
 
@@ -115,10 +128,99 @@ describe('AI Content Generation API', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.generation_metadata.model_used).toBe('openai');
-      expect(mockAiService.generateContentWithOpenAI).toHaveBeenCalled();
+      expect(mockAiService.generateWithProvider).toHaveBeenCalledWith('openai', expect.any(Object));
       expect(mockAiService.generateContent).not.toHaveBeenCalled();
     });
 
+    test('should generate with cohere when specified', async () => {
+      mockDatabase.mockQuery([{
+        ...testData.persona,
+        artist_name: testData.artist.artist_name,
+        artist_id: testData.artist.id,
+        questionnaire_responses: []
+      }]);
+      mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+
+      mockAiService.generateWithProvider.mockResolvedValue([{ ...mockGeneratedContent[0]!, model_used: 'cohere' }]);
+
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'announcement', provider: 'cohere', variations: 1 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.generation_metadata.model_used).toBe('cohere');
+      expect(mockAiService.generateWithProvider).toHaveBeenCalledWith('cohere', expect.any(Object));
+    });
+
+    test('should reject unknown providers', async () => {
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'announcement', provider: 'not-a-provider' });
+
+      expect(response.status).toBe(400);
+      expect(mockAiService.generateWithProvider).not.toHaveBeenCalled();
+    });
+
+    test('should use an explicit persona_id instead of the active persona', async () => {
+      const pool = require('../Config/connection');
+      const personaId = '5f0c6a1e-8a3b-4c2d-9e7f-1a2b3c4d5e6f';
+      mockDatabase.mockQuery([{
+        ...testData.persona,
+        id: personaId,
+        persona_name: 'Tour voice',
+        artist_id: testData.artist.id,
+        questionnaire_responses: []
+      }]);
+      mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+
+      mockAiService.generateContent.mockResolvedValue([mockGeneratedContent[0]]);
+
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'social_post', persona_id: personaId });
+
+      expect(response.status).toBe(200);
+      expect(response.body.persona_used.id).toBe(personaId);
+      expect(pool.query.mock.calls[0][1]).toEqual(['test-user-id', personaId]);
+    });
+
+    test('should ground generation in transcript snippets and report them', async () => {
+      const snippet = {
+        transcript_id: 'transcript-1',
+        chunk_index: 2,
+        text: 'Every night on tour the crowd sings the hook back louder than me.',
+        start: 120,
+        end: 186,
+        source_type: 'podcast',
+        source_url: 'https://example.com/podcast/episode1',
+        score: 2.4
+      };
+      mockRetrievalService.retrieveVoiceExamples.mockResolvedValue([snippet]);
+      mockDatabase.mockQuery([{
+        ...testData.persona,
+        artist_id: testData.artist.id,
+        questionnaire_responses: []
+      }]);
+      mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+
+      mockAiService.generateContent.mockResolvedValue([mockGeneratedContent[0]]);
+
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'social_post', context: 'tour crowd', max_voice_examples: 2 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.voice_examples_used).toEqual([snippet]);
+      expect(mockRetrievalService.retrieveVoiceExamples).toHaveBeenCalledWith(testData.persona.id, 'tour crowd', 2);
+      expect(mockAiService.generateContent).toHaveBeenCalledWith(
+        expect.objectContaining({ voice_examples: [snippet] })
+      );
+    });
+
     test('should require persona to exist', async () => {
       mockDatabase.mockQuery([]);
 
@@ -209,6 +311,350 @@ describe('AI Content Generation API', () => {
           template: mockTemplate
         })
       );
+      expect(response.body.template_used).toEqual({ id: 'template-123', name: 'Test Template' });
+    });
+
+    test('should return the variables the model picked alongside the rendered post', async () => {
+      mockDatabase.mockQuery([{
+        ...testData.persona,
+        artist_id: testData.artist.id,
+        questionnaire_responses: []
+      }]);
+      mockDatabase.mockQuery([]); // AI usage for the quota check
+      mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+
+      jest.spyOn(templateService, 'getTemplateById').mockResolvedValue({
+        id: 'template-123',
+        template_name: 'Test Template',
+        template_type: 'social_post',
+        template_content: 'Hey {{audience}}! {{message}}',
+        variables: { variables: [] }
+      } as any);
+      mockAiService.generateContent.mockResolvedValue([{
+        ...mockGeneratedContent[0],
+        content: 'Hey fans! The single drops Friday.',
+        template_variables: { audience: 'fans', message: 'The single drops Friday.' },
+        template_warnings: []
+      }]);
+
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'social_post', template_id: 'template-123' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.generated_content[0].content).toBe('Hey fans! The single drops Friday.');
+      expect(response.body.generated_content[0].template_variables).toEqual({
+        audience: 'fans',
+        message: 'The single drops Friday.'
+      });
+
+      const pool = require('../Config/connection');
+      const metadata = JSON.parse(pool.query.mock.calls[2][1][5]);
+      expect(metadata.template_variables.audience).toBe('fans');
+    });
+
+    test('should reject an unknown template', async () => {
+      mockDatabase.mockQuery([{
+        ...testData.persona,
+        artist_id: testData.artist.id,
+        questionnaire_responses: []
+      }]);
+      jest.spyOn(templateService, 'getTemplateById').mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'social_post', template_id: 'missing-template' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Template not found');
+      expect(mockAiService.generateContent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/content/generate/stream', () => {
+    const parseEvents = (body: string) => body
+      .split('\n\n')
+      .filter(Boolean)
+      .map(block => {
+        const [eventLine, dataLine] = block.split('\n');
+        return { event: eventLine!.replace('event: ', ''), data: JSON.parse(dataLine!.replace('data: ', '')) };
+      });
+
+    test('should stream tokens, then the score, then the saved id per variation', async () => {
+      mockDatabase.mockQuery([{
+        ...testData.persona,
+        artist_id: testData.artist.id,
+        questionnaire_responses: []
+      }]);
+      mockDatabase.mockQuery([]); // AI usage for the quota check
+      mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+
+      mockAiService.generateContentStream.mockImplementation(async (_params, _provider, handlers) => {
+        handlers.onToken(1, 'New ');
+        handlers.onToken(1, 'single!');
+        const variation = {
+          content: 'New single!',
+          quality_score: 0.85,
+          variation_id: 1,
+          generation_params: { model: 'llama-3.1-8b-instant', stream: true },
+          model_used: 'groq',
+          generated_at: new Date()
+        };
+        await handlers.onVariation(variation);
+        return [variation];
+      });
+
+      const response = await request(app)
+        .post('/api/content/generate/stream')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'social_post', context: 'new single', variations: 1 });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+
+      const events = parseEvents(response.text);
+      expect(events.map(e => e.event)).toEqual(['start', 'token', 'token', 'score', 'saved', 'done']);
+      expect(events[1]!.data).toEqual({ variation_id: 1, token: 'New ' });
+      expect(events[3]!.data.quality_score).toBe(0.85);
+      expect(events[4]!.data).toEqual(expect.objectContaining({ variation_id: 1, id: 'content-1' }));
+      expect(events[5]!.data.content_ids).toEqual(['content-1']);
+      expect(mockAiService.generateContentStream.mock.calls[0]![3]).toBeInstanceOf(AbortSignal);
+    });
+
+    test('should stop streaming a variation once moderation blocks it', async () => {
+      jest.spyOn(moderationService, 'getSettings').mockResolvedValue({
+        ...defaultModerationSettings(testData.artist.id),
+        blocklist: [{ term: 'Night Drive', category: 'unreleased', severity: 'high' }]
+      });
+      mockDatabase.mockQuery([{
+        ...testData.persona,
+        artist_id: testData.artist.id,
+        questionnaire_responses: []
+      }]);
+      mockDatabase.mockQuery([]); // AI usage for the quota check
+      mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+
+      mockAiService.generateContentStream.mockImplementation(async (_params, _provider, handlers) => {
+        handlers.onToken(1, 'Night ');
+        handlers.onToken(1, 'Drive soon');
+        const variation = {
+          content: 'Night Drive soon',
+          quality_score: 0.8,
+          variation_id: 1,
+          generation_params: { stream: true },
+          model_used: 'groq',
+          generated_at: new Date()
+        };
+        await handlers.onVariation(variation);
+        return [variation];
+      });
+
+      const response = await request(app)
+        .post('/api/content/generate/stream')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'social_post', context: 'new single', variations: 1 });
+
+      const events = parseEvents(response.text);
+      expect(events.map(e => e.event)).toEqual(['start', 'token', 'blocked', 'saved', 'done']);
+      expect(events[1]!.data).toEqual({ variation_id: 1, token: 'Night ' });
+      expect(response.text).not.toContain('Drive soon');
+    });
+
+    test('should send checked words before the variation is finished', async () => {
+      mockDatabase.mockQuery([{
+        ...testData.persona,
+        artist_id: testData.artist.id,
+        questionnaire_responses: []
+      }]);
+      mockDatabase.mockQuery([]); // AI usage for the quota check
+
+      mockAiService.generateContentStream.mockImplementation(async (_params, _provider, handlers) => {
+        handlers.onToken(1, 'New sin');
+        handlers.onToken(1, 'gle out ');
+        handlers.onToken(1, 'Fri');
+        throw new Error('upstream down');
+      });
+
+      const response = await request(app)
+        .post('/api/content/generate/stream')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'social_post', context: 'new single', variations: 1 });
+
+      const events = parseEvents(response.text);
+      expect(events.map(e => e.event)).toEqual(['start', 'token', 'token', 'error']);
+      expect(events.slice(1, 3).map(e => e.data.token)).toEqual(['New ', 'single out ']);
+    });
+
+    test('should accept GET with query parameters', async () => {
+      mockDatabase.mockQuery([{
+        ...testData.persona,
+        artist_id: testData.artist.id,
+        questionnaire_responses: []
+      }]);
+      mockAiService.generateContentStream.mockResolvedValue([]);
+
+      const response = await request(app)
+        .get('/api/content/generate/stream?content_type=story&variations=2&provider=groq')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(mockAiService.generateContentStream).toHaveBeenCalledWith(
+        expect.objectContaining({ content_type: 'story', variations: 2 }),
+        'groq',
+        expect.any(Object),
+        expect.any(AbortSignal)
+      );
+    });
+
+    test('should report provider failures as an error event', async () => {
+      mockDatabase.mockQuery([{
+        ...testData.persona,
+        artist_id: testData.artist.id,
+        questionnaire_responses: []
+      }]);
+      mockAiService.generateContentStream.mockRejectedValue(new Error('upstream down'));
+
+      const response = await request(app)
+        .post('/api/content/generate/stream')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'social_post' });
+
+      const events = parseEvents(response.text);
+      expect(events.map(e => e.event)).toEqual(['start', 'error']);
+      expect(events[1]!.data.error).toBe('AI generation service failed');
+    });
+
+    test('should validate before opening the stream', async () => {
+      const response = await request(app)
+        .post('/api/content/generate/stream')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'invalid' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Validation error');
+    });
+  });
+
+  describe('GET /api/content/providers', () => {
+    test('should list providers with the fallback chain', async () => {
+      mockAiService.getProviderStatus.mockReturnValue([
+        {
+          name: 'groq',
+          label: 'Groq',
+          model: 'llama-3.1-8b-instant',
+          configured: true,
+          healthy: true,
+          supports_streaming: true,
+          fallback_position: 1,
+          last_success_at: null,
+          last_failure_at: null,
+          last_error: null,
+          consecutive_failures: 0,
+          circuit_state: 'closed',
+          circuit_opened_at: null,
+          circuit_next_attempt_at: null,
+          recent_requests: 0,
+          error_rate: 0
+        }
+      ]);
+
+      const response = await request(app)
+        .get('/api/content/providers')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.providers[0]).toMatchObject({ name: 'groq', configured: true, healthy: true });
+      expect(Array.isArray(response.body.fallback_chain)).toBe(true);
+      expect(response.body.default).toBe('auto');
+    });
+  });
+
+  describe('GET /api/content/logs', () => {
+    test('should return filtered logs with latency and failure aggregates', async () => {
+      const pool = require('../Config/connection');
+      mockDatabase.mockQuery([
+        { id: 'log-1', request_type: 'content_generation', provider: 'groq', processing_time_ms: 850, success: true },
+        { id: 'log-2', request_type: 'content_generation', provider: 'groq', processing_time_ms: 20000, success: false, error_code: 'ETIMEDOUT' }
+      ]);
+      mockDatabase.mockQuery([{ total: 2 }]);
+      mockDatabase.mockQuery([
+        { provider: null, is_total: 1, calls: 2, failures: 1, p50_ms: 10425, p95_ms: 19042.5, prompt_tokens: 120, completion_tokens: 80 },
+        { provider: 'groq', is_total: 0, calls: 2, failures: 1, p50_ms: 10425, p95_ms: 19042.5, prompt_tokens: 120, completion_tokens: 80 }
+      ]);
+
+      const response = await request(app)
+        .get('/api/content/logs?provider=groq&success=false&limit=10')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.logs).toHaveLength(2);
+      expect(response.body.pagination).toEqual({ limit: 10, offset: 0, total: 2 });
+      expect(response.body.summary).toMatchObject({ calls: 2, failures: 1, failure_rate: 0.5, p50_ms: 10425, p95_ms: 19043 });
+      expect(response.body.summary.by_provider).toEqual([
+        expect.objectContaining({ provider: 'groq', failure_rate: 0.5, p95_ms: 19043 })
+      ]);
+
+      const [listSql, listParams] = pool.query.mock.calls[0];
+      expect(listSql).toContain('l.provider = $2');
+      expect(listSql).toContain('l.success = $3');
+      expect(listParams).toEqual(['test-user-id', 'groq', false, 10, 0]);
+    });
+
+    test('should reject unknown request types', async () => {
+      const response = await request(app)
+        .get('/api/content/logs?request_type=everything')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('AI cache endpoints', () => {
+    test('GET /cache/stats should report both tiers', async () => {
+      mockDatabase.mockQuery([{ entries: 2, active_entries: 2, expired_entries: 0, oldest_entry_at: null }]);
+
+      const response = await request(app)
+        .get('/api/content/cache/stats')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.cache.database).toMatchObject({ enabled: true, entries: 2 });
+      expect(response.body.cache.memory).toHaveProperty('keys');
+    });
+
+    test('DELETE /cache should clear every persona the user owns and purge expired rows', async () => {
+      const pool = require('../Config/connection');
+      mockDatabase.mockQuery([{ id: testData.artist.id }]);
+      mockDatabase.mockQuery([{ id: 'persona-a' }, { id: 'persona-b' }]);
+      pool.query.mockResolvedValueOnce({ rows: [], rowCount: 2 });
+      pool.query.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+      mockDatabase.mockQuery([{ count: 4 }]);
+      mockDatabase.mockQuery([]);
+
+      const response = await request(app)
+        .delete('/api/content/cache?expired=true')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        personas_cleared: ['persona-a', 'persona-b'],
+        entries_removed: 3,
+        expired_entries_removed: 4
+      });
+      expect(pool.query).toHaveBeenCalledWith('DELETE FROM ai_cache WHERE cache_key LIKE $1', ['persona:persona-a:%']);
+      expect(pool.query).toHaveBeenCalledWith('SELECT cleanup_expired_cache()');
+    });
+
+    test('DELETE /cache should not clear personas the user does not own', async () => {
+      mockDatabase.mockQuery([]);
+
+      const response = await request(app)
+        .delete('/api/content/cache?persona_id=5f0c6a1e-8a3b-4c2d-9e7f-1a2b3c4d5e6f')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(404);
     });
   });
 
@@ -250,8 +696,14 @@ describe('AI Content Generation API', () => {
         expect.objectContaining({
           id: personaWithArtistData.id,
           artist_id: personaWithArtistData.artist_id
-        })
+        }),
+        undefined // no platform given
       );
+
+      const pool = require('../Config/connection');
+      const logCall = pool.query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO ai_generation_logs'));
+      expect(logCall[1].slice(0, 4)).toEqual(['test-user-id', testData.artist.id, personaWithArtistData.id, 'quality_scoring']);
+      expect(logCall[1][9]).toBe(true);
     });
 
     test('should handle missing persona gracefully', async () => {
@@ -0,0 +1,170 @@
+// src/__tests__/contentFormats.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import { assembleParts, buildParts, checkParts, parseParts } from '../services/contentFormats';
+import { PLATFORM_PROFILES } from '../services/platformProfiles';
+
+const persona = {
+  ...testData.persona,
+  artist_id: testData.artist.id,
+  artist_name: testData.artist.artist_name,
+  tone: 'casual',
+  key_themes: ['music', 'touring']
+};
+
+describe('Content formats', () => {
+  test('parts are read from a JSON array, numbered lines or paragraphs', () => {
+    expect(parseParts('Sure! Here it is:\n```json\n["Hook", "Middle", "Stream it now"]\n```')).toEqual(['Hook', 'Middle', 'Stream it now']);
+    expect(parseParts('1/ Hook\n2/ Middle\n3/ Stream it now')).toEqual(['1/ Hook', '2/ Middle', '3/ Stream it now']);
+    expect(parseParts('Hook\n\nMiddle\n\nStream it now')).toEqual(['Hook', 'Middle', 'Stream it now']);
+  });
+
+  test('threads are renumbered, trimmed per post and keep the call to action last', () => {
+    const result = buildParts(
+      ['1. The new single is out Friday.', `2. ${'We spent a year on it and it shows in every bar. '.repeat(8)}`, 'Middle part.', 'Pre-save it now #music'],
+      'thread',
+      3,
+      PLATFORM_PROFILES.x
+    )!;
+
+    expect(result.parts.map(part => part.role)).toEqual(['hook', 'body', 'cta']);
+    expect(result.parts[0]!.text).toBe('1/3 The new single is out Friday.');
+    expect(result.parts[2]!.text).toBe('3/3 Pre-save it now\n#music');
+    expect(result.parts[1]!.characters).toBeLessThanOrEqual(280);
+    expect(result.adjustments[0]).toBe('Dropped 1 extra parts, keeping the last one as the call to action');
+    expect(result.adjustments).toContainEqual(expect.stringMatching(/^Part 2: Trimmed from \d+ to \d+ characters$/));
+    expect(result.text).toBe(result.parts.map(part => part.text).join('\n\n'));
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('carousel slides are checked part by part and a missing call to action is flagged', () => {
+    const result = buildParts(['Behind the record', 'Day one in the studio', 'That is the story'], 'carousel', 3, PLATFORM_PROFILES.instagram)!;
+
+    expect(result.warnings).toEqual(['The last part has no clear call to action']);
+    expect(checkParts(result.parts, 'carousel', PLATFORM_PROFILES.instagram)).toEqual([
+      'Part 3: Add at least 3 hashtags for discovery on Instagram'
+    ]);
+    expect(buildParts(['Only one part'], 'carousel', 3, PLATFORM_PROFILES.instagram)).toBeNull();
+    expect(assembleParts(['2/2 Hook', 'Listen now']).text).toBe('1/2 Hook\n\n2/2 Listen now');
+  });
+
+  describe('POST /api/content/generate with a format', () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/content', contentRoutes);
+
+    beforeEach(() => {
+      mockDatabase.clearMocks();
+    });
+
+    test('a thread is saved as one draft with its ordered parts in the metadata', async () => {
+      mockDatabase.mockQuery([persona]);
+      mockDatabase.mockQuery([]); // AI usage for the quota check
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([]); // persona transcripts for voice examples
+      mockDatabase.mockQuery([]); // approved posts for few-shot examples
+      mockDatabase.mockQuery([]); // ai_cache lookup (miss)
+      mockDatabase.mockQuery([]); // ai_generation_logs
+      mockDatabase.mockQuery([]); // ai_cache write
+      mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'release', context: 'my new single', variations: 1, provider: 'mock', format: 'thread', parts: 4 });
+
+      expect(response.status).toBe(200);
+      const [variation] = response.body.generated_content;
+      expect(variation.format).toBe('thread');
+      expect(variation.parts.map((part: any) => part.text.slice(0, 4))).toEqual(['1/4 ', '2/4 ', '3/4 ', '4/4 ']);
+      expect(variation.parts.every((part: any) => part.characters <= 280)).toBe(true);
+      expect(variation.content).toBe(variation.parts.map((part: any) => part.text).join('\n\n'));
+      expect(response.body.generation_metadata.format).toBe('thread');
+
+      expect(variation.generation_params).toMatchObject({ platform: 'x', format: 'thread', parts: 4 });
+
+      const pool = require('../Config/connection');
+      const insertCall = pool.query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO generated_content'));
+      const metadata = JSON.parse(insertCall[1][5]);
+      expect(metadata).toMatchObject({ platform: 'x', format: 'thread' });
+      expect(metadata.parts).toHaveLength(4);
+    });
+
+    test('templates cannot shape a thread or carousel', async () => {
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'release', format: 'carousel', template_id: 'template-1' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toBe('Templates cannot be used with the thread or carousel format');
+    });
+  });
+
+  describe('editing a thread', () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/content', contentRoutes);
+
+    const thread = {
+      id: 'content-1',
+      artist_id: testData.artist.id,
+      persona_id: testData.persona.id,
+      content_type: 'release',
+      content_text: '1/2 Out Friday.\n\n2/2 Pre-save it now.',
+      content_metadata: { format: 'thread', platform: 'x', parts: [] },
+      approval_status: 'draft',
+      role: 'owner'
+    };
+
+    beforeEach(() => {
+      mockDatabase.clearMocks();
+    });
+
+    test('PATCH takes the parts, renumbers them and stores them with the revision', async () => {
+      mockDatabase.mockQuery([thread]);
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([persona]);
+      const client = mockDatabase.mockTransaction([
+        [],
+        [{ approval_status: 'draft' }],
+        [],
+        [{ id: 'revision-2', revision_number: 2, content_text: '', source: 'manual', quality_score: '0.7' }],
+        [thread],
+        []
+      ]);
+
+      const response = await request(app)
+        .patch('/api/content/content-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ parts: ['Out Friday!', 'New video too.', 'Pre-save it now.'] });
+
+      expect(response.status).toBe(200);
+      expect(client.query.mock.calls[3][1][1]).toBe('1/3 Out Friday!\n\n2/3 New video too.\n\n3/3 Pre-save it now.');
+      const metadata = JSON.parse(client.query.mock.calls[4][1][1]);
+      expect(metadata.parts.map((part: any) => part.role)).toEqual(['hook', 'body', 'cta']);
+      expect(metadata.format_warnings).toEqual([]);
+    });
+
+    test('threads must be edited through their parts and cannot be refined yet', async () => {
+      mockDatabase.mockQuery([thread]);
+      const edit = await request(app)
+        .patch('/api/content/content-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_text: 'One long post' });
+
+      expect(edit.status).toBe(400);
+      expect(edit.body.error).toBe('Edit a thread through its parts');
+
+      mockDatabase.mockQuery([thread]);
+      const refine = await request(app)
+        .post('/api/content/content-1/refine')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ instruction: 'shorter' });
+
+      expect(refine.status).toBe(409);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+// src/__tests__/contentReview.test.ts
+import request from 'supertest';
+import express from 'express';
+import { ContentOverrides, generatedContent, mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import artistRoutes from '../routes/artists';
+import { contentReviewService, ContentAccess } from '../services/contentReviewService';
+
+const content = (overrides: ContentOverrides = {}) => generatedContent({ approval_status: 'in_review', ...overrides });
+
+describe('Content Approval Workflow', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/content', contentRoutes);
+  app.use('/api/artists', artistRoutes);
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  describe('transition rules', () => {
+    const access = (role: ContentAccess['role'], overrides: Record<string, any> = {}): ContentAccess =>
+      ({ content: content(overrides) as any, role });
+
+    test('each role only gets the moves the workflow allows from the current status', () => {
+      expect(contentReviewService.allowedTransitions(access('owner'), 'owner-1').sort()).toEqual(['approved', 'draft', 'rejected']);
+      expect(contentReviewService.allowedTransitions(access('reviewer'), 'reviewer-1').sort()).toEqual(['approved', 'rejected']);
+      expect(contentReviewService.allowedTransitions(access('editor'), 'editor-1')).toEqual(['draft']);
+      expect(contentReviewService.allowedTransitions(access('owner', { approval_status: 'published' }), 'owner-1')).toEqual([]);
+    });
+
+    test('an assigned reviewer is the only reviewer who can decide', () => {
+      const assigned = access('reviewer', { assigned_reviewer_id: 'reviewer-2' });
+
+      expect(contentReviewService.checkTransition(assigned, 'reviewer-1', 'approved')).toEqual({
+        ok: false, status: 403, error: 'This content is assigned to another reviewer'
+      });
+      expect(contentReviewService.checkTransition(assigned, 'reviewer-2', 'approved')).toEqual({ ok: true });
+      expect(contentReviewService.checkTransition(access('owner', { assigned_reviewer_id: 'reviewer-2' }), 'owner-1', 'rejected')).toEqual({ ok: true });
+    });
+
+    test('skipping a step is a conflict, not a permission problem', () => {
+      expect(contentReviewService.checkTransition(access('owner', { approval_status: 'draft' }), 'owner-1', 'published')).toMatchObject({
+        ok: false, status: 409
+      });
+    });
+
+    test('content blocked by moderation cannot be reopened until an edit clears the verdict', () => {
+      const blocked = access('owner', { approval_status: 'rejected', content_metadata: { moderation: { action: 'block' } } });
+      expect(contentReviewService.allowedTransitions(blocked, 'owner-1')).toEqual([]);
+      expect(contentReviewService.checkTransition(blocked, 'owner-1', 'draft')).toMatchObject({ ok: false, status: 409 });
+
+      const flagged = access('owner', { approval_status: 'rejected', content_metadata: { moderation: { action: 'flag' } } });
+      expect(contentReviewService.allowedTransitions(flagged, 'owner-1')).toEqual(['draft']);
+    });
+  });
+
+  describe('POST /api/content/:id/transition', () => {
+    test('approves content with a reviewer comment and records it on the timeline', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'reviewer' }]);
+      const client = mockDatabase.mockTransaction([[], [content({ approval_status: 'approved' })], [], []]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/transition')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ to_status: 'approved', comment: 'Great hook' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.content.approval_status).toBe('approved');
+      expect(response.body.content.role).toBe('reviewer');
+      expect(response.body.content.allowed_transitions).toEqual([]);
+
+      const [updateSql, updateParams] = client.query.mock.calls[1];
+      expect(updateSql).toContain('AND gc.approval_status = $3');
+      expect(updateParams).toEqual(['approved', 'content-1', 'in_review']);
+      expect(client.query.mock.calls[2][1]).toEqual(['content-1', 'in_review', 'approved', 'test-user-id', 'Great hook']);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    test('rejects moves the workflow does not allow', async () => {
+      mockDatabase.mockQuery([{ ...content({ approval_status: 'draft' }), role: 'owner' }]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/transition')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ to_status: 'approved' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Cannot move content from draft to approved');
+      expect(response.body.allowed_transitions).toEqual(['in_review']);
+    });
+
+    test('sends publishing to the publish endpoint so nothing is marked published without a post', async () => {
+      const response = await request(app)
+        .post('/api/content/content-1/transition')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ to_status: 'published' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toMatch(/POST \/api\/content\/:id\/publish/);
+      const pool = require('../Config/connection');
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    test('stops editors from approving content', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'editor' }]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/transition')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ to_status: 'approved' });
+
+      expect(response.status).toBe(403);
+    });
+
+    test('reports a concurrent change as a conflict', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'owner' }]);
+      const client = mockDatabase.mockTransaction([[], []]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/transition')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ to_status: 'rejected' });
+
+      expect(response.status).toBe(409);
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    test('validates the target status and hides content from other users', async () => {
+      const invalid = await request(app)
+        .post('/api/content/content-1/transition')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ to_status: 'archived' });
+      expect(invalid.status).toBe(400);
+
+      mockDatabase.mockQuery([]);
+      const hidden = await request(app)
+        .post('/api/content/content-1/transition')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ to_status: 'approved' });
+      expect(hidden.status).toBe(404);
+    });
+  });
+
+  describe('PUT /api/content/:id/reviewer', () => {
+    test('assigns an eligible reviewer', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'owner' }]);
+      mockDatabase.mockQuery([{ '?column?': 1 }]);
+      const client = mockDatabase.mockTransaction([
+        [],
+        [content({ assigned_reviewer_id: '11111111-1111-4111-8111-111111111111', assigned_reviewer_email: 'reviewer@example.com' })],
+        [],
+        []
+      ]);
+
+      const response = await request(app)
+        .put('/api/content/content-1/reviewer')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ reviewer_id: '11111111-1111-4111-8111-111111111111' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.content.assigned_reviewer_email).toBe('reviewer@example.com');
+      expect(client.query.mock.calls[2][0]).toContain("'assignment'");
+    });
+
+    test('refuses users who are not reviewers for the artist', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'owner' }]);
+      mockDatabase.mockQuery([]);
+
+      const response = await request(app)
+        .put('/api/content/content-1/reviewer')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ reviewer_id: '22222222-2222-4222-8222-222222222222' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/content/:id/timeline', () => {
+    test('starts with the draft and lists each change oldest first', async () => {
+      mockDatabase.mockQuery([{ ...content({ approval_status: 'approved' }), role: 'owner' }]);
+      mockDatabase.mockQuery([
+        { id: 'event-1', event_type: 'transition', from_status: 'draft', to_status: 'in_review', actor_email: 'test@example.com', comment: null },
+        { id: 'event-2', event_type: 'transition', from_status: 'in_review', to_status: 'approved', actor_email: 'reviewer@example.com', comment: 'Ship it' }
+      ]);
+
+      const response = await request(app)
+        .get('/api/content/content-1/timeline')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.timeline.map((event: any) => event.to_status)).toEqual(['draft', 'in_review', 'approved']);
+      expect(response.body.timeline[0].event_type).toBe('created');
+      expect(response.body.content.allowed_transitions.sort()).toEqual(['draft', 'scheduled']);
+    });
+  });
+
+  describe('GET /api/content/review-queue', () => {
+    test('lists items awaiting review with the caller role per item', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'reviewer' }]);
+      mockDatabase.mockQuery([{ total: 1 }]);
+
+      const response = await request(app)
+        .get('/api/content/review-queue?assigned_to_me=true')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.items[0]).toMatchObject({ id: 'content-1', role: 'reviewer', allowed_transitions: ['approved', 'rejected'] });
+      expect(response.body.pagination.total).toBe(1);
+
+      const pool = require('../Config/connection');
+      const [sql, params] = pool.query.mock.calls[0];
+      expect(sql).toContain('gc.assigned_reviewer_id = $1');
+      expect(params).toEqual(['test-user-id', 'in_review', 50, 0]);
+    });
+  });
+
+  describe('Artist collaborators', () => {
+    test('adds a reviewer by email', async () => {
+      mockDatabase.mockQuery([{ id: testData.artist.id }]);
+      mockDatabase.mockQuery([{ user_id: 'user-456', email: 'reviewer@example.com', role: 'reviewer', created_at: new Date() }]);
+
+      const response = await request(app)
+        .post('/api/artists/collaborators')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ email: 'reviewer@example.com', role: 'reviewer' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.collaborator.role).toBe('reviewer');
+    });
+
+    test('reports unknown emails', async () => {
+      mockDatabase.mockQuery([{ id: testData.artist.id }]);
+      mockDatabase.mockQuery([]);
+
+      const response = await request(app)
+        .post('/api/artists/collaborators')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ email: 'nobody@example.com', role: 'editor' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,289 @@
+// src/__tests__/contentRevisions.test.ts
+import request from 'supertest';
+import express from 'express';
+import { ContentOverrides, generatedContent, mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import { diffRevisionText } from '../services/contentRevisionService';
+import { MockProvider } from '../services/providers/mockProvider';
+
+const content = (overrides: ContentOverrides = {}) => generatedContent({
+  content_text: 'New single out Friday. Pre-save it now. #music',
+  content_metadata: { quality_score: 0.62, model_used: 'groq' },
+  ...overrides
+});
+
+const revision = (overrides: Record<string, any> = {}) => ({
+  id: 'revision-2',
+  content_id: 'content-1',
+  revision_number: 2,
+  content_text: 'New single out Friday! #music',
+  source: 'manual',
+  instruction: null,
+  provider: null,
+  ai_model: null,
+  quality_score: '0.7100',
+  created_by: 'test-user-id',
+  created_at: new Date('2026-03-02T10:00:00.000Z'),
+  ...overrides
+});
+
+const persona = {
+  ...testData.persona,
+  artist_id: testData.artist.id,
+  artist_name: testData.artist.artist_name,
+  tone: 'casual',
+  key_themes: ['music', 'touring']
+};
+
+describe('Content Revisions', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/content', contentRoutes);
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  test('word diff keeps unchanged words and marks what was removed and added', () => {
+    expect(diffRevisionText('New single out Friday. Pre-save it now.', 'New single out Friday! Pre-save it now.')).toEqual([
+      { op: 'equal', text: 'New single out ' },
+      { op: 'delete', text: 'Friday. ' },
+      { op: 'insert', text: 'Friday! ' },
+      { op: 'equal', text: 'Pre-save it now.' }
+    ]);
+    expect(diffRevisionText('', 'Hello')).toEqual([{ op: 'insert', text: 'Hello' }]);
+  });
+
+  test('the mock provider follows the instructions the UI offers', async () => {
+    const original = 'Hey everyone! The new single is out Friday. It took a year to finish. Pre-save it now.';
+    const refine = (instruction: string) => new MockProvider().complete({
+      systemPrompt: 'You are an artist.',
+      userPrompt: instruction,
+      prompt: instruction,
+      maxTokens: 150,
+      temperature: 0.7,
+      context: { contentType: 'social_post', keyThemes: [], refinement: { original, instruction }, variation: 1 }
+    });
+
+    expect((await refine('shorter')).text).toBe('Hey everyone! The new single is out Friday.');
+    expect((await refine('add a question for fans')).text).toMatch(/^Hey everyone! .*Pre-save it now\. .+\?$/);
+    expect((await refine('more hype')).text).toContain('Pre-save it now!');
+  });
+
+  describe('PATCH /api/content/:id', () => {
+    test('stores the edit as a new revision, keeping the generated text as revision 1', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'owner' }]);
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([persona]);
+      const client = mockDatabase.mockTransaction([
+        [],
+        [{ approval_status: 'draft' }],
+        [],
+        [revision()],
+        [content({ content_text: 'New single out Friday! #music', content_metadata: { quality_score: 0.71, revision_number: 2 } })],
+        []
+      ]);
+
+      const response = await request(app)
+        .patch('/api/content/content-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_text: 'New single out Friday! #music' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.revision).toMatchObject({ revision_number: 2, source: 'manual', quality_score: 0.71 });
+      expect(response.body.content.content_text).toBe('New single out Friday! #music');
+      expect(response.body.quality_metrics.score).toEqual(expect.any(Number));
+
+      expect(client.query.mock.calls[1][0]).toContain('FOR UPDATE');
+      expect(client.query.mock.calls[2][0]).toContain("'generated'");
+      expect(client.query.mock.calls[2][0]).toContain('NOT EXISTS');
+      expect(client.query.mock.calls[3][1]).toEqual([
+        'content-1', 'New single out Friday! #music', 'manual', null, null, null, expect.any(Number), 'test-user-id'
+      ]);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    test('reviewers cannot edit and submitted content has to go back to draft first', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'reviewer' }]);
+      const reviewer = await request(app)
+        .patch('/api/content/content-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_text: 'Changed' });
+      expect(reviewer.status).toBe(403);
+
+      mockDatabase.mockQuery([{ ...content({ approval_status: 'in_review' }), role: 'owner' }]);
+      const submitted = await request(app)
+        .patch('/api/content/content-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_text: 'Changed' });
+      expect(submitted.status).toBe(409);
+      expect(submitted.body.error).toMatch(/Move it back to draft/);
+    });
+
+    test('rejects empty and unchanged text', async () => {
+      const empty = await request(app)
+        .patch('/api/content/content-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_text: '   ' });
+      expect(empty.status).toBe(400);
+
+      mockDatabase.mockQuery([{ ...content(), role: 'editor' }]);
+      const unchanged = await request(app)
+        .patch('/api/content/content-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_text: content().content_text });
+      expect(unchanged.status).toBe(400);
+    });
+
+    test('blocked edits are refused and a clean edit of blocked content clears the verdict', async () => {
+      const rules = {
+        artist_id: testData.artist.id,
+        blocklist: [{ term: 'Night Drive', category: 'unreleased', severity: 'high' }],
+        allowlist: [],
+        patterns: [],
+        block_severity: 'high',
+        use_default_lexicon: true,
+        updated_at: new Date()
+      };
+      const blocked = content({
+        approval_status: 'rejected',
+        content_text: '',
+        content_metadata: { moderation: { action: 'block', matches: [], reason: 'Mentions unreleased music: "Night Drive"' } }
+      });
+
+      mockDatabase.mockQuery([{ ...blocked, role: 'owner' }]);
+      mockDatabase.mockQuery([rules]);
+      const refused = await request(app)
+        .patch('/api/content/content-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_text: 'Night Drive drops Friday' });
+      expect(refused.status).toBe(422);
+      expect(refused.body.moderation.action).toBe('block');
+
+      mockDatabase.mockQuery([{ ...blocked, role: 'owner' }]);
+      mockDatabase.mockQuery([rules]);
+      mockDatabase.mockQuery([persona]);
+      const client = mockDatabase.mockTransaction([
+        [],
+        [{ approval_status: 'rejected' }],
+        [],
+        [revision({ content_text: 'New music drops Friday' })],
+        [content({ approval_status: 'rejected', content_text: 'New music drops Friday', content_metadata: { moderation: null } })],
+        []
+      ]);
+      const edited = await request(app)
+        .patch('/api/content/content-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_text: 'New music drops Friday' });
+      expect(edited.status).toBe(200);
+      expect(JSON.parse(client.query.mock.calls[4][1][1])).toMatchObject({ moderation: null });
+    });
+
+    test('reports a status change during the edit as a conflict', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'owner' }]);
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([persona]);
+      const client = mockDatabase.mockTransaction([[], [{ approval_status: 'in_review' }]]);
+
+      const response = await request(app)
+        .patch('/api/content/content-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_text: 'Changed' });
+
+      expect(response.status).toBe(409);
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('POST /api/content/:id/refine', () => {
+    test('rewrites the current text through the provider and stores it as a refine revision', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'owner' }]);
+      mockDatabase.mockQuery([persona]);
+      mockDatabase.mockQuery([]); // AI usage for the quota check
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([]); // ai_generation_logs
+      const client = mockDatabase.mockTransaction([
+        [],
+        [{ approval_status: 'draft' }],
+        [],
+        [revision({ source: 'refine', instruction: 'shorter', provider: 'mock', content_text: 'New single out Friday. Pre-save it now.' })],
+        [content({ content_text: 'New single out Friday. Pre-save it now.' })],
+        []
+      ]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/refine')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ instruction: 'shorter', provider: 'mock' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.revision).toMatchObject({ source: 'refine', instruction: 'shorter' });
+
+      const [, insertParams] = client.query.mock.calls[3];
+      expect(insertParams.slice(0, 7)).toEqual([
+        'content-1', 'New single out Friday. Pre-save it now.', 'refine', 'shorter', 'mock', 'mock-deterministic-v1', expect.any(Number)
+      ]);
+
+      const pool = require('../Config/connection');
+      const logCall = pool.query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO ai_generation_logs'));
+      expect(logCall[1]).toContain('content_refinement');
+    });
+
+    test('answers 429 without calling a provider when the quota is used up', async () => {
+      process.env.AI_QUOTA_USER_REQUESTS_PER_DAY = '5';
+      mockDatabase.mockQuery([{ ...content(), role: 'editor' }]);
+      mockDatabase.mockQuery([persona]);
+      mockDatabase.mockQuery([{ user_requests: 5, user_tokens: '100' }]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/refine')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ instruction: 'more hype', provider: 'mock' });
+      delete process.env.AI_QUOTA_USER_REQUESTS_PER_DAY;
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBeDefined();
+      const pool = require('../Config/connection');
+      expect(pool.query).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('GET /api/content/:id/revisions', () => {
+    test('lists the generated text as revision 1 for items never edited', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'editor' }]);
+      mockDatabase.mockQuery([]);
+
+      const response = await request(app)
+        .get('/api/content/content-1/revisions')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.revisions).toEqual([
+        expect.objectContaining({ revision_number: 1, source: 'generated', provider: 'groq', quality_score: 0.62 })
+      ]);
+      expect(response.body.content.editable).toBe(true);
+    });
+
+    test('diffs the latest revision against the previous one by default', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'owner' }]);
+      mockDatabase.mockQuery([
+        revision(),
+        revision({ id: 'revision-1', revision_number: 1, source: 'generated', content_text: 'New single out Friday. #music', created_by: null })
+      ]);
+
+      const response = await request(app)
+        .get('/api/content/content-1/revisions/diff')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.from.revision_number).toBe(1);
+      expect(response.body.to.revision_number).toBe(2);
+      expect(response.body.segments).toEqual([
+        { op: 'equal', text: 'New single out ' },
+        { op: 'delete', text: 'Friday. ' },
+        { op: 'insert', text: 'Friday! ' },
+        { op: 'equal', text: '#music' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+// src/__tests__/contentSchedule.test.ts
+import request from 'supertest';
+import express from 'express';
+import { ContentOverrides, generatedContent, mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import { contentScheduleService, markConflicts } from '../services/contentScheduleService';
+
+const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+const minutesLater = (minutes: number) => new Date(tomorrow.getTime() + minutes * 60000);
+
+const content = (overrides: ContentOverrides = {}) => generatedContent({
+  approval_status: 'approved',
+  content_metadata: { platform: 'instagram' },
+  ...overrides
+});
+
+describe('Content Scheduling', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/content', contentRoutes);
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  test('posts on the same platform closer than the window conflict with each other', () => {
+    const marked = markConflicts([
+      content({ id: 'a', scheduled_platform: 'x', scheduled_at: minutesLater(0) }),
+      content({ id: 'b', scheduled_platform: 'x', scheduled_at: minutesLater(30) }),
+      content({ id: 'c', scheduled_platform: 'x', scheduled_at: minutesLater(90) }),
+      content({ id: 'd', scheduled_platform: 'instagram', scheduled_at: minutesLater(10) })
+    ], 60);
+
+    expect(marked.map(item => [item.id, item.conflicts_with])).toEqual([
+      ['a', ['b']],
+      ['b', ['a']],
+      ['c', []],
+      ['d', []]
+    ]);
+  });
+
+  describe('PUT /api/content/:id/schedule', () => {
+    test('schedules approved content on the platform it was written for', async () => {
+      mockDatabase.mockQuery([{ ...content(), role: 'owner' }]);
+      mockDatabase.mockQuery([]); // no conflicts
+      const client = mockDatabase.mockTransaction([
+        [],
+        [content({ approval_status: 'scheduled', scheduled_platform: 'instagram', scheduled_at: tomorrow })],
+        []
+      ]);
+
+      const response = await request(app)
+        .put('/api/content/content-1/schedule')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ scheduled_at: tomorrow.toISOString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe(`Scheduled for Instagram at ${tomorrow.toISOString()}`);
+      expect(response.body.content.approval_status).toBe('scheduled');
+      expect(response.body.content.scheduled_platform).toBe('instagram');
+
+      const pool = require('../Config/connection');
+      const [, conflictParams] = pool.query.mock.calls[1];
+      expect(conflictParams.slice(0, 3)).toEqual([testData.artist.id, 'instagram', 'content-1']);
+      expect(conflictParams[3]).toEqual(minutesLater(-60));
+      expect(conflictParams[4]).toEqual(minutesLater(60));
+
+      expect(client.query.mock.calls[1][1]).toEqual([tomorrow, 'instagram', 'content-1', 'approved']);
+      expect(client.query.mock.calls[2][1]).toEqual([
+        'content-1', 'transition', 'approved', 'test-user-id', `Scheduled for Instagram at ${tomorrow.toISOString()}`
+      ]);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    test('reports posts too close on the same platform unless conflicts are allowed', async () => {
+      const neighbour = { id: 'content-2', content_text: 'Tour dates!', approval_status: 'scheduled', scheduled_platform: 'x', scheduled_at: minutesLater(20) };
+      mockDatabase.mockQuery([{ ...content(), role: 'editor' }]);
+      mockDatabase.mockQuery([neighbour]);
+
+      const refused = await request(app)
+        .put('/api/content/content-1/schedule')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ platform: 'x', scheduled_at: tomorrow.toISOString() });
+
+      expect(refused.status).toBe(409);
+      expect(refused.body.error).toBe('Another post is scheduled on X less than 60 minutes from this time');
+      expect(refused.body.conflicts).toEqual([expect.objectContaining({ id: 'content-2', minutes_apart: 20 })]);
+
+      const pool = require('../Config/connection');
+      expect(pool.connect).not.toHaveBeenCalled();
+
+      mockDatabase.mockQuery([{ ...content(), role: 'editor' }]);
+      mockDatabase.mockQuery([neighbour]);
+      mockDatabase.mockTransaction([[], [content({ approval_status: 'scheduled', scheduled_platform: 'x', scheduled_at: tomorrow })], []]);
+
+      const allowed = await request(app)
+        .put('/api/content/content-1/schedule')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ platform: 'x', scheduled_at: tomorrow.toISOString(), allow_conflicts: true });
+
+      expect(allowed.status).toBe(200);
+      expect(allowed.body.conflicts).toHaveLength(1);
+    });
+
+    test('moving a scheduled post is recorded as a schedule change', async () => {
+      mockDatabase.mockQuery([{ ...content({ approval_status: 'scheduled', scheduled_platform: 'instagram', scheduled_at: tomorrow }), role: 'owner' }]);
+      mockDatabase.mockQuery([]);
+      const client = mockDatabase.mockTransaction([[], [content({ approval_status: 'scheduled', scheduled_at: minutesLater(120) })], []]);
+
+      const response = await request(app)
+        .put('/api/content/content-1/schedule')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ scheduled_at: minutesLater(120).toISOString() });
+
+      expect(response.status).toBe(200);
+      expect(client.query.mock.calls[2][1].slice(1, 3)).toEqual(['schedule', 'scheduled']);
+    });
+
+    test('only approved content can be scheduled, and not by reviewers', async () => {
+      mockDatabase.mockQuery([{ ...content({ approval_status: 'in_review' }), role: 'owner' }]);
+
+      const notApproved = await request(app)
+        .put('/api/content/content-1/schedule')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ scheduled_at: tomorrow.toISOString() });
+
+      expect(notApproved.status).toBe(409);
+
+      mockDatabase.mockQuery([{ ...content(), role: 'reviewer' }]);
+
+      const reviewer = await request(app)
+        .put('/api/content/content-1/schedule')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ scheduled_at: tomorrow.toISOString() });
+
+      expect(reviewer.status).toBe(403);
+    });
+
+    test('rejects times in the past and content without a platform', async () => {
+      const past = await request(app)
+        .put('/api/content/content-1/schedule')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ platform: 'x', scheduled_at: '2020-01-01T10:00:00.000Z' });
+
+      expect(past.status).toBe(400);
+      expect(past.body.details).toBe('scheduled_at must be in the future');
+
+      mockDatabase.mockQuery([{ ...content({ content_metadata: {} }), role: 'owner' }]);
+
+      const noPlatform = await request(app)
+        .put('/api/content/content-1/schedule')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ scheduled_at: tomorrow.toISOString() });
+
+      expect(noPlatform.status).toBe(400);
+      expect(noPlatform.body.error).toBe('Pick the platform to publish this content on');
+    });
+  });
+
+  test('unscheduling returns content to approved and frees its slot', async () => {
+    mockDatabase.mockQuery([{ ...content({ approval_status: 'scheduled', scheduled_platform: 'x', scheduled_at: tomorrow }), role: 'editor' }]);
+    const client = mockDatabase.mockTransaction([[], [content()], []]);
+
+    const response = await request(app)
+      .delete('/api/content/content-1/schedule')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(response.body.content.approval_status).toBe('approved');
+    expect(response.body.content.scheduled_at).toBeNull();
+
+    const [updateSql, updateParams] = client.query.mock.calls[1];
+    expect(updateSql).toContain('scheduled_at = CASE WHEN $1 IN');
+    expect(updateParams).toEqual(['approved', 'content-1', 'scheduled']);
+  });
+
+  test('scheduling is not a plain transition', async () => {
+    const response = await request(app)
+      .post('/api/content/content-1/transition')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ to_status: 'scheduled' });
+
+    expect(response.status).toBe(400);
+  });
+
+  test('the calendar lists scheduled items with their conflicts', async () => {
+    mockDatabase.mockQuery([
+      { ...content({ id: 'a', approval_status: 'scheduled', scheduled_platform: 'x', scheduled_at: minutesLater(0) }), role: 'owner' },
+      { ...content({ id: 'b', approval_status: 'ready_to_publish', scheduled_platform: 'x', scheduled_at: minutesLater(15) }), role: 'owner' }
+    ]);
+
+    const response = await request(app)
+      .get('/api/content/calendar')
+      .query({ from: minutesLater(-60).toISOString(), to: minutesLater(24 * 60).toISOString(), conflict_window_minutes: 10 })
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(response.body.conflict_window_minutes).toBe(10);
+    expect(response.body.items.map((item: any) => item.conflicts_with)).toEqual([[], []]);
+    expect(response.body.items[1].allowed_transitions.sort()).toEqual(['approved', 'published']);
+  });
+
+  test('the scheduler marks due posts ready to publish and notifies the publishers', async () => {
+    const due = { id: 'content-1', artist_id: testData.artist.id, content_text: 'Out now!', scheduled_platform: 'x', scheduled_at: new Date('2026-03-05T18:00:00.000Z') };
+    const client = mockDatabase.mockTransaction([[], [due], [], []]);
+
+    const promoted = await contentScheduleService.promoteDue(new Date('2026-03-05T18:01:00.000Z'));
+
+    expect(promoted).toEqual([due]);
+    expect(client.query.mock.calls[1][0]).toContain("WHERE gc.approval_status = 'scheduled' AND gc.scheduled_at <= $1");
+    expect(client.query.mock.calls[2][1]).toEqual(['content-1', 'Due on X at 2026-03-05T18:00:00.000Z']);
+
+    const [notifySql, notifyParams] = client.query.mock.calls[3];
+    expect(notifySql).toContain('INSERT INTO notifications');
+    expect(notifySql).toContain("role = 'editor'");
+    expect(notifyParams).toEqual([testData.artist.id, 'content-1', 'content_ready_to_publish', 'A post is ready to publish on X at 2026-03-05T18:00:00.000Z']);
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+  });
+});
@@ -0,0 +1,161 @@
+// src/__tests__/engagementMetrics.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import { engagementRate, parseCsv } from '../services/engagementMetricsService';
+
+const PUBLICATION_ID = '6f1c1b0e-8a51-4c1f-9f55-2d7a3c0e9b11';
+
+const publicationRef = (overrides: Record<string, any> = {}) => ({
+  id: PUBLICATION_ID,
+  platform: 'twitter',
+  platform_post_id: 'fake-x-1',
+  ...overrides
+});
+
+describe('Engagement Metrics', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/content', contentRoutes);
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  test('CSV parsing handles quoted fields, doubled quotes and CRLF line endings', () => {
+    const rows = parseCsv('Platform,Platform_Post_ID,Note\r\nx,fake-x-1,"Big, ""huge"" news"\r\n\r\ninstagram,ig-2,\r\n');
+
+    expect(rows).toEqual([
+      { platform: 'x', platform_post_id: 'fake-x-1', note: 'Big, "huge" news' },
+      { platform: 'instagram', platform_post_id: 'ig-2', note: '' }
+    ]);
+  });
+
+  test('the engagement rate needs views', () => {
+    expect(engagementRate({ likes: 30, comments: 5, shares: 10, saves: 5, views: 1000 })).toBe(0.05);
+    expect(engagementRate({ likes: 30 })).toBeNull();
+  });
+
+  describe('POST /api/content/metrics', () => {
+    test('stores one row per metric for posts matched by publication or platform post id', async () => {
+      mockDatabase.mockQuery([publicationRef()]);
+      mockDatabase.mockQuery([]);
+
+      const response = await request(app)
+        .post('/api/content/metrics')
+        .set('Authorization', 'Bearer valid-token')
+        .send({
+          snapshots: [
+            { publication_id: PUBLICATION_ID, recorded_at: '2026-03-06T12:00:00.000Z', likes: 12, views: 340 },
+            { platform: 'x', platform_post_id: 'fake-x-1', recorded_at: '2026-03-07T12:00:00.000Z', likes: 20 },
+            { platform: 'x', platform_post_id: 'someone-else', likes: 1 }
+          ]
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.recorded).toBe(3);
+      expect(response.body.unmatched).toEqual([2]);
+
+      const pool = require('../Config/connection');
+      const [lookupSql, lookupParams] = pool.query.mock.calls[0];
+      expect(lookupSql).toContain("ac.role = 'editor'");
+      expect(lookupParams).toEqual(['test-user-id', [PUBLICATION_ID], ['fake-x-1', 'someone-else']]);
+
+      const [insertSql, insertParams] = pool.query.mock.calls[1];
+      expect(insertSql).toContain('ON CONFLICT (published_content_id, metric_name, recorded_at) DO UPDATE');
+      expect(insertParams[1]).toEqual(['likes', 'views', 'likes']);
+      expect(insertParams[2]).toEqual([12, 340, 20]);
+      expect(insertParams[4]).toEqual(['twitter', 'twitter', 'twitter']);
+      expect(insertParams.slice(5)).toEqual(['api', 'test-user-id']);
+    });
+
+    test('rejects snapshots without a post or without any metric', async () => {
+      const noPost = await request(app)
+        .post('/api/content/metrics')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ snapshots: [{ likes: 3 }] });
+
+      expect(noPost.status).toBe(400);
+
+      const noMetric = await request(app)
+        .post('/api/content/metrics')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ snapshots: [{ publication_id: PUBLICATION_ID }] });
+
+      expect(noMetric.status).toBe(400);
+    });
+
+    test('404 when no snapshot matches a published post', async () => {
+      mockDatabase.mockQuery([]);
+
+      const response = await request(app)
+        .post('/api/content/metrics')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ snapshots: [{ publication_id: PUBLICATION_ID, likes: 3 }] });
+
+      expect(response.status).toBe(404);
+      expect(response.body.unmatched).toEqual([0]);
+    });
+  });
+
+  test('a CSV import stores the valid rows and reports the rest', async () => {
+    mockDatabase.mockQuery([publicationRef()]);
+    mockDatabase.mockQuery([]);
+
+    const csv = [
+      'platform,platform_post_id,recorded_at,likes,shares,comments,views,saves',
+      'x,fake-x-1,2026-03-06T12:00:00Z,12,3,,340,',
+      'x,fake-x-1,2026-03-07T12:00:00Z,lots,3,1,500,2',
+      'x,unknown-post,2026-03-07T12:00:00Z,1,0,0,10,0'
+    ].join('\n');
+
+    const response = await request(app)
+      .post('/api/content/metrics/import')
+      .set('Authorization', 'Bearer valid-token')
+      .set('Content-Type', 'text/csv')
+      .send(csv);
+
+    expect(response.status).toBe(200);
+    expect(response.body.message).toBe('Imported 1 of 3 row(s)');
+    expect(response.body.recorded).toBe(3);
+    expect(response.body.rejected).toEqual([
+      { row: 2, error: '"likes" must be a number' },
+      { row: 3, error: 'No published post matches this row' }
+    ]);
+
+    const pool = require('../Config/connection');
+    const [, insertParams] = pool.query.mock.calls[1];
+    expect(insertParams[1]).toEqual(['likes', 'shares', 'views']);
+    expect(insertParams[5]).toBe('import');
+  });
+
+  test('the metrics timeline groups snapshots per post', async () => {
+    mockDatabase.mockQuery([{ id: 'content-1', artist_id: testData.artist.id, approval_status: 'published', role: 'reviewer' }]);
+    mockDatabase.mockQuery([
+      { id: PUBLICATION_ID, platform: 'twitter', platform_post_id: 'fake-x-1', post_url: 'https://fake.tribebuilder.local/x/me/fake-x-1', post_status: 'published', published_at: new Date('2026-03-05T18:00:00.000Z') },
+      { id: 'failed-1', platform: 'twitter', platform_post_id: null, post_url: null, post_status: 'failed', published_at: null }
+    ]);
+    mockDatabase.mockQuery([
+      { published_content_id: PUBLICATION_ID, metric_name: 'likes', metric_value: '12', recorded_at: new Date('2026-03-06T12:00:00.000Z') },
+      { published_content_id: PUBLICATION_ID, metric_name: 'views', metric_value: '300', recorded_at: new Date('2026-03-06T12:00:00.000Z') },
+      { published_content_id: PUBLICATION_ID, metric_name: 'likes', metric_value: '30', recorded_at: new Date('2026-03-07T12:00:00.000Z') }
+    ]);
+
+    const response = await request(app)
+      .get('/api/content/content-1/metrics')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(response.body.publications).toHaveLength(1);
+
+    const [post] = response.body.publications;
+    expect(post.platform).toBe('x');
+    expect(post.points).toEqual([
+      { recorded_at: '2026-03-06T12:00:00.000Z', likes: 12, views: 300 },
+      { recorded_at: '2026-03-07T12:00:00.000Z', likes: 30 }
+    ]);
+    expect(post.latest).toEqual({ likes: 30, views: 300 });
+    expect(post.engagement_rate).toBe(0.1);
+  });
+});
@@ -0,0 +1,190 @@
+// src/__tests__/mockProvider.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import aiContentService from '../services/aiService';
+import transcriptRetrievalService from '../services/transcriptRetrievalService';
+import { MockProvider } from '../services/providers/mockProvider';
+import { ProviderRequest } from '../services/providers/types';
+
+const baseRequest = (overrides: Partial<ProviderRequest> = {}): ProviderRequest => ({
+  systemPrompt: 'You are an artist.',
+  userPrompt: 'Create a social media post about the summer tour.',
+  prompt: 'Create a social media post about the summer tour.',
+  maxTokens: 150,
+  temperature: 0.7,
+  context: {
+    contentType: 'social_post',
+    topic: 'the summer tour',
+    artistName: 'Test Artist',
+    tone: 'energetic',
+    keyThemes: ['music', 'touring'],
+    variation: 1
+  },
+  ...overrides
+});
+
+describe('Mock AI Provider', () => {
+  const mockEnv = ['MOCK_AI_FAILURE_MODE', 'MOCK_AI_FAILURE_RATE', 'MOCK_AI_SEED'];
+
+  afterEach(() => {
+    mockEnv.forEach(key => delete process.env[key]);
+  });
+
+  test('same seed and request always produce the same text', async () => {
+    const provider = new MockProvider();
+
+    const first = await provider.complete(baseRequest());
+    const second = await provider.complete(baseRequest());
+    const reseeded = await new MockProvider({ seed: 'another-seed' }).complete(baseRequest());
+    const nextVariation = await provider.complete(baseRequest({ temperature: 0.8 }));
+
+    expect(second.text).toBe(first.text);
+    expect([reseeded.text, nextVariation.text]).not.toContain(first.text);
+    expect(first.model).toBe('mock-deterministic-v1');
+    expect(first.usage?.completion_tokens).toBeGreaterThan(0);
+  });
+
+  test('posts reflect the persona and stay within the token budget', async () => {
+    const completion = await new MockProvider().complete(baseRequest());
+
+    expect(completion.text).toContain('the summer tour');
+    expect(completion.text).toMatch(/#music|#touring|Test Artist/);
+
+    const short = await new MockProvider().complete(baseRequest({ maxTokens: 10 }));
+    expect(short.text.length).toBeLessThanOrEqual(40);
+  });
+
+  test('template requests are answered with valid JSON variable values', async () => {
+    const completion = await new MockProvider().complete(baseRequest({
+      context: {
+        contentType: 'announcement',
+        topic: 'a new album',
+        artistName: 'Test Artist',
+        keyThemes: [],
+        variation: 1,
+        templateVariables: [
+          { name: 'artist_name', type: 'text', required: true },
+          { name: 'genre', type: 'select', required: true, options: ['Hip-Hop', 'R&B'] },
+          { name: 'release_date', type: 'date', required: true },
+          { name: 'track_count', type: 'number', required: false },
+          { name: 'explicit', type: 'boolean', required: false }
+        ]
+      }
+    }));
+
+    const values = JSON.parse(completion.text);
+    expect(values.artist_name).toBe('Test Artist');
+    expect(['Hip-Hop', 'R&B']).toContain(values.genre);
+    expect(values.release_date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(typeof values.track_count).toBe('number');
+    expect(typeof values.explicit).toBe('boolean');
+  });
+
+  test('simulates rate limits, timeouts and malformed output', async () => {
+    await expect(new MockProvider({ failureMode: 'rate_limit' }).complete(baseRequest()))
+      .rejects.toMatchObject({ status: 429 });
+
+    await expect(new MockProvider({ failureMode: 'timeout', timeoutMs: 5 }).complete(baseRequest()))
+      .rejects.toMatchObject({ code: 'ETIMEDOUT' });
+
+    const malformed = await new MockProvider({ failureMode: 'malformed' }).complete(baseRequest());
+    expect(aiContentService.parseTemplateResponse(malformed.text)).toBeNull();
+
+    await expect(new MockProvider({ failureMode: 'rate_limit', failureRate: 0 }).complete(baseRequest()))
+      .resolves.toHaveProperty('text');
+  });
+
+  test('failure modes can be switched through the environment', async () => {
+    process.env.MOCK_AI_FAILURE_MODE = 'rate_limit';
+    await expect(new MockProvider().complete(baseRequest())).rejects.toThrow('rate limit');
+
+    process.env.MOCK_AI_FAILURE_MODE = 'not-a-mode';
+    await expect(new MockProvider().complete(baseRequest())).resolves.toHaveProperty('text');
+  });
+
+  test('streams the same text it would return', async () => {
+    const provider = new MockProvider();
+    const tokens: string[] = [];
+
+    const streamed = await provider.stream(baseRequest(), token => tokens.push(token));
+    const completed = await provider.complete(baseRequest());
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(completed.text);
+    expect(streamed.text).toBe(completed.text);
+  });
+});
+
+describe('Offline generation flow with the mock provider', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/content', contentRoutes);
+
+  const persona = {
+    ...testData.persona,
+    artist_name: testData.artist.artist_name,
+    artist_id: testData.artist.id,
+    questionnaire_responses: []
+  };
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+    transcriptRetrievalService.clearIndex();
+  });
+
+  test('generates, scores, saves and lists content without network access', async () => {
+    const pool = require('../Config/connection');
+
+    mockDatabase.mockQuery([persona]);
+    mockDatabase.mockQuery([]); // AI usage for the quota check
+    mockDatabase.mockQuery([]); // artist moderation rules
+    mockDatabase.mockQuery([]); // persona transcripts for voice examples
+    mockDatabase.mockQuery([]); // approved posts for few-shot examples
+    mockDatabase.mockQuery([]); // ai_cache lookup (miss)
+    mockDatabase.mockQuery([]); // ai_generation_logs, variation 1
+    mockDatabase.mockQuery([]); // ai_generation_logs, variation 2
+    mockDatabase.mockQuery([]); // ai_cache write
+    mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+    mockDatabase.mockQuery([{ id: 'content-2', created_at: new Date() }]);
+
+    const generated = await request(app)
+      .post('/api/content/generate')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ content_type: 'release', context: 'my new single Midnight Drive', variations: 2, provider: 'mock' });
+
+    expect(generated.status).toBe(200);
+    expect(generated.body.generated_content).toHaveLength(2);
+    const [best] = generated.body.generated_content;
+    expect(best.model_used).toBe('mock');
+    expect(best.content).toContain('Midnight Drive');
+    expect(best.quality_score).toBeGreaterThan(0);
+    expect(generated.body.generated_content.map((item: any) => item.id).sort()).toEqual(['content-1', 'content-2']);
+
+    const insertCall = pool.query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO generated_content'));
+    expect(insertCall[1][4]).toEqual(expect.stringContaining('Midnight Drive'));
+
+    const logCalls = pool.query.mock.calls.filter(([sql]: [string]) => sql.includes('INSERT INTO ai_generation_logs'));
+    expect(logCalls).toHaveLength(2);
+    expect(logCalls[0][1].slice(3, 6)).toEqual(['content_generation', 'mock', 'mock-deterministic-v1']);
+    expect(logCalls[0][1][9]).toBe(true);
+
+    mockDatabase.mockQuery([persona]);
+    const scored = await request(app)
+      .post('/api/content/quality-score')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ content: best.content });
+
+    expect(scored.status).toBe(200);
+    expect(scored.body.quality_metrics.score).toBeCloseTo(best.quality_score);
+
+    mockDatabase.mockQuery([{ id: best.id, content_text: best.content, approval_status: 'draft' }]);
+    const history = await request(app)
+      .get('/api/content/history')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(history.status).toBe(200);
+    expect(history.body.content_history[0].content_text).toBe(best.content);
+  });
+});
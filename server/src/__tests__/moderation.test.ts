@@ -0,0 +1,188 @@
+// src/__tests__/moderation.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import artistRoutes from '../routes/artists';
+import contentRoutes from '../routes/content';
+import { ModerationSettings, compilePattern, defaultModerationSettings, moderateText } from '../services/moderationService';
+
+const settings = (overrides: Partial<ModerationSettings>): ModerationSettings => ({
+  ...defaultModerationSettings(testData.artist.id),
+  ...overrides
+});
+
+// The upsert echoes what was sent, like the database would
+const echoUpsert = () => {
+  const pool = require('../Config/connection');
+  pool.query.mockImplementationOnce((_sql: string, params: any[]) => Promise.resolve({
+    rows: [{
+      artist_id: params[0],
+      blocklist: JSON.parse(params[1]),
+      allowlist: JSON.parse(params[2]),
+      patterns: JSON.parse(params[3]),
+      block_severity: params[4],
+      use_default_lexicon: params[5],
+      updated_at: new Date()
+    }]
+  }));
+};
+
+describe('Moderation', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/artists', artistRoutes);
+  app.use('/api/content', contentRoutes);
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  test('the built-in lexicon flags profanity and risky claims, and the allowlist exempts terms', () => {
+    const text = 'This shit is guaranteed to hit #1 on Billboard';
+
+    const result = moderateText(text, settings({}));
+    expect(result.action).toBe('flag');
+    expect(result.matches.map(match => [match.category, match.text])).toEqual([
+      ['profanity', 'shit'],
+      ['legal', 'guaranteed'],
+      ['legal', '#1 on Billboard']
+    ]);
+    expect(result.reason).toBe('Profanity: "shit"; Absolute promise that may be a legal risk: "guaranteed"; Chart claim; check it before posting: "#1 on Billboard"');
+
+    expect(moderateText(text, settings({ allowlist: ['this shit'] })).matches.map(match => match.text)).toEqual(['guaranteed', '#1 on Billboard']);
+    expect(moderateText(text, settings({ use_default_lexicon: false })).action).toBe('allow');
+  });
+
+  test('blocklist terms and patterns block at or above the block severity', () => {
+    const text = 'First listen to Night  Drive before it drops, better than anything on SoundWave';
+    const rules = settings({
+      blocklist: [
+        { term: 'night drive', category: 'unreleased', severity: 'high' },
+        { term: 'soundwave', category: 'competitor', severity: 'medium' }
+      ],
+      patterns: [{ pattern: 'before it drops', category: 'custom', severity: 'low', reason: 'Teases the release date' }]
+    });
+
+    const result = moderateText(text, rules);
+    expect(result.action).toBe('block');
+    expect(result.matches.map(match => [match.source, match.severity, match.text])).toEqual([
+      ['blocklist', 'high', 'Night  Drive'],
+      ['pattern', 'low', 'before it drops'],
+      ['blocklist', 'medium', 'SoundWave']
+    ]);
+
+    // Words inside longer words don't count
+    expect(moderateText('Soundwaves everywhere', rules).action).toBe('allow');
+    expect(moderateText('Tune in on SoundWave', rules).action).toBe('flag');
+    expect(moderateText('Tune in on SoundWave', { ...rules, block_severity: 'medium' }).action).toBe('block');
+  });
+
+  test('rules are saved for the owner, with category severities as defaults', async () => {
+    mockDatabase.mockQuery([{ id: testData.artist.id }]);
+    echoUpsert();
+
+    const saved = await request(app)
+      .put('/api/artists/moderation')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ blocklist: [{ term: 'Night Drive', category: 'unreleased' }, { term: 'SoundWave', category: 'competitor' }] });
+
+    expect(saved.status).toBe(200);
+    expect(saved.body.settings.blocklist).toEqual([
+      { term: 'Night Drive', category: 'unreleased', severity: 'high' },
+      { term: 'SoundWave', category: 'competitor', severity: 'medium' }
+    ]);
+    expect(saved.body.settings.block_severity).toBe('high');
+
+    // Rules are read back from the database, so every server sees the save
+    mockDatabase.mockQuery([{ id: testData.artist.id }]);
+    mockDatabase.mockQuery([saved.body.settings]);
+    const checked = await request(app)
+      .post('/api/artists/moderation/check')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ text: 'Night Drive is coming' });
+
+    expect(checked.status).toBe(200);
+    expect(checked.body.action).toBe('block');
+    expect(checked.body.reason).toBe('Mentions unreleased music: "Night Drive"');
+  });
+
+  test('invalid patterns are rejected', async () => {
+    const response = await request(app)
+      .put('/api/artists/moderation')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ patterns: [{ pattern: '(unclosed' }] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toMatch(/^Invalid pattern \(unclosed: /);
+  });
+
+  test('patterns that can backtrack catastrophically are refused when saved and skipped when stored', async () => {
+    const response = await request(app)
+      .put('/api/artists/moderation')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ patterns: [{ pattern: '(a+)+$' }] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toBe('Invalid pattern (a+)+$: Unsafe pattern: a repeated group contains another repetition, which can take exponential time to match');
+
+    for (const unsafe of ['(\\w+\\s?)*$', '(?:a|b*){2,}', '((ab)*c)+', '(\\w)\\1']) {
+      expect(() => compilePattern({ pattern: unsafe })).toThrow(/^Unsafe pattern: /);
+    }
+    for (const safe of ['(?:pre-?save|stream) (?:it|now)+', '(a+)?b', '[(+]+\\)+', '\\(a+\\)+', '(ab){1}c*']) {
+      expect(() => compilePattern({ pattern: safe })).not.toThrow();
+    }
+
+    // A pattern stored before the check existed is skipped rather than run
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const stored = settings({ use_default_lexicon: false, patterns: [{ pattern: '(a+)+$', category: 'custom', severity: 'high' }] });
+    expect(moderateText(`${'a'.repeat(40)}!`, stored).action).toBe('allow');
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  test('blocked variations are saved as rejected with the reason and returned without their text', async () => {
+    mockDatabase.mockQuery([{ ...testData.persona, artist_id: testData.artist.id, artist_name: testData.artist.artist_name }]);
+    mockDatabase.mockQuery([]); // AI usage for the quota check
+    mockDatabase.mockQuery([settings({ patterns: [{ pattern: '\\S+', category: 'custom', severity: 'high', reason: 'Everything is off limits' }] })]);
+    mockDatabase.mockQuery([]); // persona transcripts for voice examples
+    mockDatabase.mockQuery([]); // approved posts for few-shot examples
+    mockDatabase.mockQuery([]); // ai_cache lookup (miss)
+    mockDatabase.mockQuery([]); // ai_generation_logs
+    mockDatabase.mockQuery([]); // ai_cache write
+    mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+
+    const response = await request(app)
+      .post('/api/content/generate')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ content_type: 'release', context: 'my new single', variations: 1, provider: 'mock' });
+
+    expect(response.status).toBe(200);
+    const [variation] = response.body.generated_content;
+    expect(variation).toMatchObject({ id: 'content-1', content: null, blocked: true });
+    expect(variation.moderation.action).toBe('block');
+    expect(response.body.generation_metadata.variations_blocked).toBe(1);
+
+    const pool = require('../Config/connection');
+    const insertCall = pool.query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO generated_content'));
+    expect(insertCall[1][7]).toBe('rejected');
+    expect(insertCall[1][4]).toBe('');
+    expect(JSON.parse(insertCall[1][5]).moderation).toMatchObject({ action: 'block', reason: expect.stringContaining('Everything is off limits') });
+  });
+
+  test('nothing is generated when the rules cannot be read', async () => {
+    mockDatabase.mockQuery([{ ...testData.persona, artist_id: testData.artist.id, artist_name: testData.artist.artist_name }]);
+    mockDatabase.mockQuery([]); // AI usage for the quota check
+    mockDatabase.mockQueryError(new Error('connection terminated'));
+
+    const response = await request(app)
+      .post('/api/content/generate')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ content_type: 'release', context: 'my new single', variations: 1, provider: 'mock' });
+
+    expect(response.status).toBe(503);
+    expect(response.body.error).toBe('Moderation rules could not be loaded. Please try again shortly.');
+
+    const pool = require('../Config/connection');
+    expect(pool.query).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,118 @@
+// src/__tests__/platformProfiles.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import aiContentService, { PersonaData } from '../services/aiService';
+import { PLATFORM_PROFILES, checkPlatformFit, describePlatformProfile, fitToPlatform } from '../services/platformProfiles';
+
+const persona: PersonaData = {
+  ...testData.persona,
+  artist_id: testData.artist.id,
+  persona_name: 'Main',
+  tone: 'casual',
+  target_audience: 'indie fans',
+  key_themes: ['music', 'touring'],
+  voice_characteristics: {},
+  questionnaire_responses: []
+};
+
+describe('Platform profiles', () => {
+  test('X posts are cut at a sentence end and keep their inline hashtags within the limit', () => {
+    const text = `${'The new single is out Friday and I could not be happier about it. '.repeat(5)}#music #newmusic #indie #tour`;
+
+    const fit = fitToPlatform(text, PLATFORM_PROFILES.x);
+
+    expect(fit.content.length).toBeLessThanOrEqual(280);
+    expect(fit.content).toMatch(/it\.\n#music #newmusic$/);
+    expect(fit.adjustments).toEqual(['Kept 2 of 4 hashtags', expect.stringMatching(/^Trimmed from \d+ to \d+ characters$/)]);
+    expect(checkPlatformFit(fit.content, PLATFORM_PROFILES.x)).toEqual([]);
+  });
+
+  test('Instagram captions swap links for "link in bio" and collect hashtags at the end', () => {
+    const fit = fitToPlatform('Out now on #spotify: https://example.com/single 🎉🎉🎉🎉🎉🎉🎉🎉 #music', PLATFORM_PROFILES.instagram);
+
+    expect(fit.content).toBe('Out now on spotify: link in bio 🎉🎉🎉🎉🎉🎉\n\n#spotify #music');
+    expect(fit.adjustments).toEqual([
+      'Replaced a link with "link in bio" (links aren\'t clickable on Instagram)',
+      'Moved hashtags to the end',
+      'Removed 2 emoji over the limit of 6'
+    ]);
+    expect(checkPlatformFit(fit.content, PLATFORM_PROFILES.instagram)).toEqual(['Add at least 3 hashtags for discovery on Instagram']);
+  });
+
+  test('Reddit posts lose their hashtags and TikTok captions stay on one line', () => {
+    expect(fitToPlatform('Been writing about #touring life.\n\n#music #indie', PLATFORM_PROFILES.reddit)).toEqual({
+      content: 'Been writing about touring life.',
+      adjustments: ['Removed hashtags (not used on Reddit)']
+    });
+    expect(fitToPlatform('Day one.\n\nStudio vibes. #music #studio #indie', PLATFORM_PROFILES.tiktok).content)
+      .toBe('Day one. Studio vibes. #music #studio #indie');
+  });
+
+  test('the prompt spells out the profile', () => {
+    const description = describePlatformProfile(PLATFORM_PROFILES.instagram);
+
+    expect(description).toContain('Platform: Instagram');
+    expect(description).toContain('Use 3 to 10 hashtags, all at the end.');
+    expect(description).toContain('say "link in bio"');
+  });
+
+  test('quality scoring measures length against the platform ideal instead of 280 characters', async () => {
+    const post = `Hey you! New music is coming soon. ${'We spent months on this record and every song has a story. '.repeat(8)}`.trim();
+
+    const generic = await aiContentService.scoreContentQuality(post, persona);
+    const reddit = await aiContentService.scoreContentQuality(post, persona, 'reddit');
+    const x = await aiContentService.scoreContentQuality(post, persona, 'x');
+
+    expect(reddit.engagement_potential).toBeGreaterThan(generic.engagement_potential);
+    expect(x.issues).toContain(`Over the X limit of 280 characters (${post.length})`);
+    expect(generic.issues.some(issue => issue.includes('limit'))).toBe(false);
+  });
+
+  describe('POST /api/content/generate with a platform', () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/content', contentRoutes);
+
+    beforeEach(() => {
+      mockDatabase.clearMocks();
+    });
+
+    test('fits every variation to the profile and records the platform with the draft', async () => {
+      mockDatabase.mockQuery([{ ...persona, artist_name: testData.artist.artist_name }]);
+      mockDatabase.mockQuery([]); // AI usage for the quota check
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([]); // persona transcripts for voice examples
+      mockDatabase.mockQuery([]); // approved posts for few-shot examples
+      mockDatabase.mockQuery([]); // ai_cache lookup (miss)
+      mockDatabase.mockQuery([]); // ai_generation_logs
+      mockDatabase.mockQuery([]); // ai_cache write
+      mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'release', context: 'my new single', variations: 1, provider: 'mock', platform: 'reddit' });
+
+      expect(response.status).toBe(200);
+      const [variation] = response.body.generated_content;
+      expect(variation.content).not.toMatch(/#\w/);
+      expect(variation.platform_adjustments).toContain('Removed hashtags (not used on Reddit)');
+      expect(response.body.generation_metadata.platform).toBe('reddit');
+
+      const pool = require('../Config/connection');
+      const insertCall = pool.query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO generated_content'));
+      expect(JSON.parse(insertCall[1][5])).toMatchObject({ platform: 'reddit' });
+    });
+
+    test('rejects unknown platforms', async () => {
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'release', platform: 'myspace' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+// src/__tests__/postExamples.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import providerRegistry from '../services/providers';
+import postExampleService from '../services/postExampleService';
+
+const candidate = (id: string, text: string, overrides: Record<string, any> = {}) => ({
+  id,
+  content_type: 'release',
+  content_text: text,
+  approval_status: 'published',
+  example_pinned_at: null,
+  platform: 'x',
+  format: null,
+  hand_edited: false,
+  ...overrides
+});
+
+// Newest first, as the candidate query orders them (pinned posts come first anyway)
+const candidates = [
+  candidate('pinned', 'Golden post about the tour, pinned by the artist', { example_pinned_at: new Date(), approval_status: 'draft', hand_edited: true }),
+  candidate('recent', 'Studio diary, nothing about singles here'),
+  candidate('single', 'The new single Night Drive is out now, stream Night Drive everywhere'),
+  candidate('edited', 'Night Drive lyric video drops tonight', { approval_status: 'in_review', hand_edited: true }),
+  candidate('thread', 'Night Drive thread part one', { format: 'thread' })
+];
+
+const contentRow = (overrides: Record<string, any> = {}) => ({
+  id: 'content-1',
+  artist_id: testData.artist.id,
+  persona_id: testData.persona.id,
+  content_type: 'release',
+  content_text: 'Night Drive is out now',
+  content_metadata: { platform: 'x' },
+  approval_status: 'approved',
+  assigned_reviewer_id: null,
+  scheduled_at: null,
+  scheduled_platform: null,
+  example_pinned_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  artist_name: testData.artist.artist_name,
+  role: 'owner',
+  ...overrides
+});
+
+describe('Approved posts as few-shot examples', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/content', contentRoutes);
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  test('pinned posts come first, then the most relevant, then the newest', async () => {
+    mockDatabase.mockQuery(candidates);
+
+    const examples = await postExampleService.retrieveExamples(testData.artist.id, { content_type: 'release', platform: 'x', query: 'night drive single' }, 4);
+
+    expect(examples.map(example => [example.content_id, example.source, example.pinned])).toEqual([
+      ['pinned', 'edited', true],
+      ['single', 'approved', false],
+      ['edited', 'edited', false],
+      ['recent', 'approved', false]
+    ]);
+    expect(examples[1]!.score).toBeGreaterThan(examples[2]!.score);
+    expect(examples[3]!.score).toBe(0);
+
+    const pool = require('../Config/connection');
+    expect(pool.query.mock.calls[0][1]).toEqual([testData.artist.id, 'release', 'x']);
+  });
+
+  test('threads only learn from threads', async () => {
+    mockDatabase.mockQuery(candidates);
+
+    const examples = await postExampleService.retrieveExamples(testData.artist.id, { content_type: 'release', format: 'thread', query: 'night drive' }, 3);
+
+    expect(examples.map(example => example.content_id)).toEqual(['thread']);
+  });
+
+  test('generation shows the examples to the model and records which were used', async () => {
+    const complete = jest.spyOn(providerRegistry.get('mock')!, 'complete');
+
+    mockDatabase.mockQuery([{ ...testData.persona, artist_id: testData.artist.id, artist_name: testData.artist.artist_name }]);
+    mockDatabase.mockQuery([]); // AI usage for the quota check
+    mockDatabase.mockQuery([]); // artist moderation rules
+    mockDatabase.mockQuery([]); // persona transcripts for voice examples
+    mockDatabase.mockQuery(candidates.slice(0, 3));
+    mockDatabase.mockQuery([]); // ai_cache lookup (miss)
+    mockDatabase.mockQuery([]); // ai_generation_logs
+    mockDatabase.mockQuery([]); // ai_cache write
+    mockDatabase.mockQuery([{ id: 'content-new', created_at: new Date() }]);
+
+    const response = await request(app)
+      .post('/api/content/generate')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ content_type: 'release', context: 'Night Drive single', platform: 'x', variations: 1, provider: 'mock', max_post_examples: 2 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.post_examples_used.map((example: any) => example.content_id)).toEqual(['pinned', 'single']);
+
+    const systemPrompt: string = complete.mock.calls[0]![0].systemPrompt;
+    expect(systemPrompt).toContain('Posts the artist approved for this kind of content.');
+    expect(systemPrompt).toContain('Example 1:\nGolden post about the tour, pinned by the artist');
+    expect(systemPrompt).toContain('Example 2:\nThe new single Night Drive is out now');
+
+    const pool = require('../Config/connection');
+    const insertCall = pool.query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO generated_content'));
+    expect(JSON.parse(insertCall[1][5]).post_examples).toEqual([
+      { content_id: 'pinned', pinned: true },
+      { content_id: 'single', pinned: false }
+    ]);
+    complete.mockRestore();
+  });
+
+  test('owners and editors pin and unpin examples; rejected content cannot be pinned', async () => {
+    const pinnedAt = new Date('2026-10-01T12:00:00Z');
+    mockDatabase.mockQuery([contentRow()]);
+    mockDatabase.mockQuery([{ id: 'content-1', example_pinned_at: pinnedAt }]);
+
+    const pinned = await request(app)
+      .put('/api/content/content-1/example')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(pinned.status).toBe(200);
+    expect(pinned.body.content.example_pinned_at).toBe(pinnedAt.toISOString());
+
+    mockDatabase.mockQuery([contentRow({ example_pinned_at: pinnedAt })]);
+    mockDatabase.mockQuery([]);
+    const unpinned = await request(app)
+      .delete('/api/content/content-1/example')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(unpinned.status).toBe(200);
+    expect(unpinned.body.content.example_pinned_at).toBeNull();
+
+    mockDatabase.mockQuery([contentRow({ role: 'reviewer' })]);
+    const reviewer = await request(app)
+      .put('/api/content/content-1/example')
+      .set('Authorization', 'Bearer valid-token');
+    expect(reviewer.status).toBe(403);
+
+    mockDatabase.mockQuery([contentRow({ approval_status: 'rejected' })]);
+    const rejected = await request(app)
+      .put('/api/content/content-1/example')
+      .set('Authorization', 'Bearer valid-token');
+    expect(rejected.status).toBe(409);
+  });
+});
@@ -0,0 +1,68 @@
+// src/__tests__/providerRegistry.test.ts
+import { ProviderRegistry } from '../services/providers/registry';
+import { AIProvider } from '../services/providers/types';
+
+const fakeProvider = (name: string, configured = true): AIProvider => ({
+  name,
+  label: name.toUpperCase(),
+  model: `${name}-model`,
+  isConfigured: () => configured,
+  complete: async () => ({ text: `${name} says hi`, model: `${name}-model` })
+});
+
+describe('Provider Registry', () => {
+  const originalOrder = process.env.AI_PROVIDER_FALLBACK_ORDER;
+  let registry: ProviderRegistry;
+
+  beforeEach(() => {
+    registry = new ProviderRegistry();
+    registry.register(fakeProvider('alpha'));
+    registry.register(fakeProvider('beta'));
+    registry.register(fakeProvider('gamma', false));
+  });
+
+  afterEach(() => {
+    if (originalOrder === undefined) {
+      delete process.env.AI_PROVIDER_FALLBACK_ORDER;
+    } else {
+      process.env.AI_PROVIDER_FALLBACK_ORDER = originalOrder;
+    }
+  });
+
+  test('fallback chain follows the env order and skips unknown or unconfigured providers', () => {
+    process.env.AI_PROVIDER_FALLBACK_ORDER = 'beta, unknown, gamma, ALPHA, beta';
+
+    expect(registry.fallbackChain().map(provider => provider.name)).toEqual(['beta', 'alpha']);
+    expect(registry.names()).toEqual(['alpha', 'beta', 'gamma']);
+  });
+
+  test('providers turn unhealthy after repeated failures and recover on success', () => {
+    registry.recordFailure('alpha', new Error('boom'));
+    registry.recordFailure('alpha', new Error('boom'));
+    expect(registry.isHealthy('alpha')).toBe(true);
+
+    registry.recordFailure('alpha', new Error('still down'));
+    expect(registry.isHealthy('alpha')).toBe(false);
+
+    const alpha = registry.getStatus().find(status => status.name === 'alpha')!;
+    expect(alpha.last_error).toBe('still down');
+    expect(alpha.consecutive_failures).toBe(3);
+
+    registry.recordSuccess('alpha');
+    expect(registry.isHealthy('alpha')).toBe(true);
+    expect(registry.isHealthy('gamma')).toBe(false);
+  });
+
+  test('status reports configuration, streaming support and fallback position', () => {
+    process.env.AI_PROVIDER_FALLBACK_ORDER = 'beta,alpha';
+
+    const status = registry.getStatus();
+
+    expect(status.map(s => [s.name, s.configured, s.fallback_position])).toEqual([
+      ['alpha', true, 2],
+      ['beta', true, 1],
+      ['gamma', false, null]
+    ]);
+    expect(status.every(s => s.supports_streaming === false)).toBe(true);
+  });
+});
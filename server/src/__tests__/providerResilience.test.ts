@@ -0,0 +1,229 @@
+// src/__tests__/providerResilience.test.ts
+import './setup';
+import aiContentService, { PersonaData } from '../services/aiService';
+import providerRegistry from '../services/providers';
+import { CircuitBreaker } from '../services/providers/circuitBreaker';
+import { isRetryableError, timeoutFor, withTimeout } from '../services/providers/resilience';
+import { AIProvider, ProviderRequest } from '../services/providers/types';
+
+const persona: PersonaData = {
+  id: 'persona-resilience',
+  artist_id: 'artist-1',
+  persona_name: 'Main',
+  tone: 'casual',
+  target_audience: 'fans',
+  key_themes: ['music'],
+  voice_characteristics: {},
+  questionnaire_responses: []
+};
+
+describe('Circuit Breaker', () => {
+  test('opens after repeated failures, then allows a single trial after the cooldown', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000, windowMs: 60000 }, () => now);
+
+    breaker.recordFailure();
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.snapshot().state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    now = 1000;
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.snapshot().state).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordFailure();
+    expect(breaker.snapshot().state).toBe('open');
+
+    now = 2500;
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutive_failures: 0, recent_requests: 4, error_rate: 0.75 });
+  });
+
+  test('a released trial lets the next call through without closing the circuit', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000, windowMs: 60000 }, () => now);
+
+    breaker.recordFailure();
+    now = 1000;
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.release();
+
+    expect(breaker.snapshot().state).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  test('error rate only counts outcomes inside the window', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 5, cooldownMs: 1000, windowMs: 1000 }, () => now);
+
+    breaker.recordFailure();
+    now = 2000;
+    breaker.recordSuccess();
+
+    expect(breaker.snapshot()).toMatchObject({ recent_requests: 1, error_rate: 0 });
+  });
+});
+
+describe('Provider call resilience helpers', () => {
+  const originalTimeouts = process.env.AI_PROVIDER_TIMEOUTS;
+
+  afterEach(() => {
+    if (originalTimeouts === undefined) {
+      delete process.env.AI_PROVIDER_TIMEOUTS;
+    } else {
+      process.env.AI_PROVIDER_TIMEOUTS = originalTimeouts;
+    }
+  });
+
+  test('classifies retryable errors', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError({ code: 'ETIMEDOUT' })).toBe(true);
+    expect(isRetryableError({ status: 401 })).toBe(false);
+    expect(isRetryableError(new Error('bad prompt'))).toBe(false);
+  });
+
+  test('reads per-provider timeouts from the environment', () => {
+    process.env.AI_PROVIDER_TIMEOUTS = 'groq:1500, huggingface:45000, broken:abc';
+
+    expect(timeoutFor('groq')).toBe(1500);
+    expect(timeoutFor('huggingface')).toBe(45000);
+    expect(timeoutFor('broken')).toBe(20000);
+  });
+
+  test('times out calls that never settle and aborts their signal', async () => {
+    let received: AbortSignal | undefined;
+
+    await expect(withTimeout('Slow', 10, undefined, (signal) => {
+      received = signal;
+      return new Promise(() => undefined);
+    })).rejects.toMatchObject({ code: 'ETIMEDOUT', message: 'Slow timed out after 10ms' });
+
+    expect(received?.aborted).toBe(true);
+  });
+});
+
+describe('AI service retries and breaker fallback', () => {
+  const env = { ...process.env };
+  let flakyCalls = 0;
+  let flakyError: Error & { status?: number } = new Error('unused');
+
+  const flaky: AIProvider = {
+    name: 'flaky',
+    label: 'Flaky',
+    model: 'flaky-1',
+    isConfigured: () => true,
+    complete: async (_request: ProviderRequest) => {
+      flakyCalls++;
+      throw flakyError;
+    }
+  };
+
+  beforeAll(() => {
+    providerRegistry.register(flaky);
+  });
+
+  beforeEach(() => {
+    flakyCalls = 0;
+    process.env.AI_PROVIDER_RETRY_BASE_MS = '1';
+    process.env.AI_PROVIDER_MAX_RETRIES = '2';
+    process.env.AI_PROVIDER_FALLBACK_ORDER = 'flaky,mock';
+    providerRegistry.recordSuccess('flaky');
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  test('retries retryable errors with backoff before giving up', async () => {
+    flakyError = Object.assign(new Error('overloaded'), { status: 503 });
+
+    await expect(aiContentService.generateWithProvider('flaky', { persona, content_type: 'news', context: 'retry one', variations: 1 }))
+      .rejects.toThrow('overloaded');
+    expect(flakyCalls).toBe(3);
+  });
+
+  test('does not retry non-retryable errors', async () => {
+    flakyError = Object.assign(new Error('invalid api key'), { status: 401 });
+
+    await expect(aiContentService.generateWithProvider('flaky', { persona, content_type: 'news', context: 'retry two', variations: 1 }))
+      .rejects.toThrow('invalid api key');
+    expect(flakyCalls).toBe(1);
+  });
+
+  test('auto skips a provider whose circuit is open', async () => {
+    flakyError = Object.assign(new Error('invalid api key'), { status: 401 });
+
+    for (let i = 0; i < 3; i++) {
+      await aiContentService.generateContent({ persona, content_type: 'news', context: `outage ${i}`, variations: 1 });
+    }
+    expect(flakyCalls).toBe(3);
+
+    const results = await aiContentService.generateContent({ persona, content_type: 'news', context: 'after the outage', variations: 1 });
+
+    expect(flakyCalls).toBe(3);
+    expect(results[0]!.model_used).toBe('mock');
+
+    const flakyStatus = providerRegistry.getStatus().find(status => status.name === 'flaky')!;
+    expect(flakyStatus.circuit_state).toBe('open');
+    expect(flakyStatus.healthy).toBe(false);
+
+    const health = providerRegistry.healthSummary();
+    expect(health.status).toBe('OK');
+    const flakyHealth = health.providers.find(provider => provider.name === 'flaky')!;
+    expect(flakyHealth.circuit_state).toBe('open');
+    expect(flakyHealth.error_rate).toBeGreaterThan(0.5);
+  });
+});
+
+describe('AI service half-open trials', () => {
+  const env = { ...process.env };
+  let mode: 'fail' | 'stall' = 'fail';
+
+  const stalling: AIProvider = {
+    name: 'stalling',
+    label: 'Stalling',
+    model: 'stalling-1',
+    isConfigured: () => true,
+    complete: async () => {
+      throw Object.assign(new Error('invalid api key'), { status: 401 });
+    },
+    stream: (request: ProviderRequest) => new Promise((_resolve, reject) => {
+      if (mode === 'fail') return reject(Object.assign(new Error('invalid api key'), { status: 401 }));
+      request.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    })
+  };
+
+  beforeAll(() => {
+    process.env.AI_BREAKER_FAILURE_THRESHOLD = '1';
+    process.env.AI_BREAKER_COOLDOWN_MS = '0';
+    providerRegistry.register(stalling);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  test('a client abort during the trial frees it for the next call', async () => {
+    const handlers = { onToken: () => undefined, onVariation: () => undefined };
+    const params = { persona, content_type: 'news' as const, context: 'half open', variations: 1 };
+
+    await expect(aiContentService.generateContentStream(params, 'stalling', handlers)).rejects.toThrow('invalid api key');
+    expect(providerRegistry.getStatus().find(status => status.name === 'stalling')!.circuit_state).toBe('open');
+
+    mode = 'stall';
+    const controller = new AbortController();
+    const trial = aiContentService.generateContentStream(params, 'stalling', handlers, controller.signal);
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort();
+    await expect(trial).rejects.toThrow();
+
+    expect(providerRegistry.tryAcquire('stalling')).toBe(true);
+    providerRegistry.recordSuccess('stalling');
+  });
+});
@@ -0,0 +1,303 @@
+// src/__tests__/publishing.test.ts
+import request from 'supertest';
+import express from 'express';
+import { ContentOverrides, generatedContent, mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import artistRoutes from '../routes/artists';
+import { accountPlatform, profilePlatform } from '../services/publisherService';
+import { XAdapter, decryptToken, encryptToken, publishingAdapters } from '../services/publishing';
+
+const scheduled = (overrides: ContentOverrides = {}) => generatedContent({
+  content_metadata: { platform: 'x' },
+  approval_status: 'ready_to_publish',
+  scheduled_at: new Date('2026-03-05T18:00:00.000Z'),
+  scheduled_platform: 'x',
+  role: 'owner',
+  ...overrides
+});
+
+const account = () => ({
+  id: 'account-1',
+  platform_user_id: '42',
+  platform_username: 'testartist',
+  access_token_encrypted: encryptToken('access-123'),
+  refresh_token_encrypted: null,
+  token_expires_at: null
+});
+
+const publication = (overrides: Record<string, any> = {}) => ({
+  id: 'publication-1',
+  generated_content_id: 'content-1',
+  social_media_account_id: 'account-1',
+  platform: 'twitter',
+  platform_post_id: 'fake-x-1',
+  post_url: 'https://fake.tribebuilder.local/x/testartist/fake-x-1',
+  post_status: 'published',
+  error_message: null,
+  attempts: 1,
+  published_at: new Date(),
+  published_by: 'test-user-id',
+  created_at: new Date(),
+  ...overrides
+});
+
+describe('Publishing', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/content', contentRoutes);
+  app.use('/api/artists', artistRoutes);
+
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+    publishingAdapters.fake.reset();
+    process.env.SOCIAL_TOKEN_ENCRYPTION_KEY = 'a'.repeat(64);
+    process.env.PUBLISH_RETRY_BASE_MS = '0';
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test('tokens are encrypted with a fresh IV and tampering is detected', () => {
+    const first = encryptToken('access-123');
+    const second = encryptToken('access-123');
+
+    expect(first).toMatch(/^v1\./);
+    expect(first).not.toBe(second);
+    expect(first).not.toContain('access-123');
+    expect(decryptToken(first)).toBe('access-123');
+
+    const [version, iv, tag, ciphertext] = first.split('.');
+    const flipped = Buffer.from(ciphertext as string, 'base64');
+    flipped[0] = (flipped[0] as number) ^ 1;
+    expect(() => decryptToken([version, iv, tag, flipped.toString('base64')].join('.'))).toThrow();
+  });
+
+  test('X accounts are stored under the platform name the schema uses', () => {
+    expect(accountPlatform('x')).toBe('twitter');
+    expect(profilePlatform('twitter')).toBe('x');
+    expect(profilePlatform('instagram')).toBe('instagram');
+  });
+
+  describe('PUT /api/artists/social-accounts/:platform', () => {
+    test('links an account with encrypted tokens and never returns them', async () => {
+      mockDatabase.mockQuery([{ id: testData.artist.id }]);
+      mockDatabase.mockQuery([{ id: 'account-1', platform: 'twitter', platform_username: 'testartist', connection_status: 'active' }]);
+
+      const response = await request(app)
+        .put('/api/artists/social-accounts/x')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ access_token: 'access-123', refresh_token: 'refresh-456', platform_username: 'testartist' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.account.platform).toBe('x');
+      expect(JSON.stringify(response.body)).not.toContain('access-123');
+
+      const pool = require('../Config/connection');
+      const [, params] = pool.query.mock.calls[1];
+      expect(params[1]).toBe('twitter');
+      expect(decryptToken(params[4])).toBe('access-123');
+      expect(decryptToken(params[5])).toBe('refresh-456');
+    });
+
+    test('refuses to store tokens without an encryption key', async () => {
+      delete process.env.SOCIAL_TOKEN_ENCRYPTION_KEY;
+
+      const response = await request(app)
+        .put('/api/artists/social-accounts/instagram')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ access_token: 'access-123' });
+
+      expect(response.status).toBe(503);
+    });
+  });
+
+  describe('POST /api/content/:id/publish', () => {
+    test('publishes through the fake platform, retrying a transient error, and records the post', async () => {
+      process.env.FAKE_PLATFORM_FAILURE_MODE = 'server_error';
+      process.env.FAKE_PLATFORM_FAILURE_COUNT = '1';
+
+      mockDatabase.mockQuery([scheduled()]);
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([account()]);
+      mockDatabase.mockQuery([{ id: 'publication-1' }]); // claim
+      const client = mockDatabase.mockTransaction([
+        [],
+        [publication({ attempts: 2 })],
+        [{ approval_status: 'published', updated_at: new Date() }],
+        []
+      ]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/publish')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Published on X');
+      expect(response.body.publication.platform).toBe('x');
+      expect(response.body.content.approval_status).toBe('published');
+
+      const [post] = publishingAdapters.fake.published();
+      expect(post).toMatchObject({ platform: 'x', username: 'testartist', text: 'New single out Friday!', idempotency_key: 'publication-1' });
+
+      const pool = require('../Config/connection');
+      const [claimSql, claimParams] = pool.query.mock.calls[3];
+      expect(claimSql).toContain("'pending'");
+      expect(claimParams).toEqual(['content-1', 'account-1', 'twitter', 'test-user-id', 'ready_to_publish']);
+
+      const [recordSql, recordParams] = client.query.mock.calls[1];
+      expect(recordSql).toContain("SET post_status = 'published'");
+      expect(recordParams).toEqual(['publication-1', 'fake-x-1', post!.post_url, 2]);
+      expect(client.query.mock.calls[3][1]).toEqual(['content-1', 'ready_to_publish', 'test-user-id', `Published at ${post!.post_url}`]);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    test('records a failure without retrying when the platform rejects the token', async () => {
+      process.env.FAKE_PLATFORM_FAILURE_MODE = 'unauthorized';
+
+      mockDatabase.mockQuery([scheduled()]);
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([account()]);
+      mockDatabase.mockQuery([{ id: 'publication-1' }]); // claim
+      mockDatabase.mockQuery([]); // account marked expired
+      mockDatabase.mockQuery([publication({ platform_post_id: null, post_url: null, post_status: 'failed', error_message: 'Fake platform rejected the access token' })]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/publish')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(502);
+      expect(response.body.error).toBe('X did not accept the post: Fake platform rejected the access token');
+      expect(response.body.publication.post_status).toBe('failed');
+
+      const pool = require('../Config/connection');
+      expect(pool.query.mock.calls[4][1]).toEqual(['expired', 'account-1']);
+      const [failedSql, failedParams] = pool.query.mock.calls[5];
+      expect(failedSql).toContain("'failed'");
+      expect(failedParams).toEqual(['publication-1', 'Fake platform rejected the access token', 1]);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    test('threads are posted part by part and rejected when a part is too long', async () => {
+      const parts = [{ text: '1/2 Big news' }, { text: `2/2 ${'x'.repeat(300)}` }];
+      mockDatabase.mockQuery([scheduled({ content_metadata: { format: 'thread', parts } })]);
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([account()]);
+      mockDatabase.mockQuery([{ id: 'publication-1' }]); // claim
+      mockDatabase.mockQuery([publication({ post_status: 'failed' })]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/publish')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(502);
+      expect(response.body.error).toContain('Part 2 is longer than 280 characters');
+      expect(publishingAdapters.fake.published()).toEqual([]);
+    });
+
+    test('a publish already in progress keeps a second one from posting', async () => {
+      mockDatabase.mockQuery([scheduled()]);
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([account()]);
+      mockDatabase.mockQuery([]); // claim held by the first publish
+
+      const response = await request(app)
+        .post('/api/content/content-1/publish')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('This content is already being published');
+      expect(publishingAdapters.fake.published()).toEqual([]);
+    });
+
+    test('a dropped connection is not retried when the platform has no idempotency keys', async () => {
+      const publish = jest.fn().mockRejectedValue(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }));
+      const adapterFor = jest.spyOn(publishingAdapters, 'adapterFor')
+        .mockReturnValue({ name: 'x', label: 'X API v2', platforms: ['x'], idempotent: false, isConfigured: () => true, publish });
+
+      mockDatabase.mockQuery([scheduled()]);
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([account()]);
+      mockDatabase.mockQuery([{ id: 'publication-1' }]); // claim
+      mockDatabase.mockQuery([publication({ post_status: 'failed', error_message: 'socket hang up' })]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/publish')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(502);
+      expect(publish).toHaveBeenCalledTimes(1);
+      expect(publish.mock.calls[0][0].idempotency_key).toBe('publication-1');
+      adapterFor.mockRestore();
+    });
+
+    test('an X call that times out is recorded as failed and not sent again', async () => {
+      process.env.PUBLISH_TIMEOUT_MS = '10';
+      const fetchMock = jest.spyOn(global, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init!.signal!.addEventListener('abort', () => reject(init!.signal!.reason));
+      }));
+      const adapterFor = jest.spyOn(publishingAdapters, 'adapterFor').mockReturnValue(new XAdapter());
+
+      mockDatabase.mockQuery([scheduled()]);
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([account()]);
+      mockDatabase.mockQuery([{ id: 'publication-1' }]); // claim
+      mockDatabase.mockQuery([publication({ post_status: 'failed', error_message: 'X API did not answer within 10ms' })]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/publish')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(502);
+      expect(response.body.error).toBe('X did not accept the post: X API did not answer within 10ms');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      fetchMock.mockRestore();
+      adapterFor.mockRestore();
+    });
+
+    test('content is moderated again under the current rules before it goes out', async () => {
+      mockDatabase.mockQuery([scheduled()]);
+      mockDatabase.mockQuery([{
+        artist_id: testData.artist.id,
+        blocklist: [{ term: 'Friday', category: 'unreleased', severity: 'high' }],
+        allowlist: [],
+        patterns: [],
+        block_severity: 'high',
+        use_default_lexicon: true,
+        updated_at: new Date()
+      }]);
+
+      const response = await request(app)
+        .post('/api/content/content-1/publish')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(422);
+      expect(response.body.error).toBe('Blocked by moderation: Mentions unreleased music: "Friday"');
+      expect(publishingAdapters.fake.published()).toEqual([]);
+    });
+
+    test('content needs a linked account and a place on the calendar', async () => {
+      mockDatabase.mockQuery([scheduled()]);
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([]);
+
+      const unlinked = await request(app)
+        .post('/api/content/content-1/publish')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(unlinked.status).toBe(409);
+      expect(unlinked.body.error).toBe('Link your X account before publishing');
+
+      mockDatabase.mockQuery([scheduled({ approval_status: 'approved' })]);
+
+      const notScheduled = await request(app)
+        .post('/api/content/content-1/publish')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(notScheduled.status).toBe(409);
+      expect(notScheduled.body.error).toBe('Cannot move content from approved to published');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+// src/__tests__/qualityScorers.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import aiContentService, { PersonaData } from '../services/aiService';
+import { PLATFORM_PROFILES } from '../services/platformProfiles';
+import qualityScorers, { QualityScorerPipeline, QualitySpan, ScorerContext } from '../services/qualityScorers';
+
+const persona: PersonaData = {
+  ...testData.persona,
+  artist_id: testData.artist.id,
+  persona_name: 'Main',
+  tone: 'casual',
+  target_audience: 'indie fans',
+  key_themes: ['music', 'touring'],
+  voice_characteristics: { banned_phrases: ['banger'] },
+  questionnaire_responses: []
+};
+
+const run = (content: string, context: Partial<ScorerContext> = {}) =>
+  qualityScorers.run(content, { persona, profile: null, ...context });
+
+const scorer = (content: string, name: string, context: Partial<ScorerContext> = {}) =>
+  run(content, context).scorers.find(result => result.name === name)!;
+
+const texts = (spans: QualitySpan[]) => spans.map(span => span.text);
+
+describe('Quality scorers', () => {
+  test('every scorer reports a sub-score, and a clean post passes them all', () => {
+    const breakdown = run('Hey friends, the new single is out Friday. Stream it and tell me your favourite line!');
+
+    expect(breakdown.scorers.map(result => result.name)).toEqual([
+      'readability', 'length_fit', 'hashtags', 'call_to_action', 'tone', 'banned_phrases', 'repetition', 'emoji'
+    ]);
+    expect(breakdown.spans).toEqual([]);
+    expect(breakdown.scorers.every(result => result.score >= 0.6)).toBe(true);
+  });
+
+  test('spans point at the exact characters each scorer objects to', () => {
+    const content = 'This song is a game changer, a real banger song. Listen to the the song now #music #Music';
+    const breakdown = run(content);
+
+    for (const span of breakdown.spans) {
+      expect(content.slice(span.start, span.end)).toBe(span.text);
+    }
+    expect(texts(scorer(content, 'banned_phrases').spans)).toEqual(['game changer', 'banger']);
+    expect(scorer(content, 'banned_phrases').spans[1]!.message).toBe('On the artist\'s banned list');
+    expect(texts(scorer(content, 'repetition').spans)).toEqual(['song', 'the', 'song']);
+    expect(texts(scorer(content, 'hashtags').spans)).toEqual(['#Music']);
+    expect(breakdown.spans.map(span => span.start)).toEqual([...breakdown.spans.map(span => span.start)].sort((a, b) => a - b));
+  });
+
+  test('platform-aware scorers follow the profile', () => {
+    const long = `${'Studio days turn into studio nights when the songs keep coming. '.repeat(5)}`.trim();
+    const x = scorer(long, 'length_fit', { profile: PLATFORM_PROFILES.x });
+    expect(x.score).toBe(0);
+    expect(x.spans[0]).toMatchObject({ start: 280, end: long.length, severity: 'error' });
+
+    const caption = 'Out now #newmusic, go listen 🎉🎉🎉 #indie #music';
+    expect(texts(scorer(caption, 'hashtags', { profile: PLATFORM_PROFILES.instagram }).spans)).toEqual(['#newmusic']);
+    expect(scorer(caption, 'emoji', { profile: PLATFORM_PROFILES.x }).issues).toEqual([
+      'Too many emoji for X (3, at most 2)',
+      'Emoji are bunched together'
+    ]);
+  });
+
+  test('tone and call to action read the persona and the ask', () => {
+    const professional = { persona: { ...persona, tone: 'professional' } };
+    const tone = scorer('Hey guys, we are pleased to share the album.', 'tone', professional);
+    expect(texts(tone.spans)).toEqual(['Hey', 'guys']);
+    expect(tone.issues).toEqual(['Words that don\'t sound professional: hey, guys']);
+
+    expect(scorer('The album is finished.', 'call_to_action').issues).toEqual(['No call to action']);
+  });
+
+  test('a failing scorer is left out instead of failing the check', () => {
+    const pipeline = new QualityScorerPipeline();
+    pipeline.register({ name: 'broken', label: 'Broken', weight: 1, score: () => { throw new Error('boom'); } });
+    pipeline.register({ name: 'steady', label: 'Steady', weight: 1, score: () => ({ score: 0.5, issues: [], spans: [] }) });
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const breakdown = pipeline.run('Anything', { persona, profile: null });
+
+    expect(breakdown.scorers.map(result => result.name)).toEqual(['steady']);
+    expect(breakdown.score).toBe(0.5);
+    error.mockRestore();
+  });
+
+  test('content quality lists the scorers\' issues instead of generic ones', async () => {
+    const quality = await aiContentService.scoreContentQuality('Without further ado, the album.', { ...persona, id: 'persona-scorers' }, 'x');
+
+    expect(quality.breakdown).toHaveLength(8);
+    expect(quality.issues).toEqual(expect.arrayContaining(['Uses banned phrases: "without further ado"', 'No call to action']));
+    expect(quality.issues).not.toContain('Content may not be engaging enough');
+    expect(texts(quality.spans ?? [])).toEqual(['Without further ado']);
+  });
+
+  describe('POST /api/content/quality-score', () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/content', contentRoutes);
+
+    beforeEach(() => {
+      mockDatabase.clearMocks();
+    });
+
+    test('returns the per-scorer breakdown and the highlighted spans', async () => {
+      mockDatabase.mockQuery([{ ...persona, id: 'persona-route', artist_name: testData.artist.artist_name }]);
+
+      const response = await request(app)
+        .post('/api/content/quality-score')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content: 'Stay tuned, the the album drops soon', platform: 'x' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.breakdown).toHaveLength(8);
+      expect(response.body.breakdown[0]).toEqual(expect.objectContaining({ name: 'readability', label: 'Readability', score: expect.any(Number) }));
+      expect(response.body.highlights).toEqual([
+        expect.objectContaining({ start: 0, end: 10, text: 'Stay tuned', severity: 'error' }),
+        expect.objectContaining({ start: 16, end: 19, text: 'the', message: '"the" twice in a row' })
+      ]);
+      expect(response.body.recommendations.primary_strengths).toContain('Hashtag hygiene');
+    });
+  });
+});
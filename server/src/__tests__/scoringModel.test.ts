@@ -0,0 +1,158 @@
+// src/__tests__/scoringModel.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import artistRoutes from '../routes/artists';
+import aiContentService, { PersonaData } from '../services/aiService';
+import { QUALITY_FEATURES, QualityFeatures, extractQualityFeatures } from '../services/qualityFeatures';
+import { TrainingSample, defaultScore, fitScoringModel, predictEngagement } from '../services/scoringModelService';
+
+const persona: PersonaData = {
+  ...testData.persona,
+  artist_id: testData.artist.id,
+  persona_name: 'Main',
+  tone: 'casual',
+  target_audience: 'indie fans',
+  key_themes: ['music', 'touring'],
+  voice_characteristics: {},
+  questionnaire_responses: []
+};
+
+const features = (overrides: Partial<QualityFeatures>): QualityFeatures => ({
+  ...(Object.fromEntries(QUALITY_FEATURES.map(feature => [feature, 0])) as QualityFeatures),
+  ...overrides
+});
+
+// Published posts with hashtags do far better than the ones without
+const POSTS = [
+  { text: 'New single out Friday #newmusic #indie', views: 1000, likes: 80 },
+  { text: 'Tour dates are live #touring', views: 1000, likes: 70 },
+  { text: 'Studio day. Long one.', views: 1000, likes: 20 },
+  { text: 'Thanks for coming out last night', views: 1000, likes: 15 }
+];
+
+const publicationRows = () => POSTS.map((post, i) => ({
+  publication_id: `publication-${i}`,
+  platform: 'twitter',
+  content_id: `content-${i}`,
+  content_text: post.text,
+  tone: 'casual',
+  key_themes: ['music', 'touring']
+}));
+
+const metricRows = () => POSTS.flatMap((post, i) => [
+  { published_content_id: `publication-${i}`, metric_name: 'likes', metric_value: String(post.likes) },
+  { published_content_id: `publication-${i}`, metric_name: 'views', metric_value: String(post.views) }
+]);
+
+describe('Scoring calibration', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/artists', artistRoutes);
+
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test('the fitted weights follow the feature that drives engagement', () => {
+    const samples: TrainingSample[] = Array.from({ length: 12 }, (_, i) => {
+      const hashtags = i % 2;
+      return {
+        content_id: `content-${i}`,
+        publication_id: `publication-${i}`,
+        platform: 'x',
+        content_text: '',
+        features: features({ hashtags, readability: 0.4 + (i % 3) * 0.1, brand_consistency: 0.6 }),
+        engagement_rate: 0.02 + hashtags * 0.04
+      };
+    });
+
+    const model = fitScoringModel(testData.artist.id, samples);
+
+    expect(model.sample_count).toBe(12);
+    expect(model.r_squared).toBeGreaterThan(0.9);
+    expect(model.feature_importance.hashtags).toBeGreaterThan(0.9);
+    expect(model.feature_importance.brand_consistency).toBe(0);
+    expect(model.weights.engagement_potential).toBeGreaterThan(model.weights.readability);
+    expect(predictEngagement(model, features({ hashtags: 1, readability: 0.5, brand_consistency: 0.6 })))
+      .toBeGreaterThan(predictEngagement(model, features({ hashtags: 0, readability: 0.5, brand_consistency: 0.6 })));
+  });
+
+  test('without a model, scores keep the fixed 0.3 / 0.4 / 0.3 weights', async () => {
+    const post = 'Hey you! New music is coming soon #newmusic';
+    const quality = await aiContentService.scoreContentQuality(post, { ...persona, id: 'persona-fixed' });
+
+    expect(quality.scoring_model).toBe('fixed');
+    expect(quality.score).toBeCloseTo(defaultScore(extractQualityFeatures(post, persona)), 4);
+  });
+
+  test('calibration needs enough measured posts', async () => {
+    mockDatabase.mockQuery([{ id: testData.artist.id }]);
+    mockDatabase.mockQuery(publicationRows().slice(0, 2));
+    mockDatabase.mockQuery(metricRows().slice(0, 4));
+
+    const response = await request(app)
+      .post('/api/artists/scoring-model/calibrate')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('Calibration needs engagement for at least 10 published posts with views; found 2');
+  });
+
+  test('a calibrated model is stored, used for scoring and reported against actual engagement', async () => {
+    process.env.SCORING_MIN_POSTS = '4';
+
+    mockDatabase.mockQuery([{ id: testData.artist.id }]);
+    mockDatabase.mockQuery(publicationRows());
+    mockDatabase.mockQuery(metricRows());
+    const pool = require('../Config/connection');
+    pool.query.mockImplementationOnce((_sql: string, params: any[]) => Promise.resolve({
+      rows: [{
+        artist_id: params[0],
+        model: JSON.parse(params[1]),
+        sample_count: params[2],
+        r_squared: String(params[3]),
+        mean_absolute_error: String(params[4]),
+        trained_at: params[5]
+      }]
+    }));
+
+    const calibrated = await request(app)
+      .post('/api/artists/scoring-model/calibrate')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(calibrated.status).toBe(200);
+    expect(calibrated.body.message).toBe('Scoring calibrated on 4 posts');
+    expect(calibrated.body.model.feature_importance.hashtags).toBeGreaterThan(0);
+
+    const [upsertSql, upsertParams] = pool.query.mock.calls[3];
+    expect(upsertSql).toContain('ON CONFLICT (artist_id) DO UPDATE');
+    expect(upsertParams[6]).toBe('test-user-id');
+
+    const withTags = await aiContentService.scoreContentQuality('Out now #newmusic #indie', { ...persona, id: 'persona-calibrated' });
+    const without = await aiContentService.scoreContentQuality('Out now. Go listen.', { ...persona, id: 'persona-calibrated' });
+    expect(withTags.scoring_model).toBe('calibrated');
+    expect(withTags.predicted_engagement_rate).toBeGreaterThan(without.predicted_engagement_rate as number);
+    expect(withTags.score).toBeGreaterThan(without.score);
+
+    mockDatabase.mockQuery([{ id: testData.artist.id }]);
+    mockDatabase.mockQuery(publicationRows());
+    mockDatabase.mockQuery(metricRows());
+
+    const report = await request(app)
+      .get('/api/artists/scoring-model/report')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(report.status).toBe(200);
+    expect(report.body.posts).toHaveLength(4);
+    expect(report.body.posts[0]).toMatchObject({ content_id: 'content-0', actual_engagement_rate: 0.08 });
+    expect(report.body.posts[0].predicted_engagement_rate).toBeGreaterThan(report.body.posts[3].predicted_engagement_rate);
+    expect(report.body.summary.calibrated_correlation).toBeGreaterThan(0.9);
+  });
+});
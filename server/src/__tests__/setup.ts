@@ -5,6 +5,7 @@ process.env.JWT_SECRET = 'test-jwt-secret-key-for-testing-only';
 process.env.NODE_ENV = 'test';
 
 import { Pool } from 'pg';
+import type { ReviewableContent, ReviewRole } from '../services/contentReviewService';
 
 // Mock database connection for tests
 jest.mock('../Config/connection', () => {
@@ -56,9 +57,21 @@ export const mockDatabase = {
     pool.query.mockRejectedValueOnce(error);
   },
   
+  // Queue a client for pool.connect(); each entry answers one client.query call in order
+  mockTransaction: (results: any[][]) => {
+    const pool = require('../Config/connection');
+    const client = { query: jest.fn(), release: jest.fn() };
+    results.forEach(rows => client.query.mockResolvedValueOnce({ rows }));
+    client.query.mockResolvedValue({ rows: [] });
+    pool.connect.mockResolvedValueOnce(client);
+    return client;
+  },
+  
   clearMocks: () => {
     const pool = require('../Config/connection');
-    pool.query.mockClear();
+    // Reset (not just clear) so unused mockResolvedValueOnce results don't leak into the next test
+    pool.query.mockReset();
+    pool.connect.mockReset();
   }
 };
 
@@ -112,6 +125,28 @@ export const testData = {
   sampleData: []
 };
 
+export type ContentOverrides = Partial<ReviewableContent> & { role?: ReviewRole };
+
+// A generated_content row as the content routes read it: a draft of the test artist's post, with nothing scheduled
+export const generatedContent = (overrides: ContentOverrides = {}): ReviewableContent & { role?: ReviewRole } => ({
+  id: 'content-1',
+  artist_id: testData.artist.id,
+  artist_name: testData.artist.artist_name,
+  persona_id: testData.persona.id,
+  content_type: 'social_post',
+  content_text: 'New single out Friday!',
+  content_metadata: {},
+  approval_status: 'draft',
+  assigned_reviewer_id: null,
+  assigned_reviewer_email: null,
+  scheduled_at: null,
+  scheduled_platform: null,
+  example_pinned_at: null,
+  created_at: new Date('2026-03-01T10:00:00.000Z'),
+  updated_at: new Date('2026-03-01T10:00:00.000Z'),
+  ...overrides
+});
+
 // Global test timeout
 jest.setTimeout(10000);
 
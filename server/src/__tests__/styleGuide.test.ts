@@ -0,0 +1,166 @@
+// src/__tests__/styleGuide.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import personaRoutes from '../routes/personas';
+import contentRoutes from '../routes/content';
+import providerRegistry from '../services/providers';
+import { applyStyleGuide, checkStyleGuide, describeStyleGuide, readStyleGuide } from '../services/styleGuide';
+
+const guide = readStyleGuide({
+  style_guide: {
+    artist_name: 'deadmau5',
+    name_misspellings: ['dead mouse'],
+    preferred_words: [{ use: 'fam', instead_of: ['guys', 'folks'] }],
+    banned_words: ['banger'],
+    capitalization: 'lowercase',
+    sign_offs: ['stay weird'],
+    always_sign_off: true,
+    max_emoji: 1,
+    required_hashtags: ['NightDrive']
+  }
+})!;
+
+describe('Style guide', () => {
+  test('reads the guide with defaults and ignores voice traits that are not rules', () => {
+    expect(readStyleGuide({ sentence_style: 'short' })).toBeNull();
+    expect(readStyleGuide({ style_guide: { banned_words: ['banger', ''], max_emoji: -1, capitalization: 'shouting' } })).toEqual({
+      artist_name: null,
+      name_misspellings: [],
+      preferred_words: [],
+      banned_words: ['banger'],
+      capitalization: 'as_written',
+      sign_offs: [],
+      always_sign_off: false,
+      max_emoji: null,
+      required_hashtags: []
+    });
+    expect(guide.required_hashtags).toEqual(['#NightDrive']);
+  });
+
+  test('describes every rule for the system prompt', () => {
+    expect(describeStyleGuide(guide)).toBe(`
+
+The artist's style guide (follow it exactly):
+- Spell the artist's name exactly "deadmau5", never "dead mouse"
+- Write everything in lowercase, including the start of sentences
+- Say "fam" instead of "guys", "folks"
+- Never use these words: "banger"
+- Use at most 1 emoji
+- Always include #NightDrive
+- End every post with one of these sign-offs: "stay weird"`);
+    expect(describeStyleGuide(readStyleGuide({ style_guide: {} }))).toBe('');
+  });
+
+  test('rewrites what it can and leaves the rest to the check', () => {
+    const result = applyStyleGuide('Hey Guys! Dead Mouse here 🎉 New banger out Friday 🔥🔥 https://example.com/Track #Live', guide);
+
+    expect(result.content).toBe('hey fam! deadmau5 here 🎉 new banger out friday https://example.com/Track\n\nstay weird\n\n#Live #NightDrive');
+    expect(result.adjustments).toEqual([
+      'Used "fam" instead of "guys"',
+      'Lowercased the post',
+      'Spelled the artist\'s name "deadmau5"',
+      'Removed 2 emoji (the style guide allows 1)',
+      'Added the sign-off "stay weird"',
+      'Added #NightDrive'
+    ]);
+    expect(checkStyleGuide(result.content, guide)).toEqual(['Uses banned words: "banger"']);
+
+    // A platform that dropped the hashtags and the sign-off breaks the guide again
+    expect(checkStyleGuide('Hey fam 🎉🎉', guide)).toEqual([
+      'Not all lowercase',
+      'More emoji than the style guide allows (2, at most 1)',
+      'Missing required hashtags: #NightDrive',
+      'Missing a sign-off'
+    ]);
+  });
+
+  test('sentence case and preferred words keep the casing they replace', () => {
+    const sentence = readStyleGuide({ style_guide: { capitalization: 'sentence', preferred_words: [{ use: 'fam', instead_of: ['guys'] }] } })!;
+    expect(applyStyleGuide('GUYS, we did it. guys really did. #tour', sentence).content).toBe('FAM, we did it. Fam really did.\n\n#tour');
+  });
+
+  describe('routes', () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/personas', personaRoutes);
+    app.use('/api/content', contentRoutes);
+
+    beforeEach(() => {
+      mockDatabase.clearMocks();
+    });
+
+    test('personas reject a malformed guide and store a valid one with its defaults', async () => {
+      const rejected = await request(app)
+        .put(`/api/personas/${testData.persona.id}`)
+        .set('Authorization', 'Bearer valid-token')
+        .send({ voice_characteristics: { style_guide: { capitalization: 'shouting' } } });
+
+      expect(rejected.status).toBe(400);
+      expect(rejected.body.details).toBe('"voice_characteristics.style_guide.capitalization" must be one of [as_written, lowercase, uppercase, sentence]');
+
+      mockDatabase.mockQuery([{ id: testData.persona.id }]);
+      const client = mockDatabase.mockTransaction([
+        [],
+        [{ id: testData.persona.id }], // persona row lock
+        [{ id: testData.persona.id }],
+        [], // latest version
+        [] // current persona for the version snapshot
+      ]);
+
+      const saved = await request(app)
+        .put(`/api/personas/${testData.persona.id}`)
+        .set('Authorization', 'Bearer valid-token')
+        .send({ voice_characteristics: { sentence_style: 'short', style_guide: { banned_words: ['banger'], required_hashtags: ['#tour'] } } });
+
+      expect(saved.status).toBe(200);
+      const updateCall = client.query.mock.calls.find(([sql]: [string]) => sql.includes('UPDATE artist_personas'));
+      expect(JSON.parse(updateCall[1][0])).toEqual({
+        sentence_style: 'short',
+        style_guide: {
+          name_misspellings: [],
+          preferred_words: [],
+          banned_words: ['banger'],
+          capitalization: 'as_written',
+          sign_offs: [],
+          always_sign_off: false,
+          max_emoji: null,
+          required_hashtags: ['#tour']
+        }
+      });
+    });
+
+    test('generation puts the guide in the prompt and applies it to every variation', async () => {
+      const complete = jest.spyOn(providerRegistry.get('mock')!, 'complete');
+      const voice = { style_guide: { capitalization: 'lowercase', sign_offs: ['stay weird'], always_sign_off: true, required_hashtags: ['#nightdrive'] } };
+
+      mockDatabase.mockQuery([{ ...testData.persona, artist_id: testData.artist.id, artist_name: testData.artist.artist_name, voice_characteristics: voice }]);
+      mockDatabase.mockQuery([]); // AI usage for the quota check
+      mockDatabase.mockQuery([]); // artist moderation rules
+      mockDatabase.mockQuery([]); // persona transcripts for voice examples
+      mockDatabase.mockQuery([]); // approved posts for few-shot examples
+      mockDatabase.mockQuery([]); // ai_cache lookup (miss)
+      mockDatabase.mockQuery([]); // ai_generation_logs
+      mockDatabase.mockQuery([]); // ai_cache write
+      mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+
+      const response = await request(app)
+        .post('/api/content/generate')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ content_type: 'release', context: 'Night Drive', variations: 1, provider: 'mock' });
+
+      expect(response.status).toBe(200);
+      expect(complete.mock.calls[0]![0].systemPrompt).toContain('- End every post with one of these sign-offs: "stay weird"');
+
+      const [variation] = response.body.generated_content;
+      expect(variation.content).toBe(variation.content.toLowerCase());
+      expect(variation.content).toMatch(/stay weird\n\n#nightdrive$/);
+      expect(variation.style_adjustments).toEqual(expect.arrayContaining(['Lowercased the post', 'Added the sign-off "stay weird"', 'Added #nightdrive']));
+
+      const pool = require('../Config/connection');
+      const insertCall = pool.query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO generated_content'));
+      expect(JSON.parse(insertCall[1][5]).style_adjustments).toEqual(variation.style_adjustments);
+      complete.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+// src/__tests__/templateFilling.test.ts
+import { templateService, TemplateVariable } from '../services/templateService';
+import { aiContentService } from '../services/aiService';
+
+const variables: TemplateVariable[] = [
+  { name: 'title', type: 'text', required: true },
+  { name: 'emotion', type: 'select', required: true, options: ['excited', 'thrilled'], default_value: 'excited' },
+  { name: 'date', type: 'date', required: false },
+  { name: 'track_count', type: 'number', required: false },
+  { name: 'explicit', type: 'boolean', required: false }
+];
+
+describe('Template variable filling', () => {
+  test('coerces values to their declared types', () => {
+    const result = templateService.validateVariableValues(variables, {
+      title: '  Midnight Drive ',
+      emotion: 'Thrilled',
+      date: '2026-11-06',
+      track_count: '12',
+      explicit: 'no',
+      extra: 'ignored'
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.values).toEqual({
+      title: 'Midnight Drive',
+      emotion: 'thrilled',
+      date: '2026-11-06',
+      track_count: 12,
+      explicit: false
+    });
+  });
+
+  test('reports values that do not match the variable type', () => {
+    const result = templateService.validateVariableValues(variables, {
+      emotion: 'sad',
+      date: 'someday',
+      track_count: 'a dozen'
+    });
+
+    expect(result.errors).toEqual([
+      'title: value is required',
+      'emotion: must be one of excited, thrilled',
+      'date: expected a date',
+      'track_count: expected a number'
+    ]);
+    expect(result.values).toEqual({});
+  });
+
+  test('extracts the JSON object from a chatty model response', () => {
+    const raw = 'Sure! Here you go:\n```json\n{"title": "Midnight Drive", "emotion": "excited"}\n```';
+
+    expect(aiContentService.parseTemplateResponse(raw)).toEqual({ title: 'Midnight Drive', emotion: 'excited' });
+    expect(aiContentService.parseTemplateResponse('no json here')).toBeNull();
+    expect(aiContentService.parseTemplateResponse('[1, 2]')).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+// src/__tests__/transcriptAnalysis.test.ts
+import { transcriptAnalysisService } from '../services/transcriptAnalysisService';
+
+const transcript = [
+  'Host: So how was the tour?',
+  'Artist: Man, the tour was crazy. Every show felt like home!',
+  'Host: What kept you going?',
+  'Artist: Honestly the fans kept me going. I love the fans, they show up every single night. 🔥🔥',
+  'Artist: We were lowkey exhausted but the crowd at every show gave us energy.',
+  'Host: And the new album?',
+  'Artist: The new album is almost done. I wrote most of it on the tour bus, late nights in the studio after the show.'
+].join('\n');
+
+describe('Transcript Analysis Service', () => {
+  const analysis = transcriptAnalysisService.analyzeTranscript(transcript, { key_themes: ['fans'] });
+
+  test('should ignore interviewer lines', () => {
+    expect(analysis.sample_quotes.join(' ')).not.toContain('how was the tour');
+    expect(transcriptAnalysisService.extractArtistSpeech(transcript)).not.toContain('Host');
+  });
+
+  test('should find repeated phrases, topics and emoji/slang usage', () => {
+    expect(analysis.frequent_phrases.map(p => p.phrase)).toContain('every show');
+    expect(analysis.recurring_topics.map(t => t.topic)).toEqual(expect.arrayContaining(['touring', 'fans']));
+    expect(analysis.emoji_usage.total).toBe(2);
+    expect(analysis.emoji_usage.top[0]).toEqual({ emoji: '🔥', count: 2 });
+    expect(analysis.slang_usage.terms).toEqual([{ term: 'lowkey', count: 1 }]);
+  });
+
+  test('should build a sentence length profile', () => {
+    const profile = analysis.sentence_length_profile;
+    expect(analysis.sentence_count).toBeGreaterThan(0);
+    expect(profile.shortest).toBeLessThanOrEqual(profile.median);
+    expect(profile.median).toBeLessThanOrEqual(profile.longest);
+    expect(profile.distribution.short + profile.distribution.medium + profile.distribution.long)
+      .toBe(analysis.sentence_count);
+  });
+
+  test('should only propose themes the persona does not already have', () => {
+    expect(analysis.proposal_status).toBe('pending');
+    expect(analysis.proposed_updates.key_themes).toContain('touring');
+    expect(analysis.proposed_updates.key_themes).not.toContain('fans');
+    expect(analysis.proposed_updates.voice_characteristics.emoji_frequency).not.toBe('none');
+  });
+
+  test('should handle empty transcripts', () => {
+    const empty = transcriptAnalysisService.analyzeTranscript('');
+    expect(empty.word_count).toBe(0);
+    expect(empty.sentence_length_profile.average).toBe(0);
+    expect(empty.proposed_updates.key_themes).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+// src/__tests__/transcriptRepurpose.test.ts
+import request from 'supertest';
+import express from 'express';
+import { mockDatabase, testData } from './setup';
+import contentRoutes from '../routes/content';
+import { transcriptAnalysisService } from '../services/transcriptAnalysisService';
+
+const transcriptText = [
+  'Host: So how was the tour?',
+  'Artist: Man, the tour was crazy. Every show felt like home!',
+  'Host: What kept you going?',
+  'Artist: Honestly the fans kept me going. I love the fans, they show up every single night and I never take that for granted.',
+  'Host: And the new album?',
+  'Artist: It is almost done.'
+].join('\n');
+
+const transcript = {
+  id: 'transcript-1',
+  persona_id: testData.persona.id,
+  transcript_text: transcriptText,
+  source_url: 'interview.txt',
+  source_type: 'interview',
+  analysis_results: null,
+  processed_at: null,
+  created_at: new Date()
+};
+
+const persona = {
+  ...testData.persona,
+  artist_id: testData.artist.id,
+  artist_name: testData.artist.artist_name,
+  tone: 'casual',
+  key_themes: ['music', 'touring']
+};
+
+describe('Transcript repurposing', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/content', contentRoutes);
+
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+  });
+
+  test('quotable moments are the artist\'s strongest lines, with offsets into the transcript', () => {
+    const moments = transcriptAnalysisService.findQuotableMoments(transcriptText, 2);
+
+    expect(moments.map(moment => moment.text)).toEqual([
+      'I love the fans, they show up every single night and I never take that for granted.',
+      'Honestly the fans kept me going.'
+    ]);
+    for (const moment of moments) {
+      expect(transcriptText.slice(moment.start, moment.end)).toBe(moment.text);
+    }
+    expect(moments.some(moment => moment.text.includes('how was the tour'))).toBe(false);
+  });
+
+  test('saves one draft per moment and kind, each pointing back to its line', async () => {
+    mockDatabase.mockQuery([transcript]);
+    mockDatabase.mockQuery([persona]);
+    mockDatabase.mockQuery([]); // AI usage for the quota check
+    mockDatabase.mockQuery([]); // artist moderation rules
+    mockDatabase.mockQuery([]); // ai_generation_logs (quote card)
+    mockDatabase.mockQuery([{ id: 'content-1', created_at: new Date() }]);
+    mockDatabase.mockQuery([]); // ai_generation_logs (story)
+    mockDatabase.mockQuery([{ id: 'content-2', created_at: new Date() }]);
+
+    const response = await request(app)
+      .post('/api/content/repurpose/transcript-1')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ count: 1, kinds: ['quote_card', 'story'], provider: 'mock' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.moments).toHaveLength(1);
+    expect(response.body.failures).toEqual([]);
+
+    const [quoteCard, story] = response.body.generated_content;
+    const quote = 'I love the fans, they show up every single night and I never take that for granted.';
+    expect(quoteCard.id).toBe('content-1');
+    expect(quoteCard.content).toContain(`"${quote}"`);
+    expect(story.generation_params.repurpose_kind).toBe('story');
+
+    const start = transcriptText.indexOf(quote);
+    expect(quoteCard.repurposed_from).toEqual({ transcript_id: 'transcript-1', start, end: start + quote.length, quote, kind: 'quote_card' });
+
+    const pool = require('../Config/connection');
+    const inserts = pool.query.mock.calls.filter(([sql]: [string]) => sql.includes('INSERT INTO generated_content'));
+    expect(inserts.map((call: any[]) => call[1][3])).toEqual(['quote_card', 'story']);
+    expect(inserts.map((call: any[]) => call[1][7])).toEqual(['draft', 'draft']);
+    expect(JSON.parse(inserts[0][1][5]).repurposed_from).toMatchObject({ transcript_id: 'transcript-1', start });
+
+    const logs = pool.query.mock.calls.filter(([sql]: [string]) => sql.includes('INSERT INTO ai_generation_logs'));
+    expect(logs[0][1]).toContain('content_repurpose');
+  });
+
+  test('transcripts of other users are not found', async () => {
+    mockDatabase.mockQuery([]);
+
+    const response = await request(app)
+      .post('/api/content/repurpose/transcript-2')
+      .set('Authorization', 'Bearer valid-token')
+      .send({});
+
+    expect(response.status).toBe(404);
+  });
+
+  test('a transcript without quotable lines is rejected before any AI call', async () => {
+    mockDatabase.mockQuery([{ ...transcript, transcript_text: 'Artist: Yes.\nHost: Thanks.\nArtist: Bye.' }]);
+    mockDatabase.mockQuery([persona]);
+
+    const response = await request(app)
+      .post('/api/content/repurpose/transcript-1')
+      .set('Authorization', 'Bearer valid-token')
+      .send({ kinds: ['social_post'] });
+
+    expect(response.status).toBe(422);
+    expect(response.body.error).toBe('No quotable moments found in this transcript');
+  });
+});
@@ -0,0 +1,57 @@
+// src/__tests__/transcriptRetrieval.test.ts
+import { mockDatabase } from './setup';
+import Bm25Index from '../services/bm25Index';
+import { transcriptRetrievalService } from '../services/transcriptRetrievalService';
+
+const transcript = {
+  id: 'transcript-1',
+  source_type: 'podcast',
+  source_url: 'https://example.com/podcast/episode1',
+  transcript_text: [
+    'Host: Tell us about the tour.',
+    'Artist: The tour was wild. Every crowd sang the hook back louder than me.',
+    'Host: And the studio?',
+    'Artist: In the studio I keep it simple. One mic, one take, no overthinking.',
+    'Artist: My grandma still calls after every show to ask if I ate.'
+  ].join('\n')
+};
+
+describe('Transcript Retrieval', () => {
+  beforeEach(() => {
+    mockDatabase.clearMocks();
+    transcriptRetrievalService.clearIndex();
+  });
+
+  test('BM25 ranks documents sharing rare query terms first', () => {
+    const index = new Bm25Index([
+      { text: 'studio session with the producer', payload: 'studio' },
+      { text: 'tour crowd energy every night on tour', payload: 'tour' },
+      { text: 'family dinner', payload: 'family' }
+    ]);
+
+    expect(index.search('tour crowd', 3).map(match => match.payload)).toEqual(['tour']);
+    expect(index.search('the', 3)).toEqual([]);
+  });
+
+  test('chunks skip interviewer lines and keep offsets into the original text', () => {
+    const chunks = transcriptRetrievalService.chunkTranscript(transcript);
+
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(chunks.map(chunk => chunk.text).join(' ')).not.toContain('Tell us about');
+    for (const chunk of chunks) {
+      const firstSentence = chunk.text.split(/(?<=[.!?]) /)[0]!;
+      expect(transcript.transcript_text.slice(chunk.start)).toMatch(new RegExp(`^${firstSentence.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+    }
+  });
+
+  test('returns the most relevant passages for the request context', async () => {
+    mockDatabase.mockQuery([transcript]);
+
+    const examples = await transcriptRetrievalService.retrieveVoiceExamples('persona-1', 'grandma show', 1);
+
+    expect(examples).toHaveLength(1);
+    expect(examples[0]!.transcript_id).toBe('transcript-1');
+    expect(examples[0]!.text).toContain('grandma');
+    expect(examples[0]!.score).toBeGreaterThan(0);
+  });
+});
@@ -96,8 +96,15 @@ describe('File Upload API', () => {
       (app as any).mockFile = mockFile;
 
       mockDatabase.mockQuery([{ id: testData.artist.id }]); // Artist query
-      mockDatabase.mockQuery([{ id: testData.persona.id }]); // Existing persona query
-      mockDatabase.mockQuery([{ rowCount: 1 }]); // Update persona query
+      mockDatabase.mockQuery([{ id: testData.persona.id }]); // Active persona query
+      mockDatabase.mockTransaction([
+        [],
+        [{ id: testData.persona.id }], // Lock the persona row
+        [], // Update persona query
+        [{ id: 'version-1', version_number: 1 }], // Latest persona version
+        [testData.persona], // Current persona snapshot
+        [{ id: 'version-2', version_number: 2 }] // Record new version
+      ]);
       mockDatabase.mockQuery([{ rowCount: 1 }]); // Insert questionnaire responses
       
       const mockQuestionnaireData = { responses: [{ question_key: 'key', question_text: 'text', answer_text: 'answer' }] };
@@ -121,8 +128,15 @@ describe('File Upload API', () => {
       upload.setMockFile(mockFile);
 
       mockDatabase.mockQuery([{ id: testData.artist.id }]); // Artist query
-      mockDatabase.mockQuery([]); // No existing persona
-      mockDatabase.mockQuery([{ id: testData.persona.id }]); // Create new persona
+      mockDatabase.mockQuery([]); // No active persona
+      mockDatabase.mockTransaction([
+        [],
+        [{ id: testData.persona.id }], // Create new persona
+        [], // No versions yet
+        [testData.persona], // Current persona snapshot
+        [{ id: 'version-1', version_number: 1 }] // Record first version
+      ]);
+      mockDatabase.mockTransaction([[], [], [testData.persona], []]); // Activate it
       mockDatabase.mockQuery([{ rowCount: 1 }]); // Insert questionnaire responses
       
       const mockCsvData = [{ question_key: 'style', question_text: 'Style?', answer_text: 'Rock', answer_type: 'text' }];
@@ -198,6 +212,7 @@ describe('File Upload API', () => {
       expect(response.status).toBe(200);
       expect(response.body.message).toBe('Transcript uploaded successfully');
       expect(response.body.transcript_id).toBe('transcript-123');
+      expect(response.body.analysis.proposal_status).toBe('pending');
       expect(FileProcessors.cleanupFile).toHaveBeenCalled();
     });
 
@@ -256,6 +271,86 @@ describe('File Upload API', () => {
     });
   });
 
+  describe('POST /api/uploads/persona/transcript/:id/proposal', () => {
+    const pendingAnalysis = {
+      proposal_status: 'pending',
+      proposed_updates: {
+        key_themes: ['touring', 'music'],
+        voice_characteristics: { sentence_style: 'short and punchy', slang_level: 'light' }
+      }
+    };
+
+    const transcriptRow = (analysis: any) => ({
+      id: 'transcript-123',
+      persona_id: testData.persona.id,
+      transcript_text: 'We were on the road all summer.',
+      analysis_results: analysis
+    });
+
+    test('should merge accepted updates into the persona and record a version', async () => {
+      const app = createTestApp();
+      mockDatabase.mockQuery([transcriptRow(pendingAnalysis)]);
+      mockDatabase.mockQuery([{ key_themes: ['music'], voice_characteristics: { emoji: 'rare' } }]);
+      // Persona update and version recording: lock, update, latest version, current snapshot, insert
+      const client = mockDatabase.mockTransaction([
+        [],
+        [{ id: testData.persona.id }],
+        [{ ...testData.persona, key_themes: ['music', 'touring'] }],
+        [{ version_number: 1, key_themes: ['music'] }],
+        [{ ...testData.persona, key_themes: ['music', 'touring'] }],
+        [{ version_number: 2 }]
+      ]);
+      mockDatabase.mockQuery([]);
+
+      const response = await request(app)
+        .post('/api/uploads/persona/transcript/transcript-123/proposal/accept')
+        .set('Authorization', 'Bearer valid-token')
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.analysis.proposal_status).toBe('accepted');
+
+      const updateParams = client.query.mock.calls[2][1];
+      expect(updateParams[1]).toEqual(['music', 'touring']);
+      expect(JSON.parse(updateParams[2])).toEqual({
+        emoji: 'rare',
+        sentence_style: 'short and punchy',
+        slang_level: 'light'
+      });
+      expect(client.query.mock.calls[5][1]).toContain('transcript');
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    test('should reject an already reviewed proposal', async () => {
+      const app = createTestApp();
+      mockDatabase.mockQuery([transcriptRow({ ...pendingAnalysis, proposal_status: 'rejected' })]);
+
+      const response = await request(app)
+        .post('/api/uploads/persona/transcript/transcript-123/proposal/accept')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ fields: ['key_themes'] });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Proposal has already been rejected');
+    });
+
+    test('should mark a proposal as rejected without touching the persona', async () => {
+      const app = createTestApp();
+      mockDatabase.mockQuery([transcriptRow(pendingAnalysis)]);
+      mockDatabase.mockQuery([]);
+
+      const response = await request(app)
+        .post('/api/uploads/persona/transcript/transcript-123/proposal/reject')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.analysis.proposal_status).toBe('rejected');
+
+      const pool = require('../Config/connection');
+      expect(pool.query).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('DELETE /api/uploads/persona/transcript/:id', () => {
     test('should delete transcript', async () => {
       const app = createTestApp();
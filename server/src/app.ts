@@ -16,6 +16,9 @@ import artistRoutes from './routes/artists';
 import personaRoutes from './routes/personas';
 import uploadRoutes from './routes/uploads';
 import contentRoutes from './routes/content';
+import providerRegistry from './services/providers';
+import contentScheduleService from './services/contentScheduleService';
+import scoringModelService from './services/scoringModelService';
 
 // Swagger setup
 import { setupSwagger } from './Config/swagger';
@@ -56,11 +59,13 @@ setupSwagger(app);
 
 // Health check
 app.get('/health', (req: Request, res: Response) => {
+  const ai = providerRegistry.healthSummary();
   res.json({
-    status: 'OK',
+    status: ai.status,
     message: 'UMG Social Assistant API',
     timestamp: new Date().toISOString(),
     environment: process.env.NODE_ENV || 'development',
+    ai_providers: ai.providers,
   });
 });
 
@@ -87,10 +92,18 @@ server.listen(PORT, () => {
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
 });
 
+// Move scheduled content to ready_to_publish once it is due
+contentScheduleService.start();
+
+// Serve calibrated quality scoring models and refit them to new engagement data
+scoringModelService.start();
+
 // Graceful shutdown handler
 // This allows the server to finish handling existing requests before closing
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: Closing HTTP server');
+  contentScheduleService.stop();
+  scoringModelService.stop();
   server.close(() => {
     console.log('HTTP server closed. Exiting process.');
     process.exit(0);
@@ -0,0 +1,31 @@
+-- Multiple personas per artist
+-- Run this after 002_ai_content_enhancements.sql
+
+-- Drop the one-persona-per-artist constraint used by the old questionnaire upsert
+ALTER TABLE artist_personas
+DROP CONSTRAINT IF EXISTS artist_personas_artist_id_key;
+
+-- Archived personas are kept for history but can no longer be activated
+ALTER TABLE artist_personas
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+
+-- New personas start inactive; activation is explicit
+ALTER TABLE artist_personas
+ALTER COLUMN is_active SET DEFAULT FALSE;
+
+-- Keep only the most recently updated persona active for each artist
+UPDATE artist_personas p
+SET is_active = false
+WHERE p.is_active = true
+AND EXISTS (
+    SELECT 1 FROM artist_personas o
+    WHERE o.artist_id = p.artist_id
+    AND o.is_active = true
+    AND (o.updated_at > p.updated_at OR (o.updated_at = p.updated_at AND o.id > p.id))
+);
+
+-- Exactly one active persona per artist
+CREATE UNIQUE INDEX IF NOT EXISTS idx_artist_personas_one_active
+ON artist_personas(artist_id) WHERE is_active = true;
+
+CREATE INDEX IF NOT EXISTS idx_artist_personas_archived_at ON artist_personas(archived_at);
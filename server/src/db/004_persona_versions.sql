@@ -0,0 +1,51 @@
+-- Persona version history
+-- Run this after 003_multiple_personas.sql
+
+-- Immutable snapshots of a persona's voice, one row per change
+CREATE TABLE IF NOT EXISTS persona_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    persona_id UUID REFERENCES artist_personas(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    persona_name VARCHAR(255),
+    description TEXT,
+    tone VARCHAR(50),
+    target_audience TEXT,
+    key_themes TEXT[],
+    voice_characteristics JSONB,
+    change_source VARCHAR(50) NOT NULL, -- 'create', 'clone', 'manual', 'questionnaire', 'upload', 'rollback', 'initial'
+    change_note TEXT,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(persona_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_persona_versions_persona_id ON persona_versions(persona_id);
+
+-- Versions are append-only
+CREATE OR REPLACE FUNCTION prevent_persona_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'persona_versions rows are immutable';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER persona_versions_immutable
+BEFORE UPDATE ON persona_versions
+FOR EACH ROW EXECUTE FUNCTION prevent_persona_version_update();
+
+-- Trace generated posts back to the persona version that wrote them
+ALTER TABLE generated_content
+ADD COLUMN IF NOT EXISTS persona_version_id UUID REFERENCES persona_versions(id);
+
+CREATE INDEX IF NOT EXISTS idx_generated_content_persona_version_id ON generated_content(persona_version_id);
+
+-- Backfill a first version for personas created before versioning
+INSERT INTO persona_versions (
+    persona_id, version_number, persona_name, description, tone, target_audience,
+    key_themes, voice_characteristics, change_source, change_note
+)
+SELECT
+    p.id, 1, p.persona_name, p.description, p.tone, p.target_audience,
+    p.key_themes, p.voice_characteristics, 'initial', 'Snapshot taken when version history was introduced'
+FROM artist_personas p
+WHERE NOT EXISTS (SELECT 1 FROM persona_versions v WHERE v.persona_id = p.id);
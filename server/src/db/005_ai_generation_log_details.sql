@@ -0,0 +1,14 @@
+-- Per-call detail for ai_generation_logs
+-- Run this after 004_persona_versions.sql
+
+-- ai_model keeps the model name; provider is the registry name ('groq', 'mock', ...)
+ALTER TABLE ai_generation_logs
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS provider VARCHAR(50),
+ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER,
+ADD COLUMN IF NOT EXISTS completion_tokens INTEGER,
+ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 1,
+ADD COLUMN IF NOT EXISTS error_code VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_ai_generation_logs_user_id ON ai_generation_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_ai_generation_logs_provider_created_at ON ai_generation_logs(provider, created_at);
@@ -0,0 +1,25 @@
+-- Per-user and per-artist AI usage quotas, and cost estimates on each logged call
+-- Run this after 005_ai_generation_log_details.sql
+
+-- Estimated at call time from the price table, so later price changes don't rewrite history
+ALTER TABLE ai_generation_logs
+ADD COLUMN IF NOT EXISTS estimated_cost_usd NUMERIC(12, 6);
+
+CREATE INDEX IF NOT EXISTS idx_ai_generation_logs_user_created_at ON ai_generation_logs(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_generation_logs_artist_created_at ON ai_generation_logs(artist_id, created_at);
+
+-- Overrides for the AI_QUOTA_* defaults; NULL limits fall back to the default, 0 means unlimited
+CREATE TABLE IF NOT EXISTS ai_usage_quotas (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    artist_id UUID UNIQUE REFERENCES artists(id) ON DELETE CASCADE,
+    requests_per_day INTEGER CHECK (requests_per_day >= 0),
+    tokens_per_month INTEGER CHECK (tokens_per_month >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((user_id IS NULL) <> (artist_id IS NULL))
+);
+
+DROP TRIGGER IF EXISTS update_ai_usage_quotas_updated_at ON ai_usage_quotas;
+CREATE TRIGGER update_ai_usage_quotas_updated_at BEFORE UPDATE ON ai_usage_quotas
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,54 @@
+-- Approval workflow for generated content: reviewer roles, assignment and a timeline of state changes
+-- Run this after 006_ai_usage_quotas.sql
+
+-- People who work on an artist's content besides the owning user (artists.user_id)
+-- editor: writes and submits content; reviewer: approves or rejects it
+CREATE TABLE IF NOT EXISTS artist_collaborators (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    artist_id UUID NOT NULL REFERENCES artists(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('editor', 'reviewer')),
+    added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (artist_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_artist_collaborators_user_id ON artist_collaborators(user_id);
+
+ALTER TABLE generated_content
+ADD COLUMN IF NOT EXISTS assigned_reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- draft -> in_review -> approved/rejected -> scheduled -> published
+-- Only the first run normalizes old free-form statuses: the migrator re-runs every file, and later migrations
+-- (009 onwards) widen the constraint with statuses this list doesn't know about
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'generated_content_approval_status_check') THEN
+        UPDATE generated_content
+        SET approval_status = 'draft'
+        WHERE approval_status IS NULL
+           OR approval_status NOT IN ('draft', 'in_review', 'approved', 'rejected', 'scheduled', 'ready_to_publish', 'published');
+
+        ALTER TABLE generated_content ADD CONSTRAINT generated_content_approval_status_check
+            CHECK (approval_status IN ('draft', 'in_review', 'approved', 'rejected', 'scheduled', 'ready_to_publish', 'published'));
+    END IF;
+END $$;
+
+ALTER TABLE generated_content ALTER COLUMN approval_status SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_generated_content_assigned_reviewer_id ON generated_content(assigned_reviewer_id);
+
+-- One row per state change or reviewer assignment, oldest first
+CREATE TABLE IF NOT EXISTS content_review_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    content_id UUID NOT NULL REFERENCES generated_content(id) ON DELETE CASCADE,
+    event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('transition', 'assignment')),
+    from_status VARCHAR(50),
+    to_status VARCHAR(50),
+    reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_review_events_content_id ON content_review_events(content_id, created_at);
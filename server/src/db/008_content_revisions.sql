@@ -0,0 +1,22 @@
+-- Revision history for generated content: manual edits and AI refinements, with the generated text kept as revision 1
+-- Run this after 007_content_approval_workflow.sql
+
+-- generated_content.content_text always holds the latest revision.
+-- Content that was never edited has no rows here; the first edit stores the generated text as revision 1.
+CREATE TABLE IF NOT EXISTS content_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    content_id UUID NOT NULL REFERENCES generated_content(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    content_text TEXT NOT NULL,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('generated', 'manual', 'refine')),
+    -- The refine instruction, e.g. "shorter" or "add a question for fans"
+    instruction TEXT,
+    provider VARCHAR(50),
+    ai_model VARCHAR(100),
+    quality_score DECIMAL(5,4),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (content_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_revisions_content_id ON content_revisions(content_id, revision_number DESC);
@@ -0,0 +1,35 @@
+-- Content scheduling: approved content gets a platform and a time, and a scheduler marks it ready to publish when due
+-- Run this after 008_content_revisions.sql
+
+-- scheduled_platform uses the platform profile names (x, instagram, tiktok, reddit, youtube)
+ALTER TABLE generated_content
+ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS scheduled_platform VARCHAR(20);
+
+-- draft -> in_review -> approved/rejected -> scheduled -> ready_to_publish -> published
+ALTER TABLE generated_content DROP CONSTRAINT IF EXISTS generated_content_approval_status_check;
+ALTER TABLE generated_content ADD CONSTRAINT generated_content_approval_status_check
+    CHECK (approval_status IN ('draft', 'in_review', 'approved', 'rejected', 'scheduled', 'ready_to_publish', 'published'));
+
+-- The scheduler looks for scheduled items that are due; the calendar and conflict checks look up a platform's slots
+CREATE INDEX IF NOT EXISTS idx_generated_content_due ON generated_content(approval_status, scheduled_at);
+CREATE INDEX IF NOT EXISTS idx_generated_content_schedule ON generated_content(artist_id, scheduled_platform, scheduled_at);
+
+-- Moving an item to another slot while it stays scheduled is recorded as a 'schedule' event
+ALTER TABLE content_review_events DROP CONSTRAINT IF EXISTS content_review_events_event_type_check;
+ALTER TABLE content_review_events ADD CONSTRAINT content_review_events_event_type_check
+    CHECK (event_type IN ('transition', 'assignment', 'schedule'));
+
+-- In-app notifications, e.g. "your post is ready to publish"; the client gets new rows over Supabase Realtime
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    artist_id UUID REFERENCES artists(id) ON DELETE CASCADE,
+    content_id UUID REFERENCES generated_content(id) ON DELETE CASCADE,
+    type VARCHAR(50) NOT NULL,
+    message TEXT NOT NULL,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
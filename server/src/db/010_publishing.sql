@@ -0,0 +1,21 @@
+-- Publishing pipeline: linked social accounts post scheduled content, each attempt is recorded in published_content
+-- Run this after 009_content_scheduling.sql
+
+-- social_media_accounts.platform keeps the names from 001 (twitter, instagram, tiktok, reddit, youtube);
+-- the API speaks platform profile names, where X is 'x'. Tokens are AES-256-GCM encrypted (SOCIAL_TOKEN_ENCRYPTION_KEY).
+ALTER TABLE social_media_accounts
+ADD COLUMN IF NOT EXISTS linked_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- One row per publish: post_status is 'pending' while the platform is being called, then 'published' or 'failed';
+-- attempts counts retries of transient errors
+ALTER TABLE published_content
+ADD COLUMN IF NOT EXISTS platform VARCHAR(50),
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS published_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_published_content_generated_content_id ON published_content(generated_content_id, created_at DESC);
+
+-- A publish claims the item with its 'pending' row before anything is posted, so two publishes of the same item
+-- (a double click, a client retry) can't both reach the platform
+CREATE UNIQUE INDEX IF NOT EXISTS idx_published_content_pending
+ON published_content(generated_content_id) WHERE post_status = 'pending';
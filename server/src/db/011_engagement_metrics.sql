@@ -0,0 +1,23 @@
+-- Engagement metrics: likes, shares, comments, views and saves per published post, recorded over time
+-- Run this after 010_publishing.sql
+
+-- The migrator re-runs every file, so the type change is skipped once the column is timestamptz: converting
+-- a timestamptz with AT TIME ZONE would go through the session time zone and shift every stored snapshot
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'content_analytics' AND column_name = 'recorded_at' AND data_type = 'timestamp without time zone'
+    ) THEN
+        ALTER TABLE content_analytics ALTER COLUMN recorded_at TYPE TIMESTAMPTZ USING recorded_at AT TIME ZONE 'UTC';
+    END IF;
+END $$;
+
+-- Older rows missing a post, metric or moment are kept; they never join a post, and NULLs don't collide in the index below
+ALTER TABLE content_analytics
+ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'api' CHECK (source IN ('api', 'import')),
+ADD COLUMN IF NOT EXISTS recorded_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- One value per post, metric and moment; re-importing the same snapshot overwrites it instead of duplicating it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_analytics_snapshot
+ON content_analytics(published_content_id, metric_name, recorded_at);
@@ -0,0 +1,14 @@
+-- Per-artist quality scoring models, fitted to the engagement of the artist's published posts
+-- Run this after 011_engagement_metrics.sql
+
+-- One model per artist; recalibrating replaces it. `model` holds the feature weights, the standardization of
+-- each feature and the engagement range predictions are scaled into for a 0-1 score.
+CREATE TABLE IF NOT EXISTS artist_scoring_models (
+    artist_id UUID PRIMARY KEY REFERENCES artists(id) ON DELETE CASCADE,
+    model JSONB NOT NULL,
+    sample_count INTEGER NOT NULL,
+    r_squared NUMERIC(6,4) NOT NULL,
+    mean_absolute_error NUMERIC(10,6) NOT NULL,
+    trained_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    trained_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
@@ -0,0 +1,16 @@
+-- Per-artist moderation rules for generated content
+-- Run this after 012_scoring_models.sql
+
+-- One row per artist; artists without a row get the built-in lexicon only. blocklist holds
+-- [{ term, category, severity, reason? }], allowlist plain terms, patterns [{ pattern, flags?, category, severity, reason? }].
+-- Matches at or above block_severity block a variation; anything below flags it for review.
+CREATE TABLE IF NOT EXISTS artist_moderation_settings (
+    artist_id UUID PRIMARY KEY REFERENCES artists(id) ON DELETE CASCADE,
+    blocklist JSONB NOT NULL DEFAULT '[]'::jsonb,
+    allowlist JSONB NOT NULL DEFAULT '[]'::jsonb,
+    patterns JSONB NOT NULL DEFAULT '[]'::jsonb,
+    block_severity VARCHAR(10) NOT NULL DEFAULT 'high' CHECK (block_severity IN ('low', 'medium', 'high')),
+    use_default_lexicon BOOLEAN NOT NULL DEFAULT true,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
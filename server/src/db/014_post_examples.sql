@@ -0,0 +1,10 @@
+-- Golden examples: approved posts pinned as few-shot examples for generation
+-- Run this after 013_moderation.sql
+
+-- Approved (or scheduled/published) and hand-edited posts are picked as examples by relevance; a pinned post is
+-- always among the examples for its content type and platform, whatever its relevance.
+ALTER TABLE generated_content
+ADD COLUMN IF NOT EXISTS example_pinned_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS example_pinned_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_generated_content_examples ON generated_content(artist_id, content_type, approval_status);
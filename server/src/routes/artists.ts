@@ -2,6 +2,13 @@ import { Router, Request, Response } from 'express';
 import Joi from 'joi';
 import jwt from 'jsonwebtoken';
 import pool from '../Config/connection';
+import personaService from '../services/personaService';
+import contentReviewService from '../services/contentReviewService';
+import publisherService from '../services/publisherService';
+import publishingAdapters, { isTokenVaultConfigured } from '../services/publishing';
+import { PLATFORM_NAMES, PlatformName } from '../services/platformProfiles';
+import scoringModelService from '../services/scoringModelService';
+import moderationService, { MODERATION_CATEGORIES, MODERATION_SEVERITIES, compilePattern } from '../services/moderationService';
 
 const router = Router();
 
@@ -13,6 +20,45 @@ const artistSchema = Joi.object({
   location: Joi.string().max(100).optional().allow(''),
 });
 
+const collaboratorSchema = Joi.object({
+  email: Joi.string().email().required(),
+  role: Joi.string().valid('editor', 'reviewer').required(),
+});
+
+// Tokens come from the platform's OAuth flow; they are stored encrypted and never returned
+const linkAccountSchema = Joi.object({
+  access_token: Joi.string().min(1).max(4096).required(),
+  refresh_token: Joi.string().min(1).max(4096).optional(),
+  token_expires_at: Joi.date().iso().optional(),
+  platform_user_id: Joi.string().max(255).optional(),
+  platform_username: Joi.string().max(255).optional(),
+});
+
+// Moderation rules replace the artist's whole set on every save; patterns are JavaScript regular expressions
+const moderationSchema = Joi.object({
+  blocklist: Joi.array().items(Joi.object({
+    term: Joi.string().trim().min(1).max(200).required(),
+    category: Joi.string().valid(...MODERATION_CATEGORIES).default('custom'),
+    // Defaults to the category's severity (unreleased music and slurs block, the rest flag)
+    severity: Joi.string().valid(...MODERATION_SEVERITIES).optional(),
+    reason: Joi.string().max(200).optional(),
+  })).max(500).default([]),
+  allowlist: Joi.array().items(Joi.string().trim().min(1).max(200)).max(500).default([]),
+  patterns: Joi.array().items(Joi.object({
+    pattern: Joi.string().min(1).max(500).required(),
+    flags: Joi.string().pattern(/^[imsu]*$/).optional(),
+    category: Joi.string().valid(...MODERATION_CATEGORIES).default('custom'),
+    severity: Joi.string().valid(...MODERATION_SEVERITIES).default('medium'),
+    reason: Joi.string().max(200).optional(),
+  })).max(100).default([]),
+  block_severity: Joi.string().valid(...MODERATION_SEVERITIES).default('high'),
+  use_default_lexicon: Joi.boolean().default(true),
+});
+
+const moderationCheckSchema = Joi.object({
+  text: Joi.string().min(1).max(10000).required(),
+});
+
 function authenticateToken(req: Request, res: Response, next: any): void {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
@@ -151,4 +197,307 @@ router.put('/profile', authenticateToken, async (req: Request, res: Response): P
   }
 });
 
-export default router;
\ No newline at end of file
+// Collaborators on the signed-in user's artist: editors submit content for review, reviewers approve or reject it
+router.get('/collaborators', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const artistId = await personaService.getArtistIdForUser(userId);
+
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    const collaborators = await contentReviewService.listCollaborators(artistId);
+    res.json({ collaborators });
+    return;
+  } catch (error) {
+    console.error('List collaborators error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+router.post('/collaborators', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+
+    const { error, value } = collaboratorSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({ error: 'Validation error', details: error.details?.[0]?.message });
+      return;
+    }
+
+    const artistId = await personaService.getArtistIdForUser(userId);
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    const collaborator = await contentReviewService.upsertCollaborator(artistId, value.email, value.role, userId);
+    if (!collaborator) {
+      res.status(404).json({ error: 'No other user is registered with this email' });
+      return;
+    }
+
+    res.status(201).json({ message: 'Collaborator saved', collaborator });
+    return;
+  } catch (error) {
+    console.error('Add collaborator error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+router.delete('/collaborators/:userId', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const artistId = await personaService.getArtistIdForUser(userId);
+
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    const removed = await contentReviewService.removeCollaborator(artistId, req.params.userId as string);
+    if (!removed) {
+      res.status(404).json({ error: 'Collaborator not found' });
+      return;
+    }
+
+    res.json({ message: 'Collaborator removed' });
+    return;
+  } catch (error) {
+    console.error('Remove collaborator error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+/* ---------------------------------------------------
+   🔹 Social media accounts used for publishing (owner only)
+--------------------------------------------------- */
+router.get('/social-accounts', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const artistId = await personaService.getArtistIdForUser(userId);
+
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    const accounts = await publisherService.listAccounts(artistId);
+    res.json({ accounts, publisher_mode: publishingAdapters.mode() });
+    return;
+  } catch (error) {
+    console.error('List social accounts error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+router.put('/social-accounts/:platform', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const platform = req.params.platform as PlatformName;
+
+    if (!PLATFORM_NAMES.includes(platform)) {
+      res.status(404).json({ error: 'Unknown platform', platforms: PLATFORM_NAMES });
+      return;
+    }
+
+    const { error, value } = linkAccountSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({ error: 'Validation error', details: error.details?.[0]?.message });
+      return;
+    }
+
+    if (!isTokenVaultConfigured()) {
+      res.status(503).json({ error: 'Account linking is unavailable: SOCIAL_TOKEN_ENCRYPTION_KEY is not configured' });
+      return;
+    }
+
+    const artistId = await personaService.getArtistIdForUser(userId);
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    const account = await publisherService.linkAccount(artistId, platform, value, userId);
+    res.json({ message: 'Account linked', account });
+    return;
+  } catch (error) {
+    console.error('Link social account error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+router.delete('/social-accounts/:platform', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const platform = req.params.platform as PlatformName;
+
+    if (!PLATFORM_NAMES.includes(platform)) {
+      res.status(404).json({ error: 'Unknown platform', platforms: PLATFORM_NAMES });
+      return;
+    }
+
+    const artistId = await personaService.getArtistIdForUser(userId);
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    const unlinked = await publisherService.unlinkAccount(artistId, platform);
+    if (!unlinked) {
+      res.status(404).json({ error: 'No linked account on this platform' });
+      return;
+    }
+
+    res.json({ message: 'Account unlinked' });
+    return;
+  } catch (error) {
+    console.error('Unlink social account error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+/* ---------------------------------------------------
+   🔹 Quality scoring calibrated to the artist's engagement (owner only)
+--------------------------------------------------- */
+router.get('/scoring-model/report', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const artistId = await personaService.getArtistIdForUser(userId);
+
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    const report = await scoringModelService.report(artistId);
+    res.json(report);
+    return;
+  } catch (error) {
+    console.error('Scoring model report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+router.post('/scoring-model/calibrate', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const artistId = await personaService.getArtistIdForUser(userId);
+
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    const outcome = await scoringModelService.calibrate(artistId, userId);
+    if (!outcome.ok) {
+      res.status(outcome.status).json({ error: outcome.error, sample_count: outcome.sample_count });
+      return;
+    }
+
+    res.json({ message: `Scoring calibrated on ${outcome.model.sample_count} posts`, model: outcome.model });
+    return;
+  } catch (error) {
+    console.error('Scoring calibration error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+/* ---------------------------------------------------
+   🔹 Moderation rules for generated content (owner only)
+--------------------------------------------------- */
+router.get('/moderation', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const artistId = await personaService.getArtistIdForUser(userId);
+
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    res.json({
+      settings: await moderationService.getSettings(artistId),
+      categories: MODERATION_CATEGORIES,
+      severities: MODERATION_SEVERITIES
+    });
+    return;
+  } catch (error) {
+    console.error('Get moderation settings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+router.put('/moderation', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+
+    const { error, value } = moderationSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({ error: 'Validation error', details: error.details?.[0]?.message });
+      return;
+    }
+
+    for (const rule of value.patterns) {
+      try {
+        compilePattern(rule);
+      } catch (patternError) {
+        res.status(400).json({ error: 'Validation error', details: `Invalid pattern ${rule.pattern}: ${(patternError as Error).message}` });
+        return;
+      }
+    }
+
+    const artistId = await personaService.getArtistIdForUser(userId);
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    const settings = await moderationService.updateSettings(artistId, value, userId);
+    res.json({ message: 'Moderation rules saved', settings });
+    return;
+  } catch (error) {
+    console.error('Update moderation settings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+// Try the saved rules on a piece of text
+router.post('/moderation/check', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+
+    const { error, value } = moderationCheckSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({ error: 'Validation error', details: error.details?.[0]?.message });
+      return;
+    }
+
+    const artistId = await personaService.getArtistIdForUser(userId);
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found' });
+      return;
+    }
+
+    res.json(await moderationService.check(artistId, value.text));
+    return;
+  } catch (error) {
+    console.error('Moderation check error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
+  }
+});
+
+export default router;
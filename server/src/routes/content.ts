@@ -1,10 +1,26 @@
 // src/routes/content.ts
-import { Router, Request, Response, NextFunction } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import Joi from 'joi';
 import pool from '../Config/connection';
-import aiContentService, { ContentGenerationParams, PersonaData } from '../services/aiService';
+import aiContentService, { ContentGenerationParams, ContentQualityMetrics, GeneratedContent, PersonaData, REPURPOSE_KINDS } from '../services/aiService';
+import providerRegistry from '../services/providers';
+import generationLogService from '../services/generationLogService';
+import aiCacheService from '../services/aiCacheService';
+import aiUsageService, { QuotaExceeded } from '../services/aiUsageService';
+import personaService from '../services/personaService';
+import contentReviewService, { APPROVAL_STATUSES, ContentAccess, ReviewableContent } from '../services/contentReviewService';
+import publisherService from '../services/publisherService';
+import engagementMetricsService, { ENGAGEMENT_METRICS, MetricsSnapshot, parseCsv } from '../services/engagementMetricsService';
+import contentScheduleService, { SCHEDULE_CONFLICT_MINUTES, describeSlot } from '../services/contentScheduleService';
+import contentRevisionService, { diffRevisionText } from '../services/contentRevisionService';
 import templateService, { CreateTemplateRequest } from '../services/templateService';
+import { PLATFORM_NAMES, PLATFORM_PROFILES, getPlatformProfile } from '../services/platformProfiles';
+import { CONTENT_FORMATS, MAX_PARTS, MIN_PARTS, assembleParts, checkParts, formatPlatform, isMultipart } from '../services/contentFormats';
+import transcriptRetrievalService, { VoiceExample } from '../services/transcriptRetrievalService';
+import postExampleService, { PostExample } from '../services/postExampleService';
+import transcriptAnalysisService from '../services/transcriptAnalysisService';
+import moderationService, { ModerationResult, ModerationSettings, moderateText } from '../services/moderationService';
 import crypto from 'crypto';
 import authenticateToken from '../middleware/authenticateToken';
 
@@ -35,8 +51,18 @@ const contentGenerationSchema = Joi.object({
   context: Joi.string().max(500).optional(),
   max_length: Joi.number().min(50).max(500).optional(),
   variations: Joi.number().min(1).max(5).optional(),
-  template_id: Joi.string().optional(),
-  provider: Joi.string().valid('groq', 'cohere', 'openai', 'huggingface', 'auto').optional().default('auto')
+  // Templates fill a single post, so they can't shape a thread or carousel
+  template_id: Joi.string().optional().when('format', {
+    is: Joi.valid('thread', 'carousel'),
+    then: Joi.forbidden().messages({ 'any.unknown': 'Templates cannot be used with the thread or carousel format' })
+  }),
+  persona_id: Joi.string().guid().optional(),
+  max_voice_examples: Joi.number().integer().min(0).max(5).optional().default(3),
+  max_post_examples: Joi.number().integer().min(0).max(5).optional().default(3),
+  provider: Joi.string().valid(...providerRegistry.names(), 'auto').optional().default('auto'),
+  platform: Joi.string().valid(...PLATFORM_NAMES).optional(),
+  format: Joi.string().valid(...CONTENT_FORMATS).optional().default('single'),
+  parts: Joi.number().integer().min(MIN_PARTS).max(MAX_PARTS).optional()
 });
 
 const templateSchema = Joi.object({
@@ -54,6 +80,100 @@ const templateSchema = Joi.object({
   description: Joi.string().optional()
 });
 
+const logsQuerySchema = Joi.object({
+  provider: Joi.string().max(50).optional(),
+  request_type: Joi.string().valid('content_generation', 'content_refinement', 'content_repurpose', 'quality_scoring', 'template_processing').optional(),
+  success: Joi.boolean().optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+  limit: Joi.number().integer().min(1).max(200).optional().default(50),
+  offset: Joi.number().integer().min(0).optional().default(0)
+});
+
+const cacheClearSchema = Joi.object({
+  persona_id: Joi.string().guid().optional(),
+  expired: Joi.boolean().optional().default(false)
+});
+
+const transitionSchema = Joi.object({
+  to_status: Joi.string().valid(...APPROVAL_STATUSES).required(),
+  comment: Joi.string().max(2000).allow('').optional()
+});
+
+const assignReviewerSchema = Joi.object({
+  reviewer_id: Joi.string().guid().allow(null).required()
+});
+
+const reviewQueueSchema = Joi.object({
+  status: Joi.string().valid(...APPROVAL_STATUSES).optional().default('in_review'),
+  assigned_to_me: Joi.boolean().optional().default(false),
+  limit: Joi.number().integer().min(1).max(100).optional().default(50),
+  offset: Joi.number().integer().min(0).optional().default(0)
+});
+
+// The platform defaults to the one the content was written for
+const scheduleSchema = Joi.object({
+  platform: Joi.string().valid(...PLATFORM_NAMES).optional(),
+  scheduled_at: Joi.date().iso().greater('now').required().messages({ 'date.greater': 'scheduled_at must be in the future' }),
+  allow_conflicts: Joi.boolean().optional().default(false),
+  conflict_window_minutes: Joi.number().integer().min(1).max(1440).optional()
+});
+
+const calendarQuerySchema = Joi.object({
+  from: Joi.date().iso().required(),
+  to: Joi.date().iso().greater(Joi.ref('from')).required(),
+  artist_id: Joi.string().guid().optional(),
+  platform: Joi.string().valid(...PLATFORM_NAMES).optional(),
+  conflict_window_minutes: Joi.number().integer().min(1).max(1440).optional()
+});
+
+const examplesQuerySchema = Joi.object({
+  content_type: Joi.string().valid('announcement', 'release', 'news', 'social_post', 'story').required(),
+  platform: Joi.string().valid(...PLATFORM_NAMES).optional(),
+  format: Joi.string().valid(...CONTENT_FORMATS).optional().default('single'),
+  context: Joi.string().max(500).optional(),
+  limit: Joi.number().integer().min(1).max(5).optional().default(3)
+});
+
+// One snapshot of a published post's numbers; the post is its publication id or the id the platform gave it
+const metricsSnapshotSchema = Joi.object({
+  publication_id: Joi.string().guid(),
+  platform: Joi.string().valid(...PLATFORM_NAMES),
+  platform_post_id: Joi.string().trim().max(255),
+  recorded_at: Joi.date().iso().max('now').default(() => new Date()),
+  ...Object.fromEntries(ENGAGEMENT_METRICS.map(metric => [metric, Joi.number().integer().min(0)]))
+}).xor('publication_id', 'platform_post_id').or(...ENGAGEMENT_METRICS);
+
+const metricsIngestSchema = Joi.object({
+  snapshots: Joi.array().items(metricsSnapshotSchema).min(1).max(1000).required()
+});
+
+const MAX_IMPORT_ROWS = 5000;
+
+// Threads and carousels are edited as their parts; numbering and the joined text are rebuilt on save
+const editContentSchema = Joi.object({
+  content_text: Joi.string().trim().min(1).max(5000),
+  parts: Joi.array().items(Joi.string().trim().min(1).max(2200)).min(MIN_PARTS).max(MAX_PARTS)
+}).xor('content_text', 'parts');
+
+const refineContentSchema = Joi.object({
+  instruction: Joi.string().trim().min(2).max(300).required(),
+  provider: Joi.string().valid(...providerRegistry.names(), 'auto').optional().default('auto')
+});
+
+const revisionDiffSchema = Joi.object({
+  from: Joi.number().integer().min(1).optional(),
+  to: Joi.number().integer().min(1).optional()
+});
+
+const repurposeSchema = Joi.object({
+  count: Joi.number().integer().min(1).max(10).optional().default(3),
+  kinds: Joi.array().items(Joi.string().valid(...REPURPOSE_KINDS)).min(1).unique().optional().default(REPURPOSE_KINDS),
+  context: Joi.string().max(500).optional(),
+  platform: Joi.string().valid(...PLATFORM_NAMES).optional(),
+  provider: Joi.string().valid(...providerRegistry.names(), 'auto').optional().default('auto')
+});
+
 const processTemplateSchema = Joi.object({
   template_id: Joi.string().required(),
   variables: Joi.object().required()
@@ -73,14 +193,20 @@ function handleServerError(res: Response, contextMessage: string, error: unknown
 }
 
 /**
- * Refactored function to get artist persona data to avoid code duplication
+ * Refactored function to get artist persona data to avoid code duplication.
+ * Uses the artist's active persona unless an explicit (non-archived) persona id is given.
  */
-async function getArtistPersona(userId: string): Promise<PersonaData | null> {
+async function getArtistPersona(userId: string, personaId?: string): Promise<PersonaData | null> {
+  const personaJoin = personaId
+    ? 'p.id = $2 AND p.archived_at IS NULL'
+    : 'p.is_active = true';
   const personaQuery = `
     SELECT 
       p.*,
       a.artist_name,
       a.id AS artist_id,
+      pv.id AS persona_version_id,
+      pv.version_number AS persona_version_number,
       COALESCE(
         json_agg(
           json_build_object(
@@ -93,22 +219,302 @@ async function getArtistPersona(userId: string): Promise<PersonaData | null> {
         '[]'
       ) as questionnaire_responses
     FROM artists a
-    LEFT JOIN artist_personas p ON a.id = p.artist_id AND p.is_active = true
+    LEFT JOIN artist_personas p ON a.id = p.artist_id AND ${personaJoin}
+    LEFT JOIN LATERAL (
+      SELECT v.id, v.version_number FROM persona_versions v
+      WHERE v.persona_id = p.id
+      ORDER BY v.version_number DESC
+      LIMIT 1
+    ) pv ON true
     LEFT JOIN persona_questionnaires pq ON p.id = pq.persona_id
     WHERE a.user_id = $1
-    GROUP BY p.id, a.artist_name, a.id;
+    GROUP BY p.id, a.artist_name, a.id, pv.id, pv.version_number;
   `;
-  const personaResult = await pool.query(personaQuery, [userId]);
+  const personaResult = await pool.query(personaQuery, personaId ? [userId, personaId] : [userId]);
   return personaResult.rows.length > 0 && personaResult.rows[0].id ? personaResult.rows[0] : null;
 }
 
+/**
+ * The persona a content item was generated with (or the artist's active one for older items).
+ * Access to the item is checked by the caller, so this isn't scoped to the owning user.
+ */
+async function getContentPersona(content: ReviewableContent): Promise<PersonaData | null> {
+  const result = await pool.query(
+    `SELECT p.id, p.artist_id, p.persona_name, p.tone, p.target_audience, p.key_themes, p.voice_characteristics, a.artist_name
+     FROM artist_personas p
+     JOIN artists a ON a.id = p.artist_id
+     WHERE p.artist_id = $1 AND (p.id = $2 OR ($2::uuid IS NULL AND p.is_active = true))
+     LIMIT 1`,
+    [content.artist_id, content.persona_id]
+  );
+  const row = result.rows[0];
+  return row ? { ...row, questionnaire_responses: [] } : null;
+}
+
+interface GenerationContext {
+  personaForService: PersonaData;
+  generationParams: ContentGenerationParams;
+  voiceExamples: VoiceExample[];
+  postExamples: PostExample[];
+  moderationSettings: ModerationSettings;
+  templateId: string | null;
+  provider: string;
+}
+
+type GenerationSetup =
+  | { context: GenerationContext }
+  | { status: number; body: Record<string, any>; headers?: Record<string, string> };
+
+/**
+ * 429 for a used-up AI quota: which budget ran out and when it resets (also as Retry-After).
+ */
+function quotaExceededResponse(exceeded: QuotaExceeded): Exclude<GenerationSetup, { context: GenerationContext }> {
+  const scopeLabel = exceeded.scope === 'user' ? 'your account' : 'this artist';
+  const quotaLabel = exceeded.quota === 'requests_per_day' ? 'Daily AI request' : 'Monthly AI token';
+  return {
+    status: 429,
+    headers: { 'Retry-After': String(exceeded.retry_after_seconds) },
+    body: {
+      error: `${quotaLabel} quota exceeded for ${scopeLabel}. Resets at ${exceeded.reset_at}`,
+      quota: exceeded
+    }
+  };
+}
+
+const MODERATION_UNAVAILABLE = 'Moderation rules could not be loaded. Please try again shortly.';
+
+/**
+ * The artist's moderation rules, or null when they can't be read. Nothing is generated without them:
+ * falling back to the defaults would let blocklisted text through.
+ */
+async function loadModerationSettings(artistId: string): Promise<ModerationSettings | null> {
+  try {
+    return await moderationService.getSettings(artistId);
+  } catch (err) {
+    console.error('Failed to load moderation rules', { artist_id: artistId, err });
+    return null;
+  }
+}
+
+/**
+ * Shared setup for /generate and /generate/stream:
+ * load persona, check the user's and artist's AI quotas, load the artist's moderation rules, retrieve transcript
+ * voice examples and approved example posts, load the template.
+ */
+async function prepareGeneration(userId: string, value: any): Promise<GenerationSetup> {
+  const { content_type, context, max_length, variations, template_id, persona_id, max_voice_examples, max_post_examples, provider, platform, format, parts } = value;
+
+  const personaData = await getArtistPersona(userId, persona_id);
+
+  if (!personaData || !personaData.id) {
+    return { status: 404, body: { error: 'Artist persona not found. Please create a persona first.' } };
+  }
+
+  // Each variation is one provider call
+  const quota = await aiUsageService.checkQuota(userId, personaData.artist_id, variations || 3);
+  if (!quota.allowed) {
+    return quotaExceededResponse(quota.exceeded);
+  }
+
+  const moderationSettings = await loadModerationSettings(personaData.artist_id);
+  if (!moderationSettings) {
+    return { status: 503, body: { error: MODERATION_UNAVAILABLE } };
+  }
+
+  // Map to expected PersonaData shape (keep required fields)
+  const personaForService: PersonaData = {
+    id: personaData.id,
+    artist_id: personaData.artist_id,
+    persona_name: personaData.persona_name,
+    artist_name: personaData.artist_name,
+    tone: personaData.tone,
+    key_themes: personaData.key_themes,
+    target_audience: personaData.target_audience,
+    voice_characteristics: personaData.voice_characteristics,
+    questionnaire_responses: personaData.questionnaire_responses,
+    persona_version_id: personaData.persona_version_id ?? null,
+    persona_version_number: personaData.persona_version_number ?? null
+  } as any;
+
+  // Build generation params
+  const generationParams: ContentGenerationParams = {
+    persona: personaForService,
+    content_type,
+    context,
+    max_length,
+    variations,
+    platform,
+    ...(isMultipart(format) ? { format, parts } : {}),
+    user_id: userId
+  };
+
+  // Ground the prompt in the artist's own words from uploaded transcripts
+  const retrievalQuery = context || [content_type.replace('_', ' '), ...(personaForService.key_themes || [])].join(' ');
+  let voiceExamples: VoiceExample[] = [];
+  try {
+    voiceExamples = await transcriptRetrievalService.retrieveVoiceExamples(personaForService.id, retrievalQuery, max_voice_examples);
+    if (voiceExamples.length > 0) generationParams.voice_examples = voiceExamples;
+  } catch (err) {
+    // Non fatal; generate without transcript examples
+    console.warn('Failed to retrieve transcript voice examples', { persona_id: personaForService.id, err });
+  }
+
+  // Few-shot examples: the artist's approved and pinned posts of the same type, for the same platform
+  let postExamples: PostExample[] = [];
+  try {
+    postExamples = await postExampleService.retrieveExamples(
+      personaForService.artist_id,
+      { content_type, platform, format, query: retrievalQuery },
+      max_post_examples
+    );
+    if (postExamples.length > 0) generationParams.post_examples = postExamples;
+  } catch (err) {
+    // Non fatal; generate zero-shot
+    console.warn('Failed to retrieve example posts', { artist_id: personaForService.artist_id, err });
+  }
+
+  // Template-guided mode: the model fills the template's variables instead of writing free text
+  if (template_id) {
+    const template = await templateService.getTemplateById(template_id);
+    if (!template) {
+      return { status: 404, body: { error: 'Template not found' } };
+    }
+    generationParams.template = template;
+  }
+
+  return {
+    context: {
+      personaForService,
+      generationParams,
+      voiceExamples,
+      postExamples,
+      moderationSettings,
+      templateId: template_id ?? null,
+      provider: provider ?? 'auto'
+    }
+  };
+}
+
+/**
+ * Run the artist's moderation rules over a finished variation before it is saved or shown.
+ */
+function moderateVariation(content: any, ctx: GenerationContext) {
+  return { ...content, moderation: moderateText(content.content ?? '', ctx.moderationSettings) };
+}
+
+/**
+ * content_metadata change for an edited or refined text: a flag is recorded, a clean text clears an earlier verdict.
+ */
+function moderationMetadata(moderation: ModerationResult, current: ReviewableContent): Record<string, unknown> {
+  if (moderation.action === 'flag') return { moderation };
+  return current.content_metadata?.moderation ? { moderation: null } : {};
+}
+
+/**
+ * A blocked variation is answered without its text; the reason stays in `moderation`.
+ */
+function withholdBlocked(content: any) {
+  if (content.moderation?.action !== 'block') return content;
+  const { content: _text, parts: _parts, template_variables: _variables, ...rest } = content;
+  return { ...rest, content: null, blocked: true };
+}
+
+/**
+ * Persist one generated variation as a draft; save failures are reported on the item rather than thrown.
+ * Moderated variations keep the verdict in content_metadata.moderation when something matched; blocked ones
+ * are stored as rejected and without their text, so no read path can hand it out and there is nothing to reopen.
+ */
+async function saveGeneratedContent(content: any, ctx: GenerationContext) {
+  const blocked = (content.moderation as ModerationResult | undefined)?.action === 'block';
+  const stored = blocked ? { ...content, content: '', text: '', parts: undefined, template_variables: undefined } : content;
+
+  const insertQuery = `
+    INSERT INTO generated_content (
+      artist_id, persona_id, template_id, content_type, content_text, 
+      content_metadata, generation_params, approval_status, persona_version_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING id, created_at
+  `;
+
+  const metadata = {
+    quality_score: typeof content.quality_score === 'number' ? content.quality_score : null,
+    model_used: content.model_used ?? 'auto',
+    variation_id: content.variation_id ?? null,
+    generated_at: content.generated_at ?? new Date().toISOString(),
+    voice_examples: ctx.voiceExamples.map(({ transcript_id, chunk_index, start, end }) => ({ transcript_id, chunk_index, start, end })),
+    ...(ctx.postExamples.length > 0 ? { post_examples: ctx.postExamples.map(({ content_id, pinned }) => ({ content_id, pinned })) } : {}),
+    // Threads and carousels without a requested platform are written for their default one
+    ...(ctx.generationParams.platform || content.parts ? { platform: ctx.generationParams.platform ?? content.generation_params?.platform } : {}),
+    ...(content.platform_adjustments?.length ? { platform_adjustments: content.platform_adjustments } : {}),
+    ...(content.style_adjustments?.length ? { style_adjustments: content.style_adjustments } : {}),
+    ...(content.style_violations?.length ? { style_violations: content.style_violations } : {}),
+    ...(stored.parts ? { format: content.format, parts: stored.parts, format_warnings: content.format_warnings ?? [] } : {}),
+    ...(blocked && content.parts ? { format: content.format } : {}),
+    ...(stored.template_variables ? { template_variables: stored.template_variables } : {}),
+    ...(content.repurposed_from ? { repurposed_from: content.repurposed_from } : {}),
+    ...(content.moderation && content.moderation.action !== 'allow' ? { moderation: content.moderation } : {})
+  };
+
+  const generationParamsForDB = content.generation_params ?? ctx.generationParams;
+
+  const params = [
+    ctx.personaForService.artist_id,
+    ctx.personaForService.id,
+    ctx.templateId,
+    ctx.generationParams.content_type,
+    stored.content ?? stored.text ?? '',
+    JSON.stringify(metadata),
+    JSON.stringify(generationParamsForDB),
+    blocked ? 'rejected' : 'draft',
+    ctx.personaForService.persona_version_id ?? null
+  ];
+
+  try {
+    const result = await pool.query(insertQuery, params);
+    return {
+      ...content,
+      id: result.rows[0].id,
+      saved_at: result.rows[0].created_at
+    };
+  } catch (err) {
+    const rowErrId = generateErrorId();
+    console.error(`[${rowErrId}] Failed to persist generated content`, { err, contentPreview: String(content.content ?? '').slice(0, 120) });
+    return {
+      ...content,
+      id: null,
+      saved_at: null,
+      save_error: true,
+      save_error_id: rowErrId
+    };
+  }
+}
+
+function describePersonaUsed(ctx: GenerationContext) {
+  return {
+    id: ctx.personaForService.id,
+    version: ctx.personaForService.persona_version_number ?? null,
+    name: ctx.personaForService.persona_name,
+    tone: ctx.personaForService.tone,
+    themes: ctx.personaForService.key_themes
+  };
+}
+
+function describeTemplateUsed(ctx: GenerationContext) {
+  const template = ctx.generationParams.template;
+  return template ? { id: template.id, name: template.template_name } : null;
+}
+
 /**
  * POST /api/content/generate
  * - Validate request
  * - Load persona (explicit aliasing)
  * - Build generation params
  * - Call AI service
+ * - Moderate each variation: flagged ones are saved with the reason, blocked ones are saved as rejected
+ *   and returned without their text
  * - Save generated content (batched)
+ * - format 'thread' | 'carousel' writes `parts` (default 5) numbered parts per variation, saved as one item
+ *   with the ordered parts in content_metadata.parts
  */
 router.post('/generate', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -125,66 +531,20 @@ router.post('/generate', authenticateToken, async (req: AuthRequest, res: Respon
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { content_type, context, max_length, variations, template_id, provider } = value as any;
-
-    const personaData = await getArtistPersona(userId);
-    
-    if (!personaData || !personaData.id) {
-      return res.status(404).json({ error: 'Artist persona not found. Please create a persona first.' });
+    const setup = await prepareGeneration(userId, value);
+    if (!('context' in setup)) {
+      return res.status(setup.status).set(setup.headers ?? {}).json(setup.body);
     }
 
-    // Map to expected PersonaData shape (keep required fields)
-    const personaForService: PersonaData = {
-      id: personaData.id,
-      artist_id: personaData.artist_id,
-      persona_name: personaData.persona_name,
-      tone: personaData.tone,
-      key_themes: personaData.key_themes,
-      target_audience: personaData.target_audience,
-      voice_characteristics: personaData.voice_characteristics,
-      questionnaire_responses: personaData.questionnaire_responses
-    } as any;
-
-    // Build generation params
-    const generationParams: ContentGenerationParams = {
-      persona: personaForService,
-      content_type,
-      context,
-      max_length,
-      variations
-    };
-
-    if (template_id) {
-      try {
-        const template = await templateService.getTemplateById(template_id);
-        if (template) generationParams.template = template;
-      } catch (err) {
-        // Non fatal; log and continue without template
-        console.warn('Failed to load template for generation', { template_id, err });
-      }
-    }
+    const ctx = setup.context;
+    const { generationParams, provider } = ctx;
 
-    // Call appropriate AI service method based on provider
+    // 'auto' walks the configured fallback chain; anything else pins that provider
     let generatedContent = [] as Array<any>;
     try {
-      switch (provider) {
-        case 'groq':
-          generatedContent = await aiContentService.generateContentWithGroq(generationParams);
-          break;
-        case 'cohere':
-          throw new Error('Cohere integration temporarily disabled');
-          break;
-        case 'openai':
-          generatedContent = await aiContentService.generateContentWithOpenAI(generationParams);
-          break;
-        case 'huggingface':
-          generatedContent = await aiContentService.generateContentWithHuggingFace(generationParams);
-          break;
-        case 'auto':
-        default:
-          generatedContent = await aiContentService.generateContent(generationParams);
-          break;
-      }
+      generatedContent = provider === 'auto'
+        ? await aiContentService.generateContent(generationParams)
+        : await aiContentService.generateWithProvider(provider, generationParams);
     } catch (err) {
       const errId = generateErrorId();
       console.error(`[${errId}] AI generation failure`, err);
@@ -205,55 +565,9 @@ router.post('/generate', authenticateToken, async (req: AuthRequest, res: Respon
       });
     }
 
-    // Save generated content in parallel
-    const insertQuery = `
-      INSERT INTO generated_content (
-        artist_id, persona_id, template_id, content_type, content_text, 
-        content_metadata, generation_params, approval_status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      RETURNING id, created_at
-    `;
-
-    const savedContent = await Promise.all(generatedContent.map(async (content: any) => {
-      const metadata = {
-        quality_score: typeof content.quality_score === 'number' ? content.quality_score : null,
-        model_used: content.model_used ?? 'auto',
-        variation_id: content.variation_id ?? null,
-        generated_at: content.generated_at ?? new Date().toISOString()
-      };
-
-      const generationParamsForDB = content.generation_params ?? generationParams;
-
-      const params = [
-        personaForService.artist_id,
-        personaForService.id,
-        template_id ?? null,
-        content_type,
-        content.content ?? content.text ?? '',
-        JSON.stringify(metadata),
-        JSON.stringify(generationParamsForDB),
-        'draft'
-      ];
-
-      try {
-        const result = await pool.query(insertQuery, params);
-        return {
-          ...content,
-          id: result.rows[0].id,
-          saved_at: result.rows[0].created_at
-        };
-      } catch (err) {
-        const rowErrId = generateErrorId();
-        console.error(`[${rowErrId}] Failed to persist generated content`, { err, contentPreview: String(content.content ?? '').slice(0, 120) });
-        return {
-          ...content,
-          id: null,
-          saved_at: null,
-          save_error: true,
-          save_error_id: rowErrId
-        };
-      }
-    }));
+    // Moderate, then save in parallel
+    const moderated = generatedContent.map((content: any) => moderateVariation(content, ctx));
+    const savedContent = await Promise.all(moderated.map((content: any) => saveGeneratedContent(content, ctx)));
 
     const numericScores = generatedContent
       .map((c: any) => (typeof c.quality_score === 'number' ? c.quality_score : null))
@@ -265,16 +579,19 @@ router.post('/generate', authenticateToken, async (req: AuthRequest, res: Respon
 
     return res.json({
       message: 'Content generated successfully',
-      generated_content: savedContent,
+      generated_content: savedContent.map(withholdBlocked),
       content_saved: true,
-      persona_used: {
-        name: personaForService.persona_name,
-        tone: personaForService.tone,
-        themes: personaForService.key_themes
-      },
+      persona_used: describePersonaUsed(ctx),
+      voice_examples_used: ctx.voiceExamples,
+      post_examples_used: ctx.postExamples,
+      template_used: describeTemplateUsed(ctx),
       generation_metadata: {
         model_used: provider ?? 'auto',
+        platform: generationParams.platform ?? null,
+        format: generationParams.format ?? 'single',
         variations_generated: generatedContent.length,
+        variations_flagged: moderated.filter((content: any) => content.moderation.action === 'flag').length,
+        variations_blocked: moderated.filter((content: any) => content.moderation.action === 'block').length,
         average_quality_score
       }
     });
@@ -284,81 +601,157 @@ router.post('/generate', authenticateToken, async (req: AuthRequest, res: Respon
 });
 
 /**
- * POST /api/content/quality-score
- * - Score content using AI service in the context of user's persona
+ * GET|POST /api/content/generate/stream
+ * Same parameters as /generate (query string for GET, JSON body for POST), answered as Server-Sent Events:
+ * - start:    persona, template and voice examples in use
+ * - token:    { variation_id, token }; text is sent word by word once the variation so far passes moderation,
+ *             and a variation stops streaming as soon as a check blocks it
+ * - score:    { variation_id, content, quality_score, moderation, ... } once a variation is finished
+ * - blocked:  { variation_id, moderation } instead of its score when moderation blocks it; the client drops
+ *             whatever text of the variation it already showed
+ * - saved:    { variation_id, id, saved_at } after the draft is stored
+ * - done:     summary; error: { error, errorId } if generation fails mid-stream
+ * Closing the connection aborts the upstream provider call.
  */
-router.post('/quality-score', authenticateToken, async (req: AuthRequest, res: Response) => {
-    try {
-        const { content } = req.body;
-        if (!content || typeof content !== 'string') {
-            return res.status(400).json({ error: 'Content text is required' });
-        }
+async function streamGeneration(req: AuthRequest, res: Response, input: any) {
+  try {
+    const { error, value } = contentGenerationSchema.validate(input);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
 
-        const userId = req.user?.userId;
-        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
 
-        const personaData = await getArtistPersona(userId);
-        if (!personaData || !personaData.id) {
-            return res.status(404).json({ error: 'Artist persona not found' });
-        }
+    if (value.provider !== 'auto' && !providerRegistry.get(value.provider)?.stream) {
+      return res.status(400).json({ error: `Streaming is not supported for provider ${value.provider}` });
+    }
 
-        // Call AI scoring
-        let qualityMetrics;
-        try {
-            qualityMetrics = await aiContentService.scoreContentQuality(content, personaData);
-        } catch (err) {
-            const errId = generateErrorId();
-            console.error(`[${errId}] AI scoring failure`, err);
-            return res.status(502).json({ error: 'AI scoring service failed', errorId: errId });
-        }
+    const setup = await prepareGeneration(userId, value);
+    if (!('context' in setup)) {
+      return res.status(setup.status).set(setup.headers ?? {}).json(setup.body);
+    }
 
-        // Defensive formatting for returned values
-        const score = typeof qualityMetrics?.score === 'number' ? qualityMetrics.score : 0;
-        const recommendations = {
-            overall_rating: score >= 0.8 ? 'Excellent' :
-                                            score >= 0.6 ? 'Good' :
-                                            score >= 0.4 ? 'Fair' : 'Needs Improvement',
-            primary_strengths: score > 0.7 ? ['High quality content'] : [],
-            improvement_areas: qualityMetrics?.issues ?? [],
-            suggested_actions: qualityMetrics?.suggestions ?? []
-        };
+    const ctx = setup.context;
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) abortController.abort();
+    });
 
-        return res.json({
-            message: 'Content quality analysis completed',
-            content_preview: content.substring(0, 100) + (content.length > 100 ? '...' : ''),
-            quality_metrics: qualityMetrics,
-            recommendations
-        });
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send('start', {
+      persona_used: describePersonaUsed(ctx),
+      voice_examples_used: ctx.voiceExamples,
+      post_examples_used: ctx.postExamples,
+      template_used: describeTemplateUsed(ctx),
+      platform: ctx.generationParams.platform ?? null,
+      format: ctx.generationParams.format ?? 'single',
+      variations: ctx.generationParams.variations || 3
+    });
+
+    const saved: any[] = [];
+    // Each variation is moderated again at every word boundary as it grows; only the unchecked tail is held back.
+    // After a check blocks, nothing more of it is sent until the finished variation gets its final verdict.
+    const streams = new Map<number, { text: string; sent: number; halted: boolean }>();
+    const release = (variationId: number, stream: { text: string; sent: number }, upTo: number) => {
+      if (upTo <= stream.sent) return;
+      send('token', { variation_id: variationId, token: stream.text.slice(stream.sent, upTo) });
+      stream.sent = upTo;
+    };
+    try {
+      await aiContentService.generateContentStream(ctx.generationParams, ctx.provider, {
+        onToken: (variationId, token) => {
+          const stream = streams.get(variationId) ?? { text: '', sent: 0, halted: false };
+          streams.set(variationId, stream);
+          stream.text += token;
+          if (stream.halted) return;
+
+          const boundary = stream.text.length - /\S*$/.exec(stream.text)![0].length;
+          if (boundary <= stream.sent) return;
+          if (moderateText(stream.text.slice(0, boundary), ctx.moderationSettings).action === 'block') {
+            stream.halted = true;
+            return;
+          }
+          release(variationId, stream, boundary);
+        },
+        onVariation: async (finished) => {
+          const variation = moderateVariation(finished, ctx);
+          const stream = streams.get(variation.variation_id);
+          streams.delete(variation.variation_id);
+          if (variation.moderation.action === 'block') {
+            send('blocked', { variation_id: variation.variation_id, moderation: variation.moderation });
+          } else {
+            if (stream) release(variation.variation_id, stream, stream.text.length);
+            send('score', variation);
+          }
+          const savedVariation = await saveGeneratedContent(variation, ctx);
+          saved.push(savedVariation);
+          send('saved', {
+            variation_id: variation.variation_id,
+            id: savedVariation.id,
+            saved_at: savedVariation.saved_at,
+            ...(savedVariation.save_error ? { save_error: true, save_error_id: savedVariation.save_error_id } : {})
+          });
+        }
+      }, abortController.signal);
     } catch (err) {
-        return handleServerError(res, 'Content quality scoring error', err);
+      if (abortController.signal.aborted) return res.end();
+      const errId = generateErrorId();
+      console.error(`[${errId}] AI streaming generation failure`, err);
+      send('error', { error: 'AI generation service failed', errorId: errId, details: String(err) });
+      return res.end();
     }
-});
 
-/**
- * GET /api/content/templates
- * - optional query param: type
- */
-router.get('/templates', authenticateToken, async (req: AuthRequest, res: Response) => {
-  try {
-    const type = typeof req.query.type === 'string' ? req.query.type : undefined;
-    const templates = await templateService.getTemplates(type);
-    
-    return res.json({
-      templates,
-      total: Array.isArray(templates) ? templates.length : 0,
-      filtered_by_type: type ?? null
+    if (abortController.signal.aborted) return res.end();
+
+    const scores = saved.map(item => item.quality_score).filter((score): score is number => typeof score === 'number');
+    send('done', {
+      variations_generated: saved.length,
+      variations_blocked: saved.filter(item => item.moderation?.action === 'block').length,
+      content_ids: saved.map(item => item.id).filter(Boolean),
+      average_quality_score: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null
     });
+    return res.end();
   } catch (err) {
-    return handleServerError(res, 'Get templates error', err);
+    if (res.headersSent) {
+      console.error('Content streaming error', err);
+      return res.end();
+    }
+    return handleServerError(res, 'Content streaming error', err);
   }
-});
+}
+
+router.get('/generate/stream', authenticateToken, (req: AuthRequest, res: Response) => streamGeneration(req, res, req.query));
+router.post('/generate/stream', authenticateToken, (req: AuthRequest, res: Response) => streamGeneration(req, res, req.body));
 
 /**
- * POST /api/content/templates
+ * POST /api/content/repurpose/:transcriptId
+ * - picks the `count` most quotable lines the artist said in the transcript
+ * - writes one post per line and kind (quote_card, story, social_post), saved as drafts
+ * - each draft records the transcript and character offsets of its line in content_metadata.repurposed_from
+ * - every post is one provider call against the AI quota; failed posts are listed and the rest are kept
  */
-router.post('/templates', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.post('/repurpose/:transcriptId', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
-    const { error, value } = templateSchema.validate(req.body);
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = repurposeSchema.validate(req.body);
     if (error) {
       return res.status(400).json({
         error: 'Validation error',
@@ -366,43 +759,379 @@ router.post('/templates', authenticateToken, async (req: AuthRequest, res: Respo
       });
     }
 
-    const validation = templateService.validateTemplate(value as CreateTemplateRequest);
-    if (!validation || !validation.isValid) {
-      return res.status(400).json({
-        error: 'Template validation failed',
-        details: validation?.errors ?? ['Invalid template']
-      });
+    const transcript = await transcriptAnalysisService.getTranscriptForUser(req.params.transcriptId as string, userId);
+    if (!transcript) {
+      return res.status(404).json({ error: 'Transcript not found' });
     }
 
-    const template = await templateService.createTemplate(value as CreateTemplateRequest);
-    return res.status(201).json({
-      message: 'Template created successfully',
-      template
+    const persona = await getArtistPersona(userId, transcript.persona_id);
+    if (!persona) {
+      return res.status(404).json({ error: 'The persona for this transcript was not found or is archived' });
+    }
+
+    const moments = transcriptAnalysisService.findQuotableMoments(transcript.transcript_text, value.count);
+    if (moments.length === 0) {
+      return res.status(422).json({ error: 'No quotable moments found in this transcript' });
+    }
+
+    const quota = await aiUsageService.checkQuota(userId, persona.artist_id, moments.length * value.kinds.length);
+    if (!quota.allowed) {
+      const refused = quotaExceededResponse(quota.exceeded);
+      return res.status(refused.status).set(refused.headers ?? {}).json(refused.body);
+    }
+
+    const moderationSettings = await loadModerationSettings(persona.artist_id);
+    if (!moderationSettings) {
+      return res.status(503).json({ error: MODERATION_UNAVAILABLE });
+    }
+
+    const saved: any[] = [];
+    const failures: Array<{ moment: number; kind: string; error: string }> = [];
+
+    for (const [index, moment] of moments.entries()) {
+      for (const kind of value.kinds) {
+        const generationParams: ContentGenerationParams = {
+          persona,
+          content_type: kind,
+          context: value.context,
+          platform: value.platform,
+          user_id: userId
+        };
+
+        let post: GeneratedContent;
+        try {
+          post = await aiContentService.repurposeQuote(generationParams, moment.text, kind, value.provider);
+        } catch (err) {
+          const errId = generateErrorId();
+          console.error(`[${errId}] AI repurposing failure`, err);
+          failures.push({ moment: index + 1, kind, error: `AI repurposing failed (${errId})` });
+          continue;
+        }
+
+        const repurposed_from = { transcript_id: transcript.id, start: moment.start, end: moment.end, quote: moment.text, kind };
+        const ctx: GenerationContext = {
+          personaForService: persona,
+          generationParams,
+          voiceExamples: [],
+          postExamples: [],
+          moderationSettings,
+          templateId: null,
+          provider: value.provider
+        };
+        saved.push(withholdBlocked(await saveGeneratedContent(moderateVariation({ ...post, repurposed_from }, ctx), ctx)));
+      }
+    }
+
+    if (saved.length === 0) {
+      return res.status(502).json({ error: 'AI repurposing service failed', failures });
+    }
+
+    return res.json({
+      message: `Saved ${saved.length} drafts from ${moments.length} moments`,
+      transcript_id: transcript.id,
+      moments: moments.map((moment, index) => ({ index: index + 1, ...moment })),
+      generated_content: saved,
+      failures
     });
   } catch (err) {
-    return handleServerError(res, 'Create template error', err);
+    return handleServerError(res, 'Repurpose transcript error', err);
   }
 });
 
 /**
- * POST /api/content/templates/:id/process
+ * GET /api/content/providers
+ * - every registered AI provider with whether it is configured and currently healthy
+ * - fallback_chain is the order 'auto' tries (AI_PROVIDER_FALLBACK_ORDER, configured providers only)
  */
-router.post('/templates/:id/process', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.get('/providers', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
-    const { error, value } = processTemplateSchema.validate({
-      template_id: req.params.id,
-      variables: req.body.variables
+    return res.json({
+      providers: aiContentService.getProviderStatus(),
+      fallback_chain: providerRegistry.fallbackChain().map(provider => provider.name),
+      default: 'auto'
     });
+  } catch (err) {
+    return handleServerError(res, 'Get providers error', err);
+  }
+});
 
-    if (error) {
-      return res.status(400).json({
-        error: 'Validation error',
+/**
+ * GET /api/content/platforms
+ * - the platform profiles generation can target (limits, hashtag, link, line-break and emoji rules)
+ */
+router.get('/platforms', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    return res.json({ platforms: PLATFORM_NAMES.map(name => PLATFORM_PROFILES[name]) });
+  } catch (err) {
+    return handleServerError(res, 'Get platforms error', err);
+  }
+});
+
+/**
+ * GET /api/content/logs
+ * - AI calls made for the user's artists (generation, quality scoring, template processing), newest first
+ * - filters: provider, request_type, success, from, to; paging with limit/offset
+ * - summary: p50/p95 latency and failure rate overall and per provider, over the same filters
+ */
+router.get('/logs', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = logsQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const filters = {
+      provider: value.provider,
+      request_type: value.request_type,
+      success: value.success,
+      from: value.from,
+      to: value.to
+    };
+
+    const [page, summary] = await Promise.all([
+      generationLogService.listLogs(userId, { ...filters, limit: value.limit, offset: value.offset }),
+      generationLogService.summarize(userId, filters)
+    ]);
+
+    return res.json({
+      logs: page.logs,
+      summary,
+      pagination: {
+        limit: value.limit,
+        offset: value.offset,
+        total: page.total
+      }
+    });
+  } catch (err) {
+    return handleServerError(res, 'Get generation logs error', err);
+  }
+});
+
+/**
+ * GET /api/content/cache/stats
+ * - memory and ai_cache table sizes, hit counters and hit rate since the process started
+ */
+router.get('/cache/stats', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    return res.json({ cache: await aiCacheService.getStats() });
+  } catch (err) {
+    return handleServerError(res, 'Get cache stats error', err);
+  }
+});
+
+/**
+ * DELETE /api/content/cache
+ * - drops cached AI results for the user's personas (or one persona with ?persona_id=)
+ * - ?expired=true also purges expired rows from ai_cache
+ */
+router.delete('/cache', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = cacheClearSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    let personaIds: string[];
+    if (value.persona_id) {
+      const persona = await personaService.getOwnedPersona(value.persona_id, userId);
+      if (!persona) return res.status(404).json({ error: 'Persona not found' });
+      personaIds = [persona.id];
+    } else {
+      const artistId = await personaService.getArtistIdForUser(userId);
+      personaIds = artistId ? (await personaService.listPersonas(artistId, true)).map(persona => persona.id) : [];
+    }
+
+    const removed = await aiCacheService.invalidatePersonas(personaIds);
+    const expiredRemoved = value.expired ? await aiCacheService.purgeExpired() : 0;
+
+    return res.json({
+      message: 'AI cache cleared',
+      personas_cleared: personaIds,
+      entries_removed: removed,
+      expired_entries_removed: expiredRemoved
+    });
+  } catch (err) {
+    return handleServerError(res, 'Clear cache error', err);
+  }
+});
+
+/**
+ * POST /api/content/quality-score
+ * - Score content using AI service in the context of user's persona
+ * - breakdown: one sub-score per scorer (readability, length fit, hashtags, ...) with its issues
+ * - highlights: the character spans the scorers flagged, in text order
+ */
+router.post('/quality-score', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+        const { content, platform } = req.body;
+        if (!content || typeof content !== 'string') {
+            return res.status(400).json({ error: 'Content text is required' });
+        }
+        if (platform !== undefined && !PLATFORM_NAMES.includes(platform)) {
+            return res.status(400).json({ error: `Unknown platform. Use one of: ${PLATFORM_NAMES.join(', ')}` });
+        }
+
+        const userId = req.user?.userId;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        const personaData = await getArtistPersona(userId);
+        if (!personaData || !personaData.id) {
+            return res.status(404).json({ error: 'Artist persona not found' });
+        }
+
+        // Call AI scoring
+        let qualityMetrics: ContentQualityMetrics | undefined;
+        const startedAt = Date.now();
+        const logScoring = (success: boolean, error?: unknown) => generationLogService.record({
+            request_type: 'quality_scoring',
+            user_id: userId,
+            artist_id: personaData.artist_id,
+            persona_id: personaData.id,
+            provider: 'local',
+            ai_model: 'quality-heuristics',
+            input_params: { characters: content.length, platform: platform ?? null },
+            output_data: qualityMetrics ? { score: qualityMetrics.score } : null,
+            processing_time_ms: Date.now() - startedAt,
+            success,
+            error
+        });
+        try {
+            qualityMetrics = await aiContentService.scoreContentQuality(content, personaData, platform);
+            logScoring(true);
+        } catch (err) {
+            logScoring(false, err);
+            const errId = generateErrorId();
+            console.error(`[${errId}] AI scoring failure`, err);
+            return res.status(502).json({ error: 'AI scoring service failed', errorId: errId });
+        }
+
+        // Defensive formatting for returned values
+        const score = typeof qualityMetrics?.score === 'number' ? qualityMetrics.score : 0;
+        const recommendations = {
+            overall_rating: score >= 0.8 ? 'Excellent' :
+                                            score >= 0.6 ? 'Good' :
+                                            score >= 0.4 ? 'Fair' : 'Needs Improvement',
+            // Scorers at 0.9 or above, or the overall verdict when there is no breakdown
+            primary_strengths: qualityMetrics?.breakdown
+                ? qualityMetrics.breakdown.filter(result => result.score >= 0.9).map(result => result.label)
+                : score > 0.7 ? ['High quality content'] : [],
+            improvement_areas: qualityMetrics?.issues ?? [],
+            suggested_actions: qualityMetrics?.suggestions ?? []
+        };
+
+        return res.json({
+            message: 'Content quality analysis completed',
+            content_preview: content.substring(0, 100) + (content.length > 100 ? '...' : ''),
+            quality_metrics: qualityMetrics,
+            breakdown: qualityMetrics?.breakdown ?? [],
+            highlights: qualityMetrics?.spans ?? [],
+            recommendations
+        });
+    } catch (err) {
+        return handleServerError(res, 'Content quality scoring error', err);
+    }
+});
+
+/**
+ * GET /api/content/templates
+ * - optional query param: type
+ */
+router.get('/templates', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+    const templates = await templateService.getTemplates(type);
+    
+    return res.json({
+      templates,
+      total: Array.isArray(templates) ? templates.length : 0,
+      filtered_by_type: type ?? null
+    });
+  } catch (err) {
+    return handleServerError(res, 'Get templates error', err);
+  }
+});
+
+/**
+ * POST /api/content/templates
+ */
+router.post('/templates', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { error, value } = templateSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const validation = templateService.validateTemplate(value as CreateTemplateRequest);
+    if (!validation || !validation.isValid) {
+      return res.status(400).json({
+        error: 'Template validation failed',
+        details: validation?.errors ?? ['Invalid template']
+      });
+    }
+
+    const template = await templateService.createTemplate(value as CreateTemplateRequest);
+    return res.status(201).json({
+      message: 'Template created successfully',
+      template
+    });
+  } catch (err) {
+    return handleServerError(res, 'Create template error', err);
+  }
+});
+
+/**
+ * POST /api/content/templates/:id/process
+ */
+router.post('/templates/:id/process', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { error, value } = processTemplateSchema.validate({
+      template_id: req.params.id,
+      variables: req.body.variables
+    });
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
         details: error.details && error.details[0] ? error.details[0].message : error.message
       });
     }
 
     const { template_id, variables } = value;
-    const processedTemplate = await templateService.processTemplate(template_id, variables);
+    const startedAt = Date.now();
+    const logProcessing = (success: boolean, error?: unknown) => generationLogService.record({
+      request_type: 'template_processing',
+      user_id: req.user?.userId,
+      provider: 'local',
+      ai_model: 'template-engine',
+      input_params: { template_id, variables: Object.keys(variables) },
+      processing_time_ms: Date.now() - startedAt,
+      success,
+      error
+    });
+
+    let processedTemplate;
+    try {
+      processedTemplate = await templateService.processTemplate(template_id, variables);
+      logProcessing(true);
+    } catch (err) {
+      logProcessing(false, err);
+      throw err;
+    }
 
     return res.json({
       message: 'Template processed successfully',
@@ -474,10 +1203,12 @@ router.get('/history', authenticateToken, async (req: AuthRequest, res: Response
         gc.*,
         ct.template_name,
         p.persona_name,
+        pv.version_number AS persona_version_number,
         a.artist_name
       FROM generated_content gc
       LEFT JOIN content_templates ct ON gc.template_id = ct.id
       LEFT JOIN artist_personas p ON gc.persona_id = p.id
+      LEFT JOIN persona_versions pv ON gc.persona_version_id = pv.id
       LEFT JOIN artists a ON gc.artist_id = a.id
       WHERE a.user_id = $1
     `;
@@ -515,6 +1246,834 @@ router.get('/history', authenticateToken, async (req: AuthRequest, res: Response
   }
 });
 
+/**
+ * Review workflow helpers: the caller's role and the transitions it allows, alongside the content itself
+ */
+function describeReviewState(access: ContentAccess, userId: string) {
+  return {
+    ...access.content,
+    role: access.role,
+    allowed_transitions: contentReviewService.allowedTransitions(access, userId)
+  };
+}
+
+/**
+ * GET /api/content/review-queue
+ * - content across every artist the user owns or collaborates on (default status: in_review)
+ * - assigned_to_me=true narrows it to items where the user is the assigned reviewer
+ */
+router.get('/review-queue', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = reviewQueueSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const { items, total } = await contentReviewService.getReviewQueue(userId, value);
+
+    return res.json({
+      items: items.map(({ role, ...content }) => describeReviewState({ content, role }, userId)),
+      pagination: { limit: value.limit, offset: value.offset, total }
+    });
+  } catch (err) {
+    return handleServerError(res, 'Get review queue error', err);
+  }
+});
+
+/**
+ * GET /api/content/calendar?from&to
+ * - scheduled, ready and published items across the user's artists, by scheduled time
+ * - each item lists the ids it conflicts with: same artist and platform, less than conflict_window_minutes apart
+ */
+router.get('/calendar', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = calendarQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const windowMinutes = value.conflict_window_minutes ?? SCHEDULE_CONFLICT_MINUTES;
+    const items = await contentScheduleService.getCalendar(userId, value, windowMinutes);
+
+    return res.json({
+      from: value.from,
+      to: value.to,
+      conflict_window_minutes: windowMinutes,
+      items: items.map(({ role, conflicts_with, ...content }) => ({
+        ...describeReviewState({ content, role }, userId),
+        conflicts_with
+      }))
+    });
+  } catch (err) {
+    return handleServerError(res, 'Get content calendar error', err);
+  }
+});
+
+/**
+ * GET /api/content/examples?content_type=release&platform=x&context=...
+ * - the approved posts the next generation with these settings would show the model, pinned ones first
+ * - `pinned` lists every golden example the artist has pinned, across content types
+ */
+router.get('/examples', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = examplesQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const persona = await getArtistPersona(userId);
+    if (!persona) {
+      return res.status(404).json({ error: 'Artist persona not found. Please create a persona first.' });
+    }
+
+    const query = value.context || [value.content_type.replace('_', ' '), ...(persona.key_themes || [])].join(' ');
+    const [examples, pinned] = await Promise.all([
+      postExampleService.retrieveExamples(
+        persona.artist_id,
+        { content_type: value.content_type, platform: value.platform, format: value.format, query },
+        value.limit
+      ),
+      postExampleService.getPinned(persona.artist_id)
+    ]);
+
+    return res.json({ examples, pinned });
+  } catch (err) {
+    return handleServerError(res, 'Get example posts error', err);
+  }
+});
+
+/**
+ * POST /api/content/metrics
+ * - records engagement snapshots (likes, shares, comments, views, saves) for posts the caller publishes for
+ * - each snapshot names its post by publication_id, or by platform_post_id (and platform); recorded_at defaults to now
+ * - snapshots that match no published post are listed by index in `unmatched`; 404 when none matched
+ */
+router.post('/metrics', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = metricsIngestSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const result = await engagementMetricsService.ingest(userId, value.snapshots, 'api');
+    if (result.recorded === 0) {
+      return res.status(404).json({ error: 'No published post matches these snapshots', unmatched: result.unmatched });
+    }
+
+    return res.json({ message: `Recorded ${result.recorded} metric value(s)`, ...result });
+  } catch (err) {
+    return handleServerError(res, 'Record metrics error', err);
+  }
+});
+
+/**
+ * POST /api/content/metrics/import
+ * - a CSV export (text/csv, one snapshot per row, columns named like the snapshot fields) or a JSON array of snapshots
+ * - valid rows are stored and the rest are listed in `rejected` with the reason; rows are numbered from the first snapshot
+ */
+router.post(
+  '/metrics/import',
+  authenticateToken,
+  express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+      const rows: unknown = typeof req.body === 'string' ? parseCsv(req.body) : Array.isArray(req.body) ? req.body : req.body?.snapshots;
+      if (!Array.isArray(rows) || rows.length === 0) {
+        return res.status(400).json({ error: 'Send a CSV file or a JSON array of snapshots' });
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({ error: `Imports are limited to ${MAX_IMPORT_ROWS} rows` });
+      }
+
+      const snapshots: MetricsSnapshot[] = [];
+      const rowNumbers: number[] = [];
+      const rejected: Array<{ row: number; error: string }> = [];
+
+      rows.forEach((row, index) => {
+        // Empty CSV cells mean the export had no value for that metric
+        const cleaned = row && typeof row === 'object'
+          ? Object.fromEntries(Object.entries(row).filter(([, cell]) => cell !== '' && cell !== null))
+          : row;
+        const { error, value } = metricsSnapshotSchema.validate(cleaned, { stripUnknown: true });
+        if (error) {
+          rejected.push({ row: index + 1, error: error.details[0]?.message ?? error.message });
+        } else {
+          snapshots.push(value);
+          rowNumbers.push(index + 1);
+        }
+      });
+
+      const result = snapshots.length > 0
+        ? await engagementMetricsService.ingest(userId, snapshots, 'import')
+        : { recorded: 0, unmatched: [] };
+      for (const index of result.unmatched) {
+        rejected.push({ row: rowNumbers[index] as number, error: 'No published post matches this row' });
+      }
+      rejected.sort((a, b) => a.row - b.row);
+
+      return res.json({
+        message: `Imported ${rows.length - rejected.length} of ${rows.length} row(s)`,
+        recorded: result.recorded,
+        rejected
+      });
+    } catch (err) {
+      return handleServerError(res, 'Import metrics error', err);
+    }
+  }
+);
+
+/**
+ * GET /api/content/:id/timeline
+ * - the item with the caller's role and allowed transitions
+ * - every state change and reviewer assignment, oldest first
+ */
+router.get('/:id/timeline', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to view it' });
+    }
+
+    const timeline = await contentReviewService.getTimeline(access.content);
+
+    return res.json({
+      content: describeReviewState(access, userId),
+      timeline
+    });
+  } catch (err) {
+    return handleServerError(res, 'Get content timeline error', err);
+  }
+});
+
+/**
+ * POST /api/content/:id/transition
+ * - moves the item along draft -> in_review -> approved/rejected -> scheduled -> ready_to_publish -> published
+ * - scheduling goes through PUT /:id/schedule and publishing through POST /:id/publish instead,
+ *   and only the scheduler marks content ready_to_publish
+ * - 409 for a move the workflow doesn't allow from the current status, 403 for one the caller's role can't make
+ * - comment is stored on the timeline (e.g. why a post was rejected)
+ */
+router.post('/:id/transition', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = transitionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    if (value.to_status === 'scheduled') {
+      return res.status(400).json({ error: 'Schedule content with PUT /api/content/:id/schedule; it needs a platform and a time' });
+    }
+
+    if (value.to_status === 'published') {
+      return res.status(400).json({ error: 'Publish content with POST /api/content/:id/publish; it posts to the platform and records the post' });
+    }
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to update it' });
+    }
+
+    const check = contentReviewService.checkTransition(access, userId, value.to_status);
+    if (!check.ok) {
+      return res.status(check.status).json({ error: check.error, allowed_transitions: contentReviewService.allowedTransitions(access, userId) });
+    }
+
+    const updated = await contentReviewService.transition(access.content.id, access.content.approval_status, value.to_status, userId, value.comment);
+    if (!updated) {
+      return res.status(409).json({ error: 'Content status changed in the meantime. Reload and try again.' });
+    }
+
+    return res.json({
+      message: `Content moved to ${value.to_status}`,
+      content: describeReviewState({ content: { ...access.content, ...updated }, role: access.role }, userId)
+    });
+  } catch (err) {
+    return handleServerError(res, 'Content transition error', err);
+  }
+});
+
+/**
+ * PUT /api/content/:id/reviewer
+ * - assigns (or with null, unassigns) the reviewer who decides on the item; owners and editors only
+ * - the reviewer must be the artist's owner or a collaborator with the reviewer role
+ */
+router.put('/:id/reviewer', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = assignReviewerSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to update it' });
+    }
+
+    if (access.role === 'reviewer') {
+      return res.status(403).json({ error: 'Only the owner or an editor can assign reviewers' });
+    }
+
+    if (value.reviewer_id && !(await contentReviewService.isEligibleReviewer(access.content.artist_id, value.reviewer_id))) {
+      return res.status(400).json({ error: 'Reviewer must be the artist owner or a collaborator with the reviewer role' });
+    }
+
+    const updated = await contentReviewService.assignReviewer(access.content.id, value.reviewer_id, userId);
+    if (!updated) {
+      return res.status(404).json({ error: 'Content not found' });
+    }
+
+    return res.json({
+      message: value.reviewer_id ? 'Reviewer assigned' : 'Reviewer unassigned',
+      content: describeReviewState({ content: { ...access.content, ...updated }, role: access.role }, userId)
+    });
+  } catch (err) {
+    return handleServerError(res, 'Assign reviewer error', err);
+  }
+});
+
+/**
+ * PUT /api/content/:id/schedule
+ * - puts approved content on the calendar for a platform and time, or moves scheduled content to a new slot
+ * - 409 with the conflicting posts when another post of the artist is on the same platform less than
+ *   conflict_window_minutes (default SCHEDULE_CONFLICT_MINUTES) away, unless allow_conflicts is set
+ */
+router.put('/:id/schedule', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = scheduleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to update it' });
+    }
+
+    const { content } = access;
+    if (content.approval_status !== 'approved' && content.approval_status !== 'scheduled') {
+      return res.status(409).json({ error: `Only approved content can be scheduled; this is ${content.approval_status}` });
+    }
+    if (access.role === 'reviewer') {
+      return res.status(403).json({ error: 'Only the owner or an editor can schedule content' });
+    }
+
+    const platform = value.platform ?? content.content_metadata?.platform;
+    if (!platform || !PLATFORM_NAMES.includes(platform)) {
+      return res.status(400).json({ error: 'Pick the platform to publish this content on', platforms: PLATFORM_NAMES });
+    }
+
+    const slot = { platform, scheduled_at: value.scheduled_at };
+    const windowMinutes = value.conflict_window_minutes ?? SCHEDULE_CONFLICT_MINUTES;
+    const conflicts = await contentScheduleService.findConflicts(content.artist_id, slot, content.id, windowMinutes);
+    if (conflicts.length > 0 && !value.allow_conflicts) {
+      return res.status(409).json({
+        error: `Another post is scheduled on ${getPlatformProfile(platform)?.label ?? platform} less than ${windowMinutes} minutes from this time`,
+        conflicts
+      });
+    }
+
+    const updated = await contentScheduleService.schedule(content, slot, userId);
+    if (!updated) {
+      return res.status(409).json({ error: 'Content status changed in the meantime. Reload and try again.' });
+    }
+
+    return res.json({
+      message: `Scheduled for ${describeSlot(slot)}`,
+      content: describeReviewState({ content: { ...content, ...updated }, role: access.role }, userId),
+      conflicts
+    });
+  } catch (err) {
+    return handleServerError(res, 'Schedule content error', err);
+  }
+});
+
+/**
+ * DELETE /api/content/:id/schedule
+ * - takes scheduled (or ready to publish) content off the calendar and back to approved
+ */
+router.delete('/:id/schedule', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to update it' });
+    }
+
+    const from = access.content.approval_status;
+    if (from !== 'scheduled' && from !== 'ready_to_publish') {
+      return res.status(409).json({ error: `Content is not scheduled; it is ${from}` });
+    }
+
+    const check = contentReviewService.checkTransition(access, userId, 'approved');
+    if (!check.ok) {
+      return res.status(check.status).json({ error: check.error });
+    }
+
+    const updated = await contentReviewService.transition(access.content.id, from, 'approved', userId, 'Unscheduled');
+    if (!updated) {
+      return res.status(409).json({ error: 'Content status changed in the meantime. Reload and try again.' });
+    }
+
+    return res.json({
+      message: 'Content unscheduled',
+      content: describeReviewState({ content: { ...access.content, ...updated }, role: access.role }, userId)
+    });
+  } catch (err) {
+    return handleServerError(res, 'Unschedule content error', err);
+  }
+});
+
+/**
+ * PUT /api/content/:id/example
+ * - pins the post as a golden example: it is shown to the model for every generation of its content type and platform
+ * - owners and editors only; rejected content can't be pinned
+ */
+router.put('/:id/example', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to update it' });
+    }
+    if (access.role === 'reviewer') {
+      return res.status(403).json({ error: 'Only the owner or an editor can pin examples' });
+    }
+    if (access.content.approval_status === 'rejected') {
+      return res.status(409).json({ error: 'Rejected content cannot be an example' });
+    }
+
+    const pinned = await postExampleService.pin(access.content.id, userId);
+    if (!pinned) {
+      return res.status(409).json({ error: 'Content status changed in the meantime. Reload and try again.' });
+    }
+
+    return res.json({
+      message: 'Pinned as an example',
+      content: describeReviewState({ content: { ...access.content, example_pinned_at: pinned.example_pinned_at }, role: access.role }, userId)
+    });
+  } catch (err) {
+    return handleServerError(res, 'Pin example error', err);
+  }
+});
+
+/**
+ * DELETE /api/content/:id/example
+ * - unpins the post; if it is approved it can still be picked as an example by relevance
+ */
+router.delete('/:id/example', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to update it' });
+    }
+    if (access.role === 'reviewer') {
+      return res.status(403).json({ error: 'Only the owner or an editor can unpin examples' });
+    }
+
+    await postExampleService.unpin(access.content.id);
+
+    return res.json({
+      message: 'Example unpinned',
+      content: describeReviewState({ content: { ...access.content, example_pinned_at: null }, role: access.role }, userId)
+    });
+  } catch (err) {
+    return handleServerError(res, 'Unpin example error', err);
+  }
+});
+
+/**
+ * POST /api/content/:id/publish
+ * - posts scheduled (or ready to publish) content to its platform through the artist's linked account, now
+ * - transient platform errors are retried (PUBLISH_MAX_RETRIES); every attempt ends up in published_content
+ * - the item is claimed before anything is posted, so a second publish of it gets 409 instead of posting twice
+ * - 409 when the content isn't scheduled or no account is linked, 502 when the platform refused the post
+ */
+router.post('/:id/publish', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to update it' });
+    }
+
+    const check = contentReviewService.checkTransition(access, userId, 'published');
+    if (!check.ok) {
+      return res.status(check.status).json({ error: check.error });
+    }
+
+    const outcome = await publisherService.publish(access.content, userId);
+    if (!outcome.ok) {
+      return res.status(outcome.status).json({ error: outcome.error, publication: outcome.record ?? null });
+    }
+
+    return res.json({
+      message: `Published on ${getPlatformProfile(outcome.record.platform)?.label ?? outcome.record.platform}`,
+      publication: outcome.record,
+      content: describeReviewState({ content: outcome.content ?? access.content, role: access.role }, userId)
+    });
+  } catch (err) {
+    return handleServerError(res, 'Publish content error', err);
+  }
+});
+
+/**
+ * GET /api/content/:id/publications
+ * - every publish attempt for the item, newest first, with the post id and URL when it went out
+ */
+router.get('/:id/publications', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to view it' });
+    }
+
+    const publications = await publisherService.listPublications(access.content.id);
+    return res.json({ publications });
+  } catch (err) {
+    return handleServerError(res, 'Get publications error', err);
+  }
+});
+
+/**
+ * GET /api/content/:id/metrics
+ * - engagement over time for every post the item went out as: one point per snapshot, the latest numbers
+ *   and the engagement rate ((likes + comments + shares + saves) / views)
+ */
+router.get('/:id/metrics', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to view it' });
+    }
+
+    const publications = await engagementMetricsService.getTimeline(access.content.id);
+    return res.json({ content_id: access.content.id, metrics: ENGAGEMENT_METRICS, publications });
+  } catch (err) {
+    return handleServerError(res, 'Get content metrics error', err);
+  }
+});
+
+/**
+ * GET /api/content/:id/revisions
+ * - every version of the text, newest first; revision 1 is the text as generated
+ */
+router.get('/:id/revisions', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to view it' });
+    }
+
+    const revisions = await contentRevisionService.listRevisions(access.content);
+
+    return res.json({
+      content: {
+        ...describeReviewState(access, userId),
+        editable: contentRevisionService.checkEditable(access).ok
+      },
+      revisions
+    });
+  } catch (err) {
+    return handleServerError(res, 'List content revisions error', err);
+  }
+});
+
+/**
+ * GET /api/content/:id/revisions/diff
+ * - word-level diff between two revisions; defaults to the latest against the one before it
+ */
+router.get('/:id/revisions/diff', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = revisionDiffSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to view it' });
+    }
+
+    const revisions = await contentRevisionService.listRevisions(access.content);
+    const toNumber: number = value.to ?? revisions[0]!.revision_number;
+    const fromNumber: number = value.from ?? Math.max(1, toNumber - 1);
+
+    const fromRevision = revisions.find(revision => revision.revision_number === fromNumber);
+    const toRevision = revisions.find(revision => revision.revision_number === toNumber);
+    if (!fromRevision || !toRevision) {
+      return res.status(404).json({ error: 'Content revision not found' });
+    }
+
+    return res.json({
+      content_id: access.content.id,
+      from: fromRevision,
+      to: toRevision,
+      segments: diffRevisionText(fromRevision.content_text, toRevision.content_text)
+    });
+  } catch (err) {
+    return handleServerError(res, 'Diff content revisions error', err);
+  }
+});
+
+/**
+ * PATCH /api/content/:id
+ * - manual edit of a draft or rejected item by its owner or an editor, stored as a new revision
+ * - the edited text is re-scored against the persona
+ * - threads and carousels send `parts` instead of `content_text`; they are renumbered and checked per part
+ * - moderated like new variations: blocked text is refused with 422, a clean edit clears an earlier verdict
+ */
+router.patch('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = editContentSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to update it' });
+    }
+
+    const editable = contentRevisionService.checkEditable(access);
+    if (!editable.ok) {
+      return res.status(editable.status).json({ error: editable.error });
+    }
+
+    const metadata = access.content.content_metadata ?? {};
+    const format = isMultipart(metadata.format) ? metadata.format : null;
+    if (format && !value.parts) {
+      return res.status(400).json({ error: `Edit a ${format} through its parts` });
+    }
+    if (!format && value.parts) {
+      return res.status(400).json({ error: 'Only threads and carousels have parts' });
+    }
+
+    const assembled = format ? assembleParts(value.parts) : null;
+    const contentText: string = assembled ? assembled.text : value.content_text;
+
+    if (contentText === access.content.content_text) {
+      return res.status(400).json({ error: 'The edited text is the same as the current version' });
+    }
+
+    const moderationSettings = await loadModerationSettings(access.content.artist_id);
+    if (!moderationSettings) {
+      return res.status(503).json({ error: MODERATION_UNAVAILABLE });
+    }
+    const moderation = moderateText(contentText, moderationSettings);
+    if (moderation.action === 'block') {
+      return res.status(422).json({ error: 'The edited text was blocked by moderation', moderation });
+    }
+
+    const persona = await getContentPersona(access.content);
+    const metrics = persona
+      ? await aiContentService.scoreContentQuality(contentText, persona, format ? null : metadata.platform)
+      : null;
+
+    const saved = await contentRevisionService.addRevision(access.content.id, {
+      content_text: contentText,
+      source: 'manual',
+      quality_score: typeof metrics?.score === 'number' ? metrics.score : null,
+      metadata: {
+        ...moderationMetadata(moderation, access.content),
+        ...(format && assembled
+          ? { parts: assembled.parts, format_warnings: checkParts(assembled.parts, format, formatPlatform(format, metadata.platform)) }
+          : {})
+      }
+    }, userId);
+    if (!saved) {
+      return res.status(409).json({ error: 'Content status changed in the meantime. Reload and try again.' });
+    }
+
+    return res.json({
+      message: 'Content updated',
+      content: describeReviewState({ content: { ...access.content, ...saved.content }, role: access.role }, userId),
+      revision: saved.revision,
+      quality_metrics: metrics
+    });
+  } catch (err) {
+    return handleServerError(res, 'Edit content error', err);
+  }
+});
+
+/**
+ * POST /api/content/:id/refine
+ * - rewrites the current text following an instruction ("shorter", "more hype", "add a question for fans")
+ * - the result is stored as a new revision; earlier revisions, including the generated original, are kept
+ * - counts as one provider call against the AI quota
+ * - moderated like new variations: blocked text is refused with 422, flagged text is saved with the reason
+ */
+router.post('/:id/refine', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { error, value } = refineContentSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details && error.details[0] ? error.details[0].message : error.message
+      });
+    }
+
+    const access = await contentReviewService.getContentAccess(req.params.id as string, userId);
+    if (!access) {
+      return res.status(404).json({ error: 'Content not found or you do not have permission to update it' });
+    }
+
+    const editable = contentRevisionService.checkEditable(access);
+    if (!editable.ok) {
+      return res.status(editable.status).json({ error: editable.error });
+    }
+
+    if (isMultipart(access.content.content_metadata?.format)) {
+      return res.status(409).json({ error: 'Threads and carousels cannot be refined yet. Edit their parts instead.' });
+    }
+
+    const persona = await getContentPersona(access.content);
+    if (!persona) {
+      return res.status(404).json({ error: 'Artist persona not found' });
+    }
+
+    const quota = await aiUsageService.checkQuota(userId, access.content.artist_id, 1);
+    if (!quota.allowed) {
+      const refused = quotaExceededResponse(quota.exceeded);
+      return res.status(refused.status).set(refused.headers ?? {}).json(refused.body);
+    }
+
+    const moderationSettings = await loadModerationSettings(access.content.artist_id);
+    if (!moderationSettings) {
+      return res.status(503).json({ error: MODERATION_UNAVAILABLE });
+    }
+
+    let refined;
+    try {
+      refined = await aiContentService.refineContent(
+        {
+          persona,
+          content_type: (access.content.content_type ?? 'social_post') as ContentGenerationParams['content_type'],
+          platform: access.content.content_metadata?.platform,
+          user_id: userId
+        },
+        access.content.content_text ?? '',
+        value.instruction,
+        value.provider
+      );
+    } catch (err) {
+      const errId = generateErrorId();
+      console.error(`[${errId}] AI refinement failure`, err);
+      return res.status(502).json({
+        error: 'AI refinement service failed',
+        errorId: errId,
+        details: String(err)
+      });
+    }
+
+    const moderation = moderateText(refined.content, moderationSettings);
+    if (moderation.action === 'block') {
+      return res.status(422).json({ error: 'The refined text was blocked by moderation', moderation });
+    }
+
+    const saved = await contentRevisionService.addRevision(access.content.id, {
+      content_text: refined.content,
+      source: 'refine',
+      instruction: value.instruction,
+      provider: refined.model_used,
+      ai_model: refined.generation_params?.model ?? null,
+      quality_score: refined.quality_score,
+      metadata: moderationMetadata(moderation, access.content)
+    }, userId);
+    if (!saved) {
+      return res.status(409).json({ error: 'Content status changed in the meantime. Reload and try again.' });
+    }
+
+    return res.json({
+      message: 'Content refined',
+      content: describeReviewState({ content: { ...access.content, ...saved.content }, role: access.role }, userId),
+      revision: saved.revision
+    });
+  } catch (err) {
+    return handleServerError(res, 'Refine content error', err);
+  }
+});
+
 /**
  * POST /api/content/templates/initialize-defaults
  */
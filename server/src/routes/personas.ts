@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import Joi from 'joi';
 import jwt from 'jsonwebtoken';
 import pool from '../Config/connection';
+import personaService, { diffPersonaVersions } from '../services/personaService';
+import { CAPITALIZATIONS } from '../services/styleGuide';
 
 const router = Router();
 
@@ -26,16 +28,53 @@ function authenticateToken(req: Request, res: Response, next: any): void {
 }
 
 // Validation schemas
+const wordList = (max: number) => Joi.array().items(Joi.string().trim().min(1).max(100)).max(max).default([]);
+
+// voice_characteristics.style_guide; the other voice traits (e.g. from transcript analysis) stay free-form
+const styleGuideSchema = Joi.object({
+  artist_name: Joi.string().trim().min(1).max(100).optional(),
+  name_misspellings: wordList(20),
+  preferred_words: Joi.array().items(
+    Joi.object({
+      use: Joi.string().trim().min(1).max(100).required(),
+      instead_of: Joi.array().items(Joi.string().trim().min(1).max(100)).min(1).max(20).required()
+    })
+  ).max(50).default([]),
+  banned_words: wordList(100),
+  capitalization: Joi.string().valid(...CAPITALIZATIONS).default('as_written'),
+  sign_offs: Joi.array().items(Joi.string().trim().min(1).max(200)).max(10).default([]),
+  always_sign_off: Joi.boolean().default(false),
+  max_emoji: Joi.number().integer().min(0).max(20).allow(null).default(null),
+  required_hashtags: Joi.array().items(Joi.string().pattern(/^#?[\p{L}\p{N}_]+$/u).message('required_hashtags must be single hashtags like #newmusic')).max(10).default([])
+});
+
 const personaSchema = Joi.object({
   persona_name: Joi.string().min(1).max(255).optional(),
   description: Joi.string().max(2000).optional(),
   tone: Joi.string().max(50).optional(),
   target_audience: Joi.string().max(1000).optional(),
   key_themes: Joi.array().items(Joi.string()).optional(),
-  voice_characteristics: Joi.object().optional(),
+  voice_characteristics: Joi.object({
+    style_guide: styleGuideSchema.optional()
+  }).unknown(true).optional(),
+});
+
+const createPersonaSchema = personaSchema.keys({
+  persona_name: Joi.string().min(1).max(255).required(),
+  activate: Joi.boolean().default(false)
+});
+
+const clonePersonaSchema = Joi.object({
+  persona_name: Joi.string().min(1).max(255).optional()
+});
+
+const versionDiffSchema = Joi.object({
+  from: Joi.number().integer().min(1).optional(),
+  to: Joi.number().integer().min(1).optional()
 });
 
 const questionnaireSchema = Joi.object({
+  persona_id: Joi.string().guid().optional(),
   responses: Joi.array().items(
     Joi.object({
       question_key: Joi.string().required(),
@@ -120,37 +159,35 @@ router.post('/questionnaire', authenticateToken, async (req: Request, res: Respo
     }
 
     const userId = (req as any).user.userId;
-    const { responses } = value;
+    const { responses, persona_id } = value;
 
-    // Get artist ID
-    const artistQuery = 'SELECT id FROM artists WHERE user_id = $1';
-    const artistResult = await pool.query(artistQuery, [userId]);
-    
-    if (artistResult.rows.length === 0) {
+    const artistId = await personaService.getArtistIdForUser(userId);
+
+    if (!artistId) {
       res.status(404).json({ 
         error: 'Artist profile not found. Please create an artist profile first.' 
       });
       return;
     }
 
-    const artistId = artistResult.rows[0].id;
-
-    // Create or get existing persona
-    const personaQuery = `
-      INSERT INTO artist_personas (artist_id, persona_name, description)
-      VALUES ($1, $2, $3)
-      ON CONFLICT (artist_id) 
-      DO UPDATE SET updated_at = CURRENT_TIMESTAMP
-      RETURNING id
-    `;
-    
-    const personaResult = await pool.query(personaQuery, [
-      artistId, 
-      'Main Persona', 
-      'Generated from questionnaire responses'
-    ]);
-    
-    const personaId = personaResult.rows[0].id;
+    // Answer for an explicit persona, else the active one, else create the first persona
+    let personaId: string;
+    if (persona_id) {
+      const persona = await personaService.getOwnedPersona(persona_id, userId);
+      if (!persona || persona.archived_at) {
+        res.status(404).json({ error: 'Persona not found' });
+        return;
+      }
+      personaId = persona.id;
+    } else {
+      const activePersona = await personaService.getActivePersona(artistId);
+      personaId = activePersona
+        ? activePersona.id
+        : (await personaService.createPersona(artistId, {
+            persona_name: 'Main Persona',
+            description: 'Generated from questionnaire responses'
+          }, { activate: true, changedBy: userId, source: 'questionnaire' })).id;
+    }
 
     // Save questionnaire responses
     for (const response of responses) {
@@ -169,7 +206,7 @@ router.post('/questionnaire', authenticateToken, async (req: Request, res: Respo
     }
 
     // Update persona with extracted insights
-    await updatePersonaFromResponses(personaId, responses);
+    await updatePersonaFromResponses(personaId, responses, userId);
 
     res.json({
       message: 'Questionnaire responses saved successfully',
@@ -210,7 +247,7 @@ router.get('/persona', authenticateToken, async (req: Request, res: Response): P
           '[]'
         ) as questionnaire_responses
       FROM artists a
-      LEFT JOIN artist_personas p ON a.id = p.artist_id
+      LEFT JOIN artist_personas p ON a.id = p.artist_id AND p.is_active = true
       LEFT JOIN persona_questionnaires pq ON p.id = pq.persona_id
       WHERE a.user_id = $1
       GROUP BY p.id, a.artist_name
@@ -254,6 +291,341 @@ router.get('/persona', authenticateToken, async (req: Request, res: Response): P
   }
 });
 
+// List the artist's personas
+router.get('/', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const includeArchived = req.query.include_archived === 'true';
+
+    const artistId = await personaService.getArtistIdForUser(userId);
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found. Please create an artist profile first.' });
+      return;
+    }
+
+    const personas = await personaService.listPersonas(artistId, includeArchived);
+
+    res.json({
+      personas,
+      active_persona_id: personas.find(persona => persona.is_active)?.id ?? null,
+      total: personas.length
+    });
+    return;
+
+  } catch (error) {
+    console.error('List personas error:', error);
+    res.status(500).json({
+      error: 'Internal server error fetching personas'
+    });
+    return;
+  }
+});
+
+// Create a new persona
+router.post('/', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = createPersonaSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.details?.[0]?.message
+      });
+      return;
+    }
+
+    const userId = (req as any).user.userId;
+    const { activate, ...personaData } = value;
+
+    const artistId = await personaService.getArtistIdForUser(userId);
+    if (!artistId) {
+      res.status(404).json({ error: 'Artist profile not found. Please create an artist profile first.' });
+      return;
+    }
+
+    const persona = await personaService.createPersona(artistId, personaData, { activate, changedBy: userId });
+
+    res.status(201).json({
+      message: 'Persona created successfully',
+      persona
+    });
+    return;
+
+  } catch (error) {
+    console.error('Create persona error:', error);
+    res.status(500).json({
+      error: 'Internal server error creating persona'
+    });
+    return;
+  }
+});
+
+// Clone a persona into a new inactive persona
+router.post('/:id/clone', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = clonePersonaSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.details?.[0]?.message
+      });
+      return;
+    }
+
+    const userId = (req as any).user.userId;
+    const source = await personaService.getOwnedPersona(req.params.id as string, userId);
+
+    if (!source) {
+      res.status(404).json({ error: 'Persona not found or you do not have permission to clone it' });
+      return;
+    }
+
+    const persona = await personaService.clonePersona(source, value.persona_name, userId);
+
+    res.status(201).json({
+      message: 'Persona cloned successfully',
+      source_persona_id: source.id,
+      persona
+    });
+    return;
+
+  } catch (error) {
+    console.error('Clone persona error:', error);
+    res.status(500).json({
+      error: 'Internal server error cloning persona'
+    });
+    return;
+  }
+});
+
+// Archive a persona so it no longer shows up or can be activated
+router.post('/:id/archive', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const persona = await personaService.getOwnedPersona(req.params.id as string, userId);
+
+    if (!persona) {
+      res.status(404).json({ error: 'Persona not found or you do not have permission to archive it' });
+      return;
+    }
+
+    if (persona.is_active) {
+      res.status(409).json({ error: 'Cannot archive the active persona. Activate another persona first.' });
+      return;
+    }
+
+    if (persona.archived_at) {
+      res.status(409).json({ error: 'Persona is already archived' });
+      return;
+    }
+
+    const archived = await personaService.archivePersona(persona.id);
+
+    res.json({
+      message: 'Persona archived successfully',
+      persona: archived
+    });
+    return;
+
+  } catch (error) {
+    console.error('Archive persona error:', error);
+    res.status(500).json({
+      error: 'Internal server error archiving persona'
+    });
+    return;
+  }
+});
+
+// Make a persona the artist's active persona
+router.put('/:id/activate', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const persona = await personaService.getOwnedPersona(req.params.id as string, userId);
+
+    if (!persona) {
+      res.status(404).json({ error: 'Persona not found or you do not have permission to activate it' });
+      return;
+    }
+
+    if (persona.archived_at) {
+      res.status(409).json({ error: 'Archived personas cannot be activated' });
+      return;
+    }
+
+    const activated = persona.is_active
+      ? persona
+      : await personaService.activatePersona(persona.artist_id, persona.id);
+
+    res.json({
+      message: 'Persona activated successfully',
+      persona: activated
+    });
+    return;
+
+  } catch (error) {
+    console.error('Activate persona error:', error);
+    res.status(500).json({
+      error: 'Internal server error activating persona'
+    });
+    return;
+  }
+});
+
+// List a persona's version history
+router.get('/:id/versions', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+    const persona = await personaService.getOwnedPersona(req.params.id as string, userId);
+
+    if (!persona) {
+      res.status(404).json({ error: 'Persona not found or you do not have permission to view it' });
+      return;
+    }
+
+    const versions = await personaService.listVersions(persona.id);
+
+    res.json({
+      persona_id: persona.id,
+      current_version: versions[0]?.version_number ?? null,
+      versions,
+      total: versions.length
+    });
+    return;
+
+  } catch (error) {
+    console.error('List persona versions error:', error);
+    res.status(500).json({
+      error: 'Internal server error fetching persona versions'
+    });
+    return;
+  }
+});
+
+// Field-level diff between two versions (defaults to the latest change)
+router.get('/:id/versions/diff', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { error, value } = versionDiffSchema.validate(req.query);
+    if (error) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.details?.[0]?.message
+      });
+      return;
+    }
+
+    const userId = (req as any).user.userId;
+    const persona = await personaService.getOwnedPersona(req.params.id as string, userId);
+
+    if (!persona) {
+      res.status(404).json({ error: 'Persona not found or you do not have permission to view it' });
+      return;
+    }
+
+    const toNumber = value.to ?? (await personaService.getLatestVersion(persona.id))?.version_number;
+    const fromNumber = value.from ?? (toNumber !== undefined ? toNumber - 1 : undefined);
+
+    const [fromVersion, toVersion] = await Promise.all([
+      fromNumber !== undefined ? personaService.getVersion(persona.id, fromNumber) : null,
+      toNumber !== undefined ? personaService.getVersion(persona.id, toNumber) : null
+    ]);
+
+    if (!fromVersion || !toVersion) {
+      res.status(404).json({ error: 'Persona version not found' });
+      return;
+    }
+
+    res.json({
+      persona_id: persona.id,
+      from: { version_number: fromVersion.version_number, created_at: fromVersion.created_at, changed_by: fromVersion.changed_by_email ?? fromVersion.changed_by },
+      to: { version_number: toVersion.version_number, created_at: toVersion.created_at, changed_by: toVersion.changed_by_email ?? toVersion.changed_by },
+      changes: diffPersonaVersions(fromVersion, toVersion)
+    });
+    return;
+
+  } catch (error) {
+    console.error('Diff persona versions error:', error);
+    res.status(500).json({
+      error: 'Internal server error comparing persona versions'
+    });
+    return;
+  }
+});
+
+// Get a single persona version
+router.get('/:id/versions/:version', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const versionNumber = parseInt(String(req.params.version), 10);
+    if (Number.isNaN(versionNumber) || versionNumber < 1) {
+      res.status(400).json({ error: 'Version must be a positive integer' });
+      return;
+    }
+
+    const userId = (req as any).user.userId;
+    const persona = await personaService.getOwnedPersona(req.params.id as string, userId);
+
+    if (!persona) {
+      res.status(404).json({ error: 'Persona not found or you do not have permission to view it' });
+      return;
+    }
+
+    const version = await personaService.getVersion(persona.id, versionNumber);
+    if (!version) {
+      res.status(404).json({ error: 'Persona version not found' });
+      return;
+    }
+
+    res.json({ version });
+    return;
+
+  } catch (error) {
+    console.error('Get persona version error:', error);
+    res.status(500).json({
+      error: 'Internal server error fetching persona version'
+    });
+    return;
+  }
+});
+
+// Roll a persona back to an earlier version (recorded as a new version)
+router.post('/:id/versions/:version/rollback', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const versionNumber = parseInt(String(req.params.version), 10);
+    if (Number.isNaN(versionNumber) || versionNumber < 1) {
+      res.status(400).json({ error: 'Version must be a positive integer' });
+      return;
+    }
+
+    const userId = (req as any).user.userId;
+    const persona = await personaService.getOwnedPersona(req.params.id as string, userId);
+
+    if (!persona) {
+      res.status(404).json({ error: 'Persona not found or you do not have permission to update it' });
+      return;
+    }
+
+    const version = await personaService.getVersion(persona.id, versionNumber);
+    if (!version) {
+      res.status(404).json({ error: 'Persona version not found' });
+      return;
+    }
+
+    const result = await personaService.rollbackToVersion(persona.id, version, userId);
+
+    res.json({
+      message: `Persona rolled back to version ${versionNumber}`,
+      persona: result.persona,
+      version_number: result.version?.version_number ?? null
+    });
+    return;
+
+  } catch (error) {
+    console.error('Rollback persona error:', error);
+    res.status(500).json({
+      error: 'Internal server error rolling back persona'
+    });
+    return;
+  }
+});
+
 // Update persona details directly
 router.put('/:id', authenticateToken, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -267,7 +639,7 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response): Promi
     }
 
     const userId = (req as any).user.userId;
-    const personaId = req.params.id;
+    const personaId = req.params.id as string;
 
     // Verify the persona belongs to the user
     const ownershipQuery = `
@@ -348,11 +720,17 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response): Promi
       RETURNING id, persona_name, description, tone, target_audience, key_themes, voice_characteristics, created_at, updated_at, is_active
     `;
 
-    const result = await pool.query(updateQuery, updateValues);
+    const { result, version } = await personaService.updateWithVersion(
+      personaId,
+      userId,
+      'manual',
+      client => client.query(updateQuery, updateValues)
+    );
 
     res.json({
       message: 'Persona updated successfully',
-      persona: result.rows[0]
+      persona: result.rows[0],
+      version_number: version?.version_number ?? null
     });
     return;
 
@@ -366,7 +744,7 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response): Promi
 });
 
 // Helper function to update persona from questionnaire responses
-async function updatePersonaFromResponses(personaId: string, responses: any[]): Promise<void> {
+async function updatePersonaFromResponses(personaId: string, responses: any[], userId: string): Promise<void> {
   try {
     // Extract key information from responses
     let tone = '';
@@ -400,7 +778,12 @@ async function updatePersonaFromResponses(personaId: string, responses: any[]):
       WHERE id = $1
     `;
     
-    await pool.query(updateQuery, [personaId, tone, targetAudience, keyThemes]);
+    await personaService.updateWithVersion(
+      personaId,
+      userId,
+      'questionnaire',
+      client => client.query(updateQuery, [personaId, tone, targetAudience, keyThemes])
+    );
     return;
     
   } catch (error) {
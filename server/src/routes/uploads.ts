@@ -3,9 +3,20 @@ import jwt from 'jsonwebtoken';
 import pool from '../Config/connection';
 import { upload, FileProcessors, getFileProcessor } from '../Config/upload';
 import authenticateToken, { AuthRequest } from '../middleware/authenticateToken';
+import Joi from 'joi';
+import personaService from '../services/personaService';
+import transcriptAnalysisService, { ProposalField } from '../services/transcriptAnalysisService';
 
 const router = Router();
 
+const acceptProposalSchema = Joi.object({
+  fields: Joi.array()
+    .items(Joi.string().valid('key_themes', 'voice_characteristics'))
+    .min(1)
+    .unique()
+    .default(['key_themes', 'voice_characteristics'])
+});
+
 // Upload persona questionnaire file
 router.post('/persona/questionnaire', authenticateToken, upload.single('file'), async (req: AuthRequest, res: Response) => {
   try {
@@ -75,44 +86,36 @@ router.post('/persona/questionnaire', authenticateToken, upload.single('file'),
       });
     }
 
-    // First try to get existing persona, then create if not exists
-    let personaId;
-    const existingPersonaQuery = 'SELECT id FROM artist_personas WHERE artist_id = $1';
-    const existingPersonaResult = await pool.query(existingPersonaQuery, [artistId]);
+    // Attach responses to the active persona, creating the first persona if needed
+    let personaId: string;
+    const activePersona = await personaService.getActivePersona(artistId);
     
-    if (existingPersonaResult.rows.length > 0) {
-      personaId = existingPersonaResult.rows[0].id;
+    if (activePersona) {
+      personaId = activePersona.id;
       // Update the existing persona
       const updateQuery = `
         UPDATE artist_personas 
         SET updated_at = CURRENT_TIMESTAMP, description = $1
         WHERE id = $2
       `;
-      await pool.query(updateQuery, [
+      await personaService.updateWithVersion(personaId, userId, 'upload', client => client.query(updateQuery, [
         `Generated from uploaded file: ${file.originalname}`,
         personaId
-      ]);
+      ]));
     } else {
-      // Create new persona
-      const insertQuery = `
-        INSERT INTO artist_personas (artist_id, persona_name, description)
-        VALUES ($1, $2, $3)
-        RETURNING id
-      `;
-      const insertResult = await pool.query(insertQuery, [
-        artistId,
-        'Main Persona',
-        `Generated from uploaded file: ${file.originalname}`
-      ]);
+      const createdPersona = await personaService.createPersona(artistId, {
+        persona_name: 'Main Persona',
+        description: `Generated from uploaded file: ${file.originalname}`
+      }, { activate: true, changedBy: userId, source: 'upload' });
       
-      if (!insertResult.rows || insertResult.rows.length === 0 || !insertResult.rows[0]?.id) {
+      if (!createdPersona?.id) {
         await FileProcessors.cleanupFile(file.path);
         return res.status(500).json({ 
           error: 'Failed to create persona record' 
         });
       }
       
-      personaId = insertResult.rows[0].id;
+      personaId = createdPersona.id;
     }
 
     let savedCount = 0;
@@ -175,7 +178,7 @@ router.post('/persona/transcript', authenticateToken, upload.single('file'), asy
     const { source_url, source_type } = req.body;
 
     const artistQuery = `
-      SELECT a.id as artist_id, p.id as persona_id 
+      SELECT a.id as artist_id, p.id as persona_id, p.key_themes
       FROM artists a
       LEFT JOIN artist_personas p ON a.id = p.artist_id AND p.is_active = true
       WHERE a.user_id = $1
@@ -189,7 +192,7 @@ router.post('/persona/transcript', authenticateToken, upload.single('file'), asy
       });
     }
 
-    const { persona_id } = result.rows[0];
+    const { persona_id, key_themes } = result.rows[0];
 
     const processor = getFileProcessor(file.mimetype);
     let transcriptText: string;
@@ -204,10 +207,12 @@ router.post('/persona/transcript', authenticateToken, upload.single('file'), asy
       });
     }
 
+    const analysis = transcriptAnalysisService.analyzeTranscript(transcriptText, { key_themes });
+
     const insertTranscriptQuery = `
       INSERT INTO persona_transcripts 
-      (persona_id, transcript_text, source_url, source_type, processed_at)
-      VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+      (persona_id, transcript_text, source_url, source_type, analysis_results, processed_at)
+      VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)
       RETURNING id
     `;
     
@@ -215,7 +220,8 @@ router.post('/persona/transcript', authenticateToken, upload.single('file'), asy
       persona_id,
       transcriptText,
       source_url || `Uploaded file: ${file.originalname}`,
-      source_type || 'uploaded_file'
+      source_type || 'uploaded_file',
+      JSON.stringify(analysis)
     ]);
 
     await FileProcessors.cleanupFile(file.path);
@@ -227,7 +233,8 @@ router.post('/persona/transcript', authenticateToken, upload.single('file'), asy
       file_name: file.originalname,
       file_size: file.size,
       transcript_length: transcriptText.length,
-      source_type: source_type || 'uploaded_file'
+      source_type: source_type || 'uploaded_file',
+      analysis
     });
 
   } catch (error) {
@@ -257,6 +264,7 @@ router.get('/persona/files', authenticateToken, async (req: AuthRequest, res: Re
         pt.processed_at,
         pt.created_at,
         LENGTH(pt.transcript_text) as transcript_length,
+        pt.analysis_results->>'proposal_status' as proposal_status,
         p.persona_name,
         a.artist_name
       FROM persona_transcripts pt
@@ -281,6 +289,144 @@ router.get('/persona/files', authenticateToken, async (req: AuthRequest, res: Re
   }
 });
 
+// Get the stored analysis for a transcript
+router.get('/persona/transcript/:id/analysis', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = (req.user as any)?.userId;
+    const transcript = await transcriptAnalysisService.getTranscriptForUser(req.params.id as string, userId);
+
+    if (!transcript) {
+      return res.status(404).json({ error: 'Transcript not found or access denied' });
+    }
+
+    return res.json({
+      transcript_id: transcript.id,
+      persona_id: transcript.persona_id,
+      analysis: transcript.analysis_results
+    });
+
+  } catch (error) {
+    console.error('Get transcript analysis error:', error);
+    return res.status(500).json({ 
+      error: 'Internal server error fetching transcript analysis' 
+    });
+  }
+});
+
+// Re-run the analysis against the persona's current themes
+router.post('/persona/transcript/:id/analyze', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = (req.user as any)?.userId;
+    const transcript = await transcriptAnalysisService.getTranscriptForUser(req.params.id as string, userId);
+
+    if (!transcript) {
+      return res.status(404).json({ error: 'Transcript not found or access denied' });
+    }
+
+    const persona = await personaService.getOwnedPersona(transcript.persona_id, userId);
+    const analysis = transcriptAnalysisService.analyzeTranscript(transcript.transcript_text, persona);
+    await transcriptAnalysisService.saveAnalysis(transcript.id, analysis);
+
+    return res.json({
+      message: 'Transcript analyzed successfully',
+      transcript_id: transcript.id,
+      persona_id: transcript.persona_id,
+      analysis
+    });
+
+  } catch (error) {
+    console.error('Analyze transcript error:', error);
+    return res.status(500).json({ 
+      error: 'Internal server error analyzing transcript' 
+    });
+  }
+});
+
+// Accept the proposed key_themes / voice_characteristics updates
+router.post('/persona/transcript/:id/proposal/accept', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { error, value } = acceptProposalSchema.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({ 
+        error: 'Validation error', 
+        details: error.details?.[0]?.message 
+      });
+    }
+
+    const userId = (req.user as any)?.userId;
+    const transcript = await transcriptAnalysisService.getTranscriptForUser(req.params.id as string, userId);
+
+    if (!transcript) {
+      return res.status(404).json({ error: 'Transcript not found or access denied' });
+    }
+
+    if (!transcript.analysis_results) {
+      return res.status(409).json({ error: 'Transcript has not been analyzed yet' });
+    }
+
+    if (transcript.analysis_results.proposal_status !== 'pending') {
+      return res.status(409).json({ 
+        error: `Proposal has already been ${transcript.analysis_results.proposal_status}` 
+      });
+    }
+
+    const { persona, analysis } = await transcriptAnalysisService.acceptProposal(
+      transcript,
+      userId,
+      value.fields as ProposalField[]
+    );
+
+    return res.json({
+      message: 'Proposal accepted and applied to persona',
+      transcript_id: transcript.id,
+      persona,
+      analysis
+    });
+
+  } catch (error) {
+    console.error('Accept transcript proposal error:', error);
+    return res.status(500).json({ 
+      error: 'Internal server error accepting proposal' 
+    });
+  }
+});
+
+// Reject the proposed updates, leaving the persona untouched
+router.post('/persona/transcript/:id/proposal/reject', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = (req.user as any)?.userId;
+    const transcript = await transcriptAnalysisService.getTranscriptForUser(req.params.id as string, userId);
+
+    if (!transcript) {
+      return res.status(404).json({ error: 'Transcript not found or access denied' });
+    }
+
+    if (!transcript.analysis_results) {
+      return res.status(409).json({ error: 'Transcript has not been analyzed yet' });
+    }
+
+    if (transcript.analysis_results.proposal_status !== 'pending') {
+      return res.status(409).json({ 
+        error: `Proposal has already been ${transcript.analysis_results.proposal_status}` 
+      });
+    }
+
+    const analysis = await transcriptAnalysisService.rejectProposal(transcript, userId);
+
+    return res.json({
+      message: 'Proposal rejected',
+      transcript_id: transcript.id,
+      analysis
+    });
+
+  } catch (error) {
+    console.error('Reject transcript proposal error:', error);
+    return res.status(500).json({ 
+      error: 'Internal server error rejecting proposal' 
+    });
+  }
+});
+
 // Delete uploaded transcript
 router.delete('/persona/transcript/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
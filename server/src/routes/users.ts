@@ -3,6 +3,9 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import Joi from 'joi';
 import pool from '../Config/connection';
+import personaService from '../services/personaService';
+import aiUsageService from '../services/aiUsageService';
+import notificationService from '../services/notificationService';
 
 const router = Router();
 
@@ -19,6 +22,15 @@ const loginSchema = Joi.object({
   password: Joi.string().required(),
 });
 
+const notificationsQuerySchema = Joi.object({
+  unread_only: Joi.boolean().optional().default(false),
+  limit: Joi.number().integer().min(1).max(100).optional().default(20),
+});
+
+const markReadSchema = Joi.object({
+  ids: Joi.array().items(Joi.string().guid()).max(100).optional(),
+});
+
 /* ---------------------------------------------------
    🔹 User Registration
 --------------------------------------------------- */
@@ -205,6 +217,76 @@ router.get('/me', authenticateToken, async (req: Request, res: Response): Promis
   }
 });
 
+/* ---------------------------------------------------
+   🔹 Get AI Usage and Remaining Quota (Protected Route)
+--------------------------------------------------- */
+router.get('/me/usage', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+
+    const artistId = await personaService.getArtistIdForUser(userId);
+    const usage = await aiUsageService.getUsage(userId, artistId);
+
+    res.json({ usage });
+  } catch (error) {
+    console.error('Get AI usage error:', error);
+    res.status(500).json({
+      error: 'Internal server error fetching AI usage',
+    });
+  }
+});
+
+/* ---------------------------------------------------
+   🔹 Get Notifications (Protected Route)
+--------------------------------------------------- */
+router.get('/me/notifications', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+
+    const { error, value } = notificationsQuerySchema.validate(req.query);
+    if (error) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.details?.[0]?.message,
+      });
+      return;
+    }
+
+    res.json(await notificationService.list(userId, value));
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      error: 'Internal server error fetching notifications',
+    });
+  }
+});
+
+/* ---------------------------------------------------
+   🔹 Mark Notifications Read (Protected Route) - all of them when no ids are given
+--------------------------------------------------- */
+router.post('/me/notifications/read', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user.userId;
+
+    const { error, value } = markReadSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.details?.[0]?.message,
+      });
+      return;
+    }
+
+    const updated = await notificationService.markRead(userId, value.ids);
+    res.json({ message: 'Notifications marked as read', updated });
+  } catch (error) {
+    console.error('Mark notifications read error:', error);
+    res.status(500).json({
+      error: 'Internal server error updating notifications',
+    });
+  }
+});
+
 /* ---------------------------------------------------
    🔹 Get User Profile (Protected Route) - Alias for /me
 --------------------------------------------------- */
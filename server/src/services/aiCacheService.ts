@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import NodeCache from 'node-cache';
+import pool from '../Config/connection';
+
+// Two-tier cache for AI results: in-process NodeCache first, then the shared ai_cache table.
+// Keys are scoped by persona (persona:<id>:<namespace>:<hash>) so a persona change can drop all of its entries.
+
+const DEFAULT_TTL_SECONDS = parseInt(process.env.AI_CACHE_TTL_SECONDS || '3600');
+
+export interface CacheSetOptions {
+  ttlSeconds?: number;
+  // Memory-only entries are cheap to recompute and not worth a database round trip
+  persist?: boolean;
+}
+
+export interface AICacheStats {
+  since: string;
+  memory: {
+    keys: number;
+    hits: number;
+    misses: number;
+  };
+  database: {
+    enabled: boolean;
+    entries: number | null;
+    active_entries: number | null;
+    expired_entries: number | null;
+    oldest_entry_at: string | null;
+    hits: number;
+  };
+  hit_rate: number | null;
+  writes: number;
+  invalidations: number;
+}
+
+class AICacheService {
+  private memory = new NodeCache({ stdTTL: DEFAULT_TTL_SECONDS, checkperiod: 600 });
+  private since = new Date();
+  private counters = { memoryHits: 0, databaseHits: 0, misses: 0, writes: 0, invalidations: 0 };
+
+  private get persistEnabled(): boolean {
+    return process.env.AI_CACHE_PERSIST !== 'false';
+  }
+
+  buildKey(personaId: string | null | undefined, namespace: string, data: unknown): string {
+    const hash = crypto.createHash('md5').update(JSON.stringify(data)).digest('hex');
+    return `persona:${personaId || 'none'}:${namespace}:${hash}`;
+  }
+
+  // Memory first; a database hit is copied back into memory for the rest of its lifetime
+  async get<T>(key: string, options: Pick<CacheSetOptions, 'persist'> = {}): Promise<T | undefined> {
+    const cached = this.memory.get<T>(key);
+    if (cached !== undefined) {
+      this.counters.memoryHits++;
+      return cached;
+    }
+
+    if (options.persist === false || !this.persistEnabled) {
+      this.counters.misses++;
+      return undefined;
+    }
+
+    try {
+      const result = await pool.query(
+        `SELECT cache_data, EXTRACT(EPOCH FROM (expires_at - CURRENT_TIMESTAMP)) AS ttl_seconds
+         FROM ai_cache
+         WHERE cache_key = $1 AND expires_at > CURRENT_TIMESTAMP`,
+        [key]
+      );
+      const row = result.rows[0];
+      if (row) {
+        this.counters.databaseHits++;
+        this.memory.set(key, row.cache_data, Math.max(1, Math.floor(Number(row.ttl_seconds))));
+        return row.cache_data as T;
+      }
+    } catch (error) {
+      // Treat an unavailable table as a miss; the memory tier keeps working
+      console.warn('AI cache lookup failed', { key, error });
+    }
+
+    this.counters.misses++;
+    return undefined;
+  }
+
+  async set<T>(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+    const ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    this.memory.set(key, value, ttlSeconds);
+    this.counters.writes++;
+
+    if (options.persist === false || !this.persistEnabled) return;
+
+    try {
+      await pool.query(
+        `INSERT INTO ai_cache (cache_key, cache_data, expires_at)
+         VALUES ($1, $2, CURRENT_TIMESTAMP + make_interval(secs => $3))
+         ON CONFLICT (cache_key) DO UPDATE
+         SET cache_data = EXCLUDED.cache_data, expires_at = EXCLUDED.expires_at, created_at = CURRENT_TIMESTAMP`,
+        [key, JSON.stringify(value), ttlSeconds]
+      );
+    } catch (error) {
+      console.warn('AI cache write failed', { key, error });
+    }
+  }
+
+  // Drop every entry generated for a persona, in both tiers; returns how many were removed
+  async invalidatePersona(personaId: string): Promise<number> {
+    return this.invalidatePrefix(`persona:${personaId}:`);
+  }
+
+  async invalidatePersonas(personaIds: string[]): Promise<number> {
+    let removed = 0;
+    for (const personaId of personaIds) {
+      removed += await this.invalidatePersona(personaId);
+    }
+    return removed;
+  }
+
+  // Remove expired rows using the cleanup function from migration 002
+  async purgeExpired(): Promise<number> {
+    const expired = await pool.query(`SELECT COUNT(*)::int AS count FROM ai_cache WHERE expires_at < CURRENT_TIMESTAMP`);
+    await pool.query('SELECT cleanup_expired_cache()');
+    return expired.rows[0]?.count ?? 0;
+  }
+
+  async getStats(): Promise<AICacheStats> {
+    const memoryStats = this.memory.getStats();
+    const database: AICacheStats['database'] = {
+      enabled: this.persistEnabled,
+      entries: null,
+      active_entries: null,
+      expired_entries: null,
+      oldest_entry_at: null,
+      hits: this.counters.databaseHits
+    };
+
+    if (this.persistEnabled) {
+      const result = await pool.query(
+        `SELECT COUNT(*)::int AS entries,
+                COUNT(*) FILTER (WHERE expires_at > CURRENT_TIMESTAMP)::int AS active_entries,
+                COUNT(*) FILTER (WHERE expires_at <= CURRENT_TIMESTAMP)::int AS expired_entries,
+                MIN(created_at) AS oldest_entry_at
+         FROM ai_cache`
+      );
+      const row = result.rows[0] ?? {};
+      database.entries = row.entries ?? 0;
+      database.active_entries = row.active_entries ?? 0;
+      database.expired_entries = row.expired_entries ?? 0;
+      database.oldest_entry_at = row.oldest_entry_at ? new Date(row.oldest_entry_at).toISOString() : null;
+    }
+
+    const lookups = this.counters.memoryHits + this.counters.databaseHits + this.counters.misses;
+
+    return {
+      since: this.since.toISOString(),
+      memory: {
+        keys: memoryStats.keys,
+        hits: this.counters.memoryHits,
+        misses: lookups - this.counters.memoryHits
+      },
+      database,
+      hit_rate: lookups > 0 ? Math.round(((this.counters.memoryHits + this.counters.databaseHits) / lookups) * 1000) / 1000 : null,
+      writes: this.counters.writes,
+      invalidations: this.counters.invalidations
+    };
+  }
+
+  private async invalidatePrefix(prefix: string): Promise<number> {
+    const memoryKeys = this.memory.keys().filter(key => key.startsWith(prefix));
+    this.memory.del(memoryKeys);
+    this.counters.invalidations++;
+
+    if (!this.persistEnabled) return memoryKeys.length;
+
+    const result = await pool.query(
+      `DELETE FROM ai_cache WHERE cache_key LIKE $1`,
+      [`${prefix.replace(/[\\%_]/g, match => `\\${match}`)}%`]
+    );
+    return Math.max(memoryKeys.length, result.rowCount ?? 0);
+  }
+}
+
+// Export singleton instance
+export const aiCacheService = new AICacheService();
+export default aiCacheService;
@@ -1,27 +1,21 @@
-import { HfInference } from '@huggingface/inference';
-import OpenAI from 'openai';
-import NodeCache from 'node-cache';
 import { RateLimiterMemory } from 'rate-limiter-flexible';
-import Groq from 'groq-sdk';
-import { CohereClientV2 } from 'cohere-ai';
-
-// Initialize AI clients
-const hf = new HfInference(process.env.HUGGINGFACE_API_KEY);
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || 'dummy-key-for-testing'
-});
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY || 'dummy-groq-key'
-});
-const cohere = new CohereClientV2({
-  token: process.env.COHERE_API_KEY || 'dummy-cohere-key'
-});
-
-// Initialize cache with TTL from environment
-const cache = new NodeCache({ 
-  stdTTL: parseInt(process.env.AI_CACHE_TTL_SECONDS || '3600'),
-  checkperiod: 600 
-});
+import { VoiceExample } from './transcriptRetrievalService';
+import { PostExample } from './postExampleService';
+import templateService, { TemplateVariable } from './templateService';
+import providerRegistry, { AIProvider, ProviderCompletion, ProviderRequest, ProviderStatus } from './providers';
+import { backoffDelay, isRetryableError, retryPolicy, sleep, timeoutFor, withTimeout } from './providers/resilience';
+import generationLogService, { GenerationRequestType } from './generationLogService';
+import aiCacheService from './aiCacheService';
+import aiUsageService from './aiUsageService';
+import { PlatformName, PlatformProfile, checkPlatformFit, describePlatformProfile, fitToPlatform, getPlatformProfile, platformTokenBudget } from './platformProfiles';
+import {
+  ContentFormat, ContentPart, DEFAULT_PART_COUNT, buildParts, checkParts, describeMultipartFormat, formatPlatform,
+  isMultipart, multipartTokenBudget, parseParts, partCharLimit
+} from './contentFormats';
+import { brandConsistencyScore, engagementScore, extractQualityFeatures, readabilityScore } from './qualityFeatures';
+import scoringModelService, { calibratedScore, predictEngagement } from './scoringModelService';
+import qualityScorers, { QualitySpan, ScorerBreakdown } from './qualityScorers';
+import { applyStyleGuide, checkStyleGuide, describeStyleGuide, readStyleGuide, rewriteWords } from './styleGuide';
 
 // Rate limiter for AI API calls
 const rateLimiter = new RateLimiterMemory({
@@ -30,6 +24,9 @@ const rateLimiter = new RateLimiterMemory({
   duration: 60, // Per 60 seconds
 });
 
+// JSON variable filling for a template needs more room than a short post
+const TEMPLATE_MIN_TOKENS = 400;
+
 // Content generation interfaces
 export interface PersonaData {
   artist_id: any;
@@ -40,6 +37,9 @@ export interface PersonaData {
   key_themes: string[];
   voice_characteristics: any;
   questionnaire_responses: any[];
+  persona_version_id?: string | null;
+  persona_version_number?: number | null;
+  artist_name?: string;
 }
 
 export interface ContentTemplate {
@@ -53,10 +53,20 @@ export interface ContentTemplate {
 export interface ContentGenerationParams {
   persona: PersonaData;
   template?: ContentTemplate;
-  content_type: 'announcement' | 'release' | 'news' | 'social_post' | 'story';
+  content_type: 'announcement' | 'release' | 'news' | 'social_post' | 'story' | 'quote_card';
   context?: string;
   max_length?: number;
   variations?: number;
+  voice_examples?: VoiceExample[];
+  // The artist's approved posts of the same kind, shown as examples of the finished article
+  post_examples?: PostExample[];
+  // Where the post goes; prompts, trimming and scoring follow that platform's profile
+  platform?: PlatformName | undefined;
+  // Threads and carousels come back as ordered parts; 'single' (the default) is one post
+  format?: ContentFormat | undefined;
+  parts?: number | undefined;
+  // Who asked; provider calls are logged and counted against this user's quota
+  user_id?: string | undefined;
 }
 
 export interface GeneratedContent {
@@ -66,6 +76,25 @@ export interface GeneratedContent {
   generation_params: any;
   model_used: string;
   generated_at: Date;
+  template_variables?: Record<string, any>;
+  template_warnings?: string[];
+  platform_adjustments?: string[];
+  format?: ContentFormat;
+  parts?: ContentPart[];
+  format_warnings?: string[];
+  // What the artist's style guide rewrote, and the rules the final text still breaks
+  style_adjustments?: string[];
+  style_violations?: string[];
+}
+
+// Posts a transcript moment can be turned into
+export type RepurposeKind = 'quote_card' | 'story' | 'social_post';
+
+export const REPURPOSE_KINDS: RepurposeKind[] = ['quote_card', 'story', 'social_post'];
+
+export interface StreamHandlers {
+  onToken: (variationId: number, token: string) => void;
+  onVariation: (variation: GeneratedContent) => void | Promise<void>;
 }
 
 export interface ContentQualityMetrics {
@@ -75,44 +104,70 @@ export interface ContentQualityMetrics {
   brand_consistency: number;
   issues: string[];
   suggestions: string[];
+  // 'calibrated' when the score comes from the artist's scoring model rather than the fixed weights
+  scoring_model?: 'fixed' | 'calibrated';
+  predicted_engagement_rate?: number | undefined;
+  // One entry per scorer, and all their highlighted spans in text order
+  breakdown?: ScorerBreakdown[];
+  spans?: QualitySpan[];
 }
 
 class AIContentService {
-  private cacheKey(prefix: string, data: any): string {
-    const hash = require('crypto')
-      .createHash('md5')
-      .update(JSON.stringify(data))
-      .digest('hex');
-    return `${prefix}_${hash}`;
+  // Token budget per call; template mode answers in JSON, which needs more room than a bare post.
+  // Without an explicit max_length the platform profile sets the budget; multi-part posts need room for every part.
+  private maxTokens(params: ContentGenerationParams): number {
+    if (isMultipart(params.format)) {
+      return multipartTokenBudget(params.format, params.parts || DEFAULT_PART_COUNT, formatPlatform(params.format, params.platform));
+    }
+    const profile = getPlatformProfile(params.platform);
+    const base = params.max_length || (profile ? platformTokenBudget(profile) : 150);
+    return params.template ? Math.max(base, TEMPLATE_MIN_TOKENS) : base;
   }
 
-  // Rate limiting wrapper for AI calls
-  private async withRateLimit<T>(operation: () => Promise<T>): Promise<T> {
+  // Rate limiting for AI calls; consumed per attempt, outside the provider's failure accounting
+  private async consumeRateLimit(): Promise<void> {
     await rateLimiter.consume('ai_request');
-    return operation();
   }
 
-  // Generate persona-consistent content using Groq (primary), Cohere (fallback), then Hugging Face
+  // Token counts as reported by the provider, estimated from the text when it reports none
+  private completionUsage(request: ProviderRequest, completion: ProviderCompletion): { prompt_tokens: number; completion_tokens: number } {
+    return {
+      prompt_tokens: completion.usage?.prompt_tokens ?? aiUsageService.estimateTokens(request.systemPrompt + request.userPrompt),
+      completion_tokens: completion.usage?.completion_tokens ?? aiUsageService.estimateTokens(completion.text)
+    };
+  }
+
+  // Generate persona-consistent content, trying each provider in the configured fallback chain
   async generateContent(params: ContentGenerationParams): Promise<GeneratedContent[]> {
-    try {
-      return await this.generateContentWithGroq(params);
-    } catch (groqError) {
-      console.log('Groq failed, falling back to Hugging Face:', groqError);
-      return await this.generateContentWithHuggingFace(params);
+    const chain = providerRegistry.fallbackChain();
+    if (chain.length === 0) {
+      throw new Error('No AI provider configured');
     }
-  }
 
-  // Generate content using Groq
-  async generateContentWithGroq(params: ContentGenerationParams): Promise<GeneratedContent[]> {
-    if (!process.env.GROQ_API_KEY || process.env.GROQ_API_KEY === 'dummy-groq-key') {
-      throw new Error('Groq API key not configured');
+    let lastError: unknown;
+    for (const provider of chain) {
+      try {
+        return await this.generateWithProvider(provider.name, params);
+      } catch (error) {
+        lastError = error;
+        console.log(`${provider.label} failed, trying next provider:`, error);
+      }
     }
 
-    const cacheKey = this.cacheKey('groq_content_gen', params);
-    const cached = cache.get<GeneratedContent[]>(cacheKey);
+    throw lastError;
+  }
+
+  // Generate variations with one named provider
+  async generateWithProvider(providerName: string, params: ContentGenerationParams): Promise<GeneratedContent[]> {
+    const provider = this.getConfiguredProvider(providerName);
+
+    // The result depends on the persona and request, not on who asked
+    const { user_id, ...cacheParams } = params;
+    const cacheKey = aiCacheService.buildKey(params.persona.id, `${provider.name}_content_gen`, cacheParams);
+    const cached = await aiCacheService.get<GeneratedContent[]>(cacheKey);
 
     if (cached) {
-      console.log('Returning cached Groq content generation result');
+      console.log(`Returning cached ${provider.label} content generation result`);
       return cached;
     }
 
@@ -120,271 +175,493 @@ class AIContentService {
       const variations = params.variations || 3;
       const results: GeneratedContent[] = [];
 
-      const systemPrompt = this.buildSystemPrompt(params.persona);
-      const userPrompt = this.buildUserPrompt(params.content_type, params.context);
-
       for (let i = 0; i < variations; i++) {
-        const response = await this.withRateLimit(async () => {
-          return await groq.chat.completions.create({
-            model: 'llama-3.1-8b-instant',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt }
-            ],
-            max_tokens: params.max_length || 150,
-            temperature: 0.7 + (i * 0.1),
-            top_p: 0.9,
-          });
-        });
-
-        const content = response.choices[0]?.message?.content?.trim();
-
-        if (content) {
-          const qualityScore = await this.scoreContentQuality(content, params.persona);
-
-          results.push({
-            content,
-            quality_score: qualityScore.score,
-            variation_id: i + 1,
-            generation_params: {
-              model: 'llama-3.1-8b-instant',
-              temperature: 0.7 + (i * 0.1),
-              max_tokens: params.max_length || 150,
-              content_type: params.content_type
-            },
-            model_used: 'groq',
-            generated_at: new Date()
-          });
-        }
+        const request = this.buildProviderRequest(params, i + 1);
+        const completion = await this.callProvider(provider, request, params, (attemptRequest) => provider.complete(attemptRequest));
+
+        const variation = await this.finishVariation(completion, provider, request, params, i + 1);
+        if (variation) results.push(variation);
       }
 
+      this.assertTemplateFilled(params, results);
+
       // Sort by quality score
       results.sort((a, b) => b.quality_score - a.quality_score);
 
       // Cache results
-      cache.set(cacheKey, results);
+      await aiCacheService.set(cacheKey, results);
 
       return results;
 
     } catch (error) {
-      console.error('Groq content generation error:', error);
-      throw new Error(`Groq content generation failed: ${error}`);
+      console.error(`${provider.label} content generation error:`, error);
+      throw new Error(`${provider.label} content generation failed: ${error}`);
     }
   }
 
-  // Generate content using Cohere
-  async generateContentWithCohere(params: ContentGenerationParams): Promise<GeneratedContent[]> {
-    if (!process.env.COHERE_API_KEY || process.env.COHERE_API_KEY === 'dummy-cohere-key') {
-      throw new Error('Cohere API key not configured');
+  // Stream variations token by token; each finished variation is templated and scored before the next starts
+  async generateContentStream(
+    params: ContentGenerationParams,
+    providerName: string,
+    handlers: StreamHandlers,
+    signal?: AbortSignal
+  ): Promise<GeneratedContent[]> {
+    const chain = providerName === 'auto'
+      ? providerRegistry.fallbackChain().filter(provider => provider.stream)
+      : [this.getConfiguredProvider(providerName)];
+
+    if (chain.length === 0) {
+      throw new Error('No streaming AI provider configured');
     }
 
-    const cacheKey = this.cacheKey('cohere_content_gen', params);
-    const cached = cache.get<GeneratedContent[]>(cacheKey);
+    const variations = params.variations || 3;
+    const results: GeneratedContent[] = [];
+    let chainIndex = 0;
 
-    if (cached) {
-      console.log('Returning cached Cohere content generation result');
-      return cached;
-    }
+    for (let i = 0; i < variations; i++) {
+      if (signal?.aborted) break;
 
-    try {
-      const variations = params.variations || 3;
-      const results: GeneratedContent[] = [];
+      const variationId = i + 1;
+      const request = this.buildProviderRequest(params, variationId, signal);
+      let emitted = false;
+      const onToken = (token: string) => {
+        emitted = true;
+        handlers.onToken(variationId, token);
+      };
 
-      const systemPrompt = this.buildSystemPrompt(params.persona);
-      const userPrompt = this.buildUserPrompt(params.content_type, params.context);
-      const fullPrompt = `${systemPrompt}\n\nUser: ${userPrompt}\n\nAssistant:`;
+      let completion: ProviderCompletion | null = null;
+      let provider = chain[chainIndex]!;
 
-      for (let i = 0; i < variations; i++) {
-        const response = await this.withRateLimit(async () => {
-          return await cohere.generate({
-            model: 'command-r-plus',
-            prompt: fullPrompt,
-            maxTokens: params.max_length || 150,
-            temperature: 0.7 + (i * 0.1),
-            p: 0.9,
-          });
-        });
-
-        const content = response.generations?.[0]?.text?.trim();
-
-        if (content) {
-          const qualityScore = await this.scoreContentQuality(content, params.persona);
-
-          results.push({
-            content,
-            quality_score: qualityScore.score,
-            variation_id: i + 1,
-            generation_params: {
-              model: 'command-r-plus',
-              temperature: 0.7 + (i * 0.1),
-              maxTokens: params.max_length || 150,
-              content_type: params.content_type
-            },
-            model_used: 'cohere',
-            generated_at: new Date()
-          });
+      while (!completion) {
+        provider = chain[chainIndex]!;
+        if (!provider.stream) {
+          throw new Error(`${provider.label} does not support streaming`);
         }
-      }
 
-      // Sort by quality score
-      results.sort((a, b) => b.quality_score - a.quality_score);
+        try {
+          const streamingProvider = provider;
+          completion = await this.callProvider(
+            streamingProvider,
+            request,
+            params,
+            (attemptRequest, touch) => streamingProvider.stream!(attemptRequest, (token) => {
+              touch();
+              onToken(token);
+            }),
+            // Retrying after tokens went out would duplicate them on the client
+            { stream: true, canRetry: () => !emitted }
+          );
+        } catch (error) {
+          // Hand over to the next provider only if nothing was streamed for this variation yet
+          if (signal?.aborted || emitted || chainIndex >= chain.length - 1) throw error;
+          console.log(`${provider.label} stream failed, trying next provider:`, error);
+          chainIndex++;
+        }
+      }
 
-      // Cache results
-      cache.set(cacheKey, results);
+      const variation = await this.finishVariation(completion, provider, request, params, variationId, { stream: true });
+      if (!variation) continue;
 
-      return results;
+      results.push(variation);
+      await handlers.onVariation(variation);
+    }
 
-    } catch (error) {
-      console.error('Cohere content generation error:', error);
-      throw new Error(`Cohere content generation failed: ${error}`);
+    if (!signal?.aborted) {
+      this.assertTemplateFilled(params, results);
     }
+
+    return results;
   }
 
-  // Generate persona-consistent content using Hugging Face (fallback)
-  async generateContentWithHuggingFace(params: ContentGenerationParams): Promise<GeneratedContent[]> {
-    const cacheKey = this.cacheKey('content_gen', params);
-    const cached = cache.get<GeneratedContent[]>(cacheKey);
+  // Rewrite one post following an instruction ("shorter", "more hype", "add a question for fans").
+  // Not cached: asking again for the same change should be able to give a different take.
+  async refineContent(
+    params: ContentGenerationParams,
+    original: string,
+    instruction: string,
+    providerName = 'auto'
+  ): Promise<GeneratedContent> {
+    const chain = providerName === 'auto'
+      ? providerRegistry.fallbackChain()
+      : [this.getConfiguredProvider(providerName)];
+
+    if (chain.length === 0) {
+      throw new Error('No AI provider configured');
+    }
 
-    if (cached) {
-      console.log('Returning cached content generation result');
-      return cached;
+    // Refinement rewrites the finished post, so template variables don't apply
+    const { template, ...refineParams } = params;
+    const request = this.buildRefinementRequest(refineParams, original, instruction);
+
+    let lastError: unknown;
+    for (const provider of chain) {
+      try {
+        const completion = await this.callProvider(
+          provider,
+          request,
+          refineParams,
+          (attemptRequest) => provider.complete(attemptRequest),
+          { requestType: 'content_refinement', logParams: { instruction } }
+        );
+
+        const refined = await this.finishVariation(completion, provider, request, refineParams, 1, { instruction });
+        if (refined) return refined;
+        lastError = new Error(`${provider.label} returned an empty refinement`);
+      } catch (error) {
+        lastError = error;
+        console.log(`${provider.label} refinement failed, trying next provider:`, error);
+      }
     }
 
-    try {
-      const variations = params.variations || 3;
-      const results: GeneratedContent[] = [];
+    throw lastError;
+  }
 
-      // Build persona-aware prompt
-      const personaPrompt = this.buildPersonaPrompt(params.persona, params.content_type, params.context);
+  // Write one post around a line the artist said in a transcript, walking the fallback chain like refinement.
+  // Not cached: each repurposing run is a fresh batch of drafts.
+  async repurposeQuote(
+    params: ContentGenerationParams,
+    quote: string,
+    kind: RepurposeKind,
+    providerName = 'auto'
+  ): Promise<GeneratedContent> {
+    const chain = providerName === 'auto'
+      ? providerRegistry.fallbackChain()
+      : [this.getConfiguredProvider(providerName)];
+
+    if (chain.length === 0) {
+      throw new Error('No AI provider configured');
+    }
 
-      for (let i = 0; i < variations; i++) {
-        const content = await this.withRateLimit(async () => {
-          // Use Hugging Face for text generation
-          const response = await hf.textGeneration({
-            model: process.env.AI_MODEL_TEXT_GENERATION || 'microsoft/DialoGPT-medium',
-            inputs: personaPrompt,
-            parameters: {
-              max_new_tokens: params.max_length || 150,
-              temperature: 0.7 + (i * 0.1), // Vary temperature for different outputs
-              top_p: 0.9,
-              repetition_penalty: 1.2,
-              return_full_text: false,
-            }
-          });
-
-          return response.generated_text?.trim() || '';
-        });
-
-        if (content) {
-          // Score the generated content
-          const qualityScore = await this.scoreContentQuality(content, params.persona);
-
-          results.push({
-            content,
-            quality_score: qualityScore.score,
-            variation_id: i + 1,
-            generation_params: {
-              model: process.env.AI_MODEL_TEXT_GENERATION,
-              temperature: 0.7 + (i * 0.1),
-              max_length: params.max_length || 150,
-              content_type: params.content_type
-            },
-            model_used: 'huggingface',
-            generated_at: new Date()
-          });
-        }
+    const { template, ...baseParams } = params;
+    const repurposeParams: ContentGenerationParams = { ...baseParams, content_type: kind };
+    const request = this.buildRepurposeRequest(repurposeParams, quote, kind);
+
+    let lastError: unknown;
+    for (const provider of chain) {
+      try {
+        const completion = await this.callProvider(
+          provider,
+          request,
+          repurposeParams,
+          (attemptRequest) => provider.complete(attemptRequest),
+          { requestType: 'content_repurpose', logParams: { kind, quote_characters: quote.length } }
+        );
+
+        const post = await this.finishVariation(completion, provider, request, repurposeParams, 1, { repurpose_kind: kind });
+        if (post) return post;
+        lastError = new Error(`${provider.label} returned an empty post`);
+      } catch (error) {
+        lastError = error;
+        console.log(`${provider.label} repurposing failed, trying next provider:`, error);
       }
+    }
 
-      // Sort by quality score (highest first)
-      results.sort((a, b) => b.quality_score - a.quality_score);
+    throw lastError;
+  }
 
-      // Cache results
-      cache.set(cacheKey, results);
+  // One provider call with the breaker check, a per-provider timeout and backoff retries for transient errors.
+  // Success or final failure is recorded once per call, so retries do not trip the breaker on their own.
+  // Every call, including ones the breaker refuses, is written to ai_generation_logs.
+  private async callProvider(
+    provider: AIProvider,
+    request: ProviderRequest,
+    params: ContentGenerationParams,
+    call: (request: ProviderRequest, touch: () => void) => Promise<ProviderCompletion>,
+    options: { stream?: boolean; canRetry?: () => boolean; requestType?: GenerationRequestType; logParams?: Record<string, any> } = {}
+  ): Promise<ProviderCompletion> {
+    const canRetry = options.canRetry ?? (() => true);
+    const startedAt = Date.now();
+    let attempts = 0;
+    const log = (success: boolean, completion?: ProviderCompletion, error?: unknown) => {
+      const usage = completion ? this.completionUsage(request, completion) : null;
+      generationLogService.record({
+        request_type: options.requestType ?? 'content_generation',
+        user_id: params.user_id,
+        artist_id: params.persona.artist_id,
+        persona_id: params.persona.id,
+        provider: provider.name,
+        ai_model: completion?.model ?? provider.model,
+        input_params: {
+          content_type: params.content_type,
+          variation: request.context?.variation ?? null,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          template_id: params.template?.id ?? null,
+          stream: Boolean(options.stream),
+          ...options.logParams
+        },
+        output_data: completion ? { characters: completion.text.length, preview: completion.text.slice(0, 200) } : null,
+        processing_time_ms: Date.now() - startedAt,
+        success,
+        error,
+        prompt_tokens: usage?.prompt_tokens,
+        completion_tokens: usage?.completion_tokens,
+        attempts,
+        estimated_cost_usd: usage ? aiUsageService.estimateCost(provider.name, completion?.model, usage.prompt_tokens, usage.completion_tokens) : null
+      });
+    };
 
-      return results;
+    if (!providerRegistry.tryAcquire(provider.name)) {
+      const error = Object.assign(new Error(`${provider.label} is temporarily unavailable (circuit open)`), { code: 'CIRCUIT_OPEN' });
+      log(false, undefined, error);
+      throw error;
+    }
 
-    } catch (error) {
-      console.error('Hugging Face content generation error:', error);
-      throw new Error(`Hugging Face content generation failed: ${error}`);
+    const policy = retryPolicy();
+    const timeoutMs = timeoutFor(provider.name);
+
+    // Every exit without a recorded outcome (client abort, local rate limit) has to free a half-open trial,
+    // or the breaker would refuse the provider for good
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await this.consumeRateLimit();
+        attempts++;
+
+        try {
+          const completion = await withTimeout(provider.label, timeoutMs, request.signal, (signal, touch) => call({ ...request, signal }, touch));
+          providerRegistry.recordSuccess(provider.name);
+          log(true, completion);
+          return completion;
+        } catch (error) {
+          // The client went away; that says nothing about the provider
+          if (request.signal?.aborted) {
+            log(false, undefined, Object.assign(new Error('Request aborted by client'), { code: 'CLIENT_ABORTED' }));
+            throw error;
+          }
+
+          if (attempt >= policy.maxRetries || !isRetryableError(error) || !canRetry()) {
+            providerRegistry.recordFailure(provider.name, error);
+            log(false, undefined, error);
+            throw error;
+          }
+
+          const delay = backoffDelay(attempt, policy);
+          console.warn(`${provider.label} call failed, retrying in ${delay}ms (attempt ${attempt + 2} of ${policy.maxRetries + 1})`, error instanceof Error ? error.message : error);
+          await sleep(delay);
+        }
+      }
+    } finally {
+      providerRegistry.release(provider.name);
     }
   }
 
-  // Generate content using OpenAI (fallback/premium option)
-  async generateContentWithOpenAI(params: ContentGenerationParams): Promise<GeneratedContent[]> {
-    if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === 'dummy-key-for-testing') {
-      throw new Error('OpenAI API key not configured');
-    }
+  // Report every registered provider with its configuration and recent health
+  getProviderStatus(): ProviderStatus[] {
+    return providerRegistry.getStatus();
+  }
 
-    const cacheKey = this.cacheKey('openai_content_gen', params);
-    const cached = cache.get<GeneratedContent[]>(cacheKey);
-    
-    if (cached) {
-      console.log('Returning cached OpenAI content generation result');
-      return cached;
+  private getConfiguredProvider(name: string): AIProvider {
+    const provider = providerRegistry.get(name);
+    if (!provider) {
+      throw new Error(`Unknown AI provider: ${name}`);
     }
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.label} API key not configured`);
+    }
+    return provider;
+  }
 
-    try {
-      const variations = params.variations || 3;
-      const results: GeneratedContent[] = [];
+  private buildProviderRequest(params: ContentGenerationParams, variationId: number, signal?: AbortSignal): ProviderRequest {
+    const multipart = isMultipart(params.format) ? params.format : null;
+    const profile = multipart ? formatPlatform(multipart, params.platform) : getPlatformProfile(params.platform);
+    const partCount = params.parts || DEFAULT_PART_COUNT;
+    const platformNote = multipart && profile
+      ? `\n\n${describeMultipartFormat(multipart, partCount, profile)}`
+      : profile ? ` Write it for ${profile.label}, in under ${profile.max_chars} characters.` : '';
+
+    return {
+      systemPrompt: this.buildSystemPrompt(params.persona, params.voice_examples, profile, params.post_examples),
+      userPrompt: this.buildUserPrompt(params.content_type, params.context, params.template, params.persona) + platformNote,
+      prompt: this.buildPersonaPrompt(params.persona, params.content_type, params.context, params.voice_examples, params.template) + platformNote,
+      maxTokens: this.maxTokens(params),
+      temperature: 0.7 + ((variationId - 1) * 0.1),
+      context: {
+        contentType: params.content_type,
+        topic: params.context,
+        artistName: params.persona.artist_name,
+        tone: params.persona.tone,
+        keyThemes: params.persona.key_themes || [],
+        templateVariables: params.template ? params.template.variables?.variables || [] : undefined,
+        multipart: multipart && profile
+          ? { format: multipart, parts: partCount, maxChars: partCharLimit(multipart, profile) }
+          : undefined,
+        variation: variationId
+      },
+      ...(signal ? { signal } : {})
+    };
+  }
 
-      const systemPrompt = this.buildSystemPrompt(params.persona);
-      const userPrompt = this.buildUserPrompt(params.content_type, params.context);
+  // Same persona system prompt as generation; the user prompt carries the post and the requested change
+  private buildRefinementRequest(params: ContentGenerationParams, original: string, instruction: string): ProviderRequest {
+    const userPrompt = `Here is a ${params.content_type.replace('_', ' ')} written for the artist:
+
+"""
+${original}
+"""
+
+Rewrite it with this change: ${instruction}.
+Keep the artist's voice and everything the change doesn't touch. Respond with only the rewritten post.`;
+
+    return {
+      systemPrompt: this.buildSystemPrompt(params.persona, undefined, getPlatformProfile(params.platform)),
+      userPrompt,
+      prompt: `You are editing a post for an artist whose tone is ${params.persona.tone || 'casual'}. ${userPrompt}`,
+      // Room for the whole post even when the change makes it longer
+      maxTokens: Math.max(this.maxTokens(params), aiUsageService.estimateTokens(original) + 60),
+      temperature: 0.7,
+      context: {
+        contentType: params.content_type,
+        artistName: params.persona.artist_name,
+        tone: params.persona.tone,
+        keyThemes: params.persona.key_themes || [],
+        refinement: { original, instruction },
+        variation: 1
+      }
+    };
+  }
 
-      for (let i = 0; i < variations; i++) {
-        const response = await this.withRateLimit(async () => {
-          return await openai.chat.completions.create({
-            model: 'gpt-3.5-turbo',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt }
-            ],
-            max_tokens: params.max_length || 150,
-            temperature: 0.7 + (i * 0.1),
-            top_p: 0.9,
-            frequency_penalty: 0.2,
-            presence_penalty: 0.1,
-          });
-        });
-
-        const content = response.choices[0]?.message?.content?.trim();
-        
-        if (content) {
-          const qualityScore = await this.scoreContentQuality(content, params.persona);
-
-          results.push({
-            content,
-            quality_score: qualityScore.score,
-            variation_id: i + 1,
-            generation_params: {
-              model: 'gpt-3.5-turbo',
-              temperature: 0.7 + (i * 0.1),
-              max_tokens: params.max_length || 150,
-              content_type: params.content_type
-            },
-            model_used: 'openai',
-            generated_at: new Date()
-          });
-        }
+  // Persona system prompt as in generation; the user prompt carries the artist's own line and what to make of it
+  private buildRepurposeRequest(params: ContentGenerationParams, quote: string, kind: RepurposeKind): ProviderRequest {
+    const task = kind === 'quote_card'
+      ? 'Write the caption for a quote card that shows this line. Keep the quote word for word in quotation marks and add one or two sentences of context.'
+      : kind === 'story'
+        ? 'Turn this moment into a short story post in the artist\'s voice: what was happening and why it matters. Quote or paraphrase the line.'
+        : 'Write a social media post built around this line. Quote it or let it set the theme.';
+    const profile = getPlatformProfile(params.platform);
+    const platformNote = profile ? ` Write it for ${profile.label}, in under ${profile.max_chars} characters.` : '';
+    const userPrompt = `The artist said this in an interview:
+
+"""
+${quote}
+"""
+
+${task}${params.context ? ` Context: ${params.context}.` : ''} Respond with only the post.${platformNote}`;
+
+    return {
+      systemPrompt: this.buildSystemPrompt(params.persona, params.voice_examples, profile, params.post_examples),
+      userPrompt,
+      prompt: `You are writing as an artist whose tone is ${params.persona.tone || 'casual'}. ${userPrompt}`,
+      maxTokens: this.maxTokens(params),
+      temperature: 0.7,
+      context: {
+        contentType: kind,
+        topic: params.context,
+        artistName: params.persona.artist_name,
+        tone: params.persona.tone,
+        keyThemes: params.persona.key_themes || [],
+        repurpose: { quote, kind },
+        variation: 1
       }
+    };
+  }
 
-      // Sort by quality score
-      results.sort((a, b) => b.quality_score - a.quality_score);
+  // Template, score and describe one completed variation; null when the output is unusable
+  private async finishVariation(
+    completion: ProviderCompletion,
+    provider: AIProvider,
+    request: ProviderRequest,
+    params: ContentGenerationParams,
+    variationId: number,
+    extraParams: Record<string, any> = {}
+  ): Promise<GeneratedContent | null> {
+    if (isMultipart(params.format)) {
+      return this.finishMultipart(completion, provider, request, params, params.format, variationId, extraParams);
+    }
 
-      // Cache results
-      cache.set(cacheKey, results);
-      
-      return results;
+    const variation = completion.text ? await this.applyTemplate(completion.text, params) : null;
+    if (!variation) return null;
+
+    // The style guide goes first so the platform fit can still trim what it adds; the check runs on the final text
+    const guide = readStyleGuide(params.persona.voice_characteristics);
+    const styled = guide ? applyStyleGuide(variation.content, guide) : null;
+    if (styled) variation.content = styled.content;
+
+    const profile = getPlatformProfile(params.platform);
+    const fit = profile ? fitToPlatform(variation.content, profile) : null;
+    if (fit) variation.content = fit.content;
+    const styleViolations = guide ? checkStyleGuide(variation.content, guide) : [];
+
+    const qualityScore = await this.scoreContentQuality(variation.content, params.persona, params.platform);
+
+    return {
+      ...variation,
+      ...(fit ? { platform_adjustments: fit.adjustments } : {}),
+      ...(styled && styled.adjustments.length > 0 ? { style_adjustments: styled.adjustments } : {}),
+      ...(styleViolations.length > 0 ? { style_violations: styleViolations } : {}),
+      quality_score: qualityScore.score,
+      variation_id: variationId,
+      generation_params: {
+        model: completion.model,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        content_type: params.content_type,
+        ...(params.platform ? { platform: params.platform } : {}),
+        ...extraParams
+      },
+      model_used: provider.name,
+      generated_at: new Date()
+    };
+  }
 
-    } catch (error) {
-      console.error('OpenAI content generation error:', error);
-      throw new Error(`OpenAI content generation failed: ${error}`);
-    }
+  // Split a thread or carousel answer into numbered parts; scored as a whole, checked part by part
+  private async finishMultipart(
+    completion: ProviderCompletion,
+    provider: AIProvider,
+    request: ProviderRequest,
+    params: ContentGenerationParams,
+    format: Exclude<ContentFormat, 'single'>,
+    variationId: number,
+    extraParams: Record<string, any>
+  ): Promise<GeneratedContent | null> {
+    const profile = formatPlatform(format, params.platform);
+    const requested = params.parts || DEFAULT_PART_COUNT;
+    // Only the word-level rules apply to a thread; sign-offs and hashtags are left to the model and checked
+    const guide = readStyleGuide(params.persona.voice_characteristics);
+    const rewritten = (completion.text ? parseParts(completion.text) : []).map(part => (guide ? rewriteWords(part, guide) : { content: part, adjustments: [] }));
+    const styleAdjustments = [...new Set(rewritten.flatMap(part => part.adjustments))];
+    const result = completion.text ? buildParts(rewritten.map(part => part.content), format, requested, profile) : null;
+    if (!result) return null;
+    const styleViolations = guide ? checkStyleGuide(result.text, guide) : [];
+
+    const qualityScore = await this.scoreContentQuality(result.text, params.persona);
+
+    return {
+      content: result.text,
+      format,
+      parts: result.parts,
+      platform_adjustments: result.adjustments,
+      format_warnings: [...result.warnings, ...checkParts(result.parts, format, profile)],
+      ...(styleAdjustments.length > 0 ? { style_adjustments: styleAdjustments } : {}),
+      ...(styleViolations.length > 0 ? { style_violations: styleViolations } : {}),
+      quality_score: qualityScore.score,
+      variation_id: variationId,
+      generation_params: {
+        model: completion.model,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        content_type: params.content_type,
+        platform: profile.name,
+        format,
+        parts: requested,
+        ...extraParams
+      },
+      model_used: provider.name,
+      generated_at: new Date()
+    };
   }
 
   // Score content quality using AI
-  async scoreContentQuality(content: string, persona: PersonaData): Promise<ContentQualityMetrics> {
-    const cacheKey = this.cacheKey('quality_score', { content, persona_id: persona.id });
-    const cached = cache.get<ContentQualityMetrics>(cacheKey);
+  async scoreContentQuality(content: string, persona: PersonaData, platform?: PlatformName | null): Promise<ContentQualityMetrics> {
+    const profile = getPlatformProfile(platform);
+    const model = scoringModelService.getModel(persona.artist_id);
+
+    // Scoring is local and cheap, so it stays in the memory tier; a recalibrated model gets fresh entries
+    const cacheKey = aiCacheService.buildKey(persona.id, 'quality_score', {
+      content,
+      platform: profile?.name,
+      ...(model ? { model: new Date(model.trained_at).toISOString() } : {})
+    });
+    const cached = await aiCacheService.get<ContentQualityMetrics>(cacheKey, { persist: false });
     
     if (cached) {
       return cached;
@@ -402,39 +679,49 @@ class AIContentService {
       };
 
       // Readability scoring (simple implementation)
-      metrics.readability = this.calculateReadabilityScore(content);
+      metrics.readability = readabilityScore(content);
       
       // Engagement potential (based on content features)
-      metrics.engagement_potential = this.calculateEngagementScore(content);
+      metrics.engagement_potential = engagementScore(content, profile?.ideal_chars);
       
       // Brand consistency (based on persona alignment)
-      metrics.brand_consistency = this.calculateBrandConsistencyScore(content, persona);
-
-      // Overall score (weighted average)
-      metrics.score = (
-        metrics.readability * 0.3 +
-        metrics.engagement_potential * 0.4 +
-        metrics.brand_consistency * 0.3
-      );
-
-      // Generate issues and suggestions
-      if (metrics.readability < 0.6) {
-        metrics.issues.push('Content may be too complex or difficult to read');
-        metrics.suggestions.push('Simplify language and sentence structure');
+      metrics.brand_consistency = brandConsistencyScore(content, persona);
+
+      // Overall score (weighted average), or the engagement the artist's calibrated model predicts
+      if (model) {
+        const predicted = predictEngagement(model, extractQualityFeatures(content, persona, profile?.ideal_chars));
+        metrics.score = calibratedScore(model, predicted);
+        metrics.scoring_model = 'calibrated';
+        metrics.predicted_engagement_rate = Math.round(predicted * 10000) / 10000;
+      } else {
+        metrics.score = (
+          metrics.readability * 0.3 +
+          metrics.engagement_potential * 0.4 +
+          metrics.brand_consistency * 0.3
+        );
+        metrics.scoring_model = 'fixed';
       }
 
-      if (metrics.engagement_potential < 0.6) {
-        metrics.issues.push('Content may not be engaging enough');
-        metrics.suggestions.push('Add more emotional language or call-to-action');
+      // Issues and suggestions come from the scorers, each pointing at what it found
+      const breakdown = qualityScorers.run(content, { persona, profile });
+      metrics.breakdown = breakdown.scorers;
+      metrics.spans = breakdown.spans;
+      for (const result of breakdown.scorers) {
+        metrics.issues.push(...result.issues);
+        if (result.suggestion) metrics.suggestions.push(result.suggestion);
       }
 
-      if (metrics.brand_consistency < 0.6) {
-        metrics.issues.push('Content may not align well with artist persona');
-        metrics.suggestions.push('Review tone and themes to better match artist brand');
+      // Platform checks the scorers don't cover (e.g. unclickable links); shared messages are listed once
+      if (profile) {
+        const platformIssues = checkPlatformFit(content, profile).filter(issue => !metrics.issues.includes(issue));
+        metrics.issues.push(...platformIssues);
+        if (platformIssues.length > 0) {
+          metrics.suggestions.push(`Adjust the post to ${profile.label} conventions`);
+        }
       }
 
       // Cache results
-      cache.set(cacheKey, metrics);
+      await aiCacheService.set(cacheKey, metrics, { persist: false });
       
       return metrics;
 
@@ -452,8 +739,70 @@ class AIContentService {
     }
   }
 
+  // Read the template variable values out of a model response (tolerates code fences and surrounding prose)
+  parseTemplateResponse(raw: string): Record<string, any> | null {
+    const start = raw.indexOf('{');
+    const end = raw.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+
+    try {
+      const parsed = JSON.parse(raw.slice(start, end + 1));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Turn a raw model response into the post; in template mode the response holds the variable values
+  private async applyTemplate(
+    raw: string,
+    params: ContentGenerationParams
+  ): Promise<Pick<GeneratedContent, 'content' | 'template_variables' | 'template_warnings'> | null> {
+    if (!params.template) {
+      return { content: raw };
+    }
+
+    const parsed = this.parseTemplateResponse(raw);
+    if (!parsed) {
+      console.warn('Template generation returned no JSON object', { template_id: params.template.id });
+      return null;
+    }
+
+    const templateVariables: TemplateVariable[] = params.template.variables?.variables || [];
+    const { values, errors } = templateService.validateVariableValues(templateVariables, parsed);
+
+    try {
+      const processed = await templateService.processTemplate(params.template.id, values, params.persona);
+      return {
+        content: processed.processed_content,
+        template_variables: processed.variables_used,
+        template_warnings: errors
+      };
+    } catch (error) {
+      console.warn('Template variables failed validation', { template_id: params.template.id, errors, error });
+      return null;
+    }
+  }
+
+  // A template run where no variation produced valid variables is a failure, not an empty result
+  private assertTemplateFilled(params: ContentGenerationParams, results: GeneratedContent[]): void {
+    if (params.template && results.length === 0) {
+      throw new Error(`Model output did not fill the variables for template "${params.template.template_name}"`);
+    }
+  }
+
   // Build persona-aware prompt for content generation
-  private buildPersonaPrompt(persona: PersonaData, contentType: string, context?: string): string {
+  private buildPersonaPrompt(
+    persona: PersonaData,
+    contentType: string,
+    context?: string,
+    voiceExamples?: VoiceExample[],
+    template?: ContentTemplate
+  ): string {
+    if (template) {
+      return `You are writing as an artist whose tone is ${persona.tone || 'casual'}. ${this.buildTemplatePrompt(template, contentType, context, persona)}`;
+    }
+
     const themes = persona.key_themes?.join(', ') || 'music, creativity';
     const tone = persona.tone || 'casual';
     
@@ -487,12 +836,21 @@ class AIContentService {
     }
     
     prompt += '. Keep it authentic and engaging.';
+
+    if (voiceExamples && voiceExamples.length > 0) {
+      prompt += ` Match how the artist talks, e.g. "${voiceExamples[0]!.text}"`;
+    }
     
     return prompt;
   }
 
   // Build system prompt for OpenAI
-  private buildSystemPrompt(persona: PersonaData): string {
+  private buildSystemPrompt(
+    persona: PersonaData,
+    voiceExamples?: VoiceExample[],
+    platform?: PlatformProfile | null,
+    postExamples?: PostExample[]
+  ): string {
     return `You are an AI assistant helping an artist create social media content. 
     
 Artist Details:
@@ -507,11 +865,39 @@ Create content that:
 4. Is engaging and authentic
 5. Is appropriate for social media platforms
 
-Keep responses concise and impactful.`;
+Keep responses concise and impactful.${platform ? `\n\n${describePlatformProfile(platform)}` : ''}${describeStyleGuide(readStyleGuide(persona.voice_characteristics))}${this.buildVoiceExamplesSection(voiceExamples)}${this.buildPostExamplesSection(postExamples)}`;
+  }
+
+  // Posts the artist approved or edited by hand: what a finished post in their voice looks like
+  private buildPostExamplesSection(postExamples?: PostExample[]): string {
+    if (!postExamples || postExamples.length === 0) return '';
+
+    const posts = postExamples.map((example, i) => `Example ${i + 1}:\n${example.text}`).join('\n\n');
+    return `
+
+Posts the artist approved for this kind of content. Match their voice, length and formatting,
+but write something new rather than reusing their wording:
+${posts}`;
+  }
+
+  // Real quotes from the artist's transcripts, used as style references only
+  private buildVoiceExamplesSection(voiceExamples?: VoiceExample[]): string {
+    if (!voiceExamples || voiceExamples.length === 0) return '';
+
+    const quotes = voiceExamples.map((example, i) => `${i + 1}. "${example.text}"`).join('\n');
+    return `
+
+Examples of how the artist actually talks (from their interviews and podcasts).
+Mirror their vocabulary and rhythm, but don't copy these word for word:
+${quotes}`;
   }
 
   // Build user prompt for OpenAI
-  private buildUserPrompt(contentType: string, context?: string): string {
+  private buildUserPrompt(contentType: string, context?: string, template?: ContentTemplate, persona?: PersonaData): string {
+    if (template) {
+      return this.buildTemplatePrompt(template, contentType, context, persona);
+    }
+
     const contextText = context || 'something that would interest and engage fans';
     
     switch (contentType) {
@@ -530,114 +916,32 @@ Keep responses concise and impactful.`;
     }
   }
 
-  // Simple readability scoring (Flesch Reading Ease approximation)
-  private calculateReadabilityScore(content: string): number {
-    const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0).length;
-    const words = content.split(/\s+/).filter(w => w.length > 0).length;
-    const syllables = this.countSyllables(content);
-    
-    if (sentences === 0 || words === 0) return 0.5;
-    
-    const avgSentenceLength = words / sentences;
-    const avgSyllablesPerWord = syllables / words;
-    
-    // Simplified Flesch score (normalized to 0-1)
-    const fleschScore = 206.835 - (1.015 * avgSentenceLength) - (84.6 * avgSyllablesPerWord);
-    
-    // Normalize to 0-1 range (typical Flesch scores range from 0-100)
-    return Math.max(0, Math.min(1, fleschScore / 100));
-  }
-
-  // Simple syllable counting
-  private countSyllables(text: string): number {
-    const words = text.toLowerCase().match(/[a-z]+/g) || [];
-    let totalSyllables = 0;
-    
-    for (const word of words) {
-      // Simple syllable counting algorithm
-      let syllables = word.match(/[aeiouy]+/g)?.length || 1;
-      if (word.endsWith('e') && syllables > 1) syllables--;
-      totalSyllables += Math.max(1, syllables);
-    }
-    
-    return totalSyllables;
-  }
-
-  // Calculate engagement potential based on content features
-  private calculateEngagementScore(content: string): number {
-    let score = 0.5; // Base score
-    
-    // Check for engagement indicators
-    const engagementIndicators = [
-      /[!?]/, // Exclamation or question marks
-      /\b(you|your|yours)\b/i, // Direct address
-      /\b(amazing|incredible|excited|love|awesome|fantastic)\b/i, // Emotional words
-      /\b(new|fresh|latest|upcoming|soon)\b/i, // Urgency/novelty
-      /@\w+/, // Mentions
-      /#\w+/, // Hashtags
-    ];
-    
-    engagementIndicators.forEach(pattern => {
-      if (pattern.test(content)) score += 0.1;
-    });
-    
-    // Length penalty for too long or too short content
-    const idealLength = 280; // Tweet-like length
-    const lengthRatio = content.length / idealLength;
-    if (lengthRatio > 0.3 && lengthRatio < 1.5) {
-      score += 0.1;
-    }
-    
-    return Math.min(1, score);
-  }
-
-  // Calculate brand consistency score
-  private calculateBrandConsistencyScore(content: string, persona: PersonaData): number {
-    let score = 0.5; // Base score
-    
-    // Check for persona theme alignment
-    if (persona.key_themes) {
-      const contentLower = content.toLowerCase();
-      const themeMatches = persona.key_themes.filter(theme => 
-        contentLower.includes(theme.toLowerCase())
-      ).length;
-      
-      if (themeMatches > 0) {
-        score += (themeMatches / persona.key_themes.length) * 0.3;
-      }
-    }
-    
-    // Check tone alignment (simplified)
-    const contentLower = content.toLowerCase();
-    const toneWords = {
-      casual: ['hey', 'guys', 'awesome', 'cool', 'love'],
-      professional: ['pleased', 'excited', 'announce', 'share', 'grateful'],
-      edgy: ['raw', 'real', 'bold', 'fierce', 'unapologetic'],
-      friendly: ['friends', 'family', 'together', 'community', 'support']
-    };
-    
-    const personaTone = persona.tone?.toLowerCase() || 'casual';
-    const relevantWords = toneWords[personaTone as keyof typeof toneWords] || [];
-    
-    const toneMatches = relevantWords.filter(word => 
-      contentLower.includes(word)
-    ).length;
-    
-    if (toneMatches > 0) {
-      score += Math.min(0.2, toneMatches * 0.05);
-    }
-    
-    return Math.min(1, score);
-  }
-
-  // Clear cache (useful for testing)
-  clearCache(): void {
-    cache.flushAll();
-  }
-
-  // Get cache statistics
-  getCacheStats(): any {
-    return cache.getStats();
+  // Ask the model to fill a template's {{variables}} as a JSON object
+  private buildTemplatePrompt(
+    template: ContentTemplate,
+    contentType: string,
+    context?: string,
+    persona?: PersonaData
+  ): string {
+    const templateVariables: TemplateVariable[] = template.variables?.variables || [];
+    const variableLines = templateVariables.map((variable) => {
+      let line = `- "${variable.name}" (${variable.type}${variable.required ? ', required' : ', optional'})`;
+      if (variable.description) line += `: ${variable.description}`;
+      if (variable.type === 'select' && variable.options) line += `. One of: ${variable.options.map(o => `"${o}"`).join(', ')}`;
+      if (variable.type === 'date') line += '. Use YYYY-MM-DD';
+      if (variable.type === 'boolean') line += '. Use true or false';
+      return line;
+    }).join('\n');
+
+    return `Fill in the "${template.template_name}" ${contentType.replace('_', ' ')} template about ${context || 'something that would interest and engage fans'}.
+${persona?.artist_name ? `The artist's name is ${persona.artist_name}.\n` : ''}
+Template:
+${template.template_content}
+
+Variables:
+${variableLines}
+
+Respond with ONLY a JSON object mapping each variable name to its value, no extra text.`;
   }
 }
 
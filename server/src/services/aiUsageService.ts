@@ -0,0 +1,267 @@
+import pool from '../Config/connection';
+
+// Per-user and per-artist AI quotas (provider calls per day, tokens per month) and cost estimates.
+// Usage is read back from ai_generation_logs, so every logged provider call counts against the budget.
+
+export type QuotaScope = 'user' | 'artist';
+export type QuotaName = 'requests_per_day' | 'tokens_per_month';
+
+// USD per million tokens
+export interface TokenPrice {
+  prompt: number;
+  completion: number;
+}
+
+export interface QuotaLimits {
+  // null means unlimited
+  requests_per_day: number | null;
+  tokens_per_month: number | null;
+}
+
+export interface ScopeUsage {
+  scope: QuotaScope;
+  id: string;
+  requests_today: number;
+  requests_per_day: number | null;
+  requests_remaining: number | null;
+  tokens_this_month: number;
+  tokens_per_month: number | null;
+  tokens_remaining: number | null;
+  estimated_cost_usd_this_month: number;
+}
+
+export interface ProviderUsageStats {
+  provider: string;
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  estimated_cost_usd: number;
+}
+
+export interface UsageReport {
+  user: ScopeUsage;
+  artist: ScopeUsage | null;
+  requests_reset_at: string;
+  tokens_reset_at: string;
+  by_provider: ProviderUsageStats[];
+}
+
+export interface QuotaExceeded {
+  scope: QuotaScope;
+  quota: QuotaName;
+  limit: number;
+  used: number;
+  requested: number;
+  reset_at: string;
+  retry_after_seconds: number;
+}
+
+export type QuotaCheck = { allowed: true } | { allowed: false; exceeded: QuotaExceeded };
+
+// List prices for the default model of each provider; override or extend with AI_PRICE_TABLE
+const DEFAULT_PRICE_TABLE: Record<string, TokenPrice> = {
+  groq: { prompt: 0.05, completion: 0.08 },
+  openai: { prompt: 0.5, completion: 1.5 },
+  cohere: { prompt: 2.5, completion: 10 },
+  huggingface: { prompt: 0, completion: 0 },
+  mock: { prompt: 0, completion: 0 }
+};
+
+// Rough characters-per-token ratio for providers that don't report usage
+const CHARS_PER_TOKEN = 4;
+
+// Only real provider calls count: local scoring/templating is free, and calls refused by the breaker never reached a provider
+const BILLABLE_CALL = `l.provider IS NOT NULL AND l.provider <> 'local' AND COALESCE(l.attempts, 1) > 0`;
+
+const readLimit = (name: string, fallback: number): number | null => {
+  const parsed = parseInt(process.env[name] ?? '', 10);
+  const limit = Number.isNaN(parsed) ? fallback : parsed;
+  return limit > 0 ? limit : null;
+};
+
+// A stored override of 0 also means unlimited; NULL keeps the default
+const applyOverride = (override: number | null | undefined, fallback: number | null): number | null => {
+  if (override === null || override === undefined) return fallback;
+  return override > 0 ? override : null;
+};
+
+const roundCost = (value: number) => Math.round(value * 1e6) / 1e6;
+
+class AIUsageService {
+  // Keys are provider names or provider:model; the more specific entry wins
+  getPriceTable(): Record<string, TokenPrice> {
+    const raw = process.env.AI_PRICE_TABLE;
+    if (!raw) return { ...DEFAULT_PRICE_TABLE };
+
+    try {
+      const parsed = JSON.parse(raw) as Record<string, Partial<TokenPrice>>;
+      const table = { ...DEFAULT_PRICE_TABLE };
+      for (const [key, price] of Object.entries(parsed)) {
+        if (typeof price?.prompt === 'number' && typeof price?.completion === 'number') {
+          table[key] = { prompt: price.prompt, completion: price.completion };
+        }
+      }
+      return table;
+    } catch (error) {
+      console.warn('Ignoring invalid AI_PRICE_TABLE', error);
+      return { ...DEFAULT_PRICE_TABLE };
+    }
+  }
+
+  // Estimated USD cost of one call, or null when the provider has no price
+  estimateCost(provider: string, model: string | null | undefined, promptTokens = 0, completionTokens = 0): number | null {
+    const table = this.getPriceTable();
+    const price = (model ? table[`${provider}:${model}`] : undefined) ?? table[provider];
+    if (!price) return null;
+    return roundCost((promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000);
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  getDefaultLimits(scope: QuotaScope): QuotaLimits {
+    return scope === 'user'
+      ? {
+          requests_per_day: readLimit('AI_QUOTA_USER_REQUESTS_PER_DAY', 200),
+          tokens_per_month: readLimit('AI_QUOTA_USER_TOKENS_PER_MONTH', 500000)
+        }
+      : {
+          requests_per_day: readLimit('AI_QUOTA_ARTIST_REQUESTS_PER_DAY', 500),
+          tokens_per_month: readLimit('AI_QUOTA_ARTIST_TOKENS_PER_MONTH', 1000000)
+        };
+  }
+
+  // Quota windows are calendar based in UTC: requests reset at midnight, tokens on the 1st of the month
+  getWindows(now = new Date()) {
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    return {
+      dayStart,
+      monthStart,
+      requestsResetAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+      tokensResetAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+    };
+  }
+
+  // Usage and limits for the user and (optionally) the artist, in one round trip
+  private async loadUsage(userId: string, artistId: string | null, now: Date): Promise<{ user: ScopeUsage; artist: ScopeUsage | null }> {
+    const { dayStart, monthStart } = this.getWindows(now);
+
+    const result = await pool.query(
+      `SELECT COUNT(*) FILTER (WHERE l.user_id = $1 AND l.created_at >= $3)::int AS user_requests,
+              COALESCE(SUM(COALESCE(l.prompt_tokens, 0) + COALESCE(l.completion_tokens, 0)) FILTER (WHERE l.user_id = $1), 0)::bigint AS user_tokens,
+              COALESCE(SUM(l.estimated_cost_usd) FILTER (WHERE l.user_id = $1), 0) AS user_cost,
+              COUNT(*) FILTER (WHERE l.artist_id = $2 AND l.created_at >= $3)::int AS artist_requests,
+              COALESCE(SUM(COALESCE(l.prompt_tokens, 0) + COALESCE(l.completion_tokens, 0)) FILTER (WHERE l.artist_id = $2), 0)::bigint AS artist_tokens,
+              COALESCE(SUM(l.estimated_cost_usd) FILTER (WHERE l.artist_id = $2), 0) AS artist_cost,
+              (SELECT row_to_json(q) FROM (SELECT requests_per_day, tokens_per_month FROM ai_usage_quotas WHERE user_id = $1) q) AS user_quota,
+              (SELECT row_to_json(q) FROM (SELECT requests_per_day, tokens_per_month FROM ai_usage_quotas WHERE artist_id = $2) q) AS artist_quota
+       FROM ai_generation_logs l
+       WHERE (l.user_id = $1 OR l.artist_id = $2)
+         AND l.created_at >= $4
+         AND ${BILLABLE_CALL}`,
+      [userId, artistId, dayStart, monthStart]
+    );
+    const row = result.rows[0] ?? {};
+
+    const build = (scope: QuotaScope, id: string): ScopeUsage => {
+      const defaults = this.getDefaultLimits(scope);
+      const override = row[`${scope}_quota`] ?? {};
+      const requestsPerDay = applyOverride(override.requests_per_day, defaults.requests_per_day);
+      const tokensPerMonth = applyOverride(override.tokens_per_month, defaults.tokens_per_month);
+      const requests = Number(row[`${scope}_requests`] ?? 0);
+      const tokens = Number(row[`${scope}_tokens`] ?? 0);
+
+      return {
+        scope,
+        id,
+        requests_today: requests,
+        requests_per_day: requestsPerDay,
+        requests_remaining: requestsPerDay === null ? null : Math.max(0, requestsPerDay - requests),
+        tokens_this_month: tokens,
+        tokens_per_month: tokensPerMonth,
+        tokens_remaining: tokensPerMonth === null ? null : Math.max(0, tokensPerMonth - tokens),
+        estimated_cost_usd_this_month: roundCost(Number(row[`${scope}_cost`] ?? 0))
+      };
+    };
+
+    return { user: build('user', userId), artist: artistId ? build('artist', artistId) : null };
+  }
+
+  // Refuse a generation that would need more provider calls than either budget has left.
+  // A failing usage lookup lets the call through; the global rate limiter still applies.
+  async checkQuota(userId: string, artistId: string | null, plannedRequests: number, now = new Date()): Promise<QuotaCheck> {
+    let usage: { user: ScopeUsage; artist: ScopeUsage | null };
+    try {
+      usage = await this.loadUsage(userId, artistId, now);
+    } catch (error) {
+      console.warn('AI quota check failed, allowing request', { userId, artistId, error });
+      return { allowed: true };
+    }
+
+    const { requestsResetAt, tokensResetAt } = this.getWindows(now);
+    const exceeded = (scope: ScopeUsage, quota: QuotaName, limit: number, used: number, resetAt: Date): QuotaCheck => ({
+      allowed: false,
+      exceeded: {
+        scope: scope.scope,
+        quota,
+        limit,
+        used,
+        requested: plannedRequests,
+        reset_at: resetAt.toISOString(),
+        retry_after_seconds: Math.max(1, Math.ceil((resetAt.getTime() - now.getTime()) / 1000))
+      }
+    });
+
+    for (const scope of [usage.user, usage.artist]) {
+      if (!scope) continue;
+      if (scope.requests_per_day !== null && scope.requests_today + plannedRequests > scope.requests_per_day) {
+        return exceeded(scope, 'requests_per_day', scope.requests_per_day, scope.requests_today, requestsResetAt);
+      }
+      if (scope.tokens_per_month !== null && scope.tokens_this_month >= scope.tokens_per_month) {
+        return exceeded(scope, 'tokens_per_month', scope.tokens_per_month, scope.tokens_this_month, tokensResetAt);
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  // What GET /api/users/me/usage reports: both budgets plus this month's calls per provider for the user
+  async getUsage(userId: string, artistId: string | null, now = new Date()): Promise<UsageReport> {
+    const { monthStart, requestsResetAt, tokensResetAt } = this.getWindows(now);
+
+    const [usage, providers] = await Promise.all([
+      this.loadUsage(userId, artistId, now),
+      pool.query(
+        `SELECT l.provider,
+                COUNT(*)::int AS requests,
+                COALESCE(SUM(l.prompt_tokens), 0)::bigint AS prompt_tokens,
+                COALESCE(SUM(l.completion_tokens), 0)::bigint AS completion_tokens,
+                COALESCE(SUM(l.estimated_cost_usd), 0) AS estimated_cost_usd
+         FROM ai_generation_logs l
+         WHERE l.user_id = $1 AND l.created_at >= $2 AND ${BILLABLE_CALL}
+         GROUP BY l.provider
+         ORDER BY requests DESC`,
+        [userId, monthStart]
+      )
+    ]);
+
+    return {
+      ...usage,
+      requests_reset_at: requestsResetAt.toISOString(),
+      tokens_reset_at: tokensResetAt.toISOString(),
+      by_provider: providers.rows.map((row: any) => ({
+        provider: row.provider,
+        requests: row.requests,
+        prompt_tokens: Number(row.prompt_tokens),
+        completion_tokens: Number(row.completion_tokens),
+        estimated_cost_usd: roundCost(Number(row.estimated_cost_usd))
+      }))
+    };
+  }
+}
+
+// Export singleton instance
+export const aiUsageService = new AIUsageService();
+export default aiUsageService;
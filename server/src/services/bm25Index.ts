@@ -0,0 +1,82 @@
+import { contentTokens } from './textUtils';
+
+export interface Bm25Document<T> {
+  text: string;
+  payload: T;
+}
+
+export interface Bm25Match<T> {
+  payload: T;
+  score: number;
+}
+
+interface IndexedDocument<T> {
+  payload: T;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// Okapi BM25 defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// Small in-memory BM25 index; good enough for a few hundred chunks per persona
+export class Bm25Index<T> {
+  private documents: IndexedDocument<T>[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(documents: Bm25Document<T>[] = []) {
+    documents.forEach(document => this.add(document));
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  add(document: Bm25Document<T>): void {
+    const tokens = contentTokens(document.text);
+    const termFrequencies = new Map<string, number>();
+
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+    }
+
+    for (const term of termFrequencies.keys()) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+    }
+
+    this.documents.push({ payload: document.payload, termFrequencies, length: tokens.length });
+    this.averageLength = this.documents.reduce((sum, doc) => sum + doc.length, 0) / this.documents.length;
+  }
+
+  // Highest-scoring documents for the query; documents sharing no terms are never returned
+  search(query: string, limit: number): Bm25Match<T>[] {
+    const queryTerms = [...new Set(contentTokens(query))];
+    if (queryTerms.length === 0 || this.documents.length === 0) return [];
+
+    const matches: Bm25Match<T>[] = [];
+
+    for (const document of this.documents) {
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const frequency = document.termFrequencies.get(term);
+        if (!frequency) continue;
+
+        const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (this.documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        const lengthNorm = 1 - B + B * (document.length / (this.averageLength || 1));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm);
+      }
+
+      if (score > 0) {
+        matches.push({ payload: document.payload, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+export default Bm25Index;
@@ -0,0 +1,165 @@
+import { PLATFORM_PROFILES, PlatformProfile, checkPlatformFit, fitToPlatform, getPlatformProfile } from './platformProfiles';
+
+// Multi-part posts: an X thread or the captions of an Instagram carousel. The model answers with a JSON
+// array of parts; buildParts numbers them, fits each to the platform and checks the hook/CTA shape.
+
+export type ContentFormat = 'single' | 'thread' | 'carousel';
+export type MultipartFormat = Exclude<ContentFormat, 'single'>;
+export type ContentPartRole = 'hook' | 'body' | 'cta';
+
+export interface ContentPart {
+  index: number;
+  role: ContentPartRole;
+  text: string;
+  characters: number;
+}
+
+export interface MultipartResult {
+  parts: ContentPart[];
+  // All parts in order, as stored in content_text and copied as one block
+  text: string;
+  adjustments: string[];
+  warnings: string[];
+}
+
+export const CONTENT_FORMATS: ContentFormat[] = ['single', 'thread', 'carousel'];
+
+export const DEFAULT_PART_COUNT = 5;
+export const MIN_PARTS = 2;
+export const MAX_PARTS = 10;
+
+// Slide captions sit on or under an image, so they stay far shorter than a full caption
+const CAROUSEL_SLIDE_MAX_CHARS = 300;
+
+const FORMAT_PLATFORMS: Record<MultipartFormat, PlatformProfile> = {
+  thread: PLATFORM_PROFILES.x,
+  carousel: PLATFORM_PROFILES.instagram
+};
+
+const FORMAT_LABELS: Record<MultipartFormat, { noun: string; part: string }> = {
+  thread: { noun: 'thread', part: 'post' },
+  carousel: { noun: 'carousel', part: 'slide caption' }
+};
+
+const CTA_PATTERN = /\?|\b(comment|share|stream|listen|pre-?save|follow|link|tickets?|watch|subscribe|tell me|let me know|tag)\b/i;
+
+// Numbering the model added itself ("1/", "2.", "(3/5)") is replaced with ours
+const NUMBERING_PATTERN = /^\s*(?:\(?\d+\s*(?:\/\s*\d+)?\)?[.):/-]?\s+)/;
+
+export function isMultipart(format: ContentFormat | null | undefined): format is MultipartFormat {
+  return format === 'thread' || format === 'carousel';
+}
+
+// The platform a format is written for: the requested one, else X for threads and Instagram for carousels
+export function formatPlatform(format: MultipartFormat, platform?: string | null): PlatformProfile {
+  return getPlatformProfile(platform) ?? FORMAT_PLATFORMS[format];
+}
+
+export function partCharLimit(format: MultipartFormat, profile: PlatformProfile): number {
+  return format === 'carousel' ? Math.min(profile.max_chars, CAROUSEL_SLIDE_MAX_CHARS) : profile.max_chars;
+}
+
+// Room for every part plus JSON quoting
+export function multipartTokenBudget(format: MultipartFormat, count: number, profile: PlatformProfile): number {
+  return Math.ceil((count * partCharLimit(format, profile)) / 4) + 50;
+}
+
+// Prompt instructions for the parts and the JSON shape of the answer
+export function describeMultipartFormat(format: MultipartFormat, count: number, profile: PlatformProfile): string {
+  const { noun, part } = FORMAT_LABELS[format];
+  return `Write it as a ${profile.label} ${noun} of exactly ${count} parts.
+- Part 1 is the hook: make people want to read on.
+- The last part is the call to action (listen, pre-save, comment, share).
+- Each ${part} must stand on its own and stay under ${partCharLimit(format, profile) - 6} characters.
+- Do not number the parts; numbering is added for you.
+Respond with ONLY a JSON array of ${count} strings, one per part, no extra text.`;
+}
+
+// Parts from the model output: a JSON array (or {"parts": [...]}), else numbered lines or paragraphs
+export function parseParts(raw: string): string[] {
+  const start = raw.indexOf('[');
+  const end = raw.lastIndexOf(']');
+  if (start !== -1 && end > start) {
+    try {
+      const parsed = JSON.parse(raw.slice(start, end + 1));
+      if (Array.isArray(parsed)) {
+        return parsed.filter((item): item is string => typeof item === 'string' && item.trim().length > 0);
+      }
+    } catch {
+      // Fall through to the plain-text split
+    }
+  }
+
+  const numbered = raw.split(/\n(?=\s*\(?\d+\s*(?:\/\s*\d+)?\)?[.):/-]?\s)/);
+  const chunks = numbered.length > 1 ? numbered : raw.split(/\n\s*\n/);
+  return chunks.map(chunk => chunk.trim()).filter(Boolean);
+}
+
+// Number, trim and fit the parts; the hook stays first and the call to action last
+export function buildParts(
+  rawParts: string[],
+  format: MultipartFormat,
+  requested: number,
+  profile: PlatformProfile
+): MultipartResult | null {
+  const adjustments: string[] = [];
+  const warnings: string[] = [];
+
+  let texts = rawParts.map(part => part.replace(NUMBERING_PATTERN, '').trim()).filter(Boolean);
+  if (texts.length < MIN_PARTS) return null;
+
+  if (texts.length > requested) {
+    adjustments.push(`Dropped ${texts.length - requested} extra parts, keeping the last one as the call to action`);
+    texts = [...texts.slice(0, requested - 1), texts[texts.length - 1]!];
+  } else if (texts.length < requested) {
+    warnings.push(`Only ${texts.length} of ${requested} parts were written`);
+  }
+
+  const total = texts.length;
+  const limit = partCharLimit(format, profile);
+  const fitted = texts.map((text, i) => {
+    const last = i === total - 1;
+    // Hashtag minimums apply to the post as a whole, so only the last part has to carry them
+    const partProfile: PlatformProfile = {
+      ...profile,
+      max_chars: limit - `${i + 1}/${total} `.length,
+      hashtags: { ...profile.hashtags, min: last ? profile.hashtags.min : 0 }
+    };
+    const fit = fitToPlatform(text, partProfile);
+    adjustments.push(...fit.adjustments.map(adjustment => `Part ${i + 1}: ${adjustment}`));
+    return fit.content;
+  });
+
+  const { parts, text } = assembleParts(fitted);
+
+  if (!CTA_PATTERN.test(parts[parts.length - 1]!.text)) {
+    warnings.push('The last part has no clear call to action');
+  }
+
+  return { parts, text, adjustments, warnings };
+}
+
+// Number parts in order ("2/5 ...") and join them into the stored text; used for generated and hand-edited parts
+export function assembleParts(texts: string[]): Pick<MultipartResult, 'parts' | 'text'> {
+  const cleaned = texts.map(text => text.replace(NUMBERING_PATTERN, '').trim()).filter(Boolean);
+  const total = cleaned.length;
+  const parts = cleaned.map((text, i): ContentPart => {
+    const numbered = `${i + 1}/${total} ${text}`;
+    return { index: i + 1, role: i === 0 ? 'hook' : i === total - 1 ? 'cta' : 'body', text: numbered, characters: numbered.length };
+  });
+  return { parts, text: parts.map(part => part.text).join('\n\n') };
+}
+
+// Platform problems per part, e.g. after a manual edit
+export function checkParts(parts: Array<Pick<ContentPart, 'text'>>, format: MultipartFormat, profile: PlatformProfile): string[] {
+  const limit = partCharLimit(format, profile);
+  return parts.flatMap((part, i) => {
+    const last = i === parts.length - 1;
+    const partProfile: PlatformProfile = {
+      ...profile,
+      max_chars: limit,
+      hashtags: { ...profile.hashtags, min: last ? profile.hashtags.min : 0 }
+    };
+    return checkPlatformFit(part.text, partProfile).map(issue => `Part ${i + 1}: ${issue}`);
+  });
+}
@@ -0,0 +1,344 @@
+import pool from '../Config/connection';
+
+// Approval workflow for generated content: draft -> in_review -> approved/rejected -> scheduled -> ready_to_publish -> published.
+// Who may take each step depends on the user's role for the content's artist.
+
+export type ApprovalStatus = 'draft' | 'in_review' | 'approved' | 'rejected' | 'scheduled' | 'ready_to_publish' | 'published';
+export type ReviewRole = 'owner' | 'editor' | 'reviewer';
+export type CollaboratorRole = Exclude<ReviewRole, 'owner'>;
+
+export const APPROVAL_STATUSES: ApprovalStatus[] = ['draft', 'in_review', 'approved', 'rejected', 'scheduled', 'ready_to_publish', 'published'];
+
+// Statuses that hold a slot on the calendar; leaving them clears the schedule
+export const SCHEDULED_STATUSES: ApprovalStatus[] = ['scheduled', 'ready_to_publish', 'published'];
+export const SCHEDULED_STATUS_LIST = SCHEDULED_STATUSES.map(status => `'${status}'`).join(', ');
+
+// from -> to -> roles allowed to make that change.
+// approved -> scheduled also needs a platform and a time (see contentScheduleService), and only the
+// scheduler moves scheduled content to ready_to_publish once it is due.
+export const APPROVAL_TRANSITIONS: Record<ApprovalStatus, Partial<Record<ApprovalStatus, ReviewRole[]>>> = {
+  draft: { in_review: ['owner', 'editor'] },
+  in_review: { approved: ['owner', 'reviewer'], rejected: ['owner', 'reviewer'], draft: ['owner', 'editor'] },
+  rejected: { draft: ['owner', 'editor'] },
+  approved: { scheduled: ['owner', 'editor'], draft: ['owner', 'editor'] },
+  scheduled: { published: ['owner', 'editor'], approved: ['owner', 'editor'] },
+  ready_to_publish: { published: ['owner', 'editor'], approved: ['owner', 'editor'] },
+  published: {}
+};
+
+// Approving or rejecting is a review decision; once a reviewer is assigned only they (or the owner) make it
+const REVIEW_DECISIONS: ApprovalStatus[] = ['approved', 'rejected'];
+
+export interface ReviewableContent {
+  id: string;
+  artist_id: string;
+  artist_name?: string;
+  persona_id: string | null;
+  content_type: string | null;
+  content_text: string | null;
+  content_metadata: any;
+  approval_status: ApprovalStatus;
+  assigned_reviewer_id: string | null;
+  assigned_reviewer_email?: string | null;
+  scheduled_at: Date | null;
+  scheduled_platform: string | null;
+  // Set while the post is pinned as a golden example for generation
+  example_pinned_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ContentAccess {
+  content: ReviewableContent;
+  role: ReviewRole;
+}
+
+export interface ReviewEvent {
+  id: string;
+  content_id: string;
+  event_type: 'created' | 'transition' | 'assignment' | 'schedule';
+  from_status: ApprovalStatus | null;
+  to_status: ApprovalStatus | null;
+  reviewer_id: string | null;
+  reviewer_email: string | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  comment: string | null;
+  created_at: Date;
+}
+
+export interface Collaborator {
+  user_id: string;
+  email: string;
+  role: ReviewRole;
+  created_at: Date | null;
+}
+
+export type TransitionCheck = { ok: true } | { ok: false; status: 403 | 409; error: string };
+
+export interface ReviewQueueFilters {
+  status?: ApprovalStatus | undefined;
+  assigned_to_me?: boolean | undefined;
+  limit?: number;
+  offset?: number;
+}
+
+export const CONTENT_COLUMNS = `gc.id, gc.artist_id, gc.persona_id, gc.content_type, gc.content_text, gc.content_metadata,
+  gc.approval_status, gc.assigned_reviewer_id, gc.scheduled_at, gc.scheduled_platform, gc.example_pinned_at, gc.created_at, gc.updated_at`;
+
+// The user's role for an artist: owner of the artist row, else their collaborator role
+const ROLE_SELECT = `CASE WHEN a.user_id = $2 THEN 'owner' ELSE ac.role END AS role`;
+
+class ContentReviewService {
+  // Load content with the caller's role; null when it doesn't exist or the caller has no role for its artist
+  async getContentAccess(contentId: string, userId: string): Promise<ContentAccess | null> {
+    const result = await pool.query(
+      `SELECT ${CONTENT_COLUMNS}, a.artist_name, r.email AS assigned_reviewer_email, ${ROLE_SELECT}
+       FROM generated_content gc
+       JOIN artists a ON a.id = gc.artist_id
+       LEFT JOIN artist_collaborators ac ON ac.artist_id = gc.artist_id AND ac.user_id = $2
+       LEFT JOIN users r ON r.id = gc.assigned_reviewer_id
+       WHERE gc.id = $1 AND (a.user_id = $2 OR ac.user_id IS NOT NULL)`,
+      [contentId, userId]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    const { role, ...content } = row;
+    return { content, role };
+  }
+
+  // Whether the caller may move the content to `to`, and why not
+  checkTransition(access: ContentAccess, userId: string, to: ApprovalStatus): TransitionCheck {
+    const from = access.content.approval_status;
+    const allowedRoles = APPROVAL_TRANSITIONS[from]?.[to];
+
+    if (!allowedRoles) {
+      return { ok: false, status: 409, error: `Cannot move content from ${from} to ${to}` };
+    }
+    if (!allowedRoles.includes(access.role)) {
+      return { ok: false, status: 403, error: `A ${access.role} cannot move content from ${from} to ${to}` };
+    }
+
+    // Its text was never stored; a manual edit that passes moderation clears the verdict and allows reopening
+    if (from === 'rejected' && access.content.content_metadata?.moderation?.action === 'block') {
+      return { ok: false, status: 409, error: 'Content blocked by moderation cannot be reopened. Edit it first.' };
+    }
+
+    const assigned = access.content.assigned_reviewer_id;
+    if (REVIEW_DECISIONS.includes(to) && access.role === 'reviewer' && assigned && assigned !== userId) {
+      return { ok: false, status: 403, error: 'This content is assigned to another reviewer' };
+    }
+
+    return { ok: true };
+  }
+
+  allowedTransitions(access: ContentAccess, userId: string): ApprovalStatus[] {
+    const targets = Object.keys(APPROVAL_TRANSITIONS[access.content.approval_status] ?? {}) as ApprovalStatus[];
+    return targets.filter(to => this.checkTransition(access, userId, to).ok);
+  }
+
+  // Move content from `from` to `to` and record it; null if the status changed since it was read.
+  // Moving out of the scheduled statuses (e.g. back to approved) frees the item's calendar slot.
+  async transition(
+    contentId: string,
+    from: ApprovalStatus,
+    to: ApprovalStatus,
+    actorId: string,
+    comment?: string | null
+  ): Promise<ReviewableContent | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const updated = await client.query(
+        `UPDATE generated_content gc
+         SET approval_status = $1,
+             scheduled_at = CASE WHEN $1 IN (${SCHEDULED_STATUS_LIST}) THEN gc.scheduled_at END,
+             scheduled_platform = CASE WHEN $1 IN (${SCHEDULED_STATUS_LIST}) THEN gc.scheduled_platform END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE gc.id = $2 AND gc.approval_status = $3
+         RETURNING ${CONTENT_COLUMNS}`,
+        [to, contentId, from]
+      );
+
+      if (updated.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(
+        `INSERT INTO content_review_events (content_id, event_type, from_status, to_status, actor_id, comment)
+         VALUES ($1, 'transition', $2, $3, $4, $5)`,
+        [contentId, from, to, actorId, comment || null]
+      );
+
+      await client.query('COMMIT');
+      return updated.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Set or clear the reviewer for one item; the reviewer must be eligible (see isEligibleReviewer)
+  async assignReviewer(contentId: string, reviewerId: string | null, actorId: string): Promise<ReviewableContent | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const updated = await client.query(
+        `UPDATE generated_content gc
+         SET assigned_reviewer_id = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE gc.id = $2
+         RETURNING ${CONTENT_COLUMNS}, (SELECT email FROM users WHERE id = gc.assigned_reviewer_id) AS assigned_reviewer_email`,
+        [reviewerId, contentId]
+      );
+
+      if (updated.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(
+        `INSERT INTO content_review_events (content_id, event_type, reviewer_id, actor_id)
+         VALUES ($1, 'assignment', $2, $3)`,
+        [contentId, reviewerId, actorId]
+      );
+
+      await client.query('COMMIT');
+      return updated.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Reviewers are the artist's owner and its collaborators with the reviewer role
+  async isEligibleReviewer(artistId: string, userId: string): Promise<boolean> {
+    const result = await pool.query(
+      `SELECT 1 FROM artists WHERE id = $1 AND user_id = $2
+       UNION ALL
+       SELECT 1 FROM artist_collaborators WHERE artist_id = $1 AND user_id = $2 AND role = 'reviewer'`,
+      [artistId, userId]
+    );
+    return result.rows.length > 0;
+  }
+
+  // Every state change and assignment, oldest first, starting with the item's creation as a draft
+  async getTimeline(content: ReviewableContent): Promise<ReviewEvent[]> {
+    const result = await pool.query(
+      `SELECT e.id, e.content_id, e.event_type, e.from_status, e.to_status, e.reviewer_id, r.email AS reviewer_email,
+              e.actor_id, u.email AS actor_email, e.comment, e.created_at
+       FROM content_review_events e
+       LEFT JOIN users u ON u.id = e.actor_id
+       LEFT JOIN users r ON r.id = e.reviewer_id
+       WHERE e.content_id = $1
+       ORDER BY e.created_at ASC`,
+      [content.id]
+    );
+
+    const created: ReviewEvent = {
+      id: `${content.id}:created`,
+      content_id: content.id,
+      event_type: 'created',
+      from_status: null,
+      to_status: 'draft',
+      reviewer_id: null,
+      reviewer_email: null,
+      actor_id: null,
+      actor_email: null,
+      comment: null,
+      created_at: content.created_at
+    };
+
+    return [created, ...result.rows];
+  }
+
+  // Content across every artist the user owns or collaborates on, with the user's role for each item
+  async getReviewQueue(userId: string, filters: ReviewQueueFilters = {}): Promise<{ items: Array<ReviewableContent & { role: ReviewRole }>; total: number }> {
+    const conditions = ['(a.user_id = $1 OR ac.user_id IS NOT NULL)'];
+    const params: any[] = [userId];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`gc.approval_status = $${params.length}`);
+    }
+    if (filters.assigned_to_me) {
+      conditions.push('gc.assigned_reviewer_id = $1');
+    }
+
+    const from = `FROM generated_content gc
+       JOIN artists a ON a.id = gc.artist_id
+       LEFT JOIN artist_collaborators ac ON ac.artist_id = gc.artist_id AND ac.user_id = $1
+       LEFT JOIN users r ON r.id = gc.assigned_reviewer_id
+       WHERE ${conditions.join(' AND ')}`;
+
+    const [rows, count] = await Promise.all([
+      pool.query(
+        `SELECT ${CONTENT_COLUMNS}, a.artist_name, r.email AS assigned_reviewer_email,
+                CASE WHEN a.user_id = $1 THEN 'owner' ELSE ac.role END AS role
+         ${from}
+         ORDER BY gc.updated_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, filters.limit ?? 50, filters.offset ?? 0]
+      ),
+      pool.query(`SELECT COUNT(*)::int AS total ${from}`, params)
+    ]);
+
+    return { items: rows.rows, total: count.rows[0]?.total ?? 0 };
+  }
+
+  // The owner first, then collaborators by when they were added
+  async listCollaborators(artistId: string): Promise<Collaborator[]> {
+    const result = await pool.query(
+      `SELECT u.id AS user_id, u.email, 'owner' AS role, NULL::timestamptz AS created_at, 0 AS sort_order
+       FROM artists a JOIN users u ON u.id = a.user_id
+       WHERE a.id = $1
+       UNION ALL
+       SELECT u.id, u.email, ac.role, ac.created_at, 1
+       FROM artist_collaborators ac JOIN users u ON u.id = ac.user_id
+       WHERE ac.artist_id = $1
+       ORDER BY sort_order, created_at`,
+      [artistId]
+    );
+    return result.rows.map(({ sort_order, ...row }: any) => row);
+  }
+
+  // Add or change a collaborator by email; null when no other user has that email
+  async upsertCollaborator(artistId: string, email: string, role: CollaboratorRole, addedBy: string): Promise<Collaborator | null> {
+    const result = await pool.query(
+      `INSERT INTO artist_collaborators (artist_id, user_id, role, added_by)
+       SELECT $1, u.id, $3, $4 FROM users u WHERE lower(u.email) = lower($2) AND u.id <> $4
+       ON CONFLICT (artist_id, user_id) DO UPDATE SET role = EXCLUDED.role
+       RETURNING user_id, $2::text AS email, role, created_at`,
+      [artistId, email, role, addedBy]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Removing a reviewer also unassigns them from the artist's content
+  async removeCollaborator(artistId: string, userId: string): Promise<boolean> {
+    const result = await pool.query(
+      'DELETE FROM artist_collaborators WHERE artist_id = $1 AND user_id = $2',
+      [artistId, userId]
+    );
+    if (!result.rowCount) return false;
+
+    await pool.query(
+      'UPDATE generated_content SET assigned_reviewer_id = NULL WHERE artist_id = $1 AND assigned_reviewer_id = $2',
+      [artistId, userId]
+    );
+    return true;
+  }
+}
+
+// Export singleton instance
+export const contentReviewService = new ContentReviewService();
+export default contentReviewService;
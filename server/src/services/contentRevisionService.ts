@@ -0,0 +1,224 @@
+import pool from '../Config/connection';
+import { ApprovalStatus, CONTENT_COLUMNS, ContentAccess, ReviewableContent } from './contentReviewService';
+
+// Revision history for generated content. generated_content.content_text is always the latest revision;
+// the text as generated becomes revision 1 the first time the item is edited or refined.
+
+export type RevisionSource = 'generated' | 'manual' | 'refine';
+
+export interface ContentRevision {
+  id: string;
+  content_id: string;
+  revision_number: number;
+  content_text: string;
+  source: RevisionSource;
+  instruction: string | null;
+  provider: string | null;
+  ai_model: string | null;
+  quality_score: number | null;
+  created_by: string | null;
+  created_by_email?: string | null;
+  created_at: Date;
+}
+
+export interface NewRevision {
+  content_text: string;
+  source: Exclude<RevisionSource, 'generated'>;
+  instruction?: string | null | undefined;
+  provider?: string | null | undefined;
+  ai_model?: string | null | undefined;
+  quality_score?: number | null | undefined;
+  // content_metadata fields that change with the text, e.g. the parts of a thread
+  metadata?: Record<string, unknown> | undefined;
+}
+
+export interface TextDiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export type EditCheck = { ok: true } | { ok: false; status: 403 | 409; error: string };
+
+// Submitted, approved and published text is what reviewers signed off on; move it back to draft to change it
+export const EDITABLE_STATUSES: ApprovalStatus[] = ['draft', 'rejected'];
+
+// Word-level diffs beyond this many token pairs fall back to replacing the whole text
+const MAX_DIFF_CELLS = 1_000_000;
+
+const REVISION_COLUMNS = `r.id, r.content_id, r.revision_number, r.content_text, r.source, r.instruction,
+  r.provider, r.ai_model, r.quality_score, r.created_by, r.created_at`;
+
+const toRevision = (row: any): ContentRevision => ({
+  ...row,
+  quality_score: row.quality_score === null || row.quality_score === undefined ? null : Number(row.quality_score)
+});
+
+class ContentRevisionService {
+  // Owners and editors can change draft or rejected text; reviewers only decide on it
+  checkEditable(access: ContentAccess): EditCheck {
+    if (access.role === 'reviewer') {
+      return { ok: false, status: 403, error: 'Reviewers cannot edit content' };
+    }
+    if (!EDITABLE_STATUSES.includes(access.content.approval_status)) {
+      return { ok: false, status: 409, error: `Content in ${access.content.approval_status} cannot be edited. Move it back to draft first.` };
+    }
+    return { ok: true };
+  }
+
+  // The generated text as revision 1, for items that were never edited
+  private originalRevision(content: ReviewableContent): ContentRevision {
+    return {
+      id: `${content.id}:original`,
+      content_id: content.id,
+      revision_number: 1,
+      content_text: content.content_text ?? '',
+      source: 'generated',
+      instruction: null,
+      provider: content.content_metadata?.model_used ?? null,
+      ai_model: null,
+      quality_score: typeof content.content_metadata?.quality_score === 'number' ? content.content_metadata.quality_score : null,
+      created_by: null,
+      created_by_email: null,
+      created_at: content.created_at
+    };
+  }
+
+  // All revisions, newest first
+  async listRevisions(content: ReviewableContent): Promise<ContentRevision[]> {
+    const result = await pool.query(
+      `SELECT ${REVISION_COLUMNS}, u.email AS created_by_email
+       FROM content_revisions r
+       LEFT JOIN users u ON u.id = r.created_by
+       WHERE r.content_id = $1
+       ORDER BY r.revision_number DESC`,
+      [content.id]
+    );
+
+    return result.rows.length > 0 ? result.rows.map(toRevision) : [this.originalRevision(content)];
+  }
+
+  // Store new text as the next revision and make it the item's current text.
+  // Null when the item was deleted or left an editable status since it was read.
+  async addRevision(
+    contentId: string,
+    revision: NewRevision,
+    actorId: string
+  ): Promise<{ content: ReviewableContent; revision: ContentRevision } | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const locked = await client.query(
+        'SELECT approval_status FROM generated_content WHERE id = $1 FOR UPDATE',
+        [contentId]
+      );
+      if (!locked.rows[0] || !EDITABLE_STATUSES.includes(locked.rows[0].approval_status)) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      // Keep the generated text before it is overwritten for the first time
+      await client.query(
+        `INSERT INTO content_revisions (content_id, revision_number, content_text, source, provider, quality_score, created_at)
+         SELECT gc.id, 1, COALESCE(gc.content_text, ''), 'generated', gc.content_metadata->>'model_used',
+                (gc.content_metadata->>'quality_score')::numeric, gc.created_at
+         FROM generated_content gc
+         WHERE gc.id = $1 AND NOT EXISTS (SELECT 1 FROM content_revisions WHERE content_id = $1)`,
+        [contentId]
+      );
+
+      const inserted = await client.query(
+        `INSERT INTO content_revisions (content_id, revision_number, content_text, source, instruction, provider, ai_model, quality_score, created_by)
+         SELECT $1, COALESCE(MAX(revision_number), 0) + 1, $2, $3, $4, $5, $6, $7, $8
+         FROM content_revisions WHERE content_id = $1
+         RETURNING id, content_id, revision_number, content_text, source, instruction, provider, ai_model, quality_score, created_by, created_at`,
+        [
+          contentId,
+          revision.content_text,
+          revision.source,
+          revision.instruction ?? null,
+          revision.provider ?? null,
+          revision.ai_model ?? null,
+          revision.quality_score ?? null,
+          actorId
+        ]
+      );
+      const saved = toRevision(inserted.rows[0]);
+
+      const updated = await client.query(
+        `UPDATE generated_content gc
+         SET content_text = $1,
+             content_metadata = COALESCE(gc.content_metadata, '{}'::jsonb) || $2::jsonb,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE gc.id = $3
+         RETURNING ${CONTENT_COLUMNS}`,
+        [
+          revision.content_text,
+          JSON.stringify({ ...revision.metadata, quality_score: saved.quality_score, revision_number: saved.revision_number }),
+          contentId
+        ]
+      );
+
+      await client.query('COMMIT');
+      return { content: updated.rows[0], revision: saved };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Word-level diff between two revisions (longest common subsequence); whitespace stays attached to the words
+export function diffRevisionText(from: string, to: string): TextDiffSegment[] {
+  const a = from.match(/\S+\s*|\s+/g) ?? [];
+  const b = to.match(/\S+\s*|\s+/g) ?? [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(from ? [{ op: 'delete' as const, text: from }] : []),
+      ...(to ? [{ op: 'insert' as const, text: to }] : [])
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = a[i] === b[j]
+        ? lengths[i + 1]![j + 1]! + 1
+        : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (op: TextDiffSegment['op'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) last.text += text;
+    else segments.push({ op, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]!);
+      i++;
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      push('delete', a[i++]!);
+    } else {
+      push('insert', b[j++]!);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]!);
+  while (j < b.length) push('insert', b[j++]!);
+
+  return segments;
+}
+
+// Export singleton instance
+export const contentRevisionService = new ContentRevisionService();
+export default contentRevisionService;
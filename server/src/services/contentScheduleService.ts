@@ -0,0 +1,239 @@
+import pool from '../Config/connection';
+import { ApprovalStatus, CONTENT_COLUMNS, ReviewableContent, ReviewRole, SCHEDULED_STATUS_LIST } from './contentReviewService';
+import notificationService from './notificationService';
+import { PlatformName, getPlatformProfile } from './platformProfiles';
+
+// Scheduling for approved content: each item gets a platform and a time, posts on the same platform that are
+// too close together are reported as conflicts, and a scheduler moves due items to ready_to_publish.
+
+// Two posts for one artist on one platform closer than this are a conflict
+export const SCHEDULE_CONFLICT_MINUTES = parseInt(process.env.SCHEDULE_CONFLICT_MINUTES || '60');
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.CONTENT_SCHEDULER_INTERVAL_MS || '60000');
+
+export interface ScheduleSlot {
+  platform: PlatformName;
+  scheduled_at: Date;
+}
+
+export interface ScheduleConflict {
+  id: string;
+  content_text: string | null;
+  approval_status: ApprovalStatus;
+  scheduled_platform: string;
+  scheduled_at: Date;
+  minutes_apart: number;
+}
+
+export interface CalendarFilters {
+  from: Date;
+  to: Date;
+  artist_id?: string | undefined;
+  platform?: PlatformName | undefined;
+}
+
+export type CalendarItem = ReviewableContent & { role: ReviewRole; conflicts_with: string[] };
+
+export interface DueContent {
+  id: string;
+  artist_id: string;
+  content_text: string | null;
+  scheduled_platform: string | null;
+  scheduled_at: Date;
+}
+
+const minutesApart = (a: Date, b: Date) => Math.round(Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 60000);
+
+export function describeSlot(slot: { platform: string; scheduled_at: Date }): string {
+  const label = getPlatformProfile(slot.platform)?.label ?? slot.platform;
+  return `${label} at ${new Date(slot.scheduled_at).toISOString()}`;
+}
+
+// Pair up items of the same artist and platform that are less than `windowMinutes` apart
+export function markConflicts<T extends Pick<ReviewableContent, 'id' | 'artist_id' | 'scheduled_at' | 'scheduled_platform'>>(
+  items: T[],
+  windowMinutes = SCHEDULE_CONFLICT_MINUTES
+): Array<T & { conflicts_with: string[] }> {
+  const marked = items.map(item => ({ ...item, conflicts_with: [] as string[] }));
+
+  for (let i = 0; i < marked.length; i++) {
+    for (let j = i + 1; j < marked.length; j++) {
+      const a = marked[i]!;
+      const b = marked[j]!;
+      if (!a.scheduled_at || !b.scheduled_at || a.artist_id !== b.artist_id || a.scheduled_platform !== b.scheduled_platform) continue;
+      if (Math.abs(new Date(a.scheduled_at).getTime() - new Date(b.scheduled_at).getTime()) < windowMinutes * 60000) {
+        a.conflicts_with.push(b.id);
+        b.conflicts_with.push(a.id);
+      }
+    }
+  }
+
+  return marked;
+}
+
+class ContentScheduleService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  // Other posts of the artist on the slot's platform less than `windowMinutes` from it
+  async findConflicts(
+    artistId: string,
+    slot: ScheduleSlot,
+    excludeContentId: string,
+    windowMinutes = SCHEDULE_CONFLICT_MINUTES
+  ): Promise<ScheduleConflict[]> {
+    const at = slot.scheduled_at.getTime();
+    const result = await pool.query(
+      `SELECT gc.id, gc.content_text, gc.approval_status, gc.scheduled_platform, gc.scheduled_at
+       FROM generated_content gc
+       WHERE gc.artist_id = $1 AND gc.scheduled_platform = $2 AND gc.id <> $3
+         AND gc.approval_status IN (${SCHEDULED_STATUS_LIST})
+         AND gc.scheduled_at > $4 AND gc.scheduled_at < $5
+       ORDER BY gc.scheduled_at`,
+      [artistId, slot.platform, excludeContentId, new Date(at - windowMinutes * 60000), new Date(at + windowMinutes * 60000)]
+    );
+
+    return result.rows.map((row: Omit<ScheduleConflict, 'minutes_apart'>) => ({
+      ...row,
+      minutes_apart: minutesApart(row.scheduled_at, slot.scheduled_at)
+    }));
+  }
+
+  // Put approved content on the calendar, or move already scheduled content to another slot;
+  // null if the status changed since it was read
+  async schedule(content: ReviewableContent, slot: ScheduleSlot, actorId: string): Promise<ReviewableContent | null> {
+    const from = content.approval_status;
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const updated = await client.query(
+        `UPDATE generated_content gc
+         SET approval_status = 'scheduled', scheduled_at = $1, scheduled_platform = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE gc.id = $3 AND gc.approval_status = $4
+         RETURNING ${CONTENT_COLUMNS}`,
+        [slot.scheduled_at, slot.platform, content.id, from]
+      );
+
+      if (updated.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(
+        `INSERT INTO content_review_events (content_id, event_type, from_status, to_status, actor_id, comment)
+         VALUES ($1, $2, $3, 'scheduled', $4, $5)`,
+        [content.id, from === 'scheduled' ? 'schedule' : 'transition', from, actorId, `Scheduled for ${describeSlot(slot)}`]
+      );
+
+      await client.query('COMMIT');
+      return updated.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Scheduled, ready and published items in [from, to) across every artist the user works on, oldest first
+  async getCalendar(userId: string, filters: CalendarFilters, windowMinutes = SCHEDULE_CONFLICT_MINUTES): Promise<CalendarItem[]> {
+    const conditions = [
+      '(a.user_id = $1 OR ac.user_id IS NOT NULL)',
+      `gc.approval_status IN (${SCHEDULED_STATUS_LIST})`,
+      'gc.scheduled_at >= $2 AND gc.scheduled_at < $3'
+    ];
+    const params: any[] = [userId, filters.from, filters.to];
+
+    if (filters.artist_id) {
+      params.push(filters.artist_id);
+      conditions.push(`gc.artist_id = $${params.length}`);
+    }
+    if (filters.platform) {
+      params.push(filters.platform);
+      conditions.push(`gc.scheduled_platform = $${params.length}`);
+    }
+
+    const result = await pool.query(
+      `SELECT ${CONTENT_COLUMNS}, a.artist_name, CASE WHEN a.user_id = $1 THEN 'owner' ELSE ac.role END AS role
+       FROM generated_content gc
+       JOIN artists a ON a.id = gc.artist_id
+       LEFT JOIN artist_collaborators ac ON ac.artist_id = gc.artist_id AND ac.user_id = $1
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY gc.scheduled_at ASC`,
+      params
+    );
+
+    return markConflicts(result.rows, windowMinutes);
+  }
+
+  // Move every scheduled item that is due to ready_to_publish, record it on its timeline and notify the
+  // people who can publish it. Items are claimed by the UPDATE, so concurrent runs never promote one twice.
+  async promoteDue(now = new Date()): Promise<DueContent[]> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const due = await client.query(
+        `UPDATE generated_content gc
+         SET approval_status = 'ready_to_publish', updated_at = CURRENT_TIMESTAMP
+         WHERE gc.approval_status = 'scheduled' AND gc.scheduled_at <= $1
+         RETURNING gc.id, gc.artist_id, gc.content_text, gc.scheduled_platform, gc.scheduled_at`,
+        [now]
+      );
+
+      for (const item of due.rows as DueContent[]) {
+        const slot = describeSlot({ platform: item.scheduled_platform ?? 'unknown', scheduled_at: item.scheduled_at });
+        await client.query(
+          `INSERT INTO content_review_events (content_id, event_type, from_status, to_status, comment)
+           VALUES ($1, 'transition', 'scheduled', 'ready_to_publish', $2)`,
+          [item.id, `Due on ${slot}`]
+        );
+        await notificationService.notifyPublishers(
+          client,
+          item.artist_id,
+          item.id,
+          'content_ready_to_publish',
+          `A post is ready to publish on ${slot}`
+        );
+      }
+
+      await client.query('COMMIT');
+      return due.rows;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Run promoteDue every `intervalMs` (0 turns the scheduler off); a slow run is never overlapped by the next
+  start(intervalMs = SCHEDULER_INTERVAL_MS): void {
+    if (this.timer || intervalMs <= 0) return;
+
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.running = true;
+      this.promoteDue()
+        .then(promoted => {
+          if (promoted.length > 0) console.log(`📅 ${promoted.length} scheduled post(s) ready to publish`);
+        })
+        .catch(error => console.error('Content scheduler error:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+// Export singleton instance
+export const contentScheduleService = new ContentScheduleService();
+export default contentScheduleService;
@@ -0,0 +1,251 @@
+import pool from '../Config/connection';
+import { PlatformName } from './platformProfiles';
+import publisherService, { PublishedContent, accountPlatform } from './publisherService';
+
+// Engagement metrics for published posts. Each snapshot holds the counts a platform reported for one post at one
+// moment; they are stored one row per metric in content_analytics, so a post's numbers can be followed over time.
+
+export const ENGAGEMENT_METRICS = ['likes', 'shares', 'comments', 'views', 'saves'] as const;
+export type EngagementMetric = typeof ENGAGEMENT_METRICS[number];
+
+export type MetricValues = Partial<Record<EngagementMetric, number>>;
+
+// A post is identified by its publication id, or by the platform and the id the platform gave it
+export interface MetricsSnapshot extends MetricValues {
+  publication_id?: string | undefined;
+  platform?: PlatformName | undefined;
+  platform_post_id?: string | undefined;
+  recorded_at: Date;
+}
+
+export type MetricsSource = 'api' | 'import';
+
+export interface IngestResult {
+  recorded: number;
+  // Indexes of snapshots that matched no published post the user can record metrics for
+  unmatched: number[];
+}
+
+export interface MetricsPoint extends MetricValues {
+  recorded_at: Date;
+}
+
+export interface PublicationMetrics {
+  publication_id: string;
+  platform: PlatformName;
+  platform_post_id: string | null;
+  post_url: string | null;
+  published_at: Date | null;
+  points: MetricsPoint[];
+  latest: MetricValues;
+  // (likes + comments + shares + saves) / views of the latest numbers; null without views
+  engagement_rate: number | null;
+}
+
+interface PublicationRef {
+  id: string;
+  platform: string;
+  platform_post_id: string | null;
+}
+
+const isMetric = (name: string): name is EngagementMetric => (ENGAGEMENT_METRICS as readonly string[]).includes(name);
+
+export function engagementRate(values: MetricValues): number | null {
+  if (!values.views) return null;
+  const interactions = (values.likes ?? 0) + (values.comments ?? 0) + (values.shares ?? 0) + (values.saves ?? 0);
+  return Math.round((interactions / values.views) * 10000) / 10000;
+}
+
+// RFC 4180 CSV: quoted fields may hold commas, doubled quotes and line breaks. Returns one object per data row,
+// keyed by the lower-cased header; blank lines are skipped.
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  const [header, ...data] = rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+  if (!header) return [];
+  const keys = header.map(key => key.trim().toLowerCase());
+
+  return data.map(cells => Object.fromEntries(keys.map((key, index) => [key, (cells[index] ?? '').trim()])));
+}
+
+class EngagementMetricsService {
+  // Store the snapshots of posts the user publishes for (owner or editor). Recording the same post, metric and
+  // moment again replaces the value, so an export can be imported twice.
+  async ingest(userId: string, snapshots: MetricsSnapshot[], source: MetricsSource = 'api'): Promise<IngestResult> {
+    const publications = await this.findPublications(userId, snapshots);
+    const values = new Map<string, { publication: PublicationRef; metric: EngagementMetric; value: number; recorded_at: Date }>();
+    const unmatched: number[] = [];
+
+    snapshots.forEach((snapshot, index) => {
+      const publication = publications.find(candidate =>
+        snapshot.publication_id
+          ? candidate.id === snapshot.publication_id
+          : candidate.platform_post_id === snapshot.platform_post_id &&
+            (!snapshot.platform || candidate.platform === accountPlatform(snapshot.platform))
+      );
+      if (!publication) {
+        unmatched.push(index);
+        return;
+      }
+
+      for (const metric of ENGAGEMENT_METRICS) {
+        const value = snapshot[metric];
+        if (value === undefined) continue;
+        const recordedAt = new Date(snapshot.recorded_at);
+        // The last snapshot wins when one request repeats a post, metric and moment
+        values.set(`${publication.id}|${metric}|${recordedAt.getTime()}`, { publication, metric, value, recorded_at: recordedAt });
+      }
+    });
+
+    if (values.size === 0) return { recorded: 0, unmatched };
+
+    const rows = [...values.values()];
+    await pool.query(
+      `INSERT INTO content_analytics (published_content_id, metric_name, metric_value, recorded_at, platform, source, recorded_by)
+       SELECT m.published_content_id, m.metric_name, m.metric_value, m.recorded_at, m.platform, $6, $7
+       FROM UNNEST($1::uuid[], $2::varchar[], $3::bigint[], $4::timestamptz[], $5::varchar[])
+         AS m(published_content_id, metric_name, metric_value, recorded_at, platform)
+       ON CONFLICT (published_content_id, metric_name, recorded_at) DO UPDATE SET
+         metric_value = EXCLUDED.metric_value,
+         source = EXCLUDED.source,
+         recorded_by = EXCLUDED.recorded_by`,
+      [
+        rows.map(row => row.publication.id),
+        rows.map(row => row.metric),
+        rows.map(row => row.value),
+        rows.map(row => row.recorded_at),
+        rows.map(row => row.publication.platform),
+        source,
+        userId
+      ]
+    );
+
+    return { recorded: rows.length, unmatched };
+  }
+
+  // The metrics of every post the content went out as, oldest snapshot first
+  async getTimeline(contentId: string): Promise<PublicationMetrics[]> {
+    const publications = (await publisherService.listPublications(contentId))
+      .filter(publication => publication.post_status === 'published');
+    if (publications.length === 0) return [];
+
+    const result = await pool.query(
+      `SELECT published_content_id, metric_name, metric_value, recorded_at
+       FROM content_analytics
+       WHERE published_content_id = ANY($1::uuid[])
+       ORDER BY recorded_at ASC`,
+      [publications.map(publication => publication.id)]
+    );
+
+    return publications.map(publication => this.toTimeline(
+      publication,
+      result.rows.filter((row: { published_content_id: string }) => row.published_content_id === publication.id)
+    ));
+  }
+
+  // The most recent value of each metric per post
+  async latestValues(publicationIds: string[]): Promise<Map<string, MetricValues>> {
+    const latest = new Map<string, MetricValues>();
+    if (publicationIds.length === 0) return latest;
+
+    const result = await pool.query(
+      `SELECT DISTINCT ON (published_content_id, metric_name) published_content_id, metric_name, metric_value
+       FROM content_analytics
+       WHERE published_content_id = ANY($1::uuid[])
+       ORDER BY published_content_id, metric_name, recorded_at DESC`,
+      [publicationIds]
+    );
+
+    for (const row of result.rows as Array<{ published_content_id: string; metric_name: string; metric_value: string | number }>) {
+      if (!isMetric(row.metric_name)) continue;
+      const values = latest.get(row.published_content_id) ?? {};
+      values[row.metric_name] = Number(row.metric_value);
+      latest.set(row.published_content_id, values);
+    }
+
+    return latest;
+  }
+
+  private toTimeline(
+    publication: PublishedContent,
+    rows: Array<{ metric_name: string; metric_value: string | number; recorded_at: Date }>
+  ): PublicationMetrics {
+    const points = new Map<number, MetricsPoint>();
+    const latest: MetricValues = {};
+
+    for (const row of rows) {
+      if (!isMetric(row.metric_name)) continue;
+      const at = new Date(row.recorded_at).getTime();
+      const point = points.get(at) ?? { recorded_at: new Date(at) };
+      // BIGINT comes back from pg as a string
+      point[row.metric_name] = Number(row.metric_value);
+      points.set(at, point);
+      latest[row.metric_name] = Number(row.metric_value);
+    }
+
+    return {
+      publication_id: publication.id,
+      platform: publication.platform,
+      platform_post_id: publication.platform_post_id,
+      post_url: publication.post_url,
+      published_at: publication.published_at,
+      points: [...points.values()],
+      latest,
+      engagement_rate: engagementRate(latest)
+    };
+  }
+
+  private async findPublications(userId: string, snapshots: MetricsSnapshot[]): Promise<PublicationRef[]> {
+    const ids = snapshots.flatMap(snapshot => (snapshot.publication_id ? [snapshot.publication_id] : []));
+    const postIds = snapshots.flatMap(snapshot => (!snapshot.publication_id && snapshot.platform_post_id ? [snapshot.platform_post_id] : []));
+
+    const result = await pool.query(
+      `SELECT pc.id, pc.platform, pc.platform_post_id
+       FROM published_content pc
+       JOIN generated_content gc ON gc.id = pc.generated_content_id
+       JOIN artists a ON a.id = gc.artist_id
+       LEFT JOIN artist_collaborators ac ON ac.artist_id = gc.artist_id AND ac.user_id = $1
+       WHERE pc.post_status = 'published'
+         AND (a.user_id = $1 OR ac.role = 'editor')
+         AND (pc.id::text = ANY($2::text[]) OR pc.platform_post_id = ANY($3::text[]))`,
+      [userId, ids, postIds]
+    );
+    return result.rows;
+  }
+}
+
+// Export singleton instance
+export const engagementMetricsService = new EngagementMetricsService();
+export default engagementMetricsService;
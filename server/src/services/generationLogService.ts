@@ -0,0 +1,188 @@
+import pool from '../Config/connection';
+
+export type GenerationRequestType = 'content_generation' | 'content_refinement' | 'content_repurpose' | 'quality_scoring' | 'template_processing';
+
+export interface GenerationLogEntry {
+  request_type: GenerationRequestType;
+  user_id?: string | null | undefined;
+  artist_id?: string | null | undefined;
+  persona_id?: string | null | undefined;
+  provider?: string | null | undefined;
+  ai_model?: string | null | undefined;
+  input_params?: Record<string, any>;
+  output_data?: Record<string, any> | null;
+  processing_time_ms: number;
+  success: boolean;
+  error?: unknown;
+  prompt_tokens?: number | null | undefined;
+  completion_tokens?: number | null | undefined;
+  attempts?: number;
+  estimated_cost_usd?: number | null | undefined;
+}
+
+export interface GenerationLogFilters {
+  provider?: string | undefined;
+  request_type?: string | undefined;
+  success?: boolean | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ProviderLogStats {
+  provider: string;
+  calls: number;
+  failures: number;
+  failure_rate: number;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface GenerationLogSummary {
+  calls: number;
+  failures: number;
+  failure_rate: number;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  by_provider: ProviderLogStats[];
+}
+
+// Error messages are stored for debugging, not as a dump of the whole upstream response
+const MAX_ERROR_LENGTH = 1000;
+
+class GenerationLogService {
+  // Fire-and-forget: a failed log write must never fail the AI call it describes
+  record(entry: GenerationLogEntry): void {
+    const errorMessage = entry.error === undefined
+      ? null
+      : (entry.error instanceof Error ? entry.error.message : String(entry.error)).slice(0, MAX_ERROR_LENGTH);
+    const errorCode = (entry.error as { code?: unknown } | undefined)?.code;
+
+    Promise.resolve(pool.query(
+      `INSERT INTO ai_generation_logs (
+        user_id, artist_id, persona_id, request_type, provider, ai_model, input_params, output_data,
+        processing_time_ms, success, error_message, error_code, prompt_tokens, completion_tokens, attempts,
+        estimated_cost_usd
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
+      [
+        entry.user_id ?? null,
+        entry.artist_id ?? null,
+        entry.persona_id ?? null,
+        entry.request_type,
+        entry.provider ?? null,
+        entry.ai_model ?? null,
+        JSON.stringify(entry.input_params ?? {}),
+        entry.output_data ? JSON.stringify(entry.output_data) : null,
+        Math.round(entry.processing_time_ms),
+        entry.success,
+        errorMessage,
+        typeof errorCode === 'string' ? errorCode.slice(0, 50) : null,
+        entry.prompt_tokens ?? null,
+        entry.completion_tokens ?? null,
+        entry.attempts ?? 1,
+        entry.estimated_cost_usd ?? null
+      ]
+    )).catch((err) => console.warn('Failed to write AI generation log', err));
+  }
+
+  // Rows the user can see: their own calls, plus calls made for any artist they own
+  private buildWhere(userId: string, filters: GenerationLogFilters): { clause: string; params: any[] } {
+    const conditions = ['(l.user_id = $1 OR l.artist_id IN (SELECT id FROM artists WHERE user_id = $1))'];
+    const params: any[] = [userId];
+
+    if (filters.provider) {
+      params.push(filters.provider);
+      conditions.push(`l.provider = $${params.length}`);
+    }
+    if (filters.request_type) {
+      params.push(filters.request_type);
+      conditions.push(`l.request_type = $${params.length}`);
+    }
+    if (filters.success !== undefined) {
+      params.push(filters.success);
+      conditions.push(`l.success = $${params.length}`);
+    }
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`l.created_at >= $${params.length}`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`l.created_at <= $${params.length}`);
+    }
+
+    return { clause: conditions.join(' AND '), params };
+  }
+
+  async listLogs(userId: string, filters: GenerationLogFilters = {}): Promise<{ logs: any[]; total: number }> {
+    const { clause, params } = this.buildWhere(userId, filters);
+    const limit = filters.limit ?? 50;
+    const offset = filters.offset ?? 0;
+
+    const [rows, count] = await Promise.all([
+      pool.query(
+        `SELECT l.id, l.request_type, l.provider, l.ai_model, l.persona_id, l.artist_id,
+                l.processing_time_ms, l.success, l.error_message, l.error_code,
+                l.prompt_tokens, l.completion_tokens, l.attempts, l.input_params, l.created_at
+         FROM ai_generation_logs l
+         WHERE ${clause}
+         ORDER BY l.created_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      pool.query(`SELECT COUNT(*)::int AS total FROM ai_generation_logs l WHERE ${clause}`, params)
+    ]);
+
+    return { logs: rows.rows, total: count.rows[0]?.total ?? 0 };
+  }
+
+  // Latency percentiles and failure rates, overall and per provider, over the same filters
+  async summarize(userId: string, filters: GenerationLogFilters = {}): Promise<GenerationLogSummary> {
+    const { clause, params } = this.buildWhere(userId, filters);
+
+    const result = await pool.query(
+      `SELECT COALESCE(l.provider, 'unknown') AS provider,
+              GROUPING(COALESCE(l.provider, 'unknown')) AS is_total,
+              COUNT(*)::int AS calls,
+              COUNT(*) FILTER (WHERE l.success = false)::int AS failures,
+              percentile_cont(0.5) WITHIN GROUP (ORDER BY l.processing_time_ms) AS p50_ms,
+              percentile_cont(0.95) WITHIN GROUP (ORDER BY l.processing_time_ms) AS p95_ms,
+              COALESCE(SUM(l.prompt_tokens), 0)::int AS prompt_tokens,
+              COALESCE(SUM(l.completion_tokens), 0)::int AS completion_tokens
+       FROM ai_generation_logs l
+       WHERE ${clause}
+       GROUP BY ROLLUP (COALESCE(l.provider, 'unknown'))
+       ORDER BY is_total DESC, calls DESC`,
+      params
+    );
+
+    const stats = result.rows.map((row: any): ProviderLogStats & { is_total: boolean } => ({
+      provider: row.provider,
+      is_total: Number(row.is_total) === 1,
+      calls: row.calls,
+      failures: row.failures,
+      failure_rate: row.calls > 0 ? Math.round((row.failures / row.calls) * 1000) / 1000 : 0,
+      p50_ms: row.p50_ms === null ? null : Math.round(Number(row.p50_ms)),
+      p95_ms: row.p95_ms === null ? null : Math.round(Number(row.p95_ms)),
+      prompt_tokens: row.prompt_tokens,
+      completion_tokens: row.completion_tokens
+    }));
+
+    const total = stats.find(row => row.is_total);
+    return {
+      calls: total?.calls ?? 0,
+      failures: total?.failures ?? 0,
+      failure_rate: total?.failure_rate ?? 0,
+      p50_ms: total?.p50_ms ?? null,
+      p95_ms: total?.p95_ms ?? null,
+      by_provider: stats.filter(row => !row.is_total).map(({ is_total, ...row }) => row)
+    };
+  }
+}
+
+// Export singleton instance
+export const generationLogService = new GenerationLogService();
+export default generationLogService;
@@ -0,0 +1,286 @@
+import pool from '../Config/connection';
+import { findAll, termPattern } from './textUtils';
+
+// Local brand-safety check for generated text, run before it is saved. Each artist keeps a blocklist (words or
+// phrases such as competitors and unreleased track titles), regex patterns, and an allowlist of terms no rule may
+// match; a built-in lexicon covers profanity, slurs and risky claims. Matches at or above the artist's block
+// severity block a variation, anything lower flags it for review.
+
+export type ModerationSeverity = 'low' | 'medium' | 'high';
+export type ModerationCategory = 'profanity' | 'slur' | 'competitor' | 'unreleased' | 'legal' | 'custom';
+export type ModerationAction = 'allow' | 'flag' | 'block';
+
+export const MODERATION_SEVERITIES: ModerationSeverity[] = ['low', 'medium', 'high'];
+export const MODERATION_CATEGORIES: ModerationCategory[] = ['profanity', 'slur', 'competitor', 'unreleased', 'legal', 'custom'];
+
+// A whole word or phrase, matched case-insensitively
+export interface ModerationTerm {
+  term: string;
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+  reason?: string | undefined;
+}
+
+export interface ModerationPattern {
+  pattern: string;
+  // RegExp flags; 'i' when omitted
+  flags?: string | undefined;
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+  reason?: string | undefined;
+}
+
+export interface ModerationSettings {
+  artist_id: string;
+  blocklist: ModerationTerm[];
+  allowlist: string[];
+  patterns: ModerationPattern[];
+  block_severity: ModerationSeverity;
+  use_default_lexicon: boolean;
+  updated_at: Date | null;
+}
+
+// Blocklist terms without a severity get their category's
+export type ModerationSettingsUpdate = Omit<ModerationSettings, 'artist_id' | 'updated_at' | 'blocklist'> & {
+  blocklist: Array<Omit<ModerationTerm, 'severity'> & { severity?: ModerationSeverity | undefined }>;
+};
+
+export interface ModerationMatch {
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+  reason: string;
+  text: string;
+  start: number;
+  end: number;
+  source: 'default' | 'blocklist' | 'pattern';
+}
+
+export interface ModerationResult {
+  action: ModerationAction;
+  matches: ModerationMatch[];
+  // Every distinct reason in one line; null when nothing matched
+  reason: string | null;
+  checked_at: string;
+}
+
+export const CATEGORY_SEVERITY: Record<ModerationCategory, ModerationSeverity> = {
+  profanity: 'medium',
+  slur: 'high',
+  competitor: 'medium',
+  unreleased: 'high',
+  legal: 'medium',
+  custom: 'medium'
+};
+
+const CATEGORY_REASONS: Record<ModerationCategory, string> = {
+  profanity: 'Profanity',
+  slur: 'Slur',
+  competitor: 'Mentions a competitor',
+  unreleased: 'Mentions unreleased music',
+  legal: 'Claim that may be a legal risk',
+  custom: 'On the artist\'s blocklist'
+};
+
+// Used unless the artist turns it off; the allowlist exempts terms from it (e.g. a song title with a swear in it)
+const DEFAULT_LEXICON: ModerationPattern[] = [
+  { pattern: '\\b(?:(?:mother)?fuck\\w*|shit(?:s|ty|ting)?|bullshit|bitch(?:es|y)?|asshole\\w*|bastards?|dickheads?)\\b', category: 'profanity', severity: 'medium' },
+  { pattern: '\\bcunts?\\b', category: 'profanity', severity: 'high', reason: 'Strong profanity' },
+  { pattern: '\\b(?:n[i1!]gg(?:er|a)s?|f[a@]gg?ots?|retard(?:s|ed)?|trann(?:y|ies)|k[i1]kes?|ch[i1]nks?)\\b', category: 'slur', severity: 'high' },
+  { pattern: '\\b(?:guaranteed?|risk[- ]free)\\b', category: 'legal', severity: 'medium', reason: 'Absolute promise that may be a legal risk' },
+  { pattern: '\\bofficially (?:endorsed|sponsored|partnered|licensed)\\b|\\bin partnership with\\b', category: 'legal', severity: 'medium', reason: 'Claims an endorsement or partnership' },
+  { pattern: '(?:#1|\\bnumber one|\\bno\\. ?1)\\s+(?:on|in)\\s+(?:the\\s+)?(?:billboard|charts?|spotify|itunes)\\b', category: 'legal', severity: 'medium', reason: 'Chart claim; check it before posting' }
+];
+
+const SEVERITY_RANK: Record<ModerationSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+export const defaultModerationSettings = (artistId: string): ModerationSettings => ({
+  artist_id: artistId,
+  blocklist: [],
+  allowlist: [],
+  patterns: [],
+  block_severity: 'high',
+  use_default_lexicon: true,
+  updated_at: null
+});
+
+// Patterns run on every generated post, so ones whose matching time can blow up are refused outright:
+// a repeated group that itself repeats (star height above 1, e.g. (a+)+) and backreferences.
+// Returns why a pattern is unsafe, or null.
+function unsafePatternReason(pattern: string): string | null {
+  // Per open group: whether anything inside it repeats
+  const groups: boolean[] = [false];
+  let i = 0;
+
+  // Reads a quantifier at i, if any; true when it repeats (*, +, {n,} or {n,m} with m > 1) rather than just ?
+  const readQuantifier = (): boolean | null => {
+    const rest = pattern.slice(i);
+    const braces = /^\{(\d*)(,?)(\d*)\}/.exec(rest);
+    let repeats: boolean | null = null;
+    if (rest[0] === '*' || rest[0] === '+') {
+      repeats = true;
+      i++;
+    } else if (rest[0] === '?') {
+      repeats = false;
+      i++;
+    } else if (braces) {
+      const max = braces[2] ? (braces[3] ? parseInt(braces[3]) : Infinity) : parseInt(braces[1] || '0');
+      repeats = max > 1;
+      i += braces[0].length;
+    }
+    if (repeats !== null && pattern[i] === '?') i++;
+    return repeats;
+  };
+
+  while (i < pattern.length) {
+    const char = pattern[i]!;
+
+    if (char === '\\') {
+      const next = pattern[i + 1] ?? '';
+      if (/[1-9]/.test(next) || (next === 'k' && pattern[i + 2] === '<')) return 'backreferences are not supported';
+      i += 2;
+    } else if (char === '[') {
+      i++;
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+      i++;
+    } else if (char === '(') {
+      groups.push(false);
+      i++;
+      continue;
+    } else if (char === ')') {
+      const innerRepeats = groups.pop() ?? false;
+      i++;
+      const repeats = readQuantifier();
+      if (repeats && innerRepeats) return 'a repeated group contains another repetition, which can take exponential time to match';
+      if (groups.length === 0) groups.push(false);
+      groups[groups.length - 1] ||= innerRepeats || repeats === true;
+      continue;
+    } else {
+      i++;
+    }
+
+    if (readQuantifier()) groups[groups.length - 1] = true;
+  }
+
+  return null;
+}
+
+// Throws on a pattern or flags RegExp rejects, or an unsafe pattern; the routes check patterns before storing them
+export function compilePattern(rule: Pick<ModerationPattern, 'pattern' | 'flags'>): RegExp {
+  const unsafe = unsafePatternReason(rule.pattern);
+  if (unsafe) throw new Error(`Unsafe pattern: ${unsafe}`);
+  return new RegExp(rule.pattern, rule.flags ?? 'i');
+}
+
+export function moderateText(text: string, settings: ModerationSettings): ModerationResult {
+  const rules: Array<{ regex: RegExp; category: ModerationCategory; severity: ModerationSeverity; reason?: string | undefined; source: ModerationMatch['source'] }> = [];
+
+  const addPattern = (rule: ModerationPattern, source: ModerationMatch['source']) => {
+    try {
+      rules.push({ regex: compilePattern(rule), category: rule.category, severity: rule.severity, reason: rule.reason, source });
+    } catch (error) {
+      console.error(`Skipping invalid moderation pattern for artist ${settings.artist_id}:`, error);
+    }
+  };
+
+  if (settings.use_default_lexicon) DEFAULT_LEXICON.forEach(rule => addPattern(rule, 'default'));
+  for (const term of settings.blocklist) {
+    if (term.term.trim()) rules.push({ regex: termPattern(term.term), category: term.category, severity: term.severity, reason: term.reason, source: 'blocklist' });
+  }
+  settings.patterns.forEach(rule => addPattern(rule, 'pattern'));
+
+  const allowed = settings.allowlist.filter(term => term.trim()).flatMap(term => findAll(text, termPattern(term)));
+  const isAllowed = (start: number, end: number) => allowed.some(range => range.start <= start && range.end >= end);
+
+  // One match per stretch of text, keeping the most severe rule
+  const matches = new Map<string, ModerationMatch>();
+  for (const rule of rules) {
+    for (const found of findAll(text, rule.regex)) {
+      if (found.text.length === 0 || isAllowed(found.start, found.end)) continue;
+      const key = `${found.start}:${found.end}`;
+      const existing = matches.get(key);
+      if (existing && SEVERITY_RANK[existing.severity] >= SEVERITY_RANK[rule.severity]) continue;
+      matches.set(key, {
+        category: rule.category,
+        severity: rule.severity,
+        reason: rule.reason ?? CATEGORY_REASONS[rule.category],
+        text: found.text,
+        start: found.start,
+        end: found.end,
+        source: rule.source
+      });
+    }
+  }
+
+  const sorted = [...matches.values()].sort((a, b) => a.start - b.start || a.end - b.end);
+  const blocked = sorted.some(match => SEVERITY_RANK[match.severity] >= SEVERITY_RANK[settings.block_severity]);
+
+  return {
+    action: blocked ? 'block' : sorted.length > 0 ? 'flag' : 'allow',
+    matches: sorted,
+    reason: sorted.length > 0 ? [...new Set(sorted.map(match => `${match.reason}: "${match.text}"`))].join('; ') : null,
+    checked_at: new Date().toISOString()
+  };
+}
+
+const toSettings = (row: any): ModerationSettings => ({
+  artist_id: row.artist_id,
+  blocklist: row.blocklist ?? [],
+  allowlist: row.allowlist ?? [],
+  patterns: row.patterns ?? [],
+  block_severity: row.block_severity,
+  use_default_lexicon: row.use_default_lexicon,
+  updated_at: row.updated_at
+});
+
+class ModerationService {
+  // Read from the database on every request rather than cached, so a save on one server applies on all of them
+  // at once; a failed read throws, and callers refuse to generate rather than skip the artist's rules
+  async getSettings(artistId: string): Promise<ModerationSettings> {
+    const result = await pool.query(
+      `SELECT artist_id, blocklist, allowlist, patterns, block_severity, use_default_lexicon, updated_at
+       FROM artist_moderation_settings
+       WHERE artist_id = $1`,
+      [artistId]
+    );
+    const row = result.rows[0];
+    return row ? toSettings(row) : defaultModerationSettings(artistId);
+  }
+
+  async check(artistId: string, text: string): Promise<ModerationResult> {
+    return moderateText(text, await this.getSettings(artistId));
+  }
+
+  async updateSettings(artistId: string, update: ModerationSettingsUpdate, actorId: string | null = null): Promise<ModerationSettings> {
+    const blocklist = update.blocklist.map(term => ({ ...term, severity: term.severity ?? CATEGORY_SEVERITY[term.category] }));
+
+    const result = await pool.query(
+      `INSERT INTO artist_moderation_settings
+         (artist_id, blocklist, allowlist, patterns, block_severity, use_default_lexicon, updated_at, updated_by)
+       VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP, $7)
+       ON CONFLICT (artist_id) DO UPDATE SET
+         blocklist = EXCLUDED.blocklist,
+         allowlist = EXCLUDED.allowlist,
+         patterns = EXCLUDED.patterns,
+         block_severity = EXCLUDED.block_severity,
+         use_default_lexicon = EXCLUDED.use_default_lexicon,
+         updated_at = EXCLUDED.updated_at,
+         updated_by = EXCLUDED.updated_by
+       RETURNING artist_id, blocklist, allowlist, patterns, block_severity, use_default_lexicon, updated_at`,
+      [
+        artistId,
+        JSON.stringify(blocklist),
+        JSON.stringify(update.allowlist),
+        JSON.stringify(update.patterns),
+        update.block_severity,
+        update.use_default_lexicon,
+        actorId
+      ]
+    );
+
+    return toSettings(result.rows[0]);
+  }
+}
+
+// Export singleton instance
+export const moderationService = new ModerationService();
+export default moderationService;
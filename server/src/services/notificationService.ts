@@ -0,0 +1,81 @@
+import { PoolClient } from 'pg';
+import pool from '../Config/connection';
+
+// In-app notifications. Rows are written next to the change they announce (same transaction);
+// the client picks new rows up over Supabase Realtime and lists older ones from /api/users/me/notifications.
+
+export type NotificationType = 'content_ready_to_publish';
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  artist_id: string | null;
+  content_id: string | null;
+  type: NotificationType;
+  message: string;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+export interface NotificationFilters {
+  unread_only?: boolean | undefined;
+  limit?: number;
+}
+
+class NotificationService {
+  // Tell everyone who can publish the artist's content: the owner and editors
+  async notifyPublishers(
+    client: PoolClient,
+    artistId: string,
+    contentId: string,
+    type: NotificationType,
+    message: string
+  ): Promise<number> {
+    const result = await client.query(
+      `INSERT INTO notifications (user_id, artist_id, content_id, type, message)
+       SELECT team.user_id, $1, $2, $3, $4
+       FROM (
+         SELECT user_id FROM artists WHERE id = $1
+         UNION
+         SELECT user_id FROM artist_collaborators WHERE artist_id = $1 AND role = 'editor'
+       ) team`,
+      [artistId, contentId, type, message]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  // Newest first
+  async list(userId: string, filters: NotificationFilters = {}): Promise<{ notifications: Notification[]; unread: number }> {
+    const [rows, unread] = await Promise.all([
+      pool.query(
+        `SELECT id, user_id, artist_id, content_id, type, message, read_at, created_at
+         FROM notifications
+         WHERE user_id = $1 ${filters.unread_only ? 'AND read_at IS NULL' : ''}
+         ORDER BY created_at DESC
+         LIMIT $2`,
+        [userId, filters.limit ?? 20]
+      ),
+      pool.query('SELECT COUNT(*)::int AS unread FROM notifications WHERE user_id = $1 AND read_at IS NULL', [userId])
+    ]);
+
+    return { notifications: rows.rows, unread: unread.rows[0]?.unread ?? 0 };
+  }
+
+  // Mark the given notifications read, or all of the user's when no ids are given
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    const result = ids && ids.length > 0
+      ? await pool.query(
+        'UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND id = ANY($2) AND read_at IS NULL',
+        [userId, ids]
+      )
+      : await pool.query(
+        'UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND read_at IS NULL',
+        [userId]
+      );
+    return result.rowCount ?? 0;
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
+export default notificationService;
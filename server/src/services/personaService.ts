@@ -0,0 +1,427 @@
+import { PoolClient } from 'pg';
+import pool from '../Config/connection';
+import aiCacheService from './aiCacheService';
+
+export interface PersonaRecord {
+  id: string;
+  artist_id: string;
+  persona_name: string;
+  description: string | null;
+  tone: string | null;
+  target_audience: string | null;
+  key_themes: string[] | null;
+  voice_characteristics: any;
+  is_active: boolean;
+  archived_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PersonaInput {
+  persona_name?: string;
+  description?: string;
+  tone?: string;
+  target_audience?: string;
+  key_themes?: string[];
+  voice_characteristics?: any;
+}
+
+export type PersonaChangeSource = 'create' | 'clone' | 'manual' | 'questionnaire' | 'upload' | 'transcript' | 'rollback';
+
+export interface PersonaVersion {
+  id: string;
+  persona_id: string;
+  version_number: number;
+  persona_name: string | null;
+  description: string | null;
+  tone: string | null;
+  target_audience: string | null;
+  key_themes: string[] | null;
+  voice_characteristics: any;
+  change_source: string;
+  change_note: string | null;
+  changed_by: string | null;
+  changed_by_email?: string | null;
+  created_at: Date;
+}
+
+export interface PersonaFieldDiff {
+  field: VersionedField;
+  from: any;
+  to: any;
+  added?: string[];
+  removed?: string[];
+  changed_keys?: string[];
+}
+
+export interface CreatePersonaOptions {
+  activate?: boolean;
+  changedBy?: string | null;
+  source?: PersonaChangeSource;
+}
+
+// Fields captured in every persona version snapshot
+export const VERSIONED_FIELDS = [
+  'persona_name',
+  'description',
+  'tone',
+  'target_audience',
+  'key_themes',
+  'voice_characteristics'
+] as const;
+
+export type VersionedField = typeof VERSIONED_FIELDS[number];
+
+const PERSONA_COLUMNS = `
+  p.id, p.artist_id, p.persona_name, p.description, p.tone, p.target_audience,
+  p.key_themes, p.voice_characteristics, p.is_active, p.archived_at, p.created_at, p.updated_at
+`;
+
+class PersonaService {
+  // Resolve the artist profile that belongs to a user
+  async getArtistIdForUser(userId: string): Promise<string | null> {
+    const result = await pool.query('SELECT id FROM artists WHERE user_id = $1', [userId]);
+    return result.rows[0]?.id ?? null;
+  }
+
+  // List an artist's personas, active first
+  async listPersonas(artistId: string, includeArchived = false): Promise<PersonaRecord[]> {
+    let query = `SELECT ${PERSONA_COLUMNS} FROM artist_personas p WHERE p.artist_id = $1`;
+
+    if (!includeArchived) {
+      query += ' AND p.archived_at IS NULL';
+    }
+
+    query += ' ORDER BY p.is_active DESC, p.updated_at DESC';
+
+    const result = await pool.query(query, [artistId]);
+    return result.rows;
+  }
+
+  // Get a persona only if it belongs to the given user
+  async getOwnedPersona(personaId: string, userId: string): Promise<PersonaRecord | null> {
+    const query = `
+      SELECT ${PERSONA_COLUMNS}
+      FROM artist_personas p
+      JOIN artists a ON p.artist_id = a.id
+      WHERE p.id = $1 AND a.user_id = $2
+    `;
+    const result = await pool.query(query, [personaId, userId]);
+    return result.rows[0] || null;
+  }
+
+  // Get the artist's active persona
+  async getActivePersona(artistId: string): Promise<PersonaRecord | null> {
+    const query = `
+      SELECT ${PERSONA_COLUMNS}
+      FROM artist_personas p
+      WHERE p.artist_id = $1 AND p.is_active = true
+    `;
+    const result = await pool.query(query, [artistId]);
+    return result.rows[0] || null;
+  }
+
+  // Create a persona; the artist's first persona is always activated
+  async createPersona(artistId: string, data: PersonaInput, options: CreatePersonaOptions = {}): Promise<PersonaRecord> {
+    const query = `
+      INSERT INTO artist_personas (
+        artist_id, persona_name, description, tone, target_audience, key_themes, voice_characteristics, is_active
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, false)
+      RETURNING id
+    `;
+
+    // The persona and its first version are stored together, so no persona exists without a version
+    const client = await pool.connect();
+    let personaId: string;
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(query, [
+        artistId,
+        data.persona_name || 'Main Persona',
+        data.description ?? null,
+        data.tone ?? null,
+        data.target_audience ?? null,
+        data.key_themes ?? null,
+        data.voice_characteristics !== undefined ? JSON.stringify(data.voice_characteristics) : null
+      ]);
+      personaId = result.rows[0].id;
+      await this.snapshotVersion(client, personaId, options.changedBy ?? null, options.source ?? 'create');
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const shouldActivate = options.activate || (await this.getActivePersona(artistId)) === null;
+
+    if (shouldActivate) {
+      const activated = await this.activatePersona(artistId, personaId);
+      if (activated) return activated;
+    }
+
+    const created = await pool.query(`SELECT ${PERSONA_COLUMNS} FROM artist_personas p WHERE p.id = $1`, [personaId]);
+    return created.rows[0];
+  }
+
+  // Copy a persona's voice settings into a new, inactive persona
+  async clonePersona(source: PersonaRecord, personaName?: string, changedBy: string | null = null): Promise<PersonaRecord> {
+    return this.createPersona(source.artist_id, {
+      persona_name: personaName || `${source.persona_name} (copy)`,
+      ...(source.description != null ? { description: source.description } : {}),
+      ...(source.tone != null ? { tone: source.tone } : {}),
+      ...(source.target_audience != null ? { target_audience: source.target_audience } : {}),
+      ...(source.key_themes != null ? { key_themes: source.key_themes } : {}),
+      ...(source.voice_characteristics != null ? { voice_characteristics: source.voice_characteristics } : {})
+    }, { changedBy, source: 'clone' });
+  }
+
+  // Archive an inactive persona
+  async archivePersona(personaId: string): Promise<PersonaRecord | null> {
+    const query = `
+      UPDATE artist_personas p
+      SET archived_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE p.id = $1 AND p.is_active = false AND p.archived_at IS NULL
+      RETURNING ${PERSONA_COLUMNS}
+    `;
+    const result = await pool.query(query, [personaId]);
+    return result.rows[0] || null;
+  }
+
+  // Make one persona the artist's only active persona
+  async activatePersona(artistId: string, personaId: string): Promise<PersonaRecord | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Deactivate first so the one-active-persona index is never violated
+      await client.query(
+        'UPDATE artist_personas SET is_active = false WHERE artist_id = $1 AND is_active = true AND id <> $2',
+        [artistId, personaId]
+      );
+
+      const result = await client.query(`
+        UPDATE artist_personas p
+        SET is_active = true, updated_at = CURRENT_TIMESTAMP
+        WHERE p.id = $1 AND p.artist_id = $2 AND p.archived_at IS NULL
+        RETURNING ${PERSONA_COLUMNS}
+      `, [personaId, artistId]);
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Apply a change to the persona and snapshot the result as a new version in one transaction. The persona row
+  // stays locked until commit, so concurrent changes get consecutive version numbers instead of the same one.
+  async updateWithVersion<T>(
+    personaId: string,
+    changedBy: string | null,
+    source: PersonaChangeSource,
+    apply: (client: PoolClient) => Promise<T>,
+    note?: string
+  ): Promise<{ result: T; version: PersonaVersion | null }> {
+    const client = await pool.connect();
+    let result: T;
+    let snapshot: { version: PersonaVersion | null; replaced: boolean };
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT id FROM artist_personas WHERE id = $1 FOR UPDATE', [personaId]);
+
+      result = await apply(client);
+      snapshot = await this.snapshotVersion(client, personaId, changedBy, source, note);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    // Cached generations and scores were produced with the old voice; a brand-new persona has none
+    if (snapshot.replaced) {
+      try {
+        await aiCacheService.invalidatePersona(personaId);
+      } catch (error) {
+        console.warn('Failed to invalidate AI cache for persona', { personaId, error });
+      }
+    }
+
+    return { result, version: snapshot.version };
+  }
+
+  // Store the persona's current fields as the next version; no-op if nothing changed since the latest one.
+  // Runs inside the caller's transaction, which must hold the persona row.
+  private async snapshotVersion(
+    client: PoolClient,
+    personaId: string,
+    changedBy: string | null,
+    source: PersonaChangeSource,
+    note?: string
+  ): Promise<{ version: PersonaVersion | null; replaced: boolean }> {
+    const latestResult = await client.query(
+      'SELECT * FROM persona_versions WHERE persona_id = $1 ORDER BY version_number DESC LIMIT 1',
+      [personaId]
+    );
+    const latest: PersonaVersion | undefined = latestResult.rows[0];
+    const current = await client.query(`SELECT ${PERSONA_COLUMNS} FROM artist_personas p WHERE p.id = $1`, [personaId]);
+    const persona = current.rows[0];
+
+    if (!persona) return { version: null, replaced: false };
+    if (latest && source !== 'rollback' && diffPersonaVersions(latest, persona).length === 0) {
+      return { version: latest, replaced: false };
+    }
+
+    const query = `
+      INSERT INTO persona_versions (
+        persona_id, version_number, persona_name, description, tone, target_audience,
+        key_themes, voice_characteristics, change_source, change_note, changed_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *
+    `;
+
+    const result = await client.query(query, [
+      personaId,
+      (latest?.version_number ?? 0) + 1,
+      persona.persona_name,
+      persona.description,
+      persona.tone,
+      persona.target_audience,
+      persona.key_themes,
+      persona.voice_characteristics != null ? JSON.stringify(persona.voice_characteristics) : null,
+      source,
+      note ?? null,
+      changedBy
+    ]);
+
+    return { version: result.rows[0], replaced: Boolean(latest) };
+  }
+
+  // List a persona's versions, newest first
+  async listVersions(personaId: string): Promise<PersonaVersion[]> {
+    const query = `
+      SELECT v.*, u.email AS changed_by_email
+      FROM persona_versions v
+      LEFT JOIN users u ON v.changed_by = u.id
+      WHERE v.persona_id = $1
+      ORDER BY v.version_number DESC
+    `;
+    const result = await pool.query(query, [personaId]);
+    return result.rows;
+  }
+
+  // Get one version by number
+  async getVersion(personaId: string, versionNumber: number): Promise<PersonaVersion | null> {
+    const query = `
+      SELECT v.*, u.email AS changed_by_email
+      FROM persona_versions v
+      LEFT JOIN users u ON v.changed_by = u.id
+      WHERE v.persona_id = $1 AND v.version_number = $2
+    `;
+    const result = await pool.query(query, [personaId, versionNumber]);
+    return result.rows[0] || null;
+  }
+
+  // Get the most recent version
+  async getLatestVersion(personaId: string): Promise<PersonaVersion | null> {
+    const query = `
+      SELECT * FROM persona_versions
+      WHERE persona_id = $1
+      ORDER BY version_number DESC
+      LIMIT 1
+    `;
+    const result = await pool.query(query, [personaId]);
+    return result.rows[0] || null;
+  }
+
+  // Restore a version's fields onto the persona and record that as a new version
+  async rollbackToVersion(
+    personaId: string,
+    version: PersonaVersion,
+    changedBy: string | null
+  ): Promise<{ persona: PersonaRecord; version: PersonaVersion | null }> {
+    const query = `
+      UPDATE artist_personas p
+      SET persona_name = $2, description = $3, tone = $4, target_audience = $5,
+          key_themes = $6, voice_characteristics = $7, updated_at = CURRENT_TIMESTAMP
+      WHERE p.id = $1
+      RETURNING ${PERSONA_COLUMNS}
+    `;
+
+    const { result, version: newVersion } = await this.updateWithVersion(
+      personaId,
+      changedBy,
+      'rollback',
+      client => client.query(query, [
+        personaId,
+        version.persona_name,
+        version.description,
+        version.tone,
+        version.target_audience,
+        version.key_themes,
+        version.voice_characteristics != null ? JSON.stringify(version.voice_characteristics) : null
+      ]),
+      `Rolled back to version ${version.version_number}`
+    );
+
+    return { persona: result.rows[0], version: newVersion };
+  }
+}
+
+// Field-level diff between two persona snapshots (versions or persona rows)
+export function diffPersonaVersions(
+  from: Partial<Record<VersionedField, any>>,
+  to: Partial<Record<VersionedField, any>>
+): PersonaFieldDiff[] {
+  const diffs: PersonaFieldDiff[] = [];
+
+  for (const field of VERSIONED_FIELDS) {
+    const before = from[field] ?? null;
+    const after = to[field] ?? null;
+
+    if (JSON.stringify(before) === JSON.stringify(after)) continue;
+
+    const diff: PersonaFieldDiff = { field, from: before, to: after };
+
+    if (field === 'key_themes') {
+      const beforeThemes: string[] = Array.isArray(before) ? before : [];
+      const afterThemes: string[] = Array.isArray(after) ? after : [];
+      diff.added = afterThemes.filter(theme => !beforeThemes.includes(theme));
+      diff.removed = beforeThemes.filter(theme => !afterThemes.includes(theme));
+    }
+
+    if (field === 'voice_characteristics') {
+      const beforeTraits = before && typeof before === 'object' ? before : {};
+      const afterTraits = after && typeof after === 'object' ? after : {};
+      const keys = new Set([...Object.keys(beforeTraits), ...Object.keys(afterTraits)]);
+      diff.changed_keys = [...keys].filter(key =>
+        JSON.stringify(beforeTraits[key]) !== JSON.stringify(afterTraits[key])
+      );
+    }
+
+    diffs.push(diff);
+  }
+
+  return diffs;
+}
+
+// Export singleton instance
+export const personaService = new PersonaService();
+export default personaService;
@@ -0,0 +1,260 @@
+import { EMOJI_PATTERN, HASHTAG_PATTERN, URL_PATTERN } from './textUtils';
+
+// Per-platform conventions for generated posts: the prompt describes them, fitToPlatform enforces them
+// on the model output, and checkPlatformFit reports what still doesn't fit (e.g. after a manual edit).
+
+export type PlatformName = 'x' | 'instagram' | 'tiktok' | 'reddit' | 'youtube';
+
+export interface PlatformProfile {
+  name: PlatformName;
+  label: string;
+  // Hard limit; longer output is trimmed
+  max_chars: number;
+  // Length that reads best on the platform; quality scoring measures against this
+  ideal_chars: number;
+  hashtags: {
+    min: number;
+    // 0 means the platform doesn't use hashtags and they are removed
+    max: number;
+    // inline: tags may sit in the text; end: collected in a block after the text
+    placement: 'inline' | 'end';
+  };
+  // Links in captions that can't be clicked are replaced with link_text
+  links: 'allowed' | 'not_clickable';
+  link_text?: string;
+  // none: one paragraph; single: single line breaks; paragraphs: blank lines between paragraphs
+  line_breaks: 'none' | 'single' | 'paragraphs';
+  max_emoji: number;
+  style: string;
+}
+
+export interface PlatformFit {
+  content: string;
+  // What was changed to fit the profile, for display next to the post
+  adjustments: string[];
+}
+
+export const PLATFORM_PROFILES: Record<PlatformName, PlatformProfile> = {
+  x: {
+    name: 'x',
+    label: 'X',
+    max_chars: 280,
+    ideal_chars: 200,
+    hashtags: { min: 0, max: 2, placement: 'inline' },
+    links: 'allowed',
+    line_breaks: 'single',
+    max_emoji: 2,
+    style: 'Punchy and conversational. Lead with the hook; one idea per post.'
+  },
+  instagram: {
+    name: 'instagram',
+    label: 'Instagram',
+    max_chars: 2200,
+    ideal_chars: 500,
+    hashtags: { min: 3, max: 10, placement: 'end' },
+    links: 'not_clickable',
+    link_text: 'link in bio',
+    line_breaks: 'paragraphs',
+    max_emoji: 6,
+    style: 'Only the first line shows before "more", so make it count. Short paragraphs that tell the story behind the post.'
+  },
+  tiktok: {
+    name: 'tiktok',
+    label: 'TikTok',
+    max_chars: 2200,
+    ideal_chars: 150,
+    hashtags: { min: 3, max: 5, placement: 'end' },
+    links: 'not_clickable',
+    link_text: 'link in bio',
+    line_breaks: 'none',
+    max_emoji: 4,
+    style: 'A short caption that complements the video. Casual and direct.'
+  },
+  reddit: {
+    name: 'reddit',
+    label: 'Reddit',
+    max_chars: 40000,
+    ideal_chars: 700,
+    hashtags: { min: 0, max: 0, placement: 'inline' },
+    links: 'allowed',
+    line_breaks: 'paragraphs',
+    max_emoji: 1,
+    style: 'Write as a member of the community, not an ad. Give context, be genuine and invite discussion.'
+  },
+  youtube: {
+    name: 'youtube',
+    label: 'YouTube',
+    max_chars: 5000,
+    ideal_chars: 500,
+    hashtags: { min: 0, max: 3, placement: 'end' },
+    links: 'allowed',
+    line_breaks: 'paragraphs',
+    max_emoji: 3,
+    style: 'The first two lines show in previews; put the hook there and any links after it.'
+  }
+};
+
+export const PLATFORM_NAMES = Object.keys(PLATFORM_PROFILES) as PlatformName[];
+
+export function getPlatformProfile(name: string | null | undefined): PlatformProfile | null {
+  return name && name in PLATFORM_PROFILES ? PLATFORM_PROFILES[name as PlatformName] : null;
+}
+
+// Token budget for a post of about 1.5x the ideal length (roughly four characters per token)
+export function platformTokenBudget(profile: PlatformProfile): number {
+  return Math.min(500, Math.max(50, Math.ceil((profile.ideal_chars * 1.5) / 4)));
+}
+
+// The profile as prompt instructions
+export function describePlatformProfile(profile: PlatformProfile): string {
+  const rules = [
+    `Keep it under ${profile.max_chars} characters; around ${profile.ideal_chars} is ideal.`,
+    profile.hashtags.max === 0
+      ? 'Do not use hashtags.'
+      : `Use ${profile.hashtags.min > 0 ? `${profile.hashtags.min} to ` : 'at most '}${profile.hashtags.max} hashtags${profile.hashtags.placement === 'end' ? ', all at the end' : ''}.`,
+    profile.links === 'not_clickable'
+      ? `Links are not clickable here; say "${profile.link_text}" instead of pasting a URL.`
+      : 'Links are fine if the post needs one.',
+    profile.line_breaks === 'none'
+      ? 'Write it as a single paragraph.'
+      : profile.line_breaks === 'single'
+        ? 'Use line breaks sparingly.'
+        : 'Use short paragraphs separated by blank lines.',
+    profile.max_emoji === 0 ? 'Do not use emoji.' : `Use at most ${profile.max_emoji} emoji.`,
+    profile.style
+  ];
+  return `Platform: ${profile.label}\n${rules.map(rule => `- ${rule}`).join('\n')}`;
+}
+
+const lower = (tag: string) => tag.toLowerCase();
+
+// Hashtags that close the post (a run of tags after the last sentence)
+const TRAILING_TAGS = /(?:\s*#[\p{L}\p{N}_]+)+\s*$/u;
+
+// Cut at the last sentence end that keeps at least half the limit, else at a word boundary
+function trimToLength(text: string, limit: number): string {
+  if (text.length <= limit) return text;
+
+  const slice = text.slice(0, limit);
+  const sentenceEnd = Math.max(slice.lastIndexOf('. '), slice.lastIndexOf('! '), slice.lastIndexOf('? '), slice.lastIndexOf('\n'));
+  if (sentenceEnd >= limit / 2) {
+    return slice.slice(0, sentenceEnd + 1).trim();
+  }
+  if (/[.!?]$/.test(slice)) return slice.trim();
+
+  const wordEnd = slice.slice(0, limit - 1).lastIndexOf(' ');
+  return `${(wordEnd > 0 ? slice.slice(0, wordEnd) : slice.slice(0, limit - 1)).trim()}…`;
+}
+
+// Rewrite model output to fit the profile: links, hashtags, emoji, line breaks, then length
+export function fitToPlatform(text: string, profile: PlatformProfile): PlatformFit {
+  const adjustments: string[] = [];
+  let body = text.trim();
+
+  const urls = body.match(URL_PATTERN) ?? [];
+  if (profile.links === 'not_clickable' && urls.length > 0) {
+    let replaced = false;
+    body = body.replace(URL_PATTERN, () => {
+      if (replaced) return '';
+      replaced = true;
+      return profile.link_text ?? '';
+    });
+    adjustments.push(`Replaced ${urls.length === 1 ? 'a link' : `${urls.length} links`} with "${profile.link_text}" (links aren't clickable on ${profile.label})`);
+  }
+
+  // Tags in the closing block are collected; tags inside sentences stay as words
+  const trailing = body.match(TRAILING_TAGS)?.[0] ?? '';
+  const allTags = body.match(HASHTAG_PATTERN) ?? [];
+  const uniqueTags = allTags.filter((tag, index) => allTags.findIndex(other => lower(other) === lower(tag)) === index);
+  const keptTags = uniqueTags.slice(0, profile.hashtags.max);
+  let tagBlock = '';
+
+  if (uniqueTags.length > 0) {
+    if (trailing) body = body.slice(0, body.length - trailing.length).trimEnd();
+
+    if (profile.hashtags.placement === 'end') {
+      // Inline tags become plain words and the kept tags move to the end
+      body = body.replace(HASHTAG_PATTERN, tag => tag.slice(1));
+      tagBlock = keptTags.join(' ');
+      if (keptTags.length > 0 && (trailing.match(HASHTAG_PATTERN) ?? []).length < allTags.length) {
+        adjustments.push('Moved hashtags to the end');
+      }
+    } else {
+      // Inline platforms keep tags where they are, up to the limit
+      const keep = new Set(keptTags.map(lower));
+      const used = new Set<string>();
+      body = body.replace(HASHTAG_PATTERN, tag => {
+        if (keep.has(lower(tag)) && !used.has(lower(tag))) {
+          used.add(lower(tag));
+          return tag;
+        }
+        return tag.slice(1);
+      });
+      tagBlock = keptTags.filter(tag => !used.has(lower(tag))).join(' ');
+    }
+
+    if (uniqueTags.length > keptTags.length) {
+      adjustments.push(profile.hashtags.max === 0
+        ? `Removed hashtags (not used on ${profile.label})`
+        : `Kept ${keptTags.length} of ${uniqueTags.length} hashtags`);
+    }
+  }
+
+  const emoji = body.match(EMOJI_PATTERN) ?? [];
+  if (emoji.length > profile.max_emoji) {
+    let seen = 0;
+    body = body.replace(EMOJI_PATTERN, match => (++seen <= profile.max_emoji ? match : ''));
+    adjustments.push(`Removed ${emoji.length - profile.max_emoji} emoji over the limit of ${profile.max_emoji}`);
+  }
+
+  if (profile.line_breaks === 'none') {
+    body = body.replace(/\s*\n\s*/g, ' ');
+  } else if (profile.line_breaks === 'single') {
+    body = body.replace(/\n\s*\n+/g, '\n');
+  } else {
+    body = body.replace(/\n\s*\n\s*\n+/g, '\n\n');
+  }
+  body = body.replace(/[ \t]{2,}/g, ' ').replace(/ +([.,!?])/g, '$1').trim();
+
+  const separator = profile.line_breaks === 'none' ? ' ' : profile.line_breaks === 'single' ? '\n' : '\n\n';
+  const join = (main: string, tags: string) => (tags ? (main ? `${main}${separator}${tags}` : tags) : main);
+  let content = join(body, tagBlock);
+
+  if (content.length > profile.max_chars) {
+    const original = content.length;
+    const room = profile.max_chars - (tagBlock ? tagBlock.length + separator.length : 0);
+    // Drop the tags rather than cut the post down to almost nothing
+    content = room >= profile.max_chars / 2
+      ? join(trimToLength(body, room), tagBlock)
+      : trimToLength(body, profile.max_chars);
+    adjustments.push(`Trimmed from ${original} to ${content.length} characters`);
+  }
+
+  return { content, adjustments };
+}
+
+// Problems a post still has on the platform; empty when it fits
+export function checkPlatformFit(text: string, profile: PlatformProfile): string[] {
+  const issues: string[] = [];
+  const tags = new Set((text.match(HASHTAG_PATTERN) ?? []).map(lower));
+  const emoji = (text.match(EMOJI_PATTERN) ?? []).length;
+
+  if (text.length > profile.max_chars) {
+    issues.push(`Over the ${profile.label} limit of ${profile.max_chars} characters (${text.length})`);
+  }
+  if (tags.size > profile.hashtags.max) {
+    issues.push(profile.hashtags.max === 0
+      ? `Hashtags aren't used on ${profile.label}`
+      : `Too many hashtags for ${profile.label} (${tags.size}, at most ${profile.hashtags.max})`);
+  } else if (tags.size < profile.hashtags.min) {
+    issues.push(`Add at least ${profile.hashtags.min} hashtags for discovery on ${profile.label}`);
+  }
+  if (profile.links === 'not_clickable' && (text.match(URL_PATTERN) ?? []).length > 0) {
+    issues.push(`Links aren't clickable on ${profile.label}; use "${profile.link_text}"`);
+  }
+  if (emoji > profile.max_emoji) {
+    issues.push(`Too many emoji for ${profile.label} (${emoji}, at most ${profile.max_emoji})`);
+  }
+
+  return issues;
+}
@@ -0,0 +1,150 @@
+import pool from '../Config/connection';
+import Bm25Index from './bm25Index';
+import { ContentFormat } from './contentFormats';
+
+// Few-shot examples for generation: the artist's own approved and hand-edited posts of the same content type
+// (and platform, when one is asked for), ranked by BM25 relevance to the request. Pinned "golden" posts always
+// come first; the rest fill up to the limit by relevance, then by recency.
+
+// Pinned posts that were neither approved nor edited are there on the artist's word alone
+export type PostExampleSource = 'approved' | 'edited' | 'pinned';
+
+export interface PostExample {
+  content_id: string;
+  content_type: string;
+  platform: string | null;
+  text: string;
+  source: PostExampleSource;
+  pinned: boolean;
+  // BM25 relevance to the request; 0 when the post shares no terms with it
+  score: number;
+}
+
+export interface PostExampleQuery {
+  content_type: string;
+  platform?: string | null | undefined;
+  format?: ContentFormat | undefined;
+  query: string;
+}
+
+export interface PinnedExample {
+  id: string;
+  content_type: string;
+  content_text: string;
+  platform: string | null;
+  example_pinned_at: Date;
+}
+
+// Statuses a reviewer has signed off on
+export const APPROVED_STATUSES = ['approved', 'scheduled', 'ready_to_publish', 'published'];
+const APPROVED_STATUS_LIST = APPROVED_STATUSES.map(status => `'${status}'`).join(', ');
+
+// Most recent candidates considered per request; plenty for an artist's back catalogue of one content type
+const MAX_CANDIDATES = 200;
+const MAX_EXAMPLE_CHARS = 600;
+
+interface Candidate {
+  id: string;
+  content_type: string;
+  content_text: string;
+  platform: string | null;
+  format: string | null;
+  approval_status: string;
+  example_pinned_at: Date | null;
+  hand_edited: boolean;
+}
+
+const truncate = (text: string) =>
+  text.length > MAX_EXAMPLE_CHARS ? `${text.slice(0, MAX_EXAMPLE_CHARS).replace(/\s+\S*$/, '')}...` : text;
+
+class PostExampleService {
+  // Approved, hand-edited and pinned posts of one content type, pinned first, then newest first
+  private async getCandidates(artistId: string, contentType: string, platform: string | null): Promise<Candidate[]> {
+    const result = await pool.query(
+      `SELECT gc.id, gc.content_type, gc.content_text, gc.approval_status, gc.example_pinned_at,
+              COALESCE(gc.scheduled_platform, gc.content_metadata->>'platform') AS platform,
+              gc.content_metadata->>'format' AS format,
+              EXISTS (SELECT 1 FROM content_revisions r WHERE r.content_id = gc.id AND r.source = 'manual') AS hand_edited
+       FROM generated_content gc
+       WHERE gc.artist_id = $1
+         AND gc.content_type = $2
+         AND gc.content_text IS NOT NULL
+         AND gc.approval_status <> 'rejected'
+         AND ($3::text IS NULL OR COALESCE(gc.scheduled_platform, gc.content_metadata->>'platform') = $3)
+         AND (
+           gc.example_pinned_at IS NOT NULL
+           OR gc.approval_status IN (${APPROVED_STATUS_LIST})
+           OR EXISTS (SELECT 1 FROM content_revisions r WHERE r.content_id = gc.id AND r.source = 'manual')
+         )
+       ORDER BY gc.example_pinned_at DESC NULLS LAST, gc.updated_at DESC
+       LIMIT ${MAX_CANDIDATES}`,
+      [artistId, contentType, platform]
+    );
+    return result.rows;
+  }
+
+  // The K best examples for a generation request
+  async retrieveExamples(artistId: string, request: PostExampleQuery, limit = 3): Promise<PostExample[]> {
+    if (limit <= 0) return [];
+
+    const format = request.format ?? 'single';
+    const candidates = (await this.getCandidates(artistId, request.content_type, request.platform ?? null))
+      .filter(candidate => (candidate.format ?? 'single') === format && candidate.content_text.trim());
+    if (candidates.length === 0) return [];
+
+    const index = new Bm25Index(candidates.map(candidate => ({ text: candidate.content_text, payload: candidate.id })));
+    const scores = new Map(index.search(request.query, candidates.length).map(match => [match.payload, match.score]));
+
+    // A stable sort keeps the query's recency order among equals
+    return [...candidates]
+      .sort((a, b) =>
+        Number(b.example_pinned_at !== null) - Number(a.example_pinned_at !== null)
+        || (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0))
+      .slice(0, limit)
+      .map(candidate => ({
+        content_id: candidate.id,
+        content_type: candidate.content_type,
+        platform: candidate.platform,
+        text: truncate(candidate.content_text),
+        source: APPROVED_STATUSES.includes(candidate.approval_status) ? 'approved' : candidate.hand_edited ? 'edited' : 'pinned',
+        pinned: candidate.example_pinned_at !== null,
+        score: Math.round((scores.get(candidate.id) ?? 0) * 1000) / 1000
+      }));
+  }
+
+  // The artist's pinned posts, newest pin first
+  async getPinned(artistId: string, contentType?: string): Promise<PinnedExample[]> {
+    const result = await pool.query(
+      `SELECT gc.id, gc.content_type, gc.content_text, gc.example_pinned_at,
+              COALESCE(gc.scheduled_platform, gc.content_metadata->>'platform') AS platform
+       FROM generated_content gc
+       WHERE gc.artist_id = $1 AND gc.example_pinned_at IS NOT NULL AND ($2::text IS NULL OR gc.content_type = $2)
+       ORDER BY gc.example_pinned_at DESC`,
+      [artistId, contentType ?? null]
+    );
+    return result.rows;
+  }
+
+  // Null when the post was rejected in the meantime; pinning again keeps the original pin time
+  async pin(contentId: string, userId: string): Promise<{ id: string; example_pinned_at: Date } | null> {
+    const result = await pool.query(
+      `UPDATE generated_content
+       SET example_pinned_at = COALESCE(example_pinned_at, CURRENT_TIMESTAMP), example_pinned_by = $2
+       WHERE id = $1 AND approval_status <> 'rejected'
+       RETURNING id, example_pinned_at`,
+      [contentId, userId]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async unpin(contentId: string): Promise<void> {
+    await pool.query(
+      'UPDATE generated_content SET example_pinned_at = NULL, example_pinned_by = NULL WHERE id = $1',
+      [contentId]
+    );
+  }
+}
+
+// Export singleton instance
+export const postExampleService = new PostExampleService();
+export default postExampleService;
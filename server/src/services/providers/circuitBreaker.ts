@@ -0,0 +1,120 @@
+// Per-provider circuit breaker: opens after repeated failures, lets one trial call through after a cooldown
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before allowing a trial
+  cooldownMs: number;
+  // Outcomes older than this are dropped from the error rate
+  windowMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutive_failures: number;
+  recent_requests: number;
+  recent_failures: number;
+  error_rate: number | null;
+  opened_at: string | null;
+  next_attempt_at: string | null;
+}
+
+interface Outcome {
+  at: number;
+  ok: boolean;
+}
+
+// Cap on remembered outcomes so a busy provider cannot grow the window without bound
+const MAX_OUTCOMES = 500;
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private outcomes: Outcome[] = [];
+
+  constructor(private options: CircuitBreakerOptions, private now: () => number = Date.now) {}
+
+  // Whether a call may go out now; moves an open circuit to half-open once the cooldown has passed
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (this.openedAt !== null && this.now() - this.openedAt < this.options.cooldownMs) return false;
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.remember(true);
+    this.consecutiveFailures = 0;
+    this.state = 'closed';
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.remember(false);
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  // Give back a half-open trial that ended without saying anything about the provider (client abort, local rate
+  // limit); the next call becomes the trial instead
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  get isOpen(): boolean {
+    return this.state === 'open' && this.openedAt !== null && this.now() - this.openedAt < this.options.cooldownMs;
+  }
+
+  get failures(): number {
+    return this.consecutiveFailures;
+  }
+
+  snapshot(): CircuitSnapshot {
+    this.prune();
+    const failures = this.outcomes.filter(outcome => !outcome.ok).length;
+
+    return {
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      recent_requests: this.outcomes.length,
+      recent_failures: failures,
+      error_rate: this.outcomes.length > 0 ? Math.round((failures / this.outcomes.length) * 1000) / 1000 : null,
+      opened_at: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      next_attempt_at: this.state === 'open' && this.openedAt !== null
+        ? new Date(this.openedAt + this.options.cooldownMs).toISOString()
+        : null
+    };
+  }
+
+  private remember(ok: boolean): void {
+    this.outcomes.push({ at: this.now(), ok });
+    this.prune();
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - this.options.windowMs;
+    while (this.outcomes.length > 0 && (this.outcomes[0]!.at < cutoff || this.outcomes.length > MAX_OUTCOMES)) {
+      this.outcomes.shift();
+    }
+  }
+}
+
+export default CircuitBreaker;
@@ -0,0 +1,77 @@
+import { CohereClientV2 } from 'cohere-ai';
+import { AIProvider, ProviderCompletion, ProviderRequest, ProviderUsage } from './types';
+
+export class CohereProvider implements AIProvider {
+  readonly name = 'cohere';
+  readonly label = 'Cohere';
+  readonly model = process.env.COHERE_MODEL || 'command-r-plus';
+  private client: CohereClientV2 | null = null;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.COHERE_API_KEY && process.env.COHERE_API_KEY !== 'dummy-cohere-key');
+  }
+
+  private getClient(): CohereClientV2 {
+    if (!this.client) {
+      this.client = new CohereClientV2({ token: process.env.COHERE_API_KEY || 'dummy-cohere-key' });
+    }
+    return this.client;
+  }
+
+  // The v1 generate endpoint is retired; chat is the supported v2 API
+  async complete(request: ProviderRequest): Promise<ProviderCompletion> {
+    const response = await this.getClient().chat({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt }
+      ],
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      p: 0.9,
+    }, request.signal ? { abortSignal: request.signal } : {});
+
+    const text = (response.message?.content || [])
+      .map(item => (item.type === 'text' ? item.text : ''))
+      .join('')
+      .trim();
+
+    return {
+      text,
+      model: this.model,
+      usage: {
+        prompt_tokens: response.usage?.tokens?.inputTokens,
+        completion_tokens: response.usage?.tokens?.outputTokens
+      }
+    };
+  }
+
+  async stream(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderCompletion> {
+    const stream = await this.getClient().chatStream({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt }
+      ],
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      p: 0.9,
+    }, request.signal ? { abortSignal: request.signal } : {});
+
+    let text = '';
+    let usage: ProviderUsage | undefined;
+    for await (const event of stream) {
+      if (event.type === 'content-delta') {
+        const token = event.delta?.message?.content?.text;
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+      } else if (event.type === 'message-end' && event.delta?.usage?.tokens) {
+        usage = { prompt_tokens: event.delta.usage.tokens.inputTokens, completion_tokens: event.delta.usage.tokens.outputTokens };
+      }
+    }
+
+    return { text: text.trim(), model: this.model, ...(usage ? { usage } : {}) };
+  }
+}
@@ -0,0 +1,72 @@
+import Groq from 'groq-sdk';
+import { AIProvider, ProviderCompletion, ProviderRequest, ProviderUsage } from './types';
+
+export class GroqProvider implements AIProvider {
+  readonly name = 'groq';
+  readonly label = 'Groq (Fast)';
+  readonly model = process.env.GROQ_MODEL || 'llama-3.1-8b-instant';
+  private client: Groq | null = null;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.GROQ_API_KEY && process.env.GROQ_API_KEY !== 'dummy-groq-key');
+  }
+
+  private getClient(): Groq {
+    if (!this.client) {
+      this.client = new Groq({ apiKey: process.env.GROQ_API_KEY || 'dummy-groq-key' });
+    }
+    return this.client;
+  }
+
+  async complete(request: ProviderRequest): Promise<ProviderCompletion> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: 0.9,
+    }, request.signal ? { signal: request.signal } : {});
+
+    return {
+      text: response.choices[0]?.message?.content?.trim() || '',
+      model: this.model,
+      usage: {
+        prompt_tokens: response.usage?.prompt_tokens,
+        completion_tokens: response.usage?.completion_tokens
+      }
+    };
+  }
+
+  async stream(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderCompletion> {
+    const stream = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: 0.9,
+      stream: true,
+    }, request.signal ? { signal: request.signal } : {});
+
+    let text = '';
+    let usage: ProviderUsage | undefined;
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+      // Usage only arrives on the final chunk
+      if (chunk.x_groq?.usage) {
+        usage = { prompt_tokens: chunk.x_groq.usage.prompt_tokens, completion_tokens: chunk.x_groq.usage.completion_tokens };
+      }
+    }
+
+    return { text: text.trim(), model: this.model, ...(usage ? { usage } : {}) };
+  }
+}
@@ -0,0 +1,57 @@
+import { HfInference } from '@huggingface/inference';
+import { AIProvider, ProviderCompletion, ProviderRequest } from './types';
+
+export class HuggingFaceProvider implements AIProvider {
+  readonly name = 'huggingface';
+  readonly label = 'HuggingFace';
+  readonly model = process.env.AI_MODEL_TEXT_GENERATION || 'microsoft/DialoGPT-medium';
+  private client: HfInference | null = null;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.HUGGINGFACE_API_KEY);
+  }
+
+  private getClient(): HfInference {
+    if (!this.client) {
+      this.client = new HfInference(process.env.HUGGINGFACE_API_KEY);
+    }
+    return this.client;
+  }
+
+  private parameters(request: ProviderRequest) {
+    return {
+      max_new_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: 0.9,
+      repetition_penalty: 1.2,
+      return_full_text: false,
+    };
+  }
+
+  async complete(request: ProviderRequest): Promise<ProviderCompletion> {
+    const response = await this.getClient().textGeneration({
+      model: this.model,
+      inputs: request.prompt,
+      parameters: this.parameters(request)
+    }, request.signal ? { signal: request.signal } : {});
+
+    return { text: response.generated_text?.trim() || '', model: this.model };
+  }
+
+  async stream(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderCompletion> {
+    const stream = this.getClient().textGenerationStream({
+      model: this.model,
+      inputs: request.prompt,
+      parameters: this.parameters(request)
+    }, request.signal ? { signal: request.signal } : {});
+
+    let text = '';
+    for await (const chunk of stream) {
+      if (chunk.token.special) continue;
+      text += chunk.token.text;
+      onToken(chunk.token.text);
+    }
+
+    return { text: text.trim(), model: this.model };
+  }
+}
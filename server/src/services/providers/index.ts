@@ -0,0 +1,11 @@
+export * from './types';
+export { ProviderRegistry, providerRegistry } from './registry';
+export { CircuitBreaker } from './circuitBreaker';
+export type { CircuitState, CircuitSnapshot, CircuitBreakerOptions } from './circuitBreaker';
+export { GroqProvider } from './groqProvider';
+export { OpenAIProvider } from './openaiProvider';
+export { CohereProvider } from './cohereProvider';
+export { HuggingFaceProvider } from './huggingFaceProvider';
+export { MockProvider } from './mockProvider';
+export type { MockProviderOptions, MockFailureMode } from './mockProvider';
+export { default } from './registry';
@@ -0,0 +1,342 @@
+import crypto from 'crypto';
+import { AIProvider, ProviderCompletion, ProviderRequest, ProviderRequestContext } from './types';
+
+// Offline provider for local development and tests: the same request and seed always give the same text.
+// Configure with MOCK_AI_SEED, MOCK_AI_LATENCY_MS, MOCK_AI_FAILURE_MODE, MOCK_AI_FAILURE_RATE and MOCK_AI_TIMEOUT_MS.
+
+export type MockFailureMode = 'none' | 'timeout' | 'rate_limit' | 'malformed';
+
+export interface MockProviderOptions {
+  seed: string;
+  latencyMs: number;
+  failureMode: MockFailureMode;
+  // Share of calls that fail when a failure mode is set (0-1)
+  failureRate: number;
+  // How long a simulated timeout hangs before rejecting
+  timeoutMs: number;
+}
+
+const FAILURE_MODES: MockFailureMode[] = ['none', 'timeout', 'rate_limit', 'malformed'];
+
+const OPENERS: Record<string, string[]> = {
+  energetic: ['LET\'S GO!', 'Big news, fam!', 'Okay this is huge!', 'Can\'t keep this in any longer!'],
+  professional: ['We are pleased to share an update.', 'An update for our listeners.', 'Here is what is coming next.'],
+  reflective: ['Been sitting with this one for a while.', 'Honest moment.', 'This one means a lot to me.'],
+  casual: ['Hey everyone!', 'Quick one for you all.', 'So here\'s the thing.', 'Alright, listen up.']
+};
+
+const BODIES: Record<string, string[]> = {
+  announcement: ['I\'ve got something to tell you about {topic}.', 'It\'s official: {topic}.'],
+  release: ['{topic} is finally out in the world.', 'The wait is over, {topic} is here.'],
+  news: ['Some news on {topic}.', 'Wanted you to hear it from me first: {topic}.'],
+  social_post: ['Thinking a lot about {topic} today.', 'Can we talk about {topic} for a sec?'],
+  story: ['Funny story about {topic}.', 'Let me tell you how {topic} happened.']
+};
+
+const FAN_QUESTIONS = [
+  'Which track are you playing first?',
+  'What do you want to hear live?',
+  'Where should we go next on tour?',
+  'What song got you through this week?'
+];
+
+// Middle parts of a thread or carousel, one beat of the story each
+const PART_BEATS = [
+  'It started with {topic}, and it grew into something bigger.',
+  'We spent months getting {topic} right.',
+  'Every detail of {topic} has a bit of you in it.',
+  'The best part of {topic}? Sharing it with you.',
+  'There is a story behind {topic} I have never told.',
+  'What {topic} sounds like live is something else.',
+  'None of {topic} happens without this community.',
+  'I wrote most of {topic} late at night.'
+];
+
+const CLOSERS = [
+  'Tell me what you think in the comments!',
+  'Share this with someone who needs it.',
+  'Love you all, see you soon.',
+  'Turn it up and let me know your favourite part!'
+];
+
+// Small, fast, seedable PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)]!;
+}
+
+function toneKey(tone?: string): string {
+  const value = (tone || '').toLowerCase();
+  if (/energ|hype|excit|bold|loud/.test(value)) return 'energetic';
+  if (/profession|formal|polish/.test(value)) return 'professional';
+  if (/reflect|emotion|heartfelt|authentic|vulnerab/.test(value)) return 'reflective';
+  return 'casual';
+}
+
+function hashtag(theme: string): string {
+  return `#${theme.replace(/[^a-z0-9]+/gi, '')}`;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('Request aborted'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class MockProvider implements AIProvider {
+  readonly name = 'mock';
+  readonly label = 'Mock (Offline)';
+  readonly model = 'mock-deterministic-v1';
+
+  constructor(private overrides: Partial<MockProviderOptions> = {}) {}
+
+  // Always available outside production; production has to opt in with MOCK_AI_ENABLED=true
+  isConfigured(): boolean {
+    if (process.env.MOCK_AI_ENABLED === 'false') return false;
+    return process.env.NODE_ENV !== 'production' || process.env.MOCK_AI_ENABLED === 'true';
+  }
+
+  // Env is read per call so tests and dev servers can switch failure modes without a restart
+  options(): MockProviderOptions {
+    const mode = (process.env.MOCK_AI_FAILURE_MODE || 'none') as MockFailureMode;
+    const rate = parseFloat(process.env.MOCK_AI_FAILURE_RATE || '1');
+
+    return {
+      seed: process.env.MOCK_AI_SEED || 'tribebuilder',
+      latencyMs: parseInt(process.env.MOCK_AI_LATENCY_MS || '0'),
+      failureMode: FAILURE_MODES.includes(mode) ? mode : 'none',
+      failureRate: Number.isNaN(rate) ? 1 : Math.min(Math.max(rate, 0), 1),
+      timeoutMs: parseInt(process.env.MOCK_AI_TIMEOUT_MS || '15000'),
+      ...this.overrides
+    };
+  }
+
+  async complete(request: ProviderRequest): Promise<ProviderCompletion> {
+    const options = this.options();
+    const random = this.randomFor(request, options.seed);
+
+    await this.simulateFailure(request, options, random);
+    await wait(options.latencyMs, request.signal);
+
+    return this.completion(request, this.compose(request, options, random));
+  }
+
+  async stream(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderCompletion> {
+    const options = this.options();
+    const random = this.randomFor(request, options.seed);
+
+    await this.simulateFailure(request, options, random);
+
+    const text = this.compose(request, options, random);
+    const tokens = text.match(/\S+\s*/g) || [];
+    const perToken = tokens.length > 0 ? Math.floor(options.latencyMs / tokens.length) : 0;
+
+    for (const token of tokens) {
+      await wait(perToken, request.signal);
+      onToken(token);
+    }
+
+    return this.completion(request, text);
+  }
+
+  // Seed from the configured seed plus everything that shapes the output, so each variation differs
+  private randomFor(request: ProviderRequest, seed: string): () => number {
+    const digest = crypto
+      .createHash('sha256')
+      .update(JSON.stringify([seed, request.systemPrompt, request.userPrompt, request.temperature, request.context ?? null]))
+      .digest();
+    return createRandom(digest.readUInt32LE(0));
+  }
+
+  private async simulateFailure(request: ProviderRequest, options: MockProviderOptions, random: () => number): Promise<void> {
+    if (options.failureMode === 'none' || options.failureMode === 'malformed') return;
+    if (random() >= options.failureRate) return;
+
+    if (options.failureMode === 'rate_limit') {
+      await wait(options.latencyMs, request.signal);
+      throw Object.assign(new Error('Mock provider rate limit exceeded'), { status: 429, code: 'rate_limit_exceeded' });
+    }
+
+    await wait(options.timeoutMs, request.signal);
+    throw Object.assign(new Error(`Mock provider timed out after ${options.timeoutMs}ms`), { code: 'ETIMEDOUT' });
+  }
+
+  private compose(request: ProviderRequest, options: MockProviderOptions, random: () => number): string {
+    const context = request.context ?? { contentType: 'social_post', keyThemes: [], variation: 1 };
+    const text = context.refinement
+      ? this.composeRefinement(context, context.refinement, request.maxTokens, random)
+      : context.templateVariables
+        ? this.composeTemplateValues(context, random)
+        : context.multipart
+          ? this.composeParts(context, context.multipart, random)
+          : context.repurpose
+            ? this.composeRepurposed(context, context.repurpose, request.maxTokens, random)
+            : this.composePost(context, request.maxTokens, random);
+
+    if (options.failureMode === 'malformed' && random() < options.failureRate) {
+      // Unterminated JSON cut mid-way, like a model that wandered off-format and ran out of tokens
+      return `{"content": "${text.slice(0, Math.max(1, Math.floor(text.length / 2))).replace(/[{}"]/g, '')}`;
+    }
+
+    return text;
+  }
+
+  private composePost(context: ProviderRequestContext, maxTokens: number, random: () => number): string {
+    const topic = context.topic?.trim() || (context.keyThemes.length > 0 ? context.keyThemes.join(' and ') : 'what\'s next');
+    const body = pick(BODIES[context.contentType] ?? BODIES.social_post!, random).replace('{topic}', topic);
+    const themes = context.keyThemes.length > 0
+      ? `${pick(context.keyThemes, random)} is what this is all about.`
+      : '';
+    const signOff = context.artistName ? `- ${context.artistName}` : '';
+    const tags = context.keyThemes.slice(0, 2).map(hashtag).join(' ');
+
+    const sentences = [
+      pick(OPENERS[toneKey(context.tone)]!, random),
+      body,
+      themes,
+      pick(CLOSERS, random),
+      tags,
+      signOff
+    ].filter(Boolean);
+
+    // Respect the token budget roughly (about four characters per token)
+    const limit = maxTokens * 4;
+    let text = '';
+    for (const sentence of sentences) {
+      const next = text ? `${text} ${sentence}` : sentence;
+      if (next.length > limit && text) break;
+      text = next;
+    }
+    return text.slice(0, limit).trim();
+  }
+
+  // Answer a thread or carousel request the way the prompt asks: a JSON array with the hook first and a call to action last
+  private composeParts(
+    context: ProviderRequestContext,
+    multipart: { parts: number; maxChars: number },
+    random: () => number
+  ): string {
+    const topic = context.topic?.trim() || (context.keyThemes.length > 0 ? context.keyThemes.join(' and ') : 'what\'s next');
+    const hook = `${pick(OPENERS[toneKey(context.tone)]!, random)} ${pick(BODIES[context.contentType] ?? BODIES.social_post!, random).replace('{topic}', topic)}`;
+    const beats = [...PART_BEATS];
+    const middle = Array.from({ length: Math.max(0, multipart.parts - 2) }, () =>
+      beats.splice(Math.floor(random() * beats.length), 1)[0] ?? pick(PART_BEATS, random)
+    ).map(beat => beat.replace('{topic}', topic));
+    const tags = context.keyThemes.slice(0, 2).map(hashtag).join(' ');
+    const cta = [pick(CLOSERS, random), tags].filter(Boolean).join(' ');
+
+    return JSON.stringify([hook, ...middle, cta].map(part => part.slice(0, multipart.maxChars)));
+  }
+
+  // A post around a transcript line: quote cards keep it verbatim, stories set the scene, posts add a call to action
+  private composeRepurposed(
+    context: ProviderRequestContext,
+    repurpose: { quote: string; kind: string },
+    maxTokens: number,
+    random: () => number
+  ): string {
+    const quote = repurpose.quote.trim();
+    const tags = context.keyThemes.slice(0, 2).map(hashtag).join(' ');
+    const sentences = repurpose.kind === 'quote_card'
+      ? [`"${quote}"`, context.artistName ? `- ${context.artistName}` : '', pick(CLOSERS, random), tags]
+      : repurpose.kind === 'story'
+        ? [pick(OPENERS.reflective!, random), 'Someone asked me about this in an interview and I told them the truth.', `"${quote}"`, pick(CLOSERS, random)]
+        : [pick(OPENERS[toneKey(context.tone)]!, random), quote, pick(FAN_QUESTIONS, random), tags];
+
+    return sentences.filter(Boolean).join(' ').slice(0, maxTokens * 4).trim();
+  }
+
+  // Apply the instructions the UI offers ("shorter", "more hype", "add a question for fans") to the original post;
+  // anything else swaps the opener so the result still differs from the original
+  private composeRefinement(
+    context: ProviderRequestContext,
+    refinement: { original: string; instruction: string },
+    maxTokens: number,
+    random: () => number
+  ): string {
+    const instruction = refinement.instruction.toLowerCase();
+    let sentences = refinement.original.match(/[^.!?]+[.!?]*\s*/g)?.map(sentence => sentence.trim()).filter(Boolean) ?? [];
+    let matched = false;
+
+    if (/short|brief|concise|trim|tighter/.test(instruction)) {
+      sentences = sentences.slice(0, Math.max(1, Math.ceil(sentences.length / 2)));
+      matched = true;
+    }
+    if (/hype|excit|energ|bold|louder/.test(instruction)) {
+      sentences = [pick(OPENERS.energetic!, random), ...sentences.map(sentence => sentence.replace(/\.$/, '!'))];
+      matched = true;
+    }
+    if (/question|ask/.test(instruction)) {
+      sentences.push(pick(FAN_QUESTIONS, random));
+      matched = true;
+    }
+    if (!matched) {
+      sentences = [pick(OPENERS[toneKey(context.tone)]!, random), ...sentences.slice(1)];
+    }
+
+    return sentences.join(' ').slice(0, maxTokens * 4).trim();
+  }
+
+  // Answer a template request the way the prompt asks: a JSON object of variable values
+  private composeTemplateValues(context: ProviderRequestContext, random: () => number): string {
+    const topic = context.topic?.trim() || context.keyThemes[0] || 'something new';
+    const values: Record<string, unknown> = {};
+
+    for (const variable of context.templateVariables ?? []) {
+      switch (variable.type) {
+        case 'number':
+          values[variable.name] = 1 + Math.floor(random() * 20);
+          break;
+        case 'boolean':
+          values[variable.name] = random() >= 0.5;
+          break;
+        case 'date': {
+          // Fixed reference date keeps output stable from day to day
+          const date = new Date(Date.UTC(2030, 0, 1) + Math.floor(random() * 365) * 86400000);
+          values[variable.name] = date.toISOString().slice(0, 10);
+          break;
+        }
+        case 'select':
+          values[variable.name] = variable.options && variable.options.length > 0 ? pick(variable.options, random) : topic;
+          break;
+        default:
+          values[variable.name] = /artist|name/i.test(variable.name) && context.artistName
+            ? context.artistName
+            : topic;
+      }
+    }
+
+    return JSON.stringify(values);
+  }
+
+  private completion(request: ProviderRequest, text: string): ProviderCompletion {
+    return {
+      text,
+      model: this.model,
+      usage: {
+        prompt_tokens: Math.ceil((request.systemPrompt.length + request.userPrompt.length) / 4),
+        completion_tokens: Math.ceil(text.length / 4)
+      }
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import OpenAI from 'openai';
+import { AIProvider, ProviderCompletion, ProviderRequest, ProviderUsage } from './types';
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai';
+  readonly label = 'OpenAI (Premium)';
+  readonly model = process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
+  private client: OpenAI | null = null;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY !== 'dummy-key-for-testing');
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || 'dummy-key-for-testing' });
+    }
+    return this.client;
+  }
+
+  async complete(request: ProviderRequest): Promise<ProviderCompletion> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: 0.9,
+      frequency_penalty: 0.2,
+      presence_penalty: 0.1,
+    }, request.signal ? { signal: request.signal } : {});
+
+    return {
+      text: response.choices[0]?.message?.content?.trim() || '',
+      model: this.model,
+      usage: {
+        prompt_tokens: response.usage?.prompt_tokens,
+        completion_tokens: response.usage?.completion_tokens
+      }
+    };
+  }
+
+  async stream(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderCompletion> {
+    const stream = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: 0.9,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, request.signal ? { signal: request.signal } : {});
+
+    let text = '';
+    let usage: ProviderUsage | undefined;
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+      // include_usage adds a final chunk with no choices and the totals
+      if (chunk.usage) {
+        usage = { prompt_tokens: chunk.usage.prompt_tokens, completion_tokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    return { text: text.trim(), model: this.model, ...(usage ? { usage } : {}) };
+  }
+}
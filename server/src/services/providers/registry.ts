@@ -0,0 +1,151 @@
+import { AIProvider, ProviderHealthSummary, ProviderStatus } from './types';
+import { CircuitBreaker, CircuitBreakerOptions } from './circuitBreaker';
+import { GroqProvider } from './groqProvider';
+import { OpenAIProvider } from './openaiProvider';
+import { CohereProvider } from './cohereProvider';
+import { HuggingFaceProvider } from './huggingFaceProvider';
+import { MockProvider } from './mockProvider';
+
+// Order 'auto' tries providers in; override per environment with AI_PROVIDER_FALLBACK_ORDER=groq,openai,...
+const DEFAULT_FALLBACK_ORDER = 'groq,huggingface';
+
+interface ProviderHealth {
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+  breaker: CircuitBreaker;
+}
+
+// Breaker settings; the circuit opens after AI_BREAKER_FAILURE_THRESHOLD failures in a row
+function breakerOptions(): CircuitBreakerOptions {
+  return {
+    failureThreshold: parseInt(process.env.AI_BREAKER_FAILURE_THRESHOLD || '3'),
+    cooldownMs: parseInt(process.env.AI_BREAKER_COOLDOWN_MS || '30000'),
+    windowMs: parseInt(process.env.AI_BREAKER_WINDOW_MS || '300000')
+  };
+}
+
+export class ProviderRegistry {
+  private providers = new Map<string, AIProvider>();
+  private health = new Map<string, ProviderHealth>();
+
+  register(provider: AIProvider): void {
+    this.providers.set(provider.name, provider);
+    this.health.set(provider.name, {
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      breaker: new CircuitBreaker(breakerOptions())
+    });
+  }
+
+  get(name: string): AIProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  // Registered provider names, in registration order
+  names(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  // Configured providers 'auto' should try, in order; unknown names in the env are ignored
+  fallbackChain(): AIProvider[] {
+    const order = (process.env.AI_PROVIDER_FALLBACK_ORDER || DEFAULT_FALLBACK_ORDER)
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    return [...new Set(order)]
+      .map(name => this.providers.get(name))
+      .filter((provider): provider is AIProvider => provider !== undefined && provider.isConfigured());
+  }
+
+  // Ask the provider's breaker for permission to call it; false while the circuit is open
+  tryAcquire(name: string): boolean {
+    return this.health.get(name)?.breaker.tryAcquire() ?? false;
+  }
+
+  recordSuccess(name: string): void {
+    const health = this.health.get(name);
+    if (!health) return;
+    health.lastSuccessAt = new Date();
+    health.breaker.recordSuccess();
+  }
+
+  recordFailure(name: string, error: unknown): void {
+    const health = this.health.get(name);
+    if (!health) return;
+    health.lastFailureAt = new Date();
+    health.lastError = error instanceof Error ? error.message : String(error);
+    health.breaker.recordFailure();
+  }
+
+  // The call ended without an outcome; frees a half-open trial
+  release(name: string): void {
+    this.health.get(name)?.breaker.release();
+  }
+
+  isHealthy(name: string): boolean {
+    const provider = this.providers.get(name);
+    const health = this.health.get(name);
+    return Boolean(provider?.isConfigured()) && !health?.breaker.isOpen;
+  }
+
+  // Compact breaker view for /health; degraded when every provider 'auto' could use has an open circuit
+  healthSummary(): ProviderHealthSummary {
+    const configured = this.getStatus().filter(status => status.configured);
+    const chain = configured.filter(status => status.fallback_position !== null);
+
+    return {
+      status: chain.length > 0 && chain.every(status => !status.healthy) ? 'DEGRADED' : 'OK',
+      providers: configured.map(status => ({
+        name: status.name,
+        circuit_state: status.circuit_state,
+        error_rate: status.error_rate,
+        recent_requests: status.recent_requests,
+        consecutive_failures: status.consecutive_failures,
+        circuit_next_attempt_at: status.circuit_next_attempt_at,
+        last_error: status.last_error
+      }))
+    };
+  }
+
+  getStatus(): ProviderStatus[] {
+    const chain = this.fallbackChain().map(provider => provider.name);
+
+    return [...this.providers.values()].map(provider => {
+      const health = this.health.get(provider.name)!;
+      const position = chain.indexOf(provider.name);
+      const circuit = health.breaker.snapshot();
+
+      return {
+        name: provider.name,
+        label: provider.label,
+        model: provider.model,
+        configured: provider.isConfigured(),
+        healthy: this.isHealthy(provider.name),
+        supports_streaming: typeof provider.stream === 'function',
+        fallback_position: position === -1 ? null : position + 1,
+        last_success_at: health.lastSuccessAt?.toISOString() ?? null,
+        last_failure_at: health.lastFailureAt?.toISOString() ?? null,
+        last_error: health.lastError,
+        consecutive_failures: circuit.consecutive_failures,
+        circuit_state: circuit.state,
+        circuit_opened_at: circuit.opened_at,
+        circuit_next_attempt_at: circuit.next_attempt_at,
+        recent_requests: circuit.recent_requests,
+        error_rate: circuit.error_rate
+      };
+    });
+  }
+}
+
+// Export singleton instance with the built-in providers
+export const providerRegistry = new ProviderRegistry();
+providerRegistry.register(new GroqProvider());
+providerRegistry.register(new OpenAIProvider());
+providerRegistry.register(new CohereProvider());
+providerRegistry.register(new HuggingFaceProvider());
+providerRegistry.register(new MockProvider());
+
+export default providerRegistry;
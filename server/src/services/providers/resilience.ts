@@ -0,0 +1,95 @@
+// Timeouts and retry policy for provider calls
+
+// Per-provider overrides use the same list style as the fallback order: AI_PROVIDER_TIMEOUTS=groq:15000,huggingface:45000
+const DEFAULT_TIMEOUT_MS = 20000;
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export function retryPolicy(): RetryPolicy {
+  return {
+    maxRetries: parseInt(process.env.AI_PROVIDER_MAX_RETRIES || '2'),
+    baseDelayMs: parseInt(process.env.AI_PROVIDER_RETRY_BASE_MS || '250'),
+    maxDelayMs: 4000
+  };
+}
+
+export function timeoutFor(providerName: string): number {
+  const overrides = (process.env.AI_PROVIDER_TIMEOUTS || '')
+    .split(',')
+    .map(entry => entry.split(':').map(part => part.trim()));
+
+  for (const [name, value] of overrides) {
+    const ms = parseInt(value || '');
+    if (name?.toLowerCase() === providerName && !Number.isNaN(ms) && ms > 0) return ms;
+  }
+
+  const fallback = parseInt(process.env.AI_PROVIDER_TIMEOUT_MS || '');
+  return Number.isNaN(fallback) || fallback <= 0 ? DEFAULT_TIMEOUT_MS : fallback;
+}
+
+// Exponential backoff: base, 2x base, 4x base... capped
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  return Math.min(policy.baseDelayMs * Math.pow(2, attempt), policy.maxDelayMs);
+}
+
+// Timeouts, rate limits, 5xx responses and dropped connections are worth another try; bad requests and auth errors are not
+export function isRetryableError(error: unknown): boolean {
+  const err = error as { status?: unknown; statusCode?: unknown; code?: unknown; name?: unknown } | null;
+  if (!err || typeof err !== 'object') return false;
+
+  const status = typeof err.status === 'number' ? err.status : typeof err.statusCode === 'number' ? err.statusCode : null;
+  if (status !== null) return status === 408 || status === 429 || status >= 500;
+
+  return ['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE'].includes(String(err.code))
+    || err.name === 'APIConnectionError';
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Run a call with its own abort signal that fires on timeout or when the caller aborts.
+// Streams call touch() per token so the timeout measures silence rather than total length.
+export async function withTimeout<T>(
+  label: string,
+  timeoutMs: number,
+  parentSignal: AbortSignal | undefined,
+  call: (signal: AbortSignal, touch: () => void) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  let rejectTimeout: (error: Error) => void = () => undefined;
+
+  const arm = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      const error = Object.assign(new Error(`${label} timed out after ${timeoutMs}ms`), { code: 'ETIMEDOUT' });
+      controller.abort(error);
+      rejectTimeout(error);
+    }, timeoutMs);
+  };
+
+  const onParentAbort = () => controller.abort(parentSignal?.reason);
+  if (parentSignal?.aborted) {
+    controller.abort(parentSignal.reason);
+  } else {
+    parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  // Providers that ignore the signal still lose the race against the timer
+  const timeout = new Promise<never>((_, reject) => {
+    rejectTimeout = reject;
+  });
+
+  arm();
+  try {
+    return await Promise.race([call(controller.signal, arm), timeout]);
+  } finally {
+    if (timer) clearTimeout(timer);
+    parentSignal?.removeEventListener('abort', onParentAbort);
+  }
+}
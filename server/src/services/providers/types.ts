@@ -0,0 +1,81 @@
+// Contract every AI text provider implements; the registry and AIContentService only talk to this
+import { TemplateVariable } from '../templateService';
+import { CircuitState } from './circuitBreaker';
+
+// Structured view of what the prompts ask for; real models read the prompts, the offline mock reads this
+export interface ProviderRequestContext {
+  contentType: string;
+  topic?: string | undefined;
+  artistName?: string | undefined;
+  tone?: string | undefined;
+  keyThemes: string[];
+  // Present in template mode: the model must answer with a JSON object of these variables
+  templateVariables?: TemplateVariable[] | undefined;
+  // Present when rewriting an existing post rather than writing a new one
+  refinement?: { original: string; instruction: string } | undefined;
+  // Present when writing a post around a line from a transcript
+  repurpose?: { quote: string; kind: 'quote_card' | 'story' | 'social_post' } | undefined;
+  // Present for threads and carousels: the model must answer with a JSON array of this many parts
+  multipart?: { format: 'thread' | 'carousel'; parts: number; maxChars: number } | undefined;
+  variation: number;
+}
+
+export interface ProviderRequest {
+  // Chat-style providers use the system/user pair
+  systemPrompt: string;
+  userPrompt: string;
+  // Plain text-generation models get a single combined prompt
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  context?: ProviderRequestContext;
+  signal?: AbortSignal;
+}
+
+export interface ProviderUsage {
+  prompt_tokens?: number | undefined;
+  completion_tokens?: number | undefined;
+}
+
+export interface ProviderCompletion {
+  text: string;
+  model: string;
+  usage?: ProviderUsage;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  readonly label: string;
+  readonly model: string;
+  isConfigured(): boolean;
+  complete(request: ProviderRequest): Promise<ProviderCompletion>;
+  // Optional token streaming; providers without it are not offered on /generate/stream
+  stream?(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderCompletion>;
+}
+
+export interface ProviderStatus {
+  name: string;
+  label: string;
+  model: string;
+  configured: boolean;
+  healthy: boolean;
+  supports_streaming: boolean;
+  fallback_position: number | null;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+  last_error: string | null;
+  consecutive_failures: number;
+  circuit_state: CircuitState;
+  circuit_opened_at: string | null;
+  circuit_next_attempt_at: string | null;
+  recent_requests: number;
+  // Share of failed calls over the breaker window (AI_BREAKER_WINDOW_MS); null before any call
+  error_rate: number | null;
+}
+
+export interface ProviderHealthSummary {
+  status: 'OK' | 'DEGRADED';
+  providers: Array<Pick<ProviderStatus,
+    'name' | 'circuit_state' | 'error_rate' | 'recent_requests' | 'consecutive_failures' | 'circuit_next_attempt_at' | 'last_error'
+  >>;
+}
@@ -0,0 +1,335 @@
+import pool from '../Config/connection';
+import { ApprovalStatus, ReviewableContent } from './contentReviewService';
+import { PLATFORM_NAMES, PlatformName, getPlatformProfile } from './platformProfiles';
+import publishingAdapters, { PublishCredentials, decryptToken, encryptToken } from './publishing';
+import moderationService from './moderationService';
+import { backoffDelay, isRetryableError, sleep } from './providers/resilience';
+
+// Publishing scheduled content through the artist's linked social accounts. Every publish claims the item with a
+// 'pending' published_content row first, which becomes the record of the post or the failure. Transient platform
+// errors (429, 5xx) are retried; dropped connections only when the adapter honours idempotency keys.
+
+// social_media_accounts.platform predates the platform profiles; X is stored as 'twitter'
+const ACCOUNT_PLATFORMS: Record<PlatformName, string> = {
+  x: 'twitter',
+  instagram: 'instagram',
+  tiktok: 'tiktok',
+  reddit: 'reddit',
+  youtube: 'youtube'
+};
+
+export function accountPlatform(platform: PlatformName): string {
+  return ACCOUNT_PLATFORMS[platform];
+}
+
+export function profilePlatform(stored: string): PlatformName | null {
+  return PLATFORM_NAMES.find(name => ACCOUNT_PLATFORMS[name] === stored) ?? null;
+}
+
+// Content has to be on the calendar before it can go out
+export const PUBLISHABLE_STATUSES: ApprovalStatus[] = ['scheduled', 'ready_to_publish'];
+
+export interface SocialAccount {
+  id: string;
+  platform: PlatformName;
+  platform_user_id: string | null;
+  platform_username: string | null;
+  token_expires_at: Date | null;
+  connection_status: 'active' | 'expired' | 'revoked';
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LinkAccountInput {
+  access_token: string;
+  refresh_token?: string | undefined;
+  token_expires_at?: Date | undefined;
+  platform_user_id?: string | undefined;
+  platform_username?: string | undefined;
+}
+
+export interface PublishedContent {
+  id: string;
+  generated_content_id: string;
+  social_media_account_id: string;
+  platform: PlatformName;
+  platform_post_id: string | null;
+  post_url: string | null;
+  post_status: 'pending' | 'published' | 'failed';
+  error_message: string | null;
+  attempts: number;
+  published_at: Date | null;
+  published_by: string | null;
+  created_at: Date;
+}
+
+export type PublishOutcome =
+  | { ok: true; record: PublishedContent; content: ReviewableContent | null }
+  | { ok: false; status: 409 | 422 | 501 | 502; error: string; record?: PublishedContent };
+
+interface StoredAccount {
+  id: string;
+  platform_user_id: string | null;
+  platform_username: string | null;
+  access_token_encrypted: string | null;
+  refresh_token_encrypted: string | null;
+  token_expires_at: Date | null;
+}
+
+const ACCOUNT_COLUMNS = `id, platform, platform_user_id, platform_username, token_expires_at, connection_status, created_at, updated_at`;
+
+const PUBLISHED_COLUMNS = `id, generated_content_id, social_media_account_id, platform, platform_post_id, post_url, post_status,
+  error_message, attempts, published_at, published_by, created_at`;
+
+// A claim this old belongs to a publish that died mid-way (a restart, a crash) and may be taken over
+const CLAIM_TIMEOUT_MINUTES = 15;
+
+function retryPolicy() {
+  return {
+    maxRetries: parseInt(process.env.PUBLISH_MAX_RETRIES || '2'),
+    baseDelayMs: parseInt(process.env.PUBLISH_RETRY_BASE_MS || '1000'),
+    maxDelayMs: 30000
+  };
+}
+
+const toAccount = (row: any): SocialAccount => ({ ...row, platform: profilePlatform(row.platform) ?? row.platform });
+
+const toPublished = (row: any): PublishedContent => ({ ...row, platform: profilePlatform(row.platform) ?? row.platform });
+
+class PublisherService {
+  // Linked accounts of the artist; tokens never leave the server
+  async listAccounts(artistId: string): Promise<SocialAccount[]> {
+    const result = await pool.query(
+      `SELECT ${ACCOUNT_COLUMNS} FROM social_media_accounts WHERE artist_id = $1 ORDER BY platform`,
+      [artistId]
+    );
+    return result.rows.map(toAccount);
+  }
+
+  // Link or re-link the artist's account on a platform; relinking replaces the tokens and reactivates it
+  async linkAccount(artistId: string, platform: PlatformName, input: LinkAccountInput, linkedBy: string): Promise<SocialAccount> {
+    const result = await pool.query(
+      `INSERT INTO social_media_accounts
+         (artist_id, platform, platform_user_id, platform_username, access_token_encrypted, refresh_token_encrypted,
+          token_expires_at, connection_status, linked_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'active', $8)
+       ON CONFLICT (artist_id, platform) DO UPDATE SET
+         platform_user_id = EXCLUDED.platform_user_id,
+         platform_username = EXCLUDED.platform_username,
+         access_token_encrypted = EXCLUDED.access_token_encrypted,
+         refresh_token_encrypted = EXCLUDED.refresh_token_encrypted,
+         token_expires_at = EXCLUDED.token_expires_at,
+         connection_status = 'active',
+         linked_by = EXCLUDED.linked_by
+       RETURNING ${ACCOUNT_COLUMNS}`,
+      [
+        artistId,
+        accountPlatform(platform),
+        input.platform_user_id ?? null,
+        input.platform_username ?? null,
+        encryptToken(input.access_token),
+        input.refresh_token ? encryptToken(input.refresh_token) : null,
+        input.token_expires_at ?? null,
+        linkedBy
+      ]
+    );
+    return toAccount(result.rows[0]);
+  }
+
+  // Accounts stay in place for the published_content rows that point at them; unlinking drops the tokens
+  async unlinkAccount(artistId: string, platform: PlatformName): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE social_media_accounts
+       SET access_token_encrypted = NULL, refresh_token_encrypted = NULL, connection_status = 'revoked'
+       WHERE artist_id = $1 AND platform = $2 AND connection_status <> 'revoked'`,
+      [artistId, accountPlatform(platform)]
+    );
+    return Boolean(result.rowCount);
+  }
+
+  // Every publish attempt for one item, newest first
+  async listPublications(contentId: string): Promise<PublishedContent[]> {
+    const result = await pool.query(
+      `SELECT ${PUBLISHED_COLUMNS} FROM published_content WHERE generated_content_id = $1 ORDER BY created_at DESC`,
+      [contentId]
+    );
+    return result.rows.map(toPublished);
+  }
+
+  // Post scheduled content to its platform now, then record the result and move the content to published
+  async publish(content: ReviewableContent, actorId: string): Promise<PublishOutcome> {
+    const platform = content.scheduled_platform as PlatformName | null;
+    const label = getPlatformProfile(platform)?.label ?? platform;
+    if (!platform || !PUBLISHABLE_STATUSES.includes(content.approval_status)) {
+      return { ok: false, status: 409, error: 'Schedule the content on a platform before publishing it' };
+    }
+
+    // The artist's rules may have changed since the text was written or last edited
+    const moderation = await moderationService.check(content.artist_id, content.content_text ?? '');
+    if (moderation.action === 'block') {
+      return { ok: false, status: 422, error: `Blocked by moderation: ${moderation.reason}` };
+    }
+
+    const account = await this.activeAccount(content.artist_id, platform);
+    if (!account || !account.access_token_encrypted) {
+      return { ok: false, status: 409, error: `Link your ${label} account before publishing` };
+    }
+    if (account.token_expires_at && new Date(account.token_expires_at).getTime() <= Date.now()) {
+      await this.setConnectionStatus(account.id, 'expired');
+      return { ok: false, status: 409, error: `The ${label} account's access has expired. Link it again.` };
+    }
+
+    const adapter = publishingAdapters.adapterFor(platform);
+    if (!adapter) {
+      return { ok: false, status: 501, error: `Publishing to ${label} is not supported yet` };
+    }
+
+    const credentials: PublishCredentials = {
+      access_token: decryptToken(account.access_token_encrypted),
+      refresh_token: account.refresh_token_encrypted ? decryptToken(account.refresh_token_encrypted) : null,
+      platform_user_id: account.platform_user_id,
+      platform_username: account.platform_username
+    };
+    const claimId = await this.claim(content, account.id, platform, actorId);
+    if (!claimId) {
+      return { ok: false, status: 409, error: 'This content is already being published' };
+    }
+
+    const parts: Array<{ text: string }> | undefined = content.content_metadata?.parts;
+    const request = {
+      platform,
+      text: content.content_text ?? '',
+      parts: parts?.map(part => part.text),
+      credentials,
+      idempotency_key: claimId
+    };
+
+    const policy = retryPolicy();
+    let attempts = 0;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+      attempts++;
+      try {
+        const result = await adapter.publish(request);
+        return await this.recordPublished(content, claimId, result, attempts, actorId);
+      } catch (error) {
+        lastError = error;
+        if (!this.canRetry(error, adapter.idempotent) || attempt === policy.maxRetries) break;
+        await sleep(backoffDelay(attempt, policy));
+      }
+    }
+
+    const message = lastError instanceof Error ? lastError.message : String(lastError);
+    const status = (lastError as { status?: unknown } | null)?.status;
+    if (status === 401 || status === 403) {
+      await this.setConnectionStatus(account.id, 'expired');
+    }
+
+    const failed = await pool.query(
+      `UPDATE published_content
+       SET post_status = 'failed', error_message = $2, attempts = $3
+       WHERE id = $1
+       RETURNING ${PUBLISHED_COLUMNS}`,
+      [claimId, message, attempts]
+    );
+
+    return { ok: false, status: 502, error: `${label} did not accept the post: ${message}`, record: toPublished(failed.rows[0]) };
+  }
+
+  // The pending row for this publish; null while another publish holds the item or once its status has moved on
+  private async claim(content: ReviewableContent, accountId: string, platform: PlatformName, actorId: string): Promise<string | null> {
+    const result = await pool.query(
+      `INSERT INTO published_content
+         (generated_content_id, social_media_account_id, platform, post_status, attempts, published_by)
+       SELECT gc.id, $2, $3, 'pending', 0, $4
+       FROM generated_content gc
+       WHERE gc.id = $1 AND gc.approval_status = $5
+       ON CONFLICT (generated_content_id) WHERE post_status = 'pending' DO UPDATE SET
+         social_media_account_id = EXCLUDED.social_media_account_id,
+         published_by = EXCLUDED.published_by,
+         created_at = CURRENT_TIMESTAMP
+       WHERE published_content.created_at < CURRENT_TIMESTAMP - INTERVAL '${CLAIM_TIMEOUT_MINUTES} minutes'
+       RETURNING id`,
+      [content.id, accountId, accountPlatform(platform), actorId, content.approval_status]
+    );
+    return result.rows[0]?.id ?? null;
+  }
+
+  // A platform that answered with 429 or 5xx didn't take the post; after a dropped connection it may have,
+  // so only an idempotent adapter is asked again
+  private canRetry(error: unknown, idempotent: boolean): boolean {
+    if (!isRetryableError(error)) return false;
+    const err = error as { status?: unknown; statusCode?: unknown };
+    return idempotent || typeof err.status === 'number' || typeof err.statusCode === 'number';
+  }
+
+  private async activeAccount(artistId: string, platform: PlatformName): Promise<StoredAccount | null> {
+    const result = await pool.query(
+      `SELECT id, platform_user_id, platform_username, access_token_encrypted, refresh_token_encrypted, token_expires_at
+       FROM social_media_accounts
+       WHERE artist_id = $1 AND platform = $2 AND connection_status = 'active'`,
+      [artistId, accountPlatform(platform)]
+    );
+    return result.rows[0] || null;
+  }
+
+  private async setConnectionStatus(accountId: string, status: SocialAccount['connection_status']): Promise<void> {
+    await pool.query('UPDATE social_media_accounts SET connection_status = $1 WHERE id = $2', [status, accountId]);
+  }
+
+  // The post is live at this point, so it is recorded even if the content's status moved in the meantime
+  private async recordPublished(
+    content: ReviewableContent,
+    claimId: string,
+    result: { platform_post_id: string; post_url: string | null },
+    attempts: number,
+    actorId: string
+  ): Promise<PublishOutcome> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const record = await client.query(
+        `UPDATE published_content
+         SET post_status = 'published', platform_post_id = $2, post_url = $3, attempts = $4, published_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING ${PUBLISHED_COLUMNS}`,
+        [claimId, result.platform_post_id, result.post_url, attempts]
+      );
+
+      const updated = await client.query(
+        `UPDATE generated_content gc
+         SET approval_status = 'published', updated_at = CURRENT_TIMESTAMP
+         WHERE gc.id = $1 AND gc.approval_status = $2
+         RETURNING gc.approval_status, gc.updated_at`,
+        [content.id, content.approval_status]
+      );
+
+      if (updated.rows.length > 0) {
+        await client.query(
+          `INSERT INTO content_review_events (content_id, event_type, from_status, to_status, actor_id, comment)
+           VALUES ($1, 'transition', $2, 'published', $3, $4)`,
+          [content.id, content.approval_status, actorId, result.post_url ? `Published at ${result.post_url}` : 'Published']
+        );
+      }
+
+      await client.query('COMMIT');
+      return {
+        ok: true,
+        record: toPublished(record.rows[0]),
+        content: updated.rows[0] ? { ...content, ...updated.rows[0] } : null
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Export singleton instance
+export const publisherService = new PublisherService();
+export default publisherService;
@@ -0,0 +1,110 @@
+import { PLATFORM_NAMES, PLATFORM_PROFILES } from '../platformProfiles';
+import { PlatformAdapter, PublishRequest, PublishResult } from './types';
+
+// Offline stand-in for every platform: keeps posts in memory, enforces the platform's character limit and can
+// fail on purpose so retries and failure records can be exercised without network access or real accounts.
+
+export type FakeFailureMode = 'none' | 'rate_limit' | 'server_error' | 'unauthorized';
+
+export interface FakePlatformOptions {
+  failureMode: FakeFailureMode;
+  // How many calls fail before posting works again; unset means every call fails while a mode is set
+  failureCount: number;
+}
+
+export interface FakePost extends PublishResult {
+  idempotency_key: string;
+  platform: string;
+  username: string | null;
+  text: string;
+  parts: string[];
+  created_at: Date;
+}
+
+const FAILURE_MODES: FakeFailureMode[] = ['none', 'rate_limit', 'server_error', 'unauthorized'];
+
+const FAILURES: Record<Exclude<FakeFailureMode, 'none'>, { status: number; message: string }> = {
+  rate_limit: { status: 429, message: 'Fake platform rate limit exceeded' },
+  server_error: { status: 503, message: 'Fake platform is unavailable' },
+  unauthorized: { status: 401, message: 'Fake platform rejected the access token' }
+};
+
+export class FakePlatformAdapter implements PlatformAdapter {
+  readonly name = 'fake';
+  readonly label = 'Fake platform (offline)';
+  readonly platforms = PLATFORM_NAMES;
+  readonly idempotent = true;
+
+  private posts: FakePost[] = [];
+  private sequence = 0;
+  private failures = 0;
+
+  constructor(private overrides: Partial<FakePlatformOptions> = {}) {}
+
+  // Used outside production unless PUBLISHER_MODE=live; production has to opt in with PUBLISHER_MODE=fake
+  isConfigured(): boolean {
+    const mode = process.env.PUBLISHER_MODE;
+    if (mode === 'live') return false;
+    return mode === 'fake' || process.env.NODE_ENV !== 'production';
+  }
+
+  // Env is read per call, like the mock AI provider, so failure modes can be switched without a restart
+  options(): FakePlatformOptions {
+    const mode = (process.env.FAKE_PLATFORM_FAILURE_MODE || 'none') as FakeFailureMode;
+    const count = parseInt(process.env.FAKE_PLATFORM_FAILURE_COUNT || '');
+
+    return {
+      failureMode: FAILURE_MODES.includes(mode) ? mode : 'none',
+      failureCount: Number.isNaN(count) ? Infinity : count,
+      ...this.overrides
+    };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    // A repeated request returns the post it already made, like a platform honouring idempotency keys
+    const existing = this.posts.find(post => post.idempotency_key === request.idempotency_key);
+    if (existing) return { platform_post_id: existing.platform_post_id, post_url: existing.post_url };
+
+    const options = this.options();
+    if (options.failureMode !== 'none' && this.failures < options.failureCount) {
+      this.failures++;
+      const failure = FAILURES[options.failureMode];
+      throw Object.assign(new Error(failure.message), { status: failure.status });
+    }
+
+    const parts = request.parts && request.parts.length > 0 ? request.parts : [request.text];
+    const maxChars = PLATFORM_PROFILES[request.platform].max_chars;
+    const tooLong = parts.findIndex(part => part.length > maxChars);
+    if (tooLong >= 0) {
+      const which = parts.length > 1 ? `Part ${tooLong + 1}` : 'The post';
+      throw Object.assign(new Error(`${which} is longer than ${maxChars} characters`), { status: 400 });
+    }
+
+    const username = request.credentials.platform_username;
+    const id = `fake-${request.platform}-${++this.sequence}`;
+    const post: FakePost = {
+      platform_post_id: id,
+      post_url: `https://fake.tribebuilder.local/${request.platform}/${username ?? 'me'}/${id}`,
+      idempotency_key: request.idempotency_key,
+      platform: request.platform,
+      username,
+      text: request.text,
+      parts,
+      created_at: new Date()
+    };
+    this.posts.push(post);
+
+    return { platform_post_id: post.platform_post_id, post_url: post.post_url };
+  }
+
+  // Everything posted since start (or the last reset), oldest first
+  published(): FakePost[] {
+    return [...this.posts];
+  }
+
+  reset(): void {
+    this.posts = [];
+    this.sequence = 0;
+    this.failures = 0;
+  }
+}
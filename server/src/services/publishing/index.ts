@@ -0,0 +1,28 @@
+import { PlatformName } from '../platformProfiles';
+import { FakePlatformAdapter } from './fakePlatformAdapter';
+import { PlatformAdapter } from './types';
+import { XAdapter } from './xAdapter';
+
+export * from './types';
+export { FakePlatformAdapter } from './fakePlatformAdapter';
+export type { FakeFailureMode, FakePlatformOptions, FakePost } from './fakePlatformAdapter';
+export { XAdapter } from './xAdapter';
+export { encryptToken, decryptToken, isTokenVaultConfigured } from './tokenVault';
+
+export class PublishingAdapters {
+  readonly fake = new FakePlatformAdapter();
+  private live: PlatformAdapter[] = [new XAdapter()];
+
+  // While the fake adapter is on it stands in for every platform; otherwise the platform's live adapter, if any
+  adapterFor(platform: PlatformName): PlatformAdapter | null {
+    if (this.fake.isConfigured()) return this.fake;
+    return this.live.find(adapter => adapter.platforms.includes(platform) && adapter.isConfigured()) ?? null;
+  }
+
+  mode(): 'fake' | 'live' {
+    return this.fake.isConfigured() ? 'fake' : 'live';
+  }
+}
+
+export const publishingAdapters = new PublishingAdapters();
+export default publishingAdapters;
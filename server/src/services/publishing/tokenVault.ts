@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+
+// AES-256-GCM for the OAuth tokens in social_media_accounts. Stored as "v1.<iv>.<tag>.<ciphertext>" (base64 parts);
+// the key is SOCIAL_TOKEN_ENCRYPTION_KEY, 32 bytes given as 64 hex characters or base64.
+
+const VERSION = 'v1';
+const IV_BYTES = 12;
+
+export function isTokenVaultConfigured(): boolean {
+  return readKey() !== null;
+}
+
+function readKey(): Buffer | null {
+  const raw = (process.env.SOCIAL_TOKEN_ENCRYPTION_KEY || '').trim();
+  if (!raw) return null;
+
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  return key.length === 32 ? key : null;
+}
+
+function requireKey(): Buffer {
+  const key = readKey();
+  if (!key) {
+    throw Object.assign(new Error('SOCIAL_TOKEN_ENCRYPTION_KEY must be 32 bytes (64 hex characters or base64)'), { code: 'TOKEN_KEY_MISSING' });
+  }
+  return key;
+}
+
+export function encryptToken(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', requireKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join('.');
+}
+
+// Throws when the value was tampered with or encrypted under another key
+export function decryptToken(stored: string): string {
+  const [version, iv, tag, ciphertext] = stored.split('.');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw Object.assign(new Error('Unrecognised encrypted token format'), { code: 'TOKEN_FORMAT' });
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', requireKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
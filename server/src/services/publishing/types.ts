@@ -0,0 +1,39 @@
+// Contract every publishing target implements; publisherService only talks to this
+import { PlatformName } from '../platformProfiles';
+
+export interface PublishCredentials {
+  access_token: string;
+  refresh_token: string | null;
+  platform_user_id: string | null;
+  platform_username: string | null;
+}
+
+export interface PublishRequest {
+  platform: PlatformName;
+  // The full post; for threads and carousels the numbered parts joined together
+  text: string;
+  // Threads and carousels: one entry per post/slide, in order
+  parts?: string[] | undefined;
+  credentials: PublishCredentials;
+  // Same for every attempt at one publish; platforms that support it use it to drop repeated requests
+  idempotency_key: string;
+}
+
+export interface PublishResult {
+  platform_post_id: string;
+  post_url: string | null;
+}
+
+// Adapters throw errors with a numeric `status` (HTTP-style) so the publisher can tell
+// retryable failures (429, 5xx) from ones that won't go away (400, 401, 403)
+export interface PlatformAdapter {
+  readonly name: string;
+  readonly label: string;
+  // Platforms this adapter can post to
+  readonly platforms: PlatformName[];
+  // Whether a repeated request with the same idempotency key is guaranteed not to post again; without that,
+  // a dropped connection may hide a post that went out, so the publisher won't retry it
+  readonly idempotent: boolean;
+  isConfigured(): boolean;
+  publish(request: PublishRequest): Promise<PublishResult>;
+}
@@ -0,0 +1,72 @@
+import { PlatformName } from '../platformProfiles';
+import { PlatformAdapter, PublishRequest, PublishResult } from './types';
+
+// Per-call limit for the X API; PUBLISH_TIMEOUT_MS overrides it
+const DEFAULT_TIMEOUT_MS = 15000;
+
+function publishTimeout(): number {
+  const ms = parseInt(process.env.PUBLISH_TIMEOUT_MS || '');
+  return Number.isNaN(ms) || ms <= 0 ? DEFAULT_TIMEOUT_MS : ms;
+}
+
+interface XCreateTweetResponse {
+  data?: { id?: string };
+  title?: string;
+  detail?: string;
+}
+
+// Posts through the X API v2 with the account's OAuth 2.0 user token; threads go out as a chain of replies
+export class XAdapter implements PlatformAdapter {
+  readonly name = 'x';
+  readonly label = 'X API v2';
+  readonly platforms: PlatformName[] = ['x'];
+  // The X API v2 has no idempotency keys for creating posts
+  readonly idempotent = false;
+
+  // Tokens come from the linked account, so there is nothing to configure server-side
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const baseUrl = process.env.X_API_BASE_URL || 'https://api.twitter.com';
+    const parts = request.parts && request.parts.length > 0 ? request.parts : [request.text];
+    const ids: string[] = [];
+    const timeoutMs = publishTimeout();
+
+    for (const text of parts) {
+      const previous = ids[ids.length - 1];
+      const response = await fetch(`${baseUrl}/2/tweets`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${request.credentials.access_token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ text, ...(previous ? { reply: { in_reply_to_tweet_id: previous } } : {}) }),
+        signal: AbortSignal.timeout(timeoutMs)
+      }).catch((error: unknown) => {
+        // X may have taken the post before going quiet, so this gets no status, the same as a dropped connection
+        if ((error as { name?: unknown } | null)?.name !== 'TimeoutError') throw error;
+        throw Object.assign(new Error(`X API did not answer within ${timeoutMs}ms`), { code: 'ETIMEDOUT' });
+      });
+      const body = await response.json().catch(() => ({})) as XCreateTweetResponse;
+
+      if (!response.ok || !body.data?.id) {
+        const message = body.detail || body.title || `X API responded with ${response.status}`;
+        // Part of the thread is already live; retrying would post those parts twice
+        if (ids.length > 0) {
+          throw Object.assign(new Error(`X posted ${ids.length} of ${parts.length} parts before failing: ${message}`), { code: 'PARTIAL_THREAD' });
+        }
+        throw Object.assign(new Error(message), { status: response.status });
+      }
+      ids.push(body.data.id);
+    }
+
+    const id = ids[0] as string;
+    const username = request.credentials.platform_username;
+    return {
+      platform_post_id: id,
+      post_url: username ? `https://x.com/${username}/status/${id}` : `https://x.com/i/web/status/${id}`
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { PersonaData } from './aiService';
+
+// The signals quality scoring is built from. The fixed scoring formula combines them with hand-picked weights;
+// a calibrated scoring model (scoringModelService) learns their weights from how an artist's posts performed.
+
+export type QualityFeature =
+  | 'readability'
+  | 'punctuation'
+  | 'direct_address'
+  | 'emotional_words'
+  | 'novelty'
+  | 'mentions'
+  | 'hashtags'
+  | 'length_fit'
+  | 'brand_consistency';
+
+export type QualityFeatures = Record<QualityFeature, number>;
+
+// Content features that tend to draw engagement; each one present adds 0.1 to the fixed engagement score
+const ENGAGEMENT_INDICATORS: Array<{ feature: QualityFeature; pattern: RegExp }> = [
+  { feature: 'punctuation', pattern: /[!?]/ }, // Exclamation or question marks
+  { feature: 'direct_address', pattern: /\b(you|your|yours)\b/i },
+  { feature: 'emotional_words', pattern: /\b(amazing|incredible|excited|love|awesome|fantastic)\b/i },
+  { feature: 'novelty', pattern: /\b(new|fresh|latest|upcoming|soon)\b/i }, // Urgency/novelty
+  { feature: 'mentions', pattern: /@\w+/ },
+  { feature: 'hashtags', pattern: /#\w+/ }
+];
+
+export const QUALITY_FEATURES: QualityFeature[] = [
+  'readability',
+  ...ENGAGEMENT_INDICATORS.map(indicator => indicator.feature),
+  'length_fit',
+  'brand_consistency'
+];
+
+// The features that make up engagement_potential in the fixed formula
+export const ENGAGEMENT_FEATURES: QualityFeature[] = [...ENGAGEMENT_INDICATORS.map(indicator => indicator.feature), 'length_fit'];
+
+// Words that carry each persona tone
+export const TONE_WORDS: Record<string, string[]> = {
+  casual: ['hey', 'guys', 'awesome', 'cool', 'love'],
+  professional: ['pleased', 'excited', 'announce', 'share', 'grateful'],
+  edgy: ['raw', 'real', 'bold', 'fierce', 'unapologetic'],
+  friendly: ['friends', 'family', 'together', 'community', 'support']
+};
+
+// Simple syllable counting
+function countSyllables(text: string): number {
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  let totalSyllables = 0;
+
+  for (const word of words) {
+    let syllables = word.match(/[aeiouy]+/g)?.length || 1;
+    if (word.endsWith('e') && syllables > 1) syllables--;
+    totalSyllables += Math.max(1, syllables);
+  }
+
+  return totalSyllables;
+}
+
+// Simplified Flesch reading ease, normalized to 0-1
+export function readabilityScore(content: string): number {
+  const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0).length;
+  const words = content.split(/\s+/).filter(w => w.length > 0).length;
+  const syllables = countSyllables(content);
+
+  if (sentences === 0 || words === 0) return 0.5;
+
+  const avgSentenceLength = words / sentences;
+  const avgSyllablesPerWord = syllables / words;
+  const fleschScore = 206.835 - (1.015 * avgSentenceLength) - (84.6 * avgSyllablesPerWord);
+
+  // Typical Flesch scores range from 0-100
+  return Math.max(0, Math.min(1, fleschScore / 100));
+}
+
+// 1 when the post is between 30% and 150% of the ideal length; tweet-like unless a platform says otherwise
+export function lengthFit(content: string, idealLength = 280): number {
+  const lengthRatio = content.length / idealLength;
+  return lengthRatio > 0.3 && lengthRatio < 1.5 ? 1 : 0;
+}
+
+// Which engagement indicators the content has, 1 or 0 each
+export function engagementIndicators(content: string): Partial<QualityFeatures> {
+  return Object.fromEntries(ENGAGEMENT_INDICATORS.map(({ feature, pattern }) => [feature, pattern.test(content) ? 1 : 0]));
+}
+
+// Engagement potential with the fixed weights: 0.5 plus 0.1 per indicator and for a good length
+export function engagementScore(content: string, idealLength = 280): number {
+  const indicators = Object.values(engagementIndicators(content)).reduce((sum, value) => sum + value, 0);
+  return Math.min(1, 0.5 + indicators * 0.1 + lengthFit(content, idealLength) * 0.1);
+}
+
+// Alignment with the persona's themes and tone
+export function brandConsistencyScore(content: string, persona: Pick<PersonaData, 'key_themes' | 'tone'>): number {
+  let score = 0.5;
+  const contentLower = content.toLowerCase();
+
+  if (persona.key_themes) {
+    const themeMatches = persona.key_themes.filter(theme => contentLower.includes(theme.toLowerCase())).length;
+    if (themeMatches > 0) {
+      score += (themeMatches / persona.key_themes.length) * 0.3;
+    }
+  }
+
+  const relevantWords = TONE_WORDS[persona.tone?.toLowerCase() || 'casual'] || [];
+  const toneMatches = relevantWords.filter(word => contentLower.includes(word)).length;
+  if (toneMatches > 0) {
+    score += Math.min(0.2, toneMatches * 0.05);
+  }
+
+  return Math.min(1, score);
+}
+
+export function extractQualityFeatures(
+  content: string,
+  persona: Pick<PersonaData, 'key_themes' | 'tone'>,
+  idealLength?: number
+): QualityFeatures {
+  return {
+    readability: readabilityScore(content),
+    punctuation: 0,
+    direct_address: 0,
+    emotional_words: 0,
+    novelty: 0,
+    mentions: 0,
+    hashtags: 0,
+    ...engagementIndicators(content),
+    length_fit: lengthFit(content, idealLength),
+    brand_consistency: brandConsistencyScore(content, persona)
+  };
+}
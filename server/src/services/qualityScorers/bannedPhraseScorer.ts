@@ -0,0 +1,50 @@
+import { readStyleGuide } from '../styleGuide';
+import { escapeRegExp, findAll } from '../textUtils';
+import { makeSpan, subScore } from './spans';
+import { QualityScorer, ScorerContext, ScorerResult } from './types';
+
+// Stock phrases that make a post sound generated or like an ad
+const DEFAULT_BANNED_PHRASES = [
+  'game changer', 'game-changer', 'without further ado', "in today's world", 'delve into', 'dive into', 'unleash',
+  'elevate your', 'take it to the next level', 'look no further', "don't miss out", 'stay tuned', 'smash that like button'
+];
+
+// Case-insensitive, whole words, either apostrophe
+const phrasePattern = (phrase: string) => new RegExp(`(?<![\\w])${escapeRegExp(phrase).replace(/['’]/g, "['’]")}(?![\\w])`, 'gi');
+
+// The persona's own list: the style guide's banned words, plus the older voice_characteristics.banned_phrases
+function personaPhrases(voice: unknown): string[] {
+  const phrases = (voice as { banned_phrases?: unknown } | null)?.banned_phrases;
+  const legacy = Array.isArray(phrases) ? phrases.filter((phrase): phrase is string => typeof phrase === 'string' && phrase.trim() !== '') : [];
+  const all = [...(readStyleGuide(voice)?.banned_words ?? []), ...legacy];
+  return all.filter((phrase, index) => all.findIndex(other => other.toLowerCase() === phrase.toLowerCase()) === index);
+}
+
+// Clichés and the phrases the artist never wants to see; any one of them is highlighted
+export class BannedPhraseScorer implements QualityScorer {
+  readonly name = 'banned_phrases';
+  readonly label = 'Banned phrases';
+  readonly weight = 1.5;
+
+  score(content: string, { persona }: ScorerContext): ScorerResult {
+    const own = personaPhrases(persona.voice_characteristics).map(phrase => phrase.trim());
+    const ownKeys = new Set(own.map(phrase => phrase.toLowerCase()));
+    const phrases = [...new Set([...own, ...DEFAULT_BANNED_PHRASES.filter(phrase => !ownKeys.has(phrase))])];
+
+    const spans = phrases.flatMap(phrase => findAll(content, phrasePattern(phrase)).map(match => makeSpan(
+      content,
+      match.start,
+      match.end,
+      ownKeys.has(phrase.toLowerCase()) ? 'On the artist\'s banned list' : 'Stock phrase; say it in the artist\'s words',
+      'error'
+    ))).sort((a, b) => a.start - b.start);
+
+    const found = [...new Set(spans.map(span => span.text.toLowerCase()))];
+    return {
+      score: subScore(1 - spans.length / 3),
+      issues: found.length > 0 ? [`Uses banned phrases: ${found.map(phrase => `"${phrase}"`).join(', ')}`] : [],
+      suggestion: found.length > 0 ? 'Reword the highlighted phrases' : undefined,
+      spans
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { findAll } from '../textUtils';
+import { makeSpan, subScore } from './spans';
+import { QualityScorer, ScorerResult } from './types';
+
+// Phrases that tell fans what to do next
+const CTA_PATTERN = new RegExp(
+  '\\b(?:listen|stream|watch|pre-?save|pre-?order|buy|grab|get (?:your )?tickets|check (?:it )?out|link in (?:bio|profile)|' +
+  'follow|subscribe|share|comment|reply|tell (?:me|us)|let (?:me|us) know|join|sign up|tap|click|download|add it to|turn it up)\\b',
+  'gi'
+);
+// More asks than this compete with each other
+const MAX_CTAS = 2;
+
+// Whether the post asks fans to do something; asks past the first two are highlighted
+export class CallToActionScorer implements QualityScorer {
+  readonly name = 'call_to_action';
+  readonly label = 'Call to action';
+  readonly weight = 1;
+
+  score(content: string): ScorerResult {
+    const ctas = findAll(content, CTA_PATTERN);
+
+    if (ctas.length === 0) {
+      return {
+        score: 0.4,
+        issues: ['No call to action'],
+        suggestion: 'End with what fans should do next, e.g. stream, pre-save or comment',
+        spans: []
+      };
+    }
+
+    const extra = ctas.slice(MAX_CTAS);
+    return {
+      score: subScore(1 - extra.length * 0.15),
+      issues: extra.length > 0 ? [`${ctas.length} calls to action compete for attention`] : [],
+      suggestion: extra.length > 0 ? 'Keep one or two asks' : undefined,
+      spans: extra.map(cta => makeSpan(content, cta.start, cta.end, 'One ask too many'))
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { EMOJI_PATTERN, findAll } from '../textUtils';
+import { makeSpan, subScore } from './spans';
+import { QualityScorer, QualitySpan, ScorerContext, ScorerResult } from './types';
+
+// Without a platform, more emoji than this crowd a post
+const DEFAULT_MAX_EMOJI = 3;
+// Emoji in a row (ignoring spaces, joiners and variation selectors) that read as clutter
+const MAX_EMOJI_RUN = 2;
+const RUN_SEPARATOR = /^[\s\u200d\ufe0f]*$/u;
+
+// Emoji count against the platform's limit; emoji over the limit and bunched runs are highlighted
+export class EmojiScorer implements QualityScorer {
+  readonly name = 'emoji';
+  readonly label = 'Emoji density';
+  readonly weight = 0.5;
+
+  score(content: string, { profile }: ScorerContext): ScorerResult {
+    const emoji = findAll(content, EMOJI_PATTERN);
+    const max = profile?.max_emoji ?? DEFAULT_MAX_EMOJI;
+    const platform = profile ? ` for ${profile.label}` : '';
+    const spans: QualitySpan[] = [];
+    const issues: string[] = [];
+
+    if (emoji.length > max) {
+      issues.push(`Too many emoji${platform} (${emoji.length}, at most ${max})`);
+      emoji.slice(max).forEach(match => spans.push(makeSpan(content, match.start, match.end, `More than ${max} emoji${platform}`)));
+    }
+
+    // Runs of emoji, whether or not they are over the limit
+    let run: typeof emoji = [];
+    let runs = 0;
+    const closeRun = () => {
+      if (run.length > MAX_EMOJI_RUN) {
+        const first = run[0]!;
+        const last = run[run.length - 1]!;
+        spans.push(makeSpan(content, first.start, last.end, `${run.length} emoji in a row`));
+        issues.push('Emoji are bunched together');
+        runs++;
+      }
+      run = [];
+    };
+    for (const match of emoji) {
+      const previous = run[run.length - 1];
+      if (previous && !RUN_SEPARATOR.test(content.slice(previous.end, match.start))) closeRun();
+      run.push(match);
+    }
+    closeRun();
+
+    return {
+      score: subScore(1 - Math.max(0, emoji.length - max) * 0.15 - runs * 0.1),
+      issues: [...new Set(issues)],
+      suggestion: issues.length > 0 ? `Keep to ${max} or fewer emoji, spread through the text` : undefined,
+      spans: spans.sort((a, b) => a.start - b.start)
+    };
+  }
+}
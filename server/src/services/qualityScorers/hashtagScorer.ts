@@ -0,0 +1,76 @@
+import { HASHTAG_PATTERN, findAll } from '../textUtils';
+import { makeSpan, subScore } from './spans';
+import { QualityScorer, QualitySpan, ScorerContext, ScorerResult } from './types';
+
+// Without a platform: no minimum, and more than this starts to look spammy
+const DEFAULT_MAX_HASHTAGS = 5;
+// Longer tags are hard to read and rarely searched
+const MAX_TAG_LENGTH = 24;
+
+// The run of hashtags (and whitespace) the post ends with
+const TRAILING_TAGS = /(?:\s*#[\p{L}\p{N}_]+)+\s*$/u;
+
+// Hashtag count against the platform's range, repeated tags, overlong tags and tags outside the closing block
+// on platforms that collect them at the end
+export class HashtagScorer implements QualityScorer {
+  readonly name = 'hashtags';
+  readonly label = 'Hashtag hygiene';
+  readonly weight = 0.75;
+
+  score(content: string, { profile }: ScorerContext): ScorerResult {
+    const tags = findAll(content, HASHTAG_PATTERN);
+    const max = profile?.hashtags.max ?? DEFAULT_MAX_HASHTAGS;
+    const min = profile?.hashtags.min ?? 0;
+    const platform = profile ? ` for ${profile.label}` : '';
+    const spans: QualitySpan[] = [];
+    const issues: string[] = [];
+
+    const seen = new Set<string>();
+    const distinct: typeof tags = [];
+    for (const tag of tags) {
+      const key = tag.text.toLowerCase();
+      if (seen.has(key)) {
+        spans.push(makeSpan(content, tag.start, tag.end, 'Repeated hashtag', 'error'));
+        continue;
+      }
+      seen.add(key);
+      distinct.push(tag);
+      if (tag.text.length > MAX_TAG_LENGTH) {
+        spans.push(makeSpan(content, tag.start, tag.end, 'Long hashtags are hard to read'));
+      }
+    }
+
+    if (distinct.length > max) {
+      if (max === 0) {
+        issues.push(`Hashtags aren't used on ${profile?.label}`);
+        distinct.forEach(tag => spans.push(makeSpan(content, tag.start, tag.end, `Hashtags aren't used on ${profile?.label}`, 'error')));
+      } else {
+        issues.push(`Too many hashtags${platform} (${distinct.length}, at most ${max})`);
+        distinct.slice(max).forEach(tag => spans.push(makeSpan(content, tag.start, tag.end, `More than ${max} hashtags${platform}`)));
+      }
+    } else if (distinct.length < min) {
+      issues.push(`Add at least ${min} hashtags for discovery${platform ? ` on ${profile?.label}` : ''}`);
+    }
+
+    if (profile?.hashtags.placement === 'end' && max > 0) {
+      const trailing = content.match(TRAILING_TAGS);
+      const blockStart = trailing?.index ?? content.length;
+      const inline = distinct.filter(tag => tag.start < blockStart);
+      inline.forEach(tag => spans.push(makeSpan(content, tag.start, tag.end, `Move hashtags to the end${platform}`)));
+      if (inline.length > 0) issues.push(`Hashtags belong at the end${platform}`);
+    }
+
+    const repeated = spans.filter(span => span.message === 'Repeated hashtag').length;
+    if (repeated > 0) issues.push('The same hashtag is used more than once');
+
+    const missing = distinct.length < min ? 1 : 0;
+    return {
+      score: subScore(1 - spans.length * 0.15 - missing * 0.3),
+      issues,
+      suggestion: issues.length > 0
+        ? max === 0 ? 'Remove the hashtags' : `Use ${min > 0 ? `${min} to ` : 'at most '}${max} distinct, readable hashtags${platform}`
+        : undefined,
+      spans
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { BannedPhraseScorer } from './bannedPhraseScorer';
+import { CallToActionScorer } from './callToActionScorer';
+import { EmojiScorer } from './emojiScorer';
+import { HashtagScorer } from './hashtagScorer';
+import { LengthFitScorer } from './lengthFitScorer';
+import { ReadabilityScorer } from './readabilityScorer';
+import { RepetitionScorer } from './repetitionScorer';
+import { ToneScorer } from './toneScorer';
+import { QualityBreakdown, QualityScorer, ScorerBreakdown, ScorerContext } from './types';
+
+export * from './types';
+export { BannedPhraseScorer } from './bannedPhraseScorer';
+export { CallToActionScorer } from './callToActionScorer';
+export { EmojiScorer } from './emojiScorer';
+export { HashtagScorer } from './hashtagScorer';
+export { LengthFitScorer } from './lengthFitScorer';
+export { ReadabilityScorer } from './readabilityScorer';
+export { RepetitionScorer } from './repetitionScorer';
+export { ToneScorer } from './toneScorer';
+
+// Runs every registered scorer over a post. A scorer that throws is left out of the breakdown rather than
+// failing the whole check.
+export class QualityScorerPipeline {
+  private scorers = new Map<string, QualityScorer>();
+
+  register(scorer: QualityScorer): void {
+    this.scorers.set(scorer.name, scorer);
+  }
+
+  get(name: string): QualityScorer | undefined {
+    return this.scorers.get(name);
+  }
+
+  // Registered scorer names, in registration order
+  names(): string[] {
+    return [...this.scorers.keys()];
+  }
+
+  run(content: string, context: ScorerContext): QualityBreakdown {
+    const results: ScorerBreakdown[] = [];
+
+    for (const scorer of this.scorers.values()) {
+      try {
+        results.push({ name: scorer.name, label: scorer.label, weight: scorer.weight, ...scorer.score(content, context) });
+      } catch (error) {
+        console.error(`Quality scorer ${scorer.name} failed:`, error);
+      }
+    }
+
+    const totalWeight = results.reduce((sum, result) => sum + result.weight, 0);
+    const score = totalWeight > 0 ? results.reduce((sum, result) => sum + result.score * result.weight, 0) / totalWeight : 0;
+
+    return {
+      score: Math.round(score * 100) / 100,
+      scorers: results,
+      spans: results.flatMap(result => result.spans).sort((a, b) => a.start - b.start || a.end - b.end)
+    };
+  }
+}
+
+// Export singleton instance with the built-in scorers
+export const qualityScorers = new QualityScorerPipeline();
+qualityScorers.register(new ReadabilityScorer());
+qualityScorers.register(new LengthFitScorer());
+qualityScorers.register(new HashtagScorer());
+qualityScorers.register(new CallToActionScorer());
+qualityScorers.register(new ToneScorer());
+qualityScorers.register(new BannedPhraseScorer());
+qualityScorers.register(new RepetitionScorer());
+qualityScorers.register(new EmojiScorer());
+
+export default qualityScorers;
@@ -0,0 +1,43 @@
+import { makeSpan, subScore } from './spans';
+import { QualityScorer, QualitySpan, ScorerContext, ScorerResult } from './types';
+
+// Same bounds as the fixed length feature: 30% to 150% of the ideal length reads well
+const MIN_RATIO = 0.3;
+const MAX_RATIO = 1.5;
+const DEFAULT_IDEAL_CHARS = 280;
+
+// How close the post is to the platform's ideal length; text past the ideal range or the hard limit is highlighted
+export class LengthFitScorer implements QualityScorer {
+  readonly name = 'length_fit';
+  readonly label = 'Length fit';
+  readonly weight = 1;
+
+  score(content: string, { profile }: ScorerContext): ScorerResult {
+    const ideal = profile?.ideal_chars ?? DEFAULT_IDEAL_CHARS;
+    const ratio = content.length / ideal;
+    const spans: QualitySpan[] = [];
+    const issues: string[] = [];
+    let score = 1;
+
+    if (profile && content.length > profile.max_chars) {
+      score = 0;
+      issues.push(`Over the ${profile.label} limit of ${profile.max_chars} characters (${content.length})`);
+      spans.push(makeSpan(content, profile.max_chars, content.length, `Past the ${profile.label} limit of ${profile.max_chars} characters`, 'error'));
+    } else if (ratio >= MAX_RATIO) {
+      const cutoff = Math.round(ideal * MAX_RATIO);
+      score = 1 - (ratio - MAX_RATIO) / MAX_RATIO;
+      issues.push(`Long for ${profile?.label ?? 'a post'}: ${content.length} characters, around ${ideal} reads best`);
+      spans.push(makeSpan(content, cutoff, content.length, 'Past the length that reads well; consider cutting'));
+    } else if (ratio <= MIN_RATIO) {
+      score = ratio / MIN_RATIO;
+      issues.push(`Short for ${profile?.label ?? 'a post'}: ${content.length} characters, around ${ideal} reads best`);
+    }
+
+    return {
+      score: subScore(score),
+      issues,
+      suggestion: issues.length > 0 ? `Aim for around ${ideal} characters` : undefined,
+      spans
+    };
+  }
+}
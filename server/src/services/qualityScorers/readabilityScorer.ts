@@ -0,0 +1,41 @@
+import { readabilityScore } from '../qualityFeatures';
+import { splitSentences } from '../textUtils';
+import { makeSpan, plural, subScore } from './spans';
+import { QualityScorer, QualitySpan, ScorerResult } from './types';
+
+// Sentences longer than this are hard to take in on a phone screen
+const MAX_SENTENCE_WORDS = 25;
+// Sentences of a few words or more reading this hard are flagged
+const MIN_SENTENCE_EASE = 0.3;
+
+// Flesch reading ease of the whole post; long or dense sentences are highlighted
+export class ReadabilityScorer implements QualityScorer {
+  readonly name = 'readability';
+  readonly label = 'Readability';
+  readonly weight = 1;
+
+  score(content: string): ScorerResult {
+    const spans: QualitySpan[] = [];
+
+    for (const sentence of splitSentences(content)) {
+      const words = sentence.text.split(/\s+/).filter(word => word.length > 0).length;
+      if (words > MAX_SENTENCE_WORDS) {
+        spans.push(makeSpan(content, sentence.start, sentence.end, `Long sentence (${words} words); split it up`));
+      } else if (words >= 5 && readabilityScore(sentence.text) < MIN_SENTENCE_EASE) {
+        spans.push(makeSpan(content, sentence.start, sentence.end, 'Hard to read; use shorter, plainer words'));
+      }
+    }
+
+    const score = readabilityScore(content);
+    const issues = spans.length > 0
+      ? [`${plural(spans.length, 'sentence')} hard to read`]
+      : score < 0.6 ? ['Hard to read overall'] : [];
+
+    return {
+      score: subScore(score),
+      issues,
+      suggestion: issues.length > 0 ? 'Simplify language and sentence structure' : undefined,
+      spans
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { STOPWORDS, findAll, splitSentences } from '../textUtils';
+import { makeSpan, plural, subScore } from './spans';
+import { QualityScorer, QualitySpan, ScorerResult } from './types';
+
+// Words (not hashtags or mentions); apostrophes stay so offsets line up with the text
+const WORD_PATTERN = /(?<![#@\w])[\p{L}\p{N}'’]+/gu;
+// A content word used this often starts to stand out
+const MAX_WORD_USES = 2;
+// Sentences opening with the same word this often read like a list
+const MAX_SAME_OPENERS = 2;
+
+const normalize = (word: string) => word.toLowerCase().replace(/['’]/g, '');
+
+// Doubled words, overused words and sentences that keep opening the same way
+export class RepetitionScorer implements QualityScorer {
+  readonly name = 'repetition';
+  readonly label = 'Repetition';
+  readonly weight = 0.75;
+
+  score(content: string): ScorerResult {
+    const words = findAll(content, WORD_PATTERN).map(word => ({ ...word, key: normalize(word.text) }));
+    const spans: QualitySpan[] = [];
+    const issues: string[] = [];
+
+    words.forEach((word, index) => {
+      const previous = words[index - 1];
+      if (previous && previous.key === word.key && /^\s+$/.test(content.slice(previous.end, word.start))) {
+        spans.push(makeSpan(content, word.start, word.end, `"${word.text}" twice in a row`, 'error'));
+      }
+    });
+    if (spans.length > 0) issues.push(`${plural(spans.length, 'doubled word')}`);
+
+    const uses = new Map<string, typeof words>();
+    for (const word of words) {
+      if (word.key.length <= 2 || STOPWORDS.has(word.key)) continue;
+      uses.set(word.key, [...(uses.get(word.key) ?? []), word]);
+    }
+    const overused = [...uses.entries()].filter(([, occurrences]) => occurrences.length > MAX_WORD_USES);
+    for (const [key, occurrences] of overused) {
+      occurrences.slice(1).forEach(word => spans.push(makeSpan(content, word.start, word.end, `"${key}" is used ${occurrences.length} times`)));
+    }
+    if (overused.length > 0) issues.push(`Overused words: ${overused.map(([key]) => key).join(', ')}`);
+
+    const openers = new Map<string, Array<{ start: number; end: number }>>();
+    for (const sentence of splitSentences(content)) {
+      const first = sentence.text.match(/^[\p{L}\p{N}'’]+/u);
+      if (!first) continue;
+      const key = normalize(first[0]);
+      openers.set(key, [...(openers.get(key) ?? []), { start: sentence.start, end: sentence.start + first[0].length }]);
+    }
+    const repeatedOpeners = [...openers.entries()].filter(([, starts]) => starts.length > MAX_SAME_OPENERS);
+    for (const [key, starts] of repeatedOpeners) {
+      starts.slice(1).forEach(start => spans.push(makeSpan(content, start.start, start.end, `${starts.length} sentences open with "${key}"`)));
+    }
+    if (repeatedOpeners.length > 0) issues.push('Sentences keep opening the same way');
+
+    return {
+      score: subScore(1 - spans.length * 0.1),
+      issues,
+      suggestion: issues.length > 0 ? 'Vary the wording' : undefined,
+      spans: spans.sort((a, b) => a.start - b.start)
+    };
+  }
+}
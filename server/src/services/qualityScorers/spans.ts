@@ -0,0 +1,15 @@
+// Helpers the scorers share for building spans and sub-scores
+import { QualitySpan, SpanSeverity } from './types';
+
+export function makeSpan(content: string, start: number, end: number, message: string, severity: SpanSeverity = 'warning'): QualitySpan {
+  return { start, end, text: content.slice(start, end), message, severity };
+}
+
+// Clamp to 0-1, two decimals
+export function subScore(value: number): number {
+  return Math.round(Math.max(0, Math.min(1, value)) * 100) / 100;
+}
+
+export function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,36 @@
+import { TONE_WORDS } from '../qualityFeatures';
+import { escapeRegExp, findAll } from '../textUtils';
+import { makeSpan, subScore } from './spans';
+import { QualityScorer, ScorerContext, ScorerResult } from './types';
+
+// Words that undercut a tone
+const OFF_TONE_WORDS: Record<string, string[]> = {
+  casual: ['hereby', 'pleased', 'kindly', 'esteemed', 'furthermore', 'delighted'],
+  professional: ['hey', 'guys', 'awesome', 'cool', 'lol', 'omg', 'gonna', 'wanna', 'dope', 'lit'],
+  edgy: ['pleased', 'kindly', 'delighted', 'humbled', 'esteemed', 'hereby'],
+  friendly: ['hereby', 'whatever', 'unapologetic', 'esteemed']
+};
+
+const wordPattern = (words: string[]) => new RegExp(`\\b(?:${words.map(escapeRegExp).join('|')})\\b`, 'gi');
+
+// Words that carry the persona's tone lift the score; words that clash with it are highlighted.
+// Personas without a known tone are read as casual, like brand consistency does.
+export class ToneScorer implements QualityScorer {
+  readonly name = 'tone';
+  readonly label = 'Persona tone match';
+  readonly weight = 1;
+
+  score(content: string, { persona }: ScorerContext): ScorerResult {
+    const key = persona.tone?.toLowerCase() ?? '';
+    const tone = key in TONE_WORDS ? key : 'casual';
+    const onTone = findAll(content, wordPattern(TONE_WORDS[tone] ?? []));
+    const offTone = findAll(content, wordPattern(OFF_TONE_WORDS[tone] ?? []));
+
+    return {
+      score: subScore(0.6 + Math.min(0.4, onTone.length * 0.1) - offTone.length * 0.15),
+      issues: offTone.length > 0 ? [`Words that don't sound ${tone}: ${[...new Set(offTone.map(word => word.text.toLowerCase()))].join(', ')}`] : [],
+      suggestion: offTone.length > 0 ? `Review tone and word choice to sound ${tone}` : undefined,
+      spans: offTone.map(word => makeSpan(content, word.start, word.end, `Doesn't sound ${tone}`))
+    };
+  }
+}
@@ -0,0 +1,51 @@
+// Contract every quality scorer implements; the pipeline runs them all and combines their sub-scores
+import { PersonaData } from '../aiService';
+import { PlatformProfile } from '../platformProfiles';
+
+export interface ScorerContext {
+  persona: PersonaData;
+  // Null when the post isn't aimed at a platform; scorers fall back to tweet-like defaults
+  profile: PlatformProfile | null;
+}
+
+export type SpanSeverity = 'warning' | 'error';
+
+// A stretch of the post a scorer objects to; start/end are character offsets, end exclusive
+export interface QualitySpan {
+  start: number;
+  end: number;
+  text: string;
+  message: string;
+  severity: SpanSeverity;
+}
+
+export interface ScorerResult {
+  // 0-1, higher is better
+  score: number;
+  issues: string[];
+  // One fix for the problems found; omitted when there are none
+  suggestion?: string | undefined;
+  spans: QualitySpan[];
+}
+
+export interface QualityScorer {
+  readonly name: string;
+  readonly label: string;
+  // Relative weight in the pipeline's combined score
+  readonly weight: number;
+  score(content: string, context: ScorerContext): ScorerResult;
+}
+
+export interface ScorerBreakdown extends ScorerResult {
+  name: string;
+  label: string;
+  weight: number;
+}
+
+export interface QualityBreakdown {
+  // Weighted average of the sub-scores
+  score: number;
+  scorers: ScorerBreakdown[];
+  // Every scorer's spans, in text order
+  spans: QualitySpan[];
+}
@@ -0,0 +1,398 @@
+import pool from '../Config/connection';
+import { getPlatformProfile } from './platformProfiles';
+import { profilePlatform } from './publisherService';
+import engagementMetricsService, { engagementRate } from './engagementMetricsService';
+import { ENGAGEMENT_FEATURES, QUALITY_FEATURES, QualityFeature, QualityFeatures, extractQualityFeatures } from './qualityFeatures';
+
+// Per-artist calibration of quality scoring. A ridge regression over the quality features is fitted to the
+// engagement rate of the artist's published posts; once an artist has a model, quality scores are its predicted
+// engagement placed in the range the artist's posts actually reached.
+
+const MIN_POSTS = () => parseInt(process.env.SCORING_MIN_POSTS || '10');
+const CALIBRATION_INTERVAL_MS = parseInt(process.env.SCORING_CALIBRATION_INTERVAL_MS || '86400000');
+
+// Shrinks the weights of features the data says little about; features are standardized, so one value fits all
+const RIDGE_LAMBDA = 1;
+
+export interface ScoringWeights {
+  readability: number;
+  engagement_potential: number;
+  brand_consistency: number;
+}
+
+export interface ScoringModel {
+  artist_id: string;
+  intercept: number;
+  // Per standardized feature: (value - mean) / scale
+  coefficients: QualityFeatures;
+  means: QualityFeatures;
+  scales: QualityFeatures;
+  // Predictions at `low` score 0 and at `high` score 1 (10th and 90th percentile of observed engagement)
+  score_range: { low: number; high: number };
+  // Share of each feature in the fitted weights; sums to 1
+  feature_importance: QualityFeatures;
+  // feature_importance grouped like the fixed formula's 0.3 / 0.4 / 0.3 weights
+  weights: ScoringWeights;
+  sample_count: number;
+  r_squared: number;
+  mean_absolute_error: number;
+  trained_at: Date;
+}
+
+export const DEFAULT_WEIGHTS: ScoringWeights = { readability: 0.3, engagement_potential: 0.4, brand_consistency: 0.3 };
+
+export interface TrainingSample {
+  content_id: string;
+  publication_id: string;
+  platform: string | null;
+  content_text: string;
+  features: QualityFeatures;
+  engagement_rate: number;
+}
+
+export interface ReportPost {
+  content_id: string;
+  publication_id: string;
+  platform: string | null;
+  content_text: string;
+  actual_engagement_rate: number;
+  predicted_engagement_rate: number | null;
+  default_score: number;
+  calibrated_score: number | null;
+}
+
+export interface CalibrationReport {
+  model: ScoringModel | null;
+  min_posts: number;
+  posts: ReportPost[];
+  summary: {
+    sample_count: number;
+    mean_absolute_error: number | null;
+    // Pearson correlation with the actual engagement rate
+    default_correlation: number | null;
+    calibrated_correlation: number | null;
+  };
+}
+
+export type CalibrationOutcome =
+  | { ok: true; model: ScoringModel }
+  | { ok: false; status: 409; error: string; sample_count: number };
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (index - lower);
+}
+
+export function correlation(a: number[], b: number[]): number | null {
+  if (a.length < 2 || a.length !== b.length) return null;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  a.forEach((value, i) => {
+    covariance += (value - meanA) * (b[i]! - meanB);
+    varianceA += (value - meanA) ** 2;
+    varianceB += (b[i]! - meanB) ** 2;
+  });
+  if (varianceA === 0 || varianceB === 0) return null;
+  return round(covariance / Math.sqrt(varianceA * varianceB));
+}
+
+// Gaussian elimination with partial pivoting; the ridge term keeps the system well conditioned
+function solve(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]!]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row]![col]!) > Math.abs(a[pivot]![col]!)) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot]!, a[col]!];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row]![col]! / a[col]![col]!;
+      for (let k = col; k <= n; k++) a[row]![k]! -= factor * a[col]![k]!;
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row]![n]!;
+    for (let k = row + 1; k < n; k++) sum -= a[row]![k]! * x[k]!;
+    x[row] = sum / a[row]![row]!;
+  }
+  return x;
+}
+
+const featureRecord = (values: (feature: QualityFeature, index: number) => number): QualityFeatures =>
+  Object.fromEntries(QUALITY_FEATURES.map((feature, index) => [feature, values(feature, index)])) as QualityFeatures;
+
+export function predictEngagement(model: Pick<ScoringModel, 'intercept' | 'coefficients' | 'means' | 'scales'>, features: QualityFeatures): number {
+  return QUALITY_FEATURES.reduce(
+    (sum, feature) => sum + model.coefficients[feature] * ((features[feature] - model.means[feature]) / model.scales[feature]),
+    model.intercept
+  );
+}
+
+// A predicted engagement rate as a 0-1 quality score
+export function calibratedScore(model: Pick<ScoringModel, 'score_range'>, predicted: number): number {
+  const { low, high } = model.score_range;
+  if (high <= low) return 0.5;
+  return Math.max(0, Math.min(1, (predicted - low) / (high - low)));
+}
+
+// The fixed formula, for comparing against a calibrated model
+export function defaultScore(features: QualityFeatures): number {
+  const engagement = Math.min(1, 0.5 + ENGAGEMENT_FEATURES.reduce((sum, feature) => sum + features[feature] * 0.1, 0));
+  return round(
+    features.readability * DEFAULT_WEIGHTS.readability +
+    engagement * DEFAULT_WEIGHTS.engagement_potential +
+    features.brand_consistency * DEFAULT_WEIGHTS.brand_consistency
+  );
+}
+
+export function fitScoringModel(artistId: string, samples: TrainingSample[], lambda = RIDGE_LAMBDA): ScoringModel {
+  const n = samples.length;
+  const targets = samples.map(sample => sample.engagement_rate);
+  const targetMean = mean(targets);
+
+  const means = featureRecord(feature => mean(samples.map(sample => sample.features[feature])));
+  // A feature that never varies gets scale 1 and, with nothing to learn from, a zero weight
+  const scales = featureRecord(feature => {
+    const spread = Math.sqrt(mean(samples.map(sample => (sample.features[feature] - means[feature]) ** 2)));
+    return spread > 0 ? spread : 1;
+  });
+
+  const rows = samples.map(sample => QUALITY_FEATURES.map(feature => (sample.features[feature] - means[feature]) / scales[feature]));
+  const gram = QUALITY_FEATURES.map((_, i) =>
+    QUALITY_FEATURES.map((__, j) => rows.reduce((sum, row) => sum + row[i]! * row[j]!, 0) + (i === j ? lambda : 0))
+  );
+  const moments = QUALITY_FEATURES.map((_, i) => rows.reduce((sum, row, k) => sum + row[i]! * (targets[k]! - targetMean), 0));
+  const solution = solve(gram, moments);
+
+  const coefficients = featureRecord((_, index) => solution[index] ?? 0);
+  const fitted = { intercept: targetMean, coefficients, means, scales };
+  const predictions = samples.map(sample => predictEngagement(fitted, sample.features));
+
+  const residual = targets.reduce((sum, target, i) => sum + (target - predictions[i]!) ** 2, 0);
+  const total = targets.reduce((sum, target) => sum + (target - targetMean) ** 2, 0);
+  const absoluteError = mean(targets.map((target, i) => Math.abs(target - predictions[i]!)));
+
+  const magnitude = QUALITY_FEATURES.reduce((sum, feature) => sum + Math.abs(coefficients[feature]), 0);
+  const featureImportance = featureRecord(feature =>
+    round(magnitude > 0 ? Math.abs(coefficients[feature]) / magnitude : 1 / QUALITY_FEATURES.length)
+  );
+
+  const sorted = [...targets].sort((a, b) => a - b);
+
+  return {
+    artist_id: artistId,
+    ...fitted,
+    score_range: { low: percentile(sorted, 0.1), high: percentile(sorted, 0.9) },
+    feature_importance: featureImportance,
+    weights: {
+      readability: featureImportance.readability,
+      engagement_potential: round(ENGAGEMENT_FEATURES.reduce((sum, feature) => sum + featureImportance[feature], 0)),
+      brand_consistency: featureImportance.brand_consistency
+    },
+    sample_count: n,
+    r_squared: round(total > 0 ? Math.max(0, 1 - residual / total) : 0),
+    mean_absolute_error: round(absoluteError, 6),
+    trained_at: new Date()
+  };
+}
+
+const toModel = (row: any): ScoringModel => ({
+  ...row.model,
+  artist_id: row.artist_id,
+  sample_count: row.sample_count,
+  r_squared: Number(row.r_squared),
+  mean_absolute_error: Number(row.mean_absolute_error),
+  trained_at: row.trained_at
+});
+
+class ScoringModelService {
+  // Scoring runs on every generated variation, so models are served from memory; they are loaded at startup
+  // and replaced whenever an artist is recalibrated
+  private models = new Map<string, ScoringModel>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  getModel(artistId: string | null | undefined): ScoringModel | null {
+    return artistId ? this.models.get(artistId) ?? null : null;
+  }
+
+  async load(): Promise<number> {
+    const result = await pool.query(
+      `SELECT artist_id, model, sample_count, r_squared, mean_absolute_error, trained_at FROM artist_scoring_models`
+    );
+    this.models = new Map(result.rows.map((row: any) => [row.artist_id, toModel(row)]));
+    return this.models.size;
+  }
+
+  // Published posts of the artist that have views, with their features and latest engagement rate
+  async trainingSamples(artistId: string): Promise<TrainingSample[]> {
+    const result = await pool.query(
+      `SELECT pc.id AS publication_id, pc.platform, gc.id AS content_id, gc.content_text, p.tone, p.key_themes
+       FROM published_content pc
+       JOIN generated_content gc ON gc.id = pc.generated_content_id
+       LEFT JOIN artist_personas p ON p.id = gc.persona_id
+       WHERE gc.artist_id = $1 AND pc.post_status = 'published'
+       ORDER BY pc.published_at ASC`,
+      [artistId]
+    );
+
+    const latest = await engagementMetricsService.latestValues(result.rows.map((row: any) => row.publication_id));
+    const samples: TrainingSample[] = [];
+
+    for (const row of result.rows) {
+      const rate = engagementRate(latest.get(row.publication_id) ?? {});
+      if (rate === null || !row.content_text) continue;
+
+      const platform = profilePlatform(row.platform);
+      samples.push({
+        content_id: row.content_id,
+        publication_id: row.publication_id,
+        platform,
+        content_text: row.content_text,
+        features: extractQualityFeatures(
+          row.content_text,
+          { tone: row.tone, key_themes: row.key_themes || [] },
+          getPlatformProfile(platform)?.ideal_chars
+        ),
+        engagement_rate: rate
+      });
+    }
+
+    return samples;
+  }
+
+  // Fit the artist's model to their published posts and store it; needs SCORING_MIN_POSTS posts with views
+  async calibrate(artistId: string, actorId: string | null = null): Promise<CalibrationOutcome> {
+    const samples = await this.trainingSamples(artistId);
+    const required = MIN_POSTS();
+    if (samples.length < required) {
+      return {
+        ok: false,
+        status: 409,
+        error: `Calibration needs engagement for at least ${required} published posts with views; found ${samples.length}`,
+        sample_count: samples.length
+      };
+    }
+
+    const { artist_id, sample_count, r_squared, mean_absolute_error, trained_at, ...model } = fitScoringModel(artistId, samples);
+    const result = await pool.query(
+      `INSERT INTO artist_scoring_models (artist_id, model, sample_count, r_squared, mean_absolute_error, trained_at, trained_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (artist_id) DO UPDATE SET
+         model = EXCLUDED.model,
+         sample_count = EXCLUDED.sample_count,
+         r_squared = EXCLUDED.r_squared,
+         mean_absolute_error = EXCLUDED.mean_absolute_error,
+         trained_at = EXCLUDED.trained_at,
+         trained_by = EXCLUDED.trained_by
+       RETURNING artist_id, model, sample_count, r_squared, mean_absolute_error, trained_at`,
+      [artist_id, JSON.stringify(model), sample_count, r_squared, mean_absolute_error, trained_at, actorId]
+    );
+
+    const stored = toModel(result.rows[0]);
+    this.models.set(artistId, stored);
+    return { ok: true, model: stored };
+  }
+
+  // Recalibrate every artist with at least one measured post; artists short of SCORING_MIN_POSTS are skipped
+  async calibrateAll(): Promise<ScoringModel[]> {
+    const result = await pool.query(
+      `SELECT DISTINCT gc.artist_id
+       FROM content_analytics ca
+       JOIN published_content pc ON pc.id = ca.published_content_id
+       JOIN generated_content gc ON gc.id = pc.generated_content_id`
+    );
+
+    const models: ScoringModel[] = [];
+    for (const { artist_id } of result.rows) {
+      const outcome = await this.calibrate(artist_id);
+      if (outcome.ok) models.push(outcome.model);
+    }
+    return models;
+  }
+
+  // Predicted versus actual engagement for each measured post, under the fixed formula and the artist's model
+  async report(artistId: string): Promise<CalibrationReport> {
+    const samples = await this.trainingSamples(artistId);
+    const model = this.getModel(artistId);
+
+    const posts: ReportPost[] = samples.map(sample => {
+      const predicted = model ? predictEngagement(model, sample.features) : null;
+      return {
+        content_id: sample.content_id,
+        publication_id: sample.publication_id,
+        platform: sample.platform,
+        content_text: sample.content_text,
+        actual_engagement_rate: sample.engagement_rate,
+        predicted_engagement_rate: predicted === null ? null : round(predicted),
+        default_score: defaultScore(sample.features),
+        calibrated_score: model && predicted !== null ? round(calibratedScore(model, predicted)) : null
+      };
+    });
+
+    const actual = posts.map(post => post.actual_engagement_rate);
+    const predicted = posts.flatMap(post => (post.predicted_engagement_rate === null ? [] : [post.predicted_engagement_rate]));
+
+    return {
+      model,
+      min_posts: MIN_POSTS(),
+      posts,
+      summary: {
+        sample_count: posts.length,
+        mean_absolute_error: model && posts.length > 0
+          ? round(mean(posts.map(post => Math.abs(post.actual_engagement_rate - (post.predicted_engagement_rate ?? 0)))), 6)
+          : null,
+        default_correlation: correlation(posts.map(post => post.default_score), actual),
+        calibrated_correlation: model ? correlation(predicted, actual) : null
+      }
+    };
+  }
+
+  // Load the stored models, then recalibrate every `intervalMs` (0 turns the job off)
+  start(intervalMs = CALIBRATION_INTERVAL_MS): void {
+    this.load()
+      .then(count => {
+        if (count > 0) console.log(`🎯 Loaded ${count} calibrated scoring model(s)`);
+      })
+      .catch(error => console.error('Scoring model load error:', error));
+
+    if (this.timer || intervalMs <= 0) return;
+
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.running = true;
+      this.calibrateAll()
+        .then(models => {
+          if (models.length > 0) console.log(`🎯 Recalibrated ${models.length} scoring model(s)`);
+        })
+        .catch(error => console.error('Scoring calibration error:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+// Export singleton instance
+export const scoringModelService = new ScoringModelService();
+export default scoringModelService;
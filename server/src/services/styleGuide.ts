@@ -0,0 +1,267 @@
+import { HASHTAG_PATTERN, URL_PATTERN, findAll, termPattern } from './textUtils';
+
+// The artist's written style rules, kept in voice_characteristics.style_guide next to the traits transcript
+// analysis proposes. The guide is described in the system prompt, then every generated post is rewritten where a
+// rule can be applied mechanically (word swaps, casing, name spelling, emoji, sign-off, hashtags) and checked
+// again once the platform has had its say; whatever still breaks a rule is reported as a violation.
+
+export type Capitalization = 'as_written' | 'lowercase' | 'uppercase' | 'sentence';
+
+export const CAPITALIZATIONS: Capitalization[] = ['as_written', 'lowercase', 'uppercase', 'sentence'];
+
+export interface PreferredWord {
+  use: string;
+  instead_of: string[];
+}
+
+export interface StyleGuide {
+  // Exact spelling, casing included; misspellings are corrected to it
+  artist_name: string | null;
+  name_misspellings: string[];
+  preferred_words: PreferredWord[];
+  banned_words: string[];
+  capitalization: Capitalization;
+  sign_offs: string[];
+  // Append the first sign-off when a post has none; otherwise sign-offs are only suggested
+  always_sign_off: boolean;
+  // null for no limit
+  max_emoji: number | null;
+  required_hashtags: string[];
+}
+
+export interface StyleGuideResult {
+  content: string;
+  adjustments: string[];
+}
+
+// One emoji including its skin tone, variation selector and joined parts
+const EMOJI_SEQUENCE = /\p{Extended_Pictographic}(?:\p{Emoji_Modifier}|\ufe0f|\u200d\p{Extended_Pictographic})*/gu;
+// Links, @handles and hashtags keep their casing
+const PROTECTED = new RegExp(`${URL_PATTERN.source}|@[\\p{L}\\p{N}_.]+|${HASHTAG_PATTERN.source}`, 'giu');
+const SENTENCE_START = /(^|[.!?]\s+|\n\s*)(\p{Ll})/gu;
+const TRAILING_TAGS = /(?:\s*#[\p{L}\p{N}_]+)+\s*$/u;
+
+const CAPITALIZATION_RULES: Record<Exclude<Capitalization, 'as_written'>, string> = {
+  lowercase: 'Write everything in lowercase, including the start of sentences',
+  uppercase: 'Write everything in capital letters',
+  sentence: 'Start every sentence with a capital letter'
+};
+
+const lower = (text: string) => text.toLowerCase();
+const quoted = (items: string[]) => items.map(item => `"${item}"`).join(', ');
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim()) : [];
+
+const asHashtag = (tag: string) => (tag.startsWith('#') ? tag : `#${tag}`);
+
+// The persona's guide with defaults filled in; null when it has none. Stored guides are validated on save,
+// but older rows may hold anything, so unknown shapes are dropped rather than trusted.
+export function readStyleGuide(voice: unknown): StyleGuide | null {
+  const raw = (voice as { style_guide?: unknown } | null)?.style_guide;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const guide = raw as Record<string, unknown>;
+
+  const preferred = Array.isArray(guide.preferred_words) ? guide.preferred_words : [];
+  const capitalization = CAPITALIZATIONS.find(option => option === guide.capitalization) ?? 'as_written';
+  const maxEmoji = guide.max_emoji;
+
+  return {
+    artist_name: typeof guide.artist_name === 'string' && guide.artist_name.trim() ? guide.artist_name.trim() : null,
+    name_misspellings: strings(guide.name_misspellings),
+    preferred_words: preferred
+      .map((entry: any) => ({ use: typeof entry?.use === 'string' ? entry.use.trim() : '', instead_of: strings(entry?.instead_of) }))
+      .filter(entry => entry.use !== '' && entry.instead_of.length > 0),
+    banned_words: strings(guide.banned_words),
+    capitalization,
+    sign_offs: strings(guide.sign_offs),
+    always_sign_off: guide.always_sign_off === true,
+    max_emoji: typeof maxEmoji === 'number' && Number.isInteger(maxEmoji) && maxEmoji >= 0 ? maxEmoji : null,
+    required_hashtags: strings(guide.required_hashtags).map(asHashtag)
+  };
+}
+
+// The guide as instructions for the system prompt; empty when there is nothing to follow
+export function describeStyleGuide(guide: StyleGuide | null): string {
+  if (!guide) return '';
+  const rules: string[] = [];
+
+  if (guide.artist_name) {
+    rules.push(`Spell the artist's name exactly "${guide.artist_name}"${guide.name_misspellings.length > 0 ? `, never ${quoted(guide.name_misspellings)}` : ''}`);
+  }
+  if (guide.capitalization !== 'as_written') rules.push(CAPITALIZATION_RULES[guide.capitalization]);
+  for (const word of guide.preferred_words) {
+    rules.push(`Say "${word.use}" instead of ${quoted(word.instead_of)}`);
+  }
+  if (guide.banned_words.length > 0) rules.push(`Never use these words: ${quoted(guide.banned_words)}`);
+  if (guide.max_emoji !== null) {
+    rules.push(guide.max_emoji === 0 ? 'Don\'t use emoji' : `Use at most ${guide.max_emoji} emoji`);
+  }
+  if (guide.required_hashtags.length > 0) rules.push(`Always include ${guide.required_hashtags.join(' ')}`);
+  if (guide.sign_offs.length > 0) {
+    rules.push(`${guide.always_sign_off ? 'End every post with' : 'When it fits, sign off with'} one of these sign-offs: ${quoted(guide.sign_offs)}`);
+  }
+
+  if (rules.length === 0) return '';
+  return `\n\nThe artist's style guide (follow it exactly):\n${rules.map(rule => `- ${rule}`).join('\n')}`;
+}
+
+// Keep the replacement's casing in line with the word it replaces (Guys -> Fam, GUYS -> FAM)
+function matchCase(replacement: string, original: string): string {
+  if (original.length > 1 && original === original.toUpperCase() && original !== original.toLowerCase()) {
+    return replacement.toUpperCase();
+  }
+  const first = original.charAt(0);
+  if (first !== first.toLowerCase()) return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  return replacement;
+}
+
+// Apply fn to the text between links, handles and hashtags
+function outsideProtected(text: string, fn: (segment: string) => string): string {
+  let result = '';
+  let last = 0;
+  for (const match of findAll(text, PROTECTED)) {
+    result += fn(text.slice(last, match.start)) + match.text;
+    last = match.end;
+  }
+  return result + fn(text.slice(last));
+}
+
+function capitalize(text: string, capitalization: Capitalization): string {
+  switch (capitalization) {
+    case 'lowercase':
+      return outsideProtected(text, lower);
+    case 'uppercase':
+      return outsideProtected(text, segment => segment.toUpperCase());
+    case 'sentence': {
+      const skipped = findAll(text, PROTECTED);
+      return text.replace(SENTENCE_START, (match: string, lead: string, letter: string, offset: number) => {
+        const at = offset + lead.length;
+        return skipped.some(range => range.start <= at && range.end > at) ? match : lead + letter.toUpperCase();
+      });
+    }
+    default:
+      return text;
+  }
+}
+
+// Word swaps, casing and the artist's name; safe on any text, including each part of a thread
+export function rewriteWords(text: string, guide: StyleGuide): StyleGuideResult {
+  const adjustments: string[] = [];
+  let content = text;
+
+  for (const word of guide.preferred_words) {
+    const replaced = new Set<string>();
+    for (const avoid of word.instead_of) {
+      content = content.replace(termPattern(avoid), (match: string) => {
+        replaced.add(lower(match));
+        return matchCase(word.use, match);
+      });
+    }
+    if (replaced.size > 0) adjustments.push(`Used "${word.use}" instead of ${quoted([...replaced])}`);
+  }
+
+  const cased = capitalize(content, guide.capitalization);
+  if (cased !== content) {
+    adjustments.push(guide.capitalization === 'lowercase'
+      ? 'Lowercased the post'
+      : guide.capitalization === 'uppercase' ? 'Put the post in capitals' : 'Capitalized the start of each sentence');
+    content = cased;
+  }
+
+  // After casing, so an always-lowercase (or all-caps) name survives either way
+  if (guide.artist_name) {
+    const name = guide.artist_name;
+    let fixed = false;
+    for (const spelling of [...guide.name_misspellings, name]) {
+      content = content.replace(termPattern(spelling), (match: string) => {
+        if (match === name) return match;
+        fixed = true;
+        return name;
+      });
+    }
+    if (fixed) adjustments.push(`Spelled the artist's name "${name}"`);
+  }
+
+  return { content, adjustments };
+}
+
+// Everything the guide can fix in a finished single post: the word rewrites, then emoji over the limit are
+// dropped from the end, a missing sign-off goes before the closing hashtags and missing hashtags after them
+export function applyStyleGuide(text: string, guide: StyleGuide): StyleGuideResult {
+  const rewritten = rewriteWords(text, guide);
+  const adjustments = [...rewritten.adjustments];
+  let content = rewritten.content;
+
+  if (guide.max_emoji !== null) {
+    const emoji = findAll(content, EMOJI_SEQUENCE);
+    if (emoji.length > guide.max_emoji) {
+      for (const match of emoji.slice(guide.max_emoji).reverse()) {
+        content = content.slice(0, match.start).replace(/ $/, '') + content.slice(match.end);
+      }
+      content = content.replace(/ +\n/g, '\n').replace(/ {2,}/g, ' ').trim();
+      const removed = emoji.length - guide.max_emoji;
+      adjustments.push(`Removed ${removed === 1 ? 'an emoji' : `${removed} emoji`} (the style guide allows ${guide.max_emoji})`);
+    }
+  }
+
+  const trailing = content.match(TRAILING_TAGS)?.[0] ?? '';
+  let body = content.slice(0, content.length - trailing.length).trimEnd();
+  const tags = trailing.trim();
+
+  const signOff = guide.sign_offs[0];
+  if (guide.always_sign_off && signOff && !hasSignOff(body, guide)) {
+    body = `${body}\n\n${signOff}`;
+    adjustments.push(`Added the sign-off "${signOff}"`);
+  }
+
+  const missing = missingHashtags(content, guide);
+  if (missing.length > 0) adjustments.push(`Added ${missing.join(' ')}`);
+  const tagBlock = [tags, ...missing].filter(Boolean).join(' ');
+
+  return { content: tagBlock ? `${body}\n\n${tagBlock}` : body, adjustments };
+}
+
+function hasSignOff(text: string, guide: StyleGuide): boolean {
+  const normalized = lower(text).replace(/\s+/g, ' ');
+  return guide.sign_offs.some(signOff => normalized.includes(lower(signOff).replace(/\s+/g, ' ')));
+}
+
+function missingHashtags(text: string, guide: StyleGuide): string[] {
+  const present = new Set((text.match(HASHTAG_PATTERN) ?? []).map(lower));
+  return guide.required_hashtags.filter(tag => !present.has(lower(tag)));
+}
+
+// Rules the final text still breaks, e.g. banned words the guide can't reword, or a hashtag the platform dropped
+export function checkStyleGuide(text: string, guide: StyleGuide): string[] {
+  const violations: string[] = [];
+
+  const banned = [...new Set(guide.banned_words.flatMap(word => findAll(text, termPattern(word)).map(match => lower(match.text))))];
+  if (banned.length > 0) violations.push(`Uses banned words: ${quoted(banned)}`);
+
+  if (guide.artist_name) {
+    const name = guide.artist_name;
+    const misspelled = [...guide.name_misspellings, name]
+      .flatMap(spelling => findAll(text, termPattern(spelling)).map(match => match.text))
+      .filter(found => found !== name);
+    if (misspelled.length > 0) violations.push(`Misspells the artist's name: ${quoted([...new Set(misspelled)])}`);
+  }
+
+  if (guide.capitalization === 'lowercase' || guide.capitalization === 'uppercase') {
+    const withoutName = guide.artist_name ? text.replace(termPattern(guide.artist_name), '') : text;
+    const wrong = outsideProtected(withoutName, segment => (guide.capitalization === 'lowercase' ? segment.toLowerCase() : segment.toUpperCase())) !== withoutName;
+    if (wrong) violations.push(guide.capitalization === 'lowercase' ? 'Not all lowercase' : 'Not all capitals');
+  }
+
+  const emoji = findAll(text, EMOJI_SEQUENCE).length;
+  if (guide.max_emoji !== null && emoji > guide.max_emoji) {
+    violations.push(`More emoji than the style guide allows (${emoji}, at most ${guide.max_emoji})`);
+  }
+
+  const missing = missingHashtags(text, guide);
+  if (missing.length > 0) violations.push(`Missing required hashtags: ${missing.join(' ')}`);
+
+  if (guide.always_sign_off && guide.sign_offs.length > 0 && !hasSignOff(text, guide)) violations.push('Missing a sign-off');
+
+  return violations;
+}
@@ -18,6 +18,11 @@ export interface CreateTemplateRequest {
   description?: string;
 }
 
+export interface VariableValidationResult {
+  values: Record<string, any>;
+  errors: string[];
+}
+
 export interface ProcessedTemplate {
   template_id: string;
   processed_content: string;
@@ -434,6 +439,71 @@ Can't wait to see you there! 🎶
       errors
     };
   }
+
+  // Coerce variable values to their declared types; unknown names are dropped
+  validateVariableValues(
+    templateVariables: TemplateVariable[],
+    values: Record<string, any>
+  ): VariableValidationResult {
+    const errors: string[] = [];
+    const validated: Record<string, any> = {};
+
+    templateVariables.forEach((variable) => {
+      const raw = values[variable.name];
+      const isEmpty = raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '');
+
+      if (isEmpty) {
+        if (variable.required && variable.default_value === undefined) {
+          errors.push(`${variable.name}: value is required`);
+        }
+        return;
+      }
+
+      switch (variable.type) {
+        case 'number': {
+          const num = typeof raw === 'number' ? raw : Number(String(raw).replace(/,/g, ''));
+          if (Number.isFinite(num)) {
+            validated[variable.name] = num;
+          } else {
+            errors.push(`${variable.name}: expected a number`);
+          }
+          break;
+        }
+        case 'boolean': {
+          const normalized = String(raw).trim().toLowerCase();
+          if (typeof raw === 'boolean' || ['true', 'false', 'yes', 'no'].includes(normalized)) {
+            validated[variable.name] = raw === true || normalized === 'true' || normalized === 'yes';
+          } else {
+            errors.push(`${variable.name}: expected true or false`);
+          }
+          break;
+        }
+        case 'date': {
+          if (Number.isNaN(Date.parse(String(raw)))) {
+            errors.push(`${variable.name}: expected a date`);
+          } else {
+            validated[variable.name] = String(raw).trim();
+          }
+          break;
+        }
+        case 'select': {
+          const match = (variable.options || []).find(
+            option => option.toLowerCase() === String(raw).trim().toLowerCase()
+          );
+          if (match) {
+            validated[variable.name] = match;
+          } else {
+            errors.push(`${variable.name}: must be one of ${(variable.options || []).join(', ')}`);
+          }
+          break;
+        }
+        default:
+          validated[variable.name] = String(raw).trim();
+      }
+    });
+
+    return { values: validated, errors };
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,82 @@
+// Shared text helpers for the local (no external API) analysis and retrieval services
+
+export const STOPWORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'doing', 'dont', 'down', 'each', 'even', 'for', 'from', 'get', 'got', 'had', 'has', 'have',
+  'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'i', 'if', 'im', 'in', 'into', 'is',
+  'it', 'its', 'ive', 'just', 'know', 'like', 'me', 'more', 'most', 'my', 'no', 'not', 'now', 'of',
+  'off', 'on', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 'really', 'said', 'say', 'she',
+  'so', 'some', 'than', 'that', 'thats', 'the', 'their', 'them', 'then', 'there', 'these', 'they',
+  'thing', 'things', 'think', 'this', 'those', 'through', 'to', 'too', 'um', 'uh', 'up', 'very',
+  'was', 'way', 'we', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why',
+  'will', 'with', 'would', 'yeah', 'you', 'your', 'youre'
+]);
+
+export const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+
+export const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+
+export const URL_PATTERN = /\bhttps?:\/\/[^\s]+/gi;
+
+// Lowercased word tokens; apostrophes are dropped so "don't" and "dont" match
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().replace(/['’]/g, '').match(/[a-z0-9]+/g) || []);
+}
+
+// Tokens with stopwords and very short words removed
+export function contentTokens(text: string): string[] {
+  return tokenize(text).filter(token => token.length > 2 && !STOPWORDS.has(token));
+}
+
+export interface SentenceSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Split into sentences, keeping character offsets into the original text
+export function splitSentences(text: string): SentenceSpan[] {
+  const sentences: SentenceSpan[] = [];
+  const pattern = /[^.!?\n]+[.!?]*/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const raw = match[0];
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed.length === 0) continue;
+
+    const start = match.index + leading;
+    sentences.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+
+  return sentences;
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A whole word or phrase, case-insensitively; letters and digits on either side mean it is part of a longer word
+export function termPattern(term: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(term.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}_])`, 'giu');
+}
+
+// Every match of the pattern with its offset, whether or not the pattern is global
+export function findAll(text: string, pattern: RegExp): Array<{ text: string; start: number; end: number }> {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+  return [...text.matchAll(new RegExp(pattern.source, flags))].map(match => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+}
+
+export function countBy<T>(items: T[]): Map<T, number> {
+  const counts = new Map<T, number>();
+  for (const item of items) {
+    counts.set(item, (counts.get(item) ?? 0) + 1);
+  }
+  return counts;
+}
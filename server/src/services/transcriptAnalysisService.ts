@@ -0,0 +1,412 @@
+import pool from '../Config/connection';
+import personaService, { PersonaRecord } from './personaService';
+import { EMOJI_PATTERN, STOPWORDS, SentenceSpan, contentTokens, countBy, splitSentences, tokenize } from './textUtils';
+
+export type ProposalStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface VoiceProposal {
+  signature_phrases: string[];
+  signature_vocabulary: string[];
+  sentence_style: 'short and punchy' | 'conversational' | 'long-form';
+  avg_sentence_length: number;
+  emoji_frequency: 'none' | 'light' | 'heavy';
+  slang_level: 'none' | 'light' | 'heavy';
+}
+
+export interface TranscriptAnalysis {
+  analyzed_at: string;
+  word_count: number;
+  sentence_count: number;
+  frequent_phrases: Array<{ phrase: string; count: number }>;
+  signature_vocabulary: Array<{ word: string; count: number }>;
+  sentence_length_profile: {
+    average: number;
+    median: number;
+    shortest: number;
+    longest: number;
+    distribution: { short: number; medium: number; long: number };
+  };
+  emoji_usage: { total: number; per_100_words: number; top: Array<{ emoji: string; count: number }> };
+  slang_usage: { total: number; per_100_words: number; terms: Array<{ term: string; count: number }> };
+  recurring_topics: Array<{ topic: string; mentions: number }>;
+  sample_quotes: string[];
+  proposed_updates: {
+    key_themes: string[];
+    voice_characteristics: VoiceProposal;
+  };
+  proposal_status: ProposalStatus;
+  proposal_reviewed_at?: string;
+  proposal_reviewed_by?: string;
+  proposal_applied_fields?: ProposalField[];
+}
+
+export type ProposalField = 'key_themes' | 'voice_characteristics';
+
+// A quotable line from the artist with its offsets into the transcript text
+export interface QuotableMoment extends SentenceSpan {
+  score: number;
+}
+
+export interface TranscriptRecord {
+  id: string;
+  persona_id: string;
+  transcript_text: string;
+  source_url: string | null;
+  source_type: string | null;
+  analysis_results: TranscriptAnalysis | null;
+  processed_at: Date | null;
+  created_at: Date;
+}
+
+// Interviewer/host lines are dropped so only the artist's own words are analyzed
+const INTERVIEWER_LABEL = /^\s*(q|question|interviewer|host|presenter|dj)\s*:/i;
+const SPEAKER_LABEL = /^\s*[A-Za-z][\w .'-]{0,30}:\s*/;
+
+const SLANG_TERMS = [
+  'aint', 'bet', 'bro', 'bruh', 'deadass', 'dope', 'fam', 'finna', 'fire', 'goat', 'gonna',
+  'gotta', 'highkey', 'kinda', 'lemme', 'lit', 'lowkey', 'nah', 'sorta', 'sus', 'vibe', 'vibes',
+  'vibing', 'wanna', 'yall', 'yo'
+];
+
+// Topic lexicon: a topic counts as recurring when its keywords show up repeatedly
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  touring: ['tour', 'touring', 'stage', 'show', 'shows', 'crowd', 'venue', 'road', 'festival', 'live'],
+  'studio life': ['studio', 'recording', 'producer', 'session', 'sessions', 'mix', 'beat', 'beats', 'demo'],
+  songwriting: ['write', 'writing', 'wrote', 'lyrics', 'song', 'songs', 'melody', 'verse', 'chorus'],
+  'new music': ['album', 'single', 'record', 'release', 'drop', 'ep', 'project', 'tracklist'],
+  fans: ['fans', 'fan', 'supporters', 'community', 'listeners', 'everybody', 'yall'],
+  family: ['family', 'mom', 'mother', 'dad', 'father', 'brother', 'sister', 'grandma', 'kids'],
+  hometown: ['hometown', 'home', 'city', 'neighborhood', 'grew', 'raised', 'streets'],
+  'mental health': ['anxiety', 'depression', 'therapy', 'healing', 'mental', 'struggle', 'struggled'],
+  love: ['love', 'heart', 'relationship', 'heartbreak', 'breakup', 'romance'],
+  faith: ['god', 'faith', 'church', 'pray', 'prayer', 'blessed', 'spiritual'],
+  hustle: ['grind', 'hustle', 'work', 'working', 'dream', 'dreams', 'goals', 'sacrifice'],
+  fashion: ['fashion', 'style', 'outfit', 'clothes', 'designer', 'merch']
+};
+
+const TOPIC_MIN_MENTIONS = 2;
+
+// Rough proxy for everyday English so "signature" words are the unusual ones
+const COMMON_WORDS = new Set([
+  'people', 'time', 'good', 'great', 'going', 'make', 'made', 'want', 'need', 'back', 'year', 'years',
+  'first', 'last', 'always', 'never', 'something', 'everything', 'nothing', 'right', 'life', 'feel',
+  'felt', 'lot', 'day', 'days', 'come', 'came', 'look', 'take', 'took', 'give', 'gave', 'many', 'much',
+  'still', 'every', 'talk', 'talking', 'tell', 'told', 'around', 'long', 'little', 'big', 'new', 'old',
+  'music', 'song', 'songs', 'kind', 'maybe', 'actually', 'definitely', 'probably', 'pretty', 'start',
+  'started', 'wanted', 'didnt', 'doesnt', 'cant', 'wasnt', 'isnt', 'youve', 'theyre', 'weve', 'hes',
+  'shes', 'lets', 'thank', 'thanks', 'okay', 'sure', 'able', 'whole', 'part', 'point', 'world'
+]);
+
+const EMOTIVE_WORDS = /\b(love|believe|never|always|dream|heart|real|truth|feel|fear|proud|grateful|remember|everything)\b/i;
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function topEntries(counts: Map<string, number>, limit: number, minCount = 1): Array<[string, number]> {
+  return [...counts.entries()]
+    .filter(([, count]) => count >= minCount)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit);
+}
+
+class TranscriptAnalysisService {
+  // Keep only the artist's speech when the transcript has speaker labels
+  extractArtistSpeech(text: string): string {
+    const lines = text.split(/\r?\n/);
+    const labelled = lines.filter(line => SPEAKER_LABEL.test(line)).length;
+
+    if (labelled < 2) return text;
+
+    return lines
+      .filter(line => !INTERVIEWER_LABEL.test(line))
+      .map(line => line.replace(SPEAKER_LABEL, ''))
+      .join('\n');
+  }
+
+  // The artist's sentences with offsets into the original transcript text
+  artistSentences(text: string): SentenceSpan[] {
+    const lines = text.split('\n');
+    const labelled = lines.filter(line => SPEAKER_LABEL.test(line)).length >= 2;
+    const sentences: SentenceSpan[] = [];
+    let offset = 0;
+
+    for (const line of lines) {
+      if (!labelled || !INTERVIEWER_LABEL.test(line)) {
+        const labelLength = labelled ? (line.match(SPEAKER_LABEL)?.[0].length ?? 0) : 0;
+        const lineStart = offset + labelLength;
+
+        for (const sentence of splitSentences(line.slice(labelLength))) {
+          if (tokenize(sentence.text).length === 0) continue;
+          sentences.push({
+            text: sentence.text,
+            start: lineStart + sentence.start,
+            end: lineStart + sentence.end
+          });
+        }
+      }
+      offset += line.length + 1;
+    }
+
+    return sentences;
+  }
+
+  // Run the full local analysis pass over a transcript
+  analyzeTranscript(transcriptText: string, persona?: Pick<PersonaRecord, 'key_themes'> | null): TranscriptAnalysis {
+    const speech = this.extractArtistSpeech(transcriptText);
+    const words = tokenize(speech);
+    const wordCount = words.length;
+    const sentences = splitSentences(speech).filter(sentence => tokenize(sentence.text).length > 0);
+
+    const frequentPhrases = this.findFrequentPhrases(words);
+    const signatureVocabulary = this.findSignatureVocabulary(speech);
+    const sentenceProfile = this.profileSentenceLengths(sentences.map(sentence => tokenize(sentence.text).length));
+
+    const emojiCounts = countBy(speech.match(EMOJI_PATTERN) || []);
+    const emojiTotal = [...emojiCounts.values()].reduce((sum, count) => sum + count, 0);
+
+    const slangCounts = countBy(words.filter(word => SLANG_TERMS.includes(word)));
+    const slangTotal = [...slangCounts.values()].reduce((sum, count) => sum + count, 0);
+
+    const per100 = (count: number) => (wordCount > 0 ? round((count / wordCount) * 100) : 0);
+
+    const recurringTopics = this.findRecurringTopics(words);
+    const existingThemes = (persona?.key_themes || []).map(theme => theme.toLowerCase());
+
+    return {
+      analyzed_at: new Date().toISOString(),
+      word_count: wordCount,
+      sentence_count: sentences.length,
+      frequent_phrases: frequentPhrases,
+      signature_vocabulary: signatureVocabulary,
+      sentence_length_profile: sentenceProfile,
+      emoji_usage: {
+        total: emojiTotal,
+        per_100_words: per100(emojiTotal),
+        top: topEntries(emojiCounts, 5).map(([emoji, count]) => ({ emoji, count }))
+      },
+      slang_usage: {
+        total: slangTotal,
+        per_100_words: per100(slangTotal),
+        terms: topEntries(slangCounts, 10).map(([term, count]) => ({ term, count }))
+      },
+      recurring_topics: recurringTopics,
+      sample_quotes: this.pickSampleQuotes(sentences.map(sentence => sentence.text)),
+      proposed_updates: {
+        key_themes: recurringTopics
+          .map(topic => topic.topic)
+          .filter(topic => !existingThemes.includes(topic))
+          .slice(0, 5),
+        voice_characteristics: {
+          signature_phrases: frequentPhrases.slice(0, 5).map(phrase => phrase.phrase),
+          signature_vocabulary: signatureVocabulary.slice(0, 8).map(entry => entry.word),
+          sentence_style: sentenceProfile.average <= 10
+            ? 'short and punchy'
+            : sentenceProfile.average <= 20 ? 'conversational' : 'long-form',
+          avg_sentence_length: sentenceProfile.average,
+          emoji_frequency: emojiTotal === 0 ? 'none' : per100(emojiTotal) < 2 ? 'light' : 'heavy',
+          slang_level: slangTotal === 0 ? 'none' : per100(slangTotal) < 2 ? 'light' : 'heavy'
+        }
+      },
+      proposal_status: 'pending'
+    };
+  }
+
+  // Repeated 2- and 3-word phrases that don't start or end on a filler word
+  private findFrequentPhrases(words: string[]): Array<{ phrase: string; count: number }> {
+    const phrases: string[] = [];
+
+    for (const size of [2, 3]) {
+      for (let i = 0; i + size <= words.length; i++) {
+        const gram = words.slice(i, i + size);
+        if (STOPWORDS.has(gram[0]!) || STOPWORDS.has(gram[size - 1]!)) continue;
+        phrases.push(gram.join(' '));
+      }
+    }
+
+    const counts = countBy(phrases);
+
+    // Drop 2-word phrases that only ever appear inside a more frequent 3-word phrase
+    const result = topEntries(counts, 20, 2).filter(([phrase, count]) =>
+      phrase.split(' ').length === 3 ||
+      ![...counts.entries()].some(([other, otherCount]) =>
+        other !== phrase && other.includes(phrase) && otherCount >= count
+      )
+    );
+
+    return result.slice(0, 10).map(([phrase, count]) => ({ phrase, count }));
+  }
+
+  private findSignatureVocabulary(text: string): Array<{ word: string; count: number }> {
+    const counts = countBy(contentTokens(text).filter(word => !COMMON_WORDS.has(word) && !/^\d+$/.test(word)));
+    return topEntries(counts, 15, 2).map(([word, count]) => ({ word, count }));
+  }
+
+  private profileSentenceLengths(lengths: number[]): TranscriptAnalysis['sentence_length_profile'] {
+    if (lengths.length === 0) {
+      return { average: 0, median: 0, shortest: 0, longest: 0, distribution: { short: 0, medium: 0, long: 0 } };
+    }
+
+    const sorted = [...lengths].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 === 0
+      ? (sorted[middle - 1]! + sorted[middle]!) / 2
+      : sorted[middle]!;
+
+    return {
+      average: round(lengths.reduce((sum, length) => sum + length, 0) / lengths.length, 1),
+      median,
+      shortest: sorted[0]!,
+      longest: sorted[sorted.length - 1]!,
+      distribution: {
+        short: lengths.filter(length => length <= 8).length,
+        medium: lengths.filter(length => length > 8 && length <= 20).length,
+        long: lengths.filter(length => length > 20).length
+      }
+    };
+  }
+
+  private findRecurringTopics(words: string[]): Array<{ topic: string; mentions: number }> {
+    const wordCounts = countBy(words);
+
+    return Object.entries(TOPIC_KEYWORDS)
+      .map(([topic, keywords]) => ({
+        topic,
+        mentions: keywords.reduce((sum, keyword) => sum + (wordCounts.get(keyword) ?? 0), 0)
+      }))
+      .filter(topic => topic.mentions >= TOPIC_MIN_MENTIONS)
+      .sort((a, b) => b.mentions - a.mentions);
+  }
+
+  // First-person, emotive, mid-length sentences make the best quotes; 0 means not quotable
+  private quoteScore(sentence: string): number {
+    const length = tokenize(sentence).length;
+    if (length < 6 || length > 35) return 0;
+
+    let score = 0;
+    if (/\b(i|i'm|im|my|me|we|our)\b/i.test(sentence)) score += 2;
+    if (EMOTIVE_WORDS.test(sentence)) score += 2;
+    if (/!/.test(sentence)) score += 1;
+    if (length >= 10 && length <= 25) score += 1;
+    return score;
+  }
+
+  // Highest scoring entries first (stable, so earlier ones win ties), repeated wording dropped
+  private rankQuotes<T extends { text: string; score: number }>(entries: T[], limit: number): T[] {
+    const seen = new Set<string>();
+    return entries
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .filter(entry => {
+        const key = entry.text.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit);
+  }
+
+  private pickSampleQuotes(sentences: string[]): string[] {
+    return this.rankQuotes(sentences.map(text => ({ text, score: this.quoteScore(text) })), 5).map(entry => entry.text);
+  }
+
+  // The artist's most quotable lines, with offsets so generated posts can point back to the source
+  findQuotableMoments(text: string, limit: number): QuotableMoment[] {
+    const sentences = this.artistSentences(text).map(sentence => ({ ...sentence, score: this.quoteScore(sentence.text) }));
+    return this.rankQuotes(sentences, limit);
+  }
+
+  // Get a transcript only if its persona belongs to the user
+  async getTranscriptForUser(transcriptId: string, userId: string): Promise<TranscriptRecord | null> {
+    const query = `
+      SELECT pt.*
+      FROM persona_transcripts pt
+      JOIN artist_personas p ON pt.persona_id = p.id
+      JOIN artists a ON p.artist_id = a.id
+      WHERE pt.id = $1 AND a.user_id = $2
+    `;
+    const result = await pool.query(query, [transcriptId, userId]);
+    return result.rows[0] || null;
+  }
+
+  async saveAnalysis(transcriptId: string, analysis: TranscriptAnalysis): Promise<void> {
+    const query = `
+      UPDATE persona_transcripts
+      SET analysis_results = $2, processed_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `;
+    await pool.query(query, [transcriptId, JSON.stringify(analysis)]);
+  }
+
+  // Apply the proposed theme/voice updates to the transcript's persona
+  async acceptProposal(
+    transcript: TranscriptRecord,
+    userId: string,
+    fields: ProposalField[]
+  ): Promise<{ persona: PersonaRecord; analysis: TranscriptAnalysis }> {
+    const analysis = transcript.analysis_results as TranscriptAnalysis;
+    const current = await pool.query(
+      'SELECT key_themes, voice_characteristics FROM artist_personas WHERE id = $1',
+      [transcript.persona_id]
+    );
+    const persona = current.rows[0] || {};
+
+    const existingThemes: string[] = persona.key_themes || [];
+    const keyThemes = fields.includes('key_themes')
+      ? [...existingThemes, ...analysis.proposed_updates.key_themes.filter(theme => !existingThemes.includes(theme))]
+      : existingThemes;
+
+    const voiceCharacteristics = fields.includes('voice_characteristics')
+      ? { ...(persona.voice_characteristics || {}), ...analysis.proposed_updates.voice_characteristics }
+      : persona.voice_characteristics ?? null;
+
+    const updateQuery = `
+      UPDATE artist_personas
+      SET key_themes = $2, voice_characteristics = $3, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `;
+    const { result: updated } = await personaService.updateWithVersion(
+      transcript.persona_id,
+      userId,
+      'transcript',
+      client => client.query(updateQuery, [
+        transcript.persona_id,
+        keyThemes,
+        voiceCharacteristics !== null ? JSON.stringify(voiceCharacteristics) : null
+      ]),
+      `Accepted transcript analysis proposal (${fields.join(', ')})`
+    );
+
+    const reviewed = this.markReviewed(analysis, 'accepted', userId, fields);
+    await this.saveAnalysis(transcript.id, reviewed);
+
+    return { persona: updated.rows[0], analysis: reviewed };
+  }
+
+  async rejectProposal(transcript: TranscriptRecord, userId: string): Promise<TranscriptAnalysis> {
+    const reviewed = this.markReviewed(transcript.analysis_results as TranscriptAnalysis, 'rejected', userId);
+    await this.saveAnalysis(transcript.id, reviewed);
+    return reviewed;
+  }
+
+  private markReviewed(
+    analysis: TranscriptAnalysis,
+    status: ProposalStatus,
+    userId: string,
+    fields?: ProposalField[]
+  ): TranscriptAnalysis {
+    return {
+      ...analysis,
+      proposal_status: status,
+      proposal_reviewed_at: new Date().toISOString(),
+      proposal_reviewed_by: userId,
+      ...(fields ? { proposal_applied_fields: fields } : {})
+    };
+  }
+}
+
+// Export singleton instance
+export const transcriptAnalysisService = new TranscriptAnalysisService();
+export default transcriptAnalysisService;
@@ -0,0 +1,126 @@
+import pool from '../Config/connection';
+import Bm25Index from './bm25Index';
+import transcriptAnalysisService from './transcriptAnalysisService';
+import { tokenize } from './textUtils';
+
+export interface TranscriptChunk {
+  transcript_id: string;
+  chunk_index: number;
+  text: string;
+  start: number;
+  end: number;
+  source_type: string | null;
+  source_url: string | null;
+}
+
+export interface VoiceExample extends TranscriptChunk {
+  score: number;
+}
+
+interface TranscriptSource {
+  id: string;
+  transcript_text: string;
+  source_type: string | null;
+  source_url: string | null;
+}
+
+interface CachedIndex {
+  signature: string;
+  index: Bm25Index<TranscriptChunk>;
+}
+
+// Chunks are built from whole sentences up to roughly this many words
+const CHUNK_TARGET_WORDS = parseInt(process.env.TRANSCRIPT_CHUNK_WORDS || '60');
+const MAX_EXAMPLE_CHARS = 400;
+
+class TranscriptRetrievalService {
+  private indexes = new Map<string, CachedIndex>();
+
+  // Split a transcript into sentence-aligned chunks, overlapping by one sentence
+  chunkTranscript(transcript: TranscriptSource): TranscriptChunk[] {
+    const sentences = transcriptAnalysisService.artistSentences(transcript.transcript_text);
+    const chunks: TranscriptChunk[] = [];
+    let startSentence = 0;
+
+    while (startSentence < sentences.length) {
+      let endSentence = startSentence;
+      let words = 0;
+
+      while (endSentence < sentences.length && (words === 0 || words < CHUNK_TARGET_WORDS)) {
+        words += tokenize(sentences[endSentence]!.text).length;
+        endSentence++;
+      }
+
+      const group = sentences.slice(startSentence, endSentence);
+      chunks.push({
+        transcript_id: transcript.id,
+        chunk_index: chunks.length,
+        text: group.map(sentence => sentence.text).join(' '),
+        start: group[0]!.start,
+        end: group[group.length - 1]!.end,
+        source_type: transcript.source_type,
+        source_url: transcript.source_url
+      });
+
+      if (endSentence >= sentences.length) break;
+      startSentence = endSentence - 1 > startSentence ? endSentence - 1 : endSentence;
+    }
+
+    return chunks;
+  }
+
+  // Build (or reuse) the persona's index; rebuilt whenever its transcripts change
+  async getIndex(personaId: string): Promise<Bm25Index<TranscriptChunk>> {
+    const result = await pool.query(
+      `SELECT id, transcript_text, source_type, source_url
+       FROM persona_transcripts
+       WHERE persona_id = $1
+       ORDER BY created_at`,
+      [personaId]
+    );
+    const transcripts: TranscriptSource[] = result.rows;
+    const signature = transcripts.map(t => `${t.id}:${t.transcript_text?.length ?? 0}`).join('|');
+
+    const cached = this.indexes.get(personaId);
+    if (cached && cached.signature === signature) {
+      return cached.index;
+    }
+
+    const index = new Bm25Index<TranscriptChunk>(
+      transcripts
+        .filter(transcript => transcript.transcript_text)
+        .flatMap(transcript => this.chunkTranscript(transcript))
+        .map(chunk => ({ text: chunk.text, payload: chunk }))
+    );
+
+    this.indexes.set(personaId, { signature, index });
+    return index;
+  }
+
+  // Most relevant transcript passages for a generation request
+  async retrieveVoiceExamples(personaId: string, query: string, limit = 3): Promise<VoiceExample[]> {
+    if (limit <= 0 || !query.trim()) return [];
+
+    const index = await this.getIndex(personaId);
+
+    return index.search(query, limit).map(match => ({
+      ...match.payload,
+      text: match.payload.text.length > MAX_EXAMPLE_CHARS
+        ? `${match.payload.text.slice(0, MAX_EXAMPLE_CHARS).replace(/\s+\S*$/, '')}...`
+        : match.payload.text,
+      score: Math.round(match.score * 1000) / 1000
+    }));
+  }
+
+  clearIndex(personaId?: string): void {
+    if (personaId) {
+      this.indexes.delete(personaId);
+    } else {
+      this.indexes.clear();
+    }
+  }
+}
+
+// Export singleton instance
+export const transcriptRetrievalService = new TranscriptRetrievalService();
+export default transcriptRetrievalService;